@@ -0,0 +1,172 @@
+import dotenv from "dotenv";
+import { mkdirSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { loadKlinesFile } from "./src/backtest/data";
+import type { MakerStrategy } from "./src/backtest/maker-simulator";
+import type { BacktestStrategy } from "./src/backtest/runner";
+import { formatNumber } from "./src/utils/format";
+
+/**
+ * K线回测入口
+ * 使用方法:
+ * npm run backtest -- --file=data/BTCUSDT-1m.csv
+ * npm run backtest -- --file=data/BTCUSDT-1m.json --strategy=enhanced --interval=1m --balance=1000
+ * 可选参数: --config=config/.env.bnb --symbol=BTCUSDT --leverage=10 --poll=500 --warmup=30 --out=reports/backtest.json
+ *
+ * 做市回放（使用录制的盘口与成交，按排队位置撮合）:
+ * npm run backtest -- --strategy=maker --file=recordings/BTCUSDT.ndjson --bid-offset=0.1 --ask-offset=0.1 --chase=0.3
+ * 可选参数: --strategy=maker|offset-maker --markout=5000 --maker-fee=0.0002 --taker-fee=0.0004
+ */
+
+function parseArgs(): Record<string, string> {
+  const options: Record<string, string> = {};
+  for (const arg of process.argv.slice(2)) {
+    const match = /^--([^=]+)=(.*)$/.exec(arg);
+    if (match && match[1]) {
+      options[match[1]] = match[2] ?? "";
+    }
+  }
+  return options;
+}
+
+function parseStrategy(value: string | undefined): BacktestStrategy {
+  if (!value || value === "trend") return "trend";
+  if (value === "enhanced" || value === "enhanced-trend") return "enhanced";
+  throw new Error(`未知策略: ${value}（可选 trend / enhanced / maker / offset-maker）`);
+}
+
+function parseMakerStrategy(value: string | undefined): MakerStrategy | null {
+  if (value === "maker") return "maker";
+  if (value === "offset" || value === "offset-maker") return "offset";
+  return null;
+}
+
+function optionalNumber(value: string | undefined): number | undefined {
+  if (value == null || value === "") return undefined;
+  const next = Number(value);
+  return Number.isFinite(next) ? next : undefined;
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace("T", " ").slice(0, 19);
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs();
+  if (!args.file) {
+    console.error("❌ 缺少 --file 参数，例如: npm run backtest -- --file=data/BTCUSDT-1m.csv");
+    process.exit(1);
+  }
+  // 配置在导入时读取环境变量，需先加载配置文件再导入
+  dotenv.config(args.config ? { path: args.config } : undefined);
+  const makerStrategy = parseMakerStrategy(args.strategy);
+  if (makerStrategy) {
+    await runMaker(args, makerStrategy);
+    process.exit(0);
+  }
+  const { tradingConfig: baseConfig } = await import("./src/config");
+  const { runBacktest } = await import("./src/backtest/runner");
+  const strategy = parseStrategy(args.strategy);
+  const symbol = (args.symbol ?? baseConfig.symbol).toUpperCase();
+  const interval = args.interval ?? baseConfig.klineInterval;
+  const config = {
+    ...baseConfig,
+    symbol,
+    pollIntervalMs: optionalNumber(args.poll) ?? baseConfig.pollIntervalMs,
+  };
+
+  const klines = loadKlinesFile(args.file, symbol, interval);
+  console.log(`📂 已加载 ${klines.length} 根 ${symbol} ${interval} K线: ${args.file}`);
+
+  const result = await runBacktest({
+    strategy,
+    klines,
+    interval,
+    config,
+    initialBalance: optionalNumber(args.balance),
+    leverage: optionalNumber(args.leverage),
+    warmupBars: optionalNumber(args.warmup),
+  });
+  const { metrics } = result;
+
+  console.log("\n📊 回测结果");
+  console.log(`   策略: ${strategy === "enhanced" ? "增强趋势 (KDJ/RSI)" : "趋势跟随 (SMA30)"}`);
+  console.log(`   区间: ${formatTime(result.startTime)} → ${formatTime(result.endTime)} (${result.bars} 根K线)`);
+  console.log(`   初始资金: ${formatNumber(metrics.initialBalance, 2)} → 最终权益: ${formatNumber(metrics.finalEquity, 2)}`);
+  console.log(`   净收益: ${formatNumber(metrics.netProfit, 4)} (${formatNumber(metrics.returnPct, 2)}%)`);
+  console.log(`   交易次数: ${metrics.totalTrades} (盈 ${metrics.winningTrades} / 亏 ${metrics.losingTrades})`);
+  console.log(`   胜率: ${formatNumber(metrics.winRate * 100, 2)}%`);
+  console.log(`   最大回撤: ${formatNumber(metrics.maxDrawdown, 4)} (${formatNumber(metrics.maxDrawdownPct, 2)}%)`);
+  console.log(`   夏普比率: ${formatNumber(metrics.sharpe, 3)}`);
+  console.log(`   手续费合计: ${formatNumber(metrics.totalFees, 4)} (成交额 ${formatNumber(metrics.totalVolume, 2)})`);
+  if (Math.abs(result.openPositionAmt) > 1e-8) {
+    console.log(`   ⚠️ 回测结束时仍有未平仓位 ${result.openPositionAmt}，已按收盘价计入权益`);
+  }
+
+  if (result.trades.length > 0) {
+    console.log("\n📝 最近交易");
+    for (const trade of result.trades.slice(-10)) {
+      console.log(
+        `   ${formatTime(trade.entryTime)} ${trade.direction === "long" ? "多" : "空"} ${trade.quantity} @ ${formatNumber(trade.entryPrice, 4)} → ${formatNumber(trade.exitPrice, 4)}  净盈亏 ${formatNumber(trade.netPnl, 4)}`
+      );
+    }
+  }
+
+  if (args.out) {
+    mkdirSync(dirname(args.out), { recursive: true });
+    writeFileSync(args.out, JSON.stringify(result, null, 2));
+    console.log(`\n💾 完整结果已写入 ${args.out}`);
+  }
+  process.exit(0);
+}
+
+async function runMaker(args: Record<string, string>, strategy: MakerStrategy): Promise<void> {
+  const { makerConfig } = await import("./src/config");
+  const { extractMakerEvents, runMakerSimulation } = await import("./src/backtest/maker-simulator");
+  const { loadRecording } = await import("./src/exchanges/recording-adapter");
+  const config = {
+    ...makerConfig,
+    symbol: (args.symbol ?? makerConfig.symbol).toUpperCase(),
+    bidOffset: optionalNumber(args["bid-offset"]) ?? makerConfig.bidOffset,
+    askOffset: optionalNumber(args["ask-offset"]) ?? makerConfig.askOffset,
+    priceChaseThreshold: optionalNumber(args.chase) ?? makerConfig.priceChaseThreshold,
+  };
+  const events = extractMakerEvents(loadRecording(args.file!), config.symbol);
+  console.log(`📂 已加载 ${events.length} 条 ${config.symbol} 盘口/成交事件: ${args.file}`);
+
+  const result = await runMakerSimulation({
+    strategy,
+    config,
+    events,
+    initialBalance: optionalNumber(args.balance),
+    leverage: optionalNumber(args.leverage),
+    makerFeeRate: optionalNumber(args["maker-fee"]),
+    takerFeeRate: optionalNumber(args["taker-fee"]),
+    markoutMs: optionalNumber(args.markout),
+  });
+  const { metrics } = result;
+
+  console.log("\n📊 做市回放结果");
+  console.log(`   策略: ${strategy === "offset" ? "偏移做市" : "做市"} bidOffset=${config.bidOffset} askOffset=${config.askOffset} priceChase=${config.priceChaseThreshold}`);
+  console.log(`   区间: ${formatTime(result.startTime)} → ${formatTime(result.endTime)} (${result.events} 条事件)`);
+  console.log(`   报价: ${metrics.quotesPlaced} 笔 (GTX 拒绝 ${metrics.quotesRejected}，成交 ${metrics.quotesFilled})`);
+  console.log(`   成交率: ${formatNumber(metrics.fillRate * 100, 2)}% (数量 ${formatNumber(metrics.filledQuantity, 4)} / ${formatNumber(metrics.quotedQuantity, 4)})`);
+  console.log(`   成交额: Maker ${formatNumber(metrics.makerVolume, 2)} / Taker ${formatNumber(metrics.takerVolume, 2)}`);
+  console.log(`   逆向选择: ${formatNumber(metrics.adverseSelection, 6)} (${formatNumber(metrics.adverseSelectionBps, 2)} bps)`);
+  console.log(`   价差收益: ${formatNumber(metrics.spreadPnl, 4)}  库存盈亏: ${formatNumber(metrics.inventoryPnl, 4)}`);
+  console.log(`   手续费: ${formatNumber(metrics.fees, 4)}  净盈亏: ${formatNumber(metrics.netPnl, 4)}`);
+  if (Math.abs(metrics.finalPosition) > 1e-8) {
+    console.log(`   ⚠️ 回放结束时仍有持仓 ${metrics.finalPosition}，已按最后中间价计入库存盈亏`);
+  }
+
+  if (args.out) {
+    mkdirSync(dirname(args.out), { recursive: true });
+    writeFileSync(args.out, JSON.stringify(result, null, 2));
+    console.log(`\n💾 完整结果已写入 ${args.out}`);
+  }
+}
+
+main().catch((error) => {
+  console.error("❌ 回测失败:", error);
+  process.exit(1);
+});
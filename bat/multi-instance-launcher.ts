@@ -1,12 +1,12 @@
 #!/usr/bin/env node
 import { ConfigManager } from '../src/config-manager.ts';
 import { EnhancedTrendEngine } from '../src/core/enhanced-trend-engine.ts';
-import { MakerEngine } from '../src/core/maker-engine.ts';
-import { OffsetMakerEngine } from '../src/core/offset-maker-engine.ts';
-import { AsterExchangeAdapter } from '../src/exchanges/aster-adapter.ts';
+import type { StrategyEngine } from '../src/core/base-engine.ts';
+import { createExchangeAdapter } from '../src/exchanges/create-adapter.ts';
+import { loadPaperTradingConfig, parseTradingMode, type TradingMode } from '../src/config.ts';
 import { ApiCredentialsFactory } from '../src/api-credentials-factory.ts';
-import type { KlineManagerConfig } from '../src/utils/redis-kline-manager.ts';
-import type { MarketAnalyzerConfig } from '../src/utils/market-analyzer.ts';
+import { loadStrategyRegistry } from '../src/strategies/registry.ts';
+import type { StrategyPlugin } from '../src/strategies/types.ts';
 import readline from 'readline';
 
 /**
@@ -17,50 +17,38 @@ import readline from 'readline';
  * npm run start:bnb-sol    # 启动BNB-SOL实例
  * npm run start:bnb-aster  # 启动BNB-ASTER实例
  * npm run start:custom -- --config=.env.custom  # 自定义配置
+ * npm run start:bnb -- --mode=paper    # 以模拟盘启动（实时行情，本地撮合）
  */
 
-interface StrategyOption {
-  id: string;
+interface TradingModeOption {
+  id: TradingMode;
   name: string;
   description: string;
-  enhanced?: boolean;
 }
 
-const STRATEGY_OPTIONS: StrategyOption[] = [
+const TRADING_MODE_OPTIONS: TradingModeOption[] = [
   {
-    id: 'trend',
-    name: '趋势跟随策略 (SMA30)',
-    description: '监控均线信号，自动进出场并维护止损/止盈',
-    enhanced: false
+    id: 'live',
+    name: '实盘交易',
+    description: '使用API密钥在交易所真实下单'
   },
   {
-    id: 'enhanced-trend', 
-    name: '增强趋势策略 (Redis+KDJ/RSI)',
-    description: '基于Redis缓存的K线数据，使用KDJ/RSI技术指标进行智能分析',
-    enhanced: true
-  },
-  {
-    id: 'maker',
-    name: '做市刷单策略',
-    description: '双边挂单提供流动性，自动追价与风控止损',
-    enhanced: false
-  },
-  {
-    id: 'offset-maker',
-    name: '偏移做市策略', 
-    description: '根据盘口深度自动偏移挂单并在极端不平衡时撤退',
-    enhanced: false
+    id: 'paper',
+    name: '模拟盘',
+    description: '订阅实时行情，订单仅在本地撮合，不会动用资金'
   }
 ];
 
 class MultiInstanceLauncher {
   private configManager: ConfigManager;
   private apiCredentialsFactory: ApiCredentialsFactory;
-  private engine?: EnhancedTrendEngine | MakerEngine | OffsetMakerEngine;
+  private engine?: StrategyEngine;
   private instanceName: string;
   private rl: readline.Interface;
+  private presetMode?: TradingMode;
 
-  constructor(configFile?: string) {
+  constructor(configFile?: string, mode?: TradingMode) {
+    this.presetMode = mode;
     this.configManager = new ConfigManager(configFile);
     this.apiCredentialsFactory = new ApiCredentialsFactory();
     this.instanceName = this.configManager.getInstanceName();
@@ -74,33 +62,35 @@ class MultiInstanceLauncher {
   /**
    * 显示策略选择菜单
    */
-  private async showStrategySelection(): Promise<StrategyOption> {
+  private async showStrategySelection(): Promise<StrategyPlugin> {
+    // 策略列表来自插件目录（内置插件 + STRATEGY_PLUGIN_DIR）
+    const registry = await loadStrategyRegistry();
+    const strategies = registry.list();
+    if (strategies.length === 0) {
+      throw new Error('未发现可用的策略插件');
+    }
+
     console.log(`\n🚀 === ${this.instanceName.toUpperCase()} 交易实例 ===`);
     console.log('📋 请选择交易策略:\n');
     
-    STRATEGY_OPTIONS.forEach((strategy, index) => {
+    strategies.forEach((strategy, index) => {
       console.log(`${index + 1}. ${strategy.name}`);
       console.log(`   ${strategy.description}`);
-      if (strategy.enhanced) {
-        console.log(`   ⚡ 需要Redis支持`);
+      if (strategy.requirements?.length) {
+        console.log(`   ⚡ 需要${strategy.requirements.join('/')}支持`);
       }
       console.log('');
     });
 
     return new Promise((resolve) => {
       const askStrategy = () => {
-        this.rl.question('请输入策略编号 (1-4): ', (answer) => {
+        this.rl.question(`请输入策略编号 (1-${strategies.length}): `, (answer) => {
           const choice = parseInt(answer.trim());
-          if (choice >= 1 && choice <= STRATEGY_OPTIONS.length) {
-            const selectedStrategy = STRATEGY_OPTIONS[choice - 1];
-            if (selectedStrategy) {
-              resolve(selectedStrategy);
-            } else {
-              console.log('❌ 无效的选择，请输入 1-4');
-              askStrategy();
-            }
+          const selectedStrategy = strategies[choice - 1];
+          if (selectedStrategy) {
+            resolve(selectedStrategy);
           } else {
-            console.log('❌ 无效的选择，请输入 1-4');
+            console.log(`❌ 无效的选择，请输入 1-${strategies.length}`);
             askStrategy();
           }
         });
@@ -110,74 +100,36 @@ class MultiInstanceLauncher {
   }
 
   /**
-   * 创建增强趋势引擎的默认配置
+   * 选择交易模式（命令行 --mode 或 TRADING_MODE 已指定时跳过）
    */
-  private createEnhancedConfigs(): { klineConfig: KlineManagerConfig; analyzerConfig: MarketAnalyzerConfig } {
-    const klineConfig: KlineManagerConfig = {
-      redisHost: process.env.REDIS_HOST || 'localhost',
-      redisPort: parseInt(process.env.REDIS_PORT || '6379'),
-      redisPassword: process.env.REDIS_PASSWORD,
-      cacheTtl: parseInt(process.env.REDIS_TTL || '3600'),
-      keyPrefix: process.env.REDIS_KLINE_KEY_PREFIX || 'kline:',
-      maxKlines: parseInt(process.env.REDIS_KLINE_MAX_COUNT || '1000')
-    };
-
-    const analyzerConfig: MarketAnalyzerConfig = {
-      kdjPeriod: parseInt(process.env.TECHNICAL_KDJ_PERIOD || '14'),
-      rsiPeriod: parseInt(process.env.TECHNICAL_RSI_PERIOD || '14'),
-      volumeMaPeriod: parseInt(process.env.TECHNICAL_VOLUME_PERIOD || '20'),
-      priceRangePeriod: parseInt(process.env.TECHNICAL_PRICE_RANGE_PERIOD || '180'),
-      priceRangeHours: parseInt(process.env.TECHNICAL_PRICE_RANGE_HOURS || '3'),
-      volatilityPeriod: parseInt(process.env.TECHNICAL_VOLATILITY_PERIOD || '20'),
-      overboughtLevel: parseFloat(process.env.TECHNICAL_RSI_OVERBOUGHT || '70'),
-      oversoldLevel: parseFloat(process.env.TECHNICAL_RSI_OVERSOLD || '30'),
-      highVolumeThreshold: parseFloat(process.env.TECHNICAL_HIGH_VOLUME_THRESHOLD || '1.5'),
-      minVolumeRatio: parseFloat(process.env.TECHNICAL_MIN_VOLUME_RATIO || '0.8'),
-      confidenceThreshold: parseFloat(process.env.TECHNICAL_CONFIDENCE_THRESHOLD || '0.7'),
-      cacheTTL: parseInt(process.env.TECHNICAL_CACHE_TTL || '300')
-    };
+  private async showModeSelection(): Promise<TradingMode> {
+    const preset = this.presetMode ?? (process.env.TRADING_MODE ? parseTradingMode(process.env.TRADING_MODE) : undefined);
+    if (preset) {
+      return preset;
+    }
 
-    return { klineConfig, analyzerConfig };
-  }
+    console.log('📋 请选择交易模式:\n');
+    TRADING_MODE_OPTIONS.forEach((option, index) => {
+      console.log(`${index + 1}. ${option.name}`);
+      console.log(`   ${option.description}`);
+      console.log('');
+    });
 
-  /**
-   * 创建对应的交易引擎
-   */
-  private createEngine(strategy: StrategyOption, config: any, exchange: AsterExchangeAdapter): EnhancedTrendEngine | MakerEngine | OffsetMakerEngine {
-    switch (strategy.id) {
-      case 'trend':
-        return new EnhancedTrendEngine(
-          config,
-          exchange,
-          undefined, // klineConfig
-          undefined, // analyzerConfig  
-          false      // 禁用增强模式
-        );
-      
-      case 'enhanced-trend':
-        const { klineConfig, analyzerConfig } = this.createEnhancedConfigs();
-        console.log('🔧 增强趋势引擎配置:');
-        console.log(`   Redis: ${klineConfig.redisHost}:${klineConfig.redisPort}`);
-        console.log(`   KDJ周期: ${analyzerConfig.kdjPeriod}, RSI周期: ${analyzerConfig.rsiPeriod}`);
-        console.log(`   置信度阈值: ${(analyzerConfig.confidenceThreshold * 100).toFixed(1)}%`);
-        
-        return new EnhancedTrendEngine(
-          config,
-          exchange,
-          klineConfig,     // 完整的K线管理配置
-          analyzerConfig,  // 完整的技术分析配置 
-          true            // 启用增强模式
-        );
-      
-      case 'maker':
-        return new MakerEngine(config, exchange);
-      
-      case 'offset-maker':
-        return new OffsetMakerEngine(config, exchange);
-      
-      default:
-        throw new Error(`未知的策略类型: ${strategy.id}`);
-    }
+    return new Promise((resolve) => {
+      const askMode = () => {
+        this.rl.question(`请输入模式编号 (1-${TRADING_MODE_OPTIONS.length}): `, (answer) => {
+          const choice = parseInt(answer.trim());
+          const selectedMode = TRADING_MODE_OPTIONS[choice - 1];
+          if (selectedMode) {
+            resolve(selectedMode.id);
+          } else {
+            console.log(`❌ 无效的选择，请输入 1-${TRADING_MODE_OPTIONS.length}`);
+            askMode();
+          }
+        });
+      };
+      askMode();
+    });
   }
 
   /**
@@ -189,6 +141,10 @@ class MultiInstanceLauncher {
       const selectedStrategy = await this.showStrategySelection();
       console.log(`✅ 已选择策略: ${selectedStrategy.name}\n`);
 
+      const mode = await this.showModeSelection();
+      const modeName = TRADING_MODE_OPTIONS.find((option) => option.id === mode)?.name ?? mode;
+      console.log(`✅ 交易模式: ${modeName}\n`);
+
       console.log(`\n🚀 === 启动 ${this.instanceName.toUpperCase()} 交易实例 ===`);
       
       // 验证基础配置
@@ -223,32 +179,41 @@ class MultiInstanceLauncher {
       console.log('📋 获取交易配置...');
       const config = this.configManager.getConfig();
       console.log(`✅ 交易配置: ${config.symbol}, 数量: ${config.tradeAmount}`);
+      // 策略配置在实例配置文件载入后按插件声明重新读取
+      const strategyConfig = selectedStrategy.config.load(process.env);
 
       // 获取实例名称（用于API配置路由）
       const instanceName = this.deriveInstanceName();
       console.log(`🔧 检测到实例类型: ${instanceName}`);
 
-      // 创建API凭据
-      console.log('🔑 创建API凭据...');
-      const credentials = this.apiCredentialsFactory.createAsterCredentials(instanceName, config.symbol);
-      
-      if (!credentials.apiKey || !credentials.apiSecret) {
-        console.error('❌ API凭据缺失，请检查配置文件或环境变量');
-        this.rl.close();
-        process.exit(1);
-      }
-      console.log(`✅ API凭据创建成功: ${credentials.apiKey.slice(0, 8)}...`);
-
-      // 创建交易所适配器
+      // 创建交易所适配器（模拟盘无需API凭据）
+      let apiKeyHint = '模拟盘无需API';
       console.log('📡 创建交易所适配器...');
-      const exchange = new AsterExchangeAdapter(credentials);
+      const exchange = createExchangeAdapter({
+        mode,
+        symbol: config.symbol,
+        paper: loadPaperTradingConfig(),
+        resolveCredentials: () => {
+          console.log('🔑 创建API凭据...');
+          const credentials = this.apiCredentialsFactory.createAsterCredentials(instanceName, config.symbol);
+
+          if (!credentials.apiKey || !credentials.apiSecret) {
+            console.error('❌ API凭据缺失，请检查配置文件或环境变量');
+            this.rl.close();
+            process.exit(1);
+          }
+          apiKeyHint = `${credentials.apiKey.slice(0, 8)}...`;
+          console.log(`✅ API凭据创建成功: ${apiKeyHint}`);
+          return credentials;
+        },
+      });
       console.log(`✅ 交易所适配器创建成功: ${exchange.id}`);
 
       console.log('📡 连接交易所...');
       
       // 创建对应的引擎
       console.log(`⚙️ 创建 ${selectedStrategy.name}...`);
-      this.engine = this.createEngine(selectedStrategy, config, exchange);
+      this.engine = selectedStrategy.createEngine(strategyConfig, exchange);
       console.log('✅ 交易引擎创建成功');
 
       // 关闭readline接口
@@ -276,9 +241,12 @@ class MultiInstanceLauncher {
       console.log(`✅ ${this.instanceName.toUpperCase()} 实例启动成功!`);
       console.log(`📊 交易对: ${config.symbol}`);
       console.log(`🎯 策略: ${selectedStrategy.name}`);
-      console.log(`🔑 使用API: ${credentials.apiKey ? `${credentials.apiKey.slice(0, 8)}...` : '环境变量'}`);
+      console.log(`🧪 交易模式: ${modeName}`);
+      console.log(`🔑 使用API: ${apiKeyHint}`);
       console.log(`💰 交易数量: ${config.tradeAmount}`);
-      console.log(`🛡️ 增强模式: ${selectedStrategy.enhanced ? '启用' : '禁用'}`);
+      if (selectedStrategy.requirements?.length) {
+        console.log(`⚡ 依赖服务: ${selectedStrategy.requirements.join('/')}`);
+      }
       console.log(`\n🔄 正在运行中... (Ctrl+C 停止)\n`);
       
       // 添加一个定时器来保持进程运行并显示状态
@@ -327,8 +295,8 @@ class MultiInstanceLauncher {
     if (this.engine) {
       try {
         this.engine.stop();
-        // 不同引擎可能有不同的清理方法
-        if ('cleanup' in this.engine && typeof this.engine.cleanup === 'function') {
+        // 增强趋势引擎还需断开K线存储
+        if (this.engine instanceof EnhancedTrendEngine) {
           await this.engine.cleanup();
         }
       } catch (error) {
@@ -349,7 +317,7 @@ class MultiInstanceLauncher {
 
     const snapshot = this.engine.getSnapshot();
     return {
-      status: 'running',
+      status: this.engine.getState(),
       instance: this.instanceName,
       symbol: this.configManager.getConfig().symbol,
       position: snapshot.position.positionAmt,
@@ -387,7 +355,11 @@ function parseArgs() {
     }
   }
 
-  return { configFile };
+  // 交易模式参数: --mode=paper / --mode=live
+  const modeArg = args.find(arg => arg.startsWith('--mode='));
+  const mode = modeArg ? parseTradingMode(modeArg.split('=')[1]) : undefined;
+
+  return { configFile, mode };
 }
 
 // 主启动逻辑
@@ -396,11 +368,11 @@ async function main() {
   console.log(`进程参数: ${process.argv.join(' ')}`);
   console.log(`环境变量 npm_lifecycle_event: ${process.env.npm_lifecycle_event}`);
   
-  const { configFile } = parseArgs();
+  const { configFile, mode } = parseArgs();
   console.log(`📁 解析到配置文件: ${configFile}`);
   
   console.log('⚙️ 创建启动器实例...');
-  const launcher = new MultiInstanceLauncher(configFile);
+  const launcher = new MultiInstanceLauncher(configFile, mode);
   console.log('✅ 启动器实例创建成功');
 
   // 处理退出信号
@@ -0,0 +1,92 @@
+import dotenv from "dotenv";
+import type { LedgerBucket, LedgerSymbolTotals } from "./src/state/ledger";
+import { formatNumber } from "./src/utils/format";
+
+/**
+ * 交易所资金流水报表：同步已实现盈亏、资金费与手续费到本地账本，按日/周汇总输出
+ * 使用方法:
+ * npm run ledger -- --symbols=BTCUSDT,ETHUSDT --period=week
+ * 可选参数: --config=config/.env.bnb --days=30 --file=data/ledger/BTCUSDT.json
+ */
+
+function parseArgs(): Record<string, string> {
+  const options: Record<string, string> = {};
+  for (const arg of process.argv.slice(2)) {
+    const match = /^--([^=]+)=(.*)$/.exec(arg);
+    if (match && match[1]) {
+      options[match[1]] = match[2] ?? "";
+    }
+  }
+  return options;
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function formatTotals(label: string, totals: LedgerSymbolTotals): string {
+  return [
+    label.padEnd(12),
+    formatNumber(totals.realizedPnl, 4).padStart(14),
+    formatNumber(totals.funding, 4).padStart(12),
+    formatNumber(totals.commission, 4).padStart(12),
+    formatNumber(totals.net, 4).padStart(14),
+    String(totals.tradeCount).padStart(8),
+    formatNumber(totals.volume, 2).padStart(16),
+  ].join(" ");
+}
+
+function printBucket(bucket: LedgerBucket): void {
+  const label = bucket.period === "week" ? `${formatDate(bucket.start)} 周` : formatDate(bucket.start);
+  console.log(`\n📅 ${label}`);
+  for (const [symbol, totals] of Object.entries(bucket.symbols).sort(([a], [b]) => a.localeCompare(b))) {
+    console.log(`   ${formatTotals(symbol, totals)}`);
+  }
+  console.log(`   ${formatTotals("合计", bucket.totals)}`);
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs();
+  // 配置在导入时读取环境变量，需先加载配置文件再导入
+  dotenv.config(args.config ? { path: args.config } : undefined);
+  const { tradingConfig } = await import("./src/config");
+  const { AsterRestClient } = await import("./src/exchanges/aster/client");
+  const { FileLedgerStore, IncomeLedger } = await import("./src/state/ledger");
+
+  const symbols = (args.symbols ?? tradingConfig.symbol)
+    .split(",")
+    .map((symbol) => symbol.trim().toUpperCase())
+    .filter(Boolean);
+  const period = args.period === "week" ? "week" : "day";
+  const days = Number(args.days) > 0 ? Number(args.days) : 30;
+  const file = args.file ?? `data/ledger/${symbols.join("-")}.json`;
+
+  const client = new AsterRestClient();
+  const ledger = new IncomeLedger(
+    { getIncomeHistory: (query) => client.getIncomeHistory(query), getUserTrades: (query) => client.getUserTrades(query) },
+    new FileLedgerStore(file),
+    { symbols, lookbackMs: days * 86_400_000 }
+  );
+  console.log(`🔄 正在同步 ${symbols.join(", ")} 的资金流水与成交记录…`);
+  await ledger.sync();
+  console.log(`💾 账本已保存到 ${file}（资金流水 ${ledger.getIncomes().length} 条，成交 ${ledger.getTrades().length} 笔）`);
+
+  const since = Date.now() - days * 86_400_000;
+  const buckets = ledger.getSummary(period, { symbols, since });
+  if (buckets.length === 0) {
+    console.log(`\n最近 ${days} 天没有 ${symbols.join(", ")} 的资金流水`);
+    process.exit(0);
+  }
+
+  console.log(`\n📊 最近 ${days} 天${period === "week" ? "周" : "日"}报（UTC）`);
+  console.log(`   ${["交易对".padEnd(12), "已实现盈亏".padStart(14), "资金费".padStart(12), "手续费".padStart(12), "净额".padStart(14), "成交".padStart(8), "成交额".padStart(16)].join(" ")}`);
+  for (const bucket of buckets) {
+    printBucket(bucket);
+  }
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("❌ 账本同步失败:", error);
+  process.exit(1);
+});
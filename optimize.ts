@@ -0,0 +1,169 @@
+import dotenv from "dotenv";
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { loadKlinesFile } from "./src/backtest/data";
+import type { OptimizeObjective, ParameterRange, ParameterSpace, SearchMethod } from "./src/backtest/optimizer";
+import type { BacktestStrategy } from "./src/backtest/runner";
+import { formatNumber } from "./src/utils/format";
+
+/**
+ * 参数优化入口（基于K线回测）
+ * 使用方法:
+ * npm run optimize -- --file=data/BTCUSDT-1m.csv --param=lossLimit=0.02:0.1:0.02 --param=greedy.enabled=true,false
+ * npm run optimize -- --file=data/BTCUSDT-1m.csv --space=optimizer.json --method=random --samples=100 --folds=4 --in-sample=0.7
+ * npm run optimize -- --file=data/BTCUSDT-1m.csv --space=optimizer.json --export=config/.env.optimized --config=config/.env.bnb
+ * 可选参数: --strategy=trend|enhanced --interval=1m --objective=sharpe|netProfit|returnPct|winRate
+ *          --workers=3 --warmup=30 --seed=1 --top=10 --balance=10000 --leverage=10 --poll=500 --out=reports/optimize.json
+ */
+
+const OBJECTIVES: OptimizeObjective[] = ["sharpe", "netProfit", "returnPct", "winRate"];
+
+function parseArgs(): { options: Record<string, string>; params: string[] } {
+  const options: Record<string, string> = {};
+  const params: string[] = [];
+  for (const arg of process.argv.slice(2)) {
+    const match = /^--([^=]+)=(.*)$/.exec(arg);
+    if (!match || !match[1]) continue;
+    if (match[1] === "param") {
+      params.push(match[2] ?? "");
+    } else {
+      options[match[1]] = match[2] ?? "";
+    }
+  }
+  return { options, params };
+}
+
+function optionalNumber(value: string | undefined): number | undefined {
+  if (value == null || value === "") return undefined;
+  const next = Number(value);
+  return Number.isFinite(next) ? next : undefined;
+}
+
+function parseStrategy(value: string | undefined): BacktestStrategy {
+  if (!value || value === "trend") return "trend";
+  if (value === "enhanced" || value === "enhanced-trend") return "enhanced";
+  throw new Error(`未知策略: ${value}（可选 trend / enhanced）`);
+}
+
+function parseObjective(value: string | undefined): OptimizeObjective {
+  if (!value) return "sharpe";
+  if ((OBJECTIVES as string[]).includes(value)) return value as OptimizeObjective;
+  throw new Error(`未知优化目标: ${value}（可选 ${OBJECTIVES.join(" / ")}）`);
+}
+
+function loadSpace(
+  options: Record<string, string>,
+  params: string[],
+  parseSpec: (spec: string) => [string, ParameterRange]
+): ParameterSpace {
+  const space: ParameterSpace = options.space ? (JSON.parse(readFileSync(options.space, "utf-8")) as ParameterSpace) : {};
+  for (const spec of params) {
+    const [name, range] = parseSpec(spec);
+    space[name] = range;
+  }
+  if (Object.keys(space).length === 0) {
+    throw new Error("缺少参数范围，请使用 --param=name=min:max[:step] 或 --space=文件.json");
+  }
+  return space;
+}
+
+async function main(): Promise<void> {
+  const { options, params } = parseArgs();
+  if (!options.file) {
+    console.error("❌ 缺少 --file 参数，例如: npm run optimize -- --file=data/BTCUSDT-1m.csv --param=lossLimit=0.02:0.1:0.02");
+    process.exit(1);
+  }
+  // 配置在导入时读取环境变量，需先加载配置文件再导入
+  dotenv.config(options.config ? { path: options.config } : undefined);
+  const { tradingConfig } = await import("./src/config");
+  const { runOptimization, defaultWorkerCount, exportParametersToEnv, formatParameters, parseParameterSpec } = await import(
+    "./src/backtest/optimizer"
+  );
+
+  const strategy = parseStrategy(options.strategy);
+  const objective = parseObjective(options.objective);
+  const method: SearchMethod = options.method === "random" ? "random" : "grid";
+  const symbol = (options.symbol ?? tradingConfig.symbol).toUpperCase();
+  const interval = options.interval ?? tradingConfig.klineInterval;
+  const folds = optionalNumber(options.folds) ?? 0;
+  const workers = optionalNumber(options.workers) ?? defaultWorkerCount();
+  const space = loadSpace(options, params, parseParameterSpec);
+  const baseConfig = {
+    ...tradingConfig,
+    symbol,
+    pollIntervalMs: optionalNumber(options.poll) ?? tradingConfig.pollIntervalMs,
+  };
+
+  const klines = loadKlinesFile(options.file, symbol, interval);
+  console.log(`📂 已加载 ${klines.length} 根 ${symbol} ${interval} K线: ${options.file}`);
+  console.log(`🔍 ${method === "random" ? "随机" : "网格"}搜索 ${Object.keys(space).join(", ")}，目标 ${objective}，${workers} 个工作线程`);
+
+  let lastPercent = -1;
+  const result = await runOptimization({
+    strategy,
+    klines,
+    interval,
+    baseConfig,
+    space,
+    method,
+    samples: optionalNumber(options.samples),
+    seed: optionalNumber(options.seed),
+    objective,
+    walkForward: folds > 0 ? { folds, inSampleRatio: optionalNumber(options["in-sample"]) ?? 0.7 } : undefined,
+    warmupBars: optionalNumber(options.warmup) ?? 30,
+    workers,
+    initialBalance: optionalNumber(options.balance),
+    leverage: optionalNumber(options.leverage),
+    onProgress: (done, total) => {
+      const percent = Math.floor((done / total) * 100);
+      if (percent !== lastPercent && percent % 10 === 0) {
+        lastPercent = percent;
+        console.log(`⏳ 进度 ${done}/${total} (${percent}%)`);
+      }
+    },
+  });
+
+  const top = optionalNumber(options.top) ?? 10;
+  const walkForward = folds > 0;
+  console.log(`\n📊 排名结果（按${walkForward ? "样本内" : "全区间"} ${objective} 排序，前 ${Math.min(top, result.candidates.length)} 组）`);
+  for (const candidate of result.candidates.slice(0, top)) {
+    const reference = walkForward ? candidate.outOfSample : candidate.inSample;
+    const trades = reference.reduce((sum, metrics) => sum + metrics.totalTrades, 0);
+    const netProfit = reference.reduce((sum, metrics) => sum + metrics.netProfit, 0);
+    const maxDrawdownPct = Math.max(0, ...reference.map((metrics) => metrics.maxDrawdownPct));
+    const winRate = reference.length > 0 ? reference.reduce((sum, metrics) => sum + metrics.winRate, 0) / reference.length : 0;
+    const oos = candidate.outOfSampleScore != null ? ` | 样本外 ${formatNumber(candidate.outOfSampleScore, 4)}` : "";
+    console.log(
+      `#${String(candidate.rank).padEnd(3)} 得分 ${formatNumber(candidate.score, 4)}${oos} | ${walkForward ? "样本外" : ""}净收益 ${formatNumber(netProfit, 4)} 交易 ${trades} 胜率 ${formatNumber(winRate * 100, 1)}% 回撤 ${formatNumber(maxDrawdownPct, 2)}% | ${formatParameters(candidate.params)}`
+    );
+  }
+
+  if (result.folds.length > 0) {
+    console.log("\n🚶 Walk-forward（每折用样本内最优参数跑样本外）");
+    let total = 0;
+    for (const fold of result.folds) {
+      total += fold.outOfSample.netProfit;
+      console.log(
+        `   第 ${fold.fold + 1} 折: 样本内 ${formatNumber(fold.inSampleScore, 4)} → 样本外净收益 ${formatNumber(fold.outOfSample.netProfit, 4)} (${fold.outOfSample.totalTrades} 笔) | ${formatParameters(fold.params)}`
+      );
+    }
+    console.log(`   样本外累计净收益: ${formatNumber(total, 4)}`);
+  }
+
+  const best = result.candidates[0];
+  if (options.export && best) {
+    exportParametersToEnv(best.params, options.export, options.config);
+    console.log(`\n💾 最优参数已导出到 ${options.export}（可通过 --config=${options.export} 加载）`);
+  }
+  if (options.out) {
+    mkdirSync(dirname(options.out), { recursive: true });
+    writeFileSync(options.out, JSON.stringify(result, null, 2));
+    console.log(`💾 完整结果已写入 ${options.out}`);
+  }
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("❌ 参数优化失败:", error);
+  process.exit(1);
+});
@@ -0,0 +1,152 @@
+import { readFileSync } from "fs";
+import { extname } from "path";
+import { fromRestKline } from "../exchanges/aster/client";
+import type { AsterKline } from "../exchanges/types";
+import { intervalToMs } from "../utils/kline";
+
+const COLUMN_ALIASES: Record<string, string[]> = {
+  openTime: ["opentime", "open_time", "timestamp", "time", "date"],
+  open: ["open", "o"],
+  high: ["high", "h"],
+  low: ["low", "l"],
+  close: ["close", "c"],
+  volume: ["volume", "vol", "v"],
+  closeTime: ["closetime", "close_time"],
+  quoteAssetVolume: ["quoteassetvolume", "quote_asset_volume", "quote_volume", "quotevolume"],
+  numberOfTrades: ["numberoftrades", "number_of_trades", "trades", "count"],
+};
+
+/**
+ * 解析 CSV 格式K线：带表头时按列名识别，无表头时按交易所 REST 返回的列顺序解析
+ */
+export function parseKlinesCsv(content: string, symbol: string, interval: string): AsterKline[] {
+  const rows = content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith("#"))
+    .map((line) => line.split(",").map((cell) => cell.trim().replace(/^"|"$/g, "")));
+  const first = rows[0];
+  if (!first) return [];
+  const hasHeader = !Number.isFinite(Number(first[0])) && parseTimestamp(first[0]) == null;
+  if (!hasHeader) {
+    const klines = rows.map((row) => {
+      const entry: unknown[] = row.map((cell) => (isNumeric(cell) ? Number(cell) : cell));
+      entry[0] = parseTimestamp(row[0]) ?? NaN;
+      entry[6] = parseTimestamp(row[6]) ?? NaN;
+      return fromRestKline(entry, interval, symbol);
+    });
+    return normalizeKlines(klines, symbol, interval);
+  }
+  const columns = resolveColumns(first);
+  for (const required of ["openTime", "open", "high", "low", "close"]) {
+    if (columns[required] == null) {
+      throw new Error(`K线 CSV 缺少列: ${required}`);
+    }
+  }
+  const klines = rows.slice(1).map((row) => {
+    const pick = (name: string) => {
+      const index = columns[name];
+      return index == null ? undefined : row[index];
+    };
+    return {
+      openTime: parseTimestamp(pick("openTime")) ?? NaN,
+      open: String(pick("open")),
+      high: String(pick("high")),
+      low: String(pick("low")),
+      close: String(pick("close")),
+      volume: pick("volume") ?? "0",
+      closeTime: parseTimestamp(pick("closeTime")) ?? NaN,
+      quoteAssetVolume: pick("quoteAssetVolume"),
+      numberOfTrades: Number(pick("numberOfTrades") ?? 0),
+    } satisfies AsterKline;
+  });
+  return normalizeKlines(klines, symbol, interval);
+}
+
+/**
+ * 解析 JSON 格式K线：支持 AsterKline 对象数组或 REST 原始数组格式
+ */
+export function parseKlinesJson(content: string, symbol: string, interval: string): AsterKline[] {
+  const payload = JSON.parse(content) as unknown;
+  if (!Array.isArray(payload)) {
+    throw new Error("K线 JSON 必须是数组");
+  }
+  const klines = payload.map((entry) => {
+    if (Array.isArray(entry)) {
+      return fromRestKline(entry, interval, symbol);
+    }
+    const raw = entry as Record<string, unknown>;
+    return {
+      openTime: parseTimestamp(raw.openTime) ?? NaN,
+      open: String(raw.open),
+      high: String(raw.high),
+      low: String(raw.low),
+      close: String(raw.close),
+      volume: String(raw.volume ?? "0"),
+      closeTime: parseTimestamp(raw.closeTime) ?? NaN,
+      quoteAssetVolume: raw.quoteAssetVolume != null ? String(raw.quoteAssetVolume) : undefined,
+      numberOfTrades: Number(raw.numberOfTrades ?? 0),
+    } satisfies AsterKline;
+  });
+  return normalizeKlines(klines, symbol, interval);
+}
+
+/**
+ * 按扩展名读取K线文件（.csv / .json）
+ */
+export function loadKlinesFile(filePath: string, symbol: string, interval: string): AsterKline[] {
+  const content = readFileSync(filePath, "utf-8");
+  const ext = extname(filePath).toLowerCase();
+  if (ext === ".json") {
+    return parseKlinesJson(content, symbol, interval);
+  }
+  if (ext === ".csv" || ext === ".txt") {
+    return parseKlinesCsv(content, symbol, interval);
+  }
+  throw new Error(`不支持的K线文件格式: ${ext || filePath}`);
+}
+
+/** 补全 symbol/interval/closeTime，按时间排序并去重，丢弃无效K线 */
+function normalizeKlines(klines: AsterKline[], symbol: string, interval: string): AsterKline[] {
+  const size = intervalToMs(interval);
+  const byOpenTime = new Map<number, AsterKline>();
+  for (const kline of klines) {
+    const prices = [kline.open, kline.high, kline.low, kline.close].map(Number);
+    if (!Number.isFinite(kline.openTime) || prices.some((price) => !Number.isFinite(price) || price <= 0)) {
+      continue;
+    }
+    byOpenTime.set(kline.openTime, {
+      ...kline,
+      symbol,
+      interval,
+      closeTime: Number.isFinite(kline.closeTime) ? kline.closeTime : kline.openTime + size - 1,
+      isClosed: true,
+    });
+  }
+  return Array.from(byOpenTime.values()).sort((a, b) => a.openTime - b.openTime);
+}
+
+function resolveColumns(header: string[]): Record<string, number> {
+  const normalized = header.map((name) => name.toLowerCase());
+  const columns: Record<string, number> = {};
+  for (const [key, aliases] of Object.entries(COLUMN_ALIASES)) {
+    const index = normalized.findIndex((name) => aliases.includes(name));
+    if (index >= 0) columns[key] = index;
+  }
+  return columns;
+}
+
+/** 支持毫秒、秒级时间戳与 ISO 日期字符串 */
+function parseTimestamp(value: unknown): number | null {
+  if (value == null || value === "") return null;
+  if (typeof value === "number" || isNumeric(String(value))) {
+    const numeric = Number(value);
+    return numeric < 1e12 ? numeric * 1000 : numeric;
+  }
+  const parsed = Date.parse(String(value));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function isNumeric(value: string | undefined): boolean {
+  return value != null && value !== "" && Number.isFinite(Number(value));
+}
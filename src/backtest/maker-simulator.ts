@@ -0,0 +1,271 @@
+import type { MakerConfig } from "../config";
+import { MakerEngine } from "../core/maker-engine";
+import { OffsetMakerEngine } from "../core/offset-maker-engine";
+import { MockExchangeAdapter, type MockFill } from "../exchanges/mock-adapter";
+import type { RecordedEvent } from "../exchanges/recording-adapter";
+import type { AsterDepth, AsterOrder, OrderSide } from "../exchanges/types";
+import { getTopPrices } from "../utils/price";
+import { SimulatedClock } from "./simulated-clock";
+
+export type MakerStrategy = "maker" | "offset";
+
+/** 做市回放所需的行情事件：盘口快照与逐笔成交 */
+export type MakerMarketEvent =
+  | { t: number; kind: "depth"; depth: AsterDepth }
+  | { t: number; kind: "trade"; price: number; quantity: number; buyerMaker: boolean };
+
+export interface MakerSimulationOptions {
+  strategy: MakerStrategy;
+  config: MakerConfig;
+  events: MakerMarketEvent[];
+  initialBalance?: number;
+  leverage?: number;
+  makerFeeRate?: number;
+  takerFeeRate?: number;
+  markoutMs?: number; // 逆向选择的观察窗口，默认 5 秒
+}
+
+export interface MakerFillRecord extends MockFill {
+  mid: number | null; // 成交前的盘口中间价
+  markoutMid: number | null; // 成交 markoutMs 之后的中间价
+}
+
+export interface MakerSimulationMetrics {
+  quotesPlaced: number;
+  quotesRejected: number; // GTX 会立即成交而被拒绝的报价
+  quotesFilled: number; // 至少部分成交的挂单
+  fillRate: number; // 成交挂单数 / 成功挂出的报价数
+  quotedQuantity: number;
+  filledQuantity: number;
+  makerVolume: number;
+  takerVolume: number;
+  adverseSelection: number; // Maker 成交后中间价朝不利方向移动的数量加权均值（价格单位）
+  adverseSelectionBps: number;
+  spreadPnl: number; // 成交价相对中间价赚到的价差
+  inventoryPnl: number; // 持仓随中间价变动产生的盈亏
+  grossPnl: number;
+  fees: number;
+  netPnl: number;
+  finalPosition: number;
+}
+
+export interface MakerSimulationResult {
+  strategy: MakerStrategy;
+  symbol: string;
+  startTime: number;
+  endTime: number;
+  events: number;
+  fills: MakerFillRecord[];
+  metrics: MakerSimulationMetrics;
+}
+
+interface MidPoint {
+  t: number;
+  mid: number;
+}
+
+const DEFAULT_MARKOUT_MS = 5000;
+const QTY_EPS = 1e-12;
+
+/**
+ * 从录制文件中提取做市回放事件
+ * 优先使用录制的逐笔成交；没有时以相邻 Ticker 成交量的增量在最新价上近似成交，主动方向按成交价相对中间价判断
+ */
+export function extractMakerEvents(events: RecordedEvent[], symbol: string): MakerMarketEvent[] {
+  const upper = symbol.toUpperCase();
+  const result: MakerMarketEvent[] = [];
+  let lastVolume: number | null = null;
+  let mid: number | null = null;
+  const ordered = [...events].sort((a, b) => a.t - b.t);
+  const hasTrades = ordered.some((event) => event.kind === "trade" && event.symbol.toUpperCase() === upper);
+  for (const event of ordered) {
+    if (event.kind === "depth" && event.symbol.toUpperCase() === upper) {
+      result.push({ t: event.t, kind: "depth", depth: { ...event.payload, symbol: upper } });
+      mid = midPrice(event.payload) ?? mid;
+    } else if (event.kind === "trade" && event.symbol.toUpperCase() === upper) {
+      const price = Number(event.payload.price);
+      const quantity = Number(event.payload.quantity);
+      if (price > 0 && quantity > QTY_EPS) {
+        result.push({ t: event.t, kind: "trade", price, quantity, buyerMaker: event.payload.buyerMaker });
+      }
+    } else if (!hasTrades && event.kind === "ticker" && event.symbol.toUpperCase() === upper) {
+      const volume = Number(event.payload.volume);
+      const price = Number(event.payload.lastPrice);
+      if (!Number.isFinite(volume) || !Number.isFinite(price)) continue;
+      const delta = lastVolume != null ? volume - lastVolume : 0;
+      lastVolume = volume;
+      if (delta > QTY_EPS && price > 0) {
+        result.push({ t: event.t, kind: "trade", price, quantity: delta, buyerMaker: mid != null && price < mid });
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * 做市回放：用录制的盘口与成交在虚拟时钟上驱动 MakerEngine / OffsetMakerEngine，
+ * 挂单按排队位置成交，统计成交率、逆向选择与库存盈亏
+ */
+export async function runMakerSimulation(options: MakerSimulationOptions): Promise<MakerSimulationResult> {
+  const events = [...options.events].sort((a, b) => a.t - b.t);
+  const first = events[0];
+  const last = events[events.length - 1];
+  if (!first || !last) {
+    throw new Error("做市回放事件为空");
+  }
+  const { config } = options;
+  const symbol = config.symbol.toUpperCase();
+  const markoutMs = options.markoutMs ?? DEFAULT_MARKOUT_MS;
+  const clock = new SimulatedClock(first.t);
+  clock.install();
+  try {
+    const exchange = new MockExchangeAdapter({
+      symbol,
+      initialBalance: options.initialBalance ?? 10000,
+      makerFeeRate: options.makerFeeRate,
+      takerFeeRate: options.takerFeeRate,
+      leverage: options.leverage,
+      fillModel: "queue",
+      now: () => clock.now(),
+    });
+    const engine =
+      options.strategy === "offset"
+        ? new OffsetMakerEngine({ ...config, symbol }, exchange)
+        : new MakerEngine({ ...config, symbol }, exchange);
+    engine.start();
+
+    const timeline: MidPoint[] = [];
+    const fillMids: Array<number | null> = [];
+    let mid: number | null = null;
+    const recordFills = () => {
+      // 以事件发生前的中间价作为成交时的参考价
+      while (fillMids.length < exchange.getFillCount()) {
+        fillMids.push(mid);
+      }
+    };
+    for (const event of events) {
+      await clock.advanceTo(event.t);
+      recordFills();
+      if (event.kind === "depth") {
+        exchange.pushDepth({ ...event.depth, symbol });
+      } else {
+        exchange.pushTrade({ symbol, price: event.price, quantity: event.quantity, buyerMaker: event.buyerMaker });
+      }
+      recordFills();
+      if (event.kind === "depth") {
+        const next = midPrice(event.depth);
+        if (next != null) {
+          mid = next;
+          timeline.push({ t: event.t, mid: next });
+        }
+      }
+    }
+    // 让最后一批定时器与挂单流程跑完
+    await clock.advanceTo(last.t + config.refreshIntervalMs);
+    recordFills();
+    engine.stop();
+
+    const fills: MakerFillRecord[] = exchange.getFills().map((fill, index) => ({
+      ...fill,
+      mid: fillMids[index] ?? null,
+      markoutMid: midAt(timeline, fill.time + markoutMs),
+    }));
+    const quotes = exchange.getOrderHistory().filter((order) => order.type === "LIMIT");
+    return {
+      strategy: options.strategy,
+      symbol,
+      startTime: first.t,
+      endTime: last.t,
+      events: events.length,
+      fills,
+      metrics: summarizeMakerSimulation(fills, quotes, mid),
+    };
+  } finally {
+    clock.uninstall();
+  }
+}
+
+function summarizeMakerSimulation(
+  fills: MakerFillRecord[],
+  quotes: AsterOrder[],
+  finalMid: number | null
+): MakerSimulationMetrics {
+  const rejected = quotes.filter((order) => order.status === "EXPIRED" && Number(order.executedQty) <= QTY_EPS);
+  const filled = quotes.filter((order) => Number(order.executedQty) > QTY_EPS);
+  const resting = quotes.length - rejected.length;
+
+  let position = 0;
+  let cash = 0;
+  let spreadPnl = 0;
+  let fees = 0;
+  let makerVolume = 0;
+  let takerVolume = 0;
+  let adverseWeighted = 0;
+  let adverseBpsWeighted = 0;
+  let adverseQuantity = 0;
+  for (const fill of fills) {
+    const sign = sideSign(fill.side);
+    position += sign * fill.quantity;
+    cash -= sign * fill.quantity * fill.price;
+    fees += fill.fee;
+    if (fill.maker) {
+      makerVolume += fill.quantity * fill.price;
+    } else {
+      takerVolume += fill.quantity * fill.price;
+    }
+    if (fill.mid != null) {
+      spreadPnl += sign * (fill.mid - fill.price) * fill.quantity;
+      if (fill.maker && fill.markoutMid != null) {
+        // 买入后中间价下跌、卖出后中间价上涨即为被逆向选择
+        const move = sign * (fill.mid - fill.markoutMid);
+        adverseWeighted += move * fill.quantity;
+        adverseBpsWeighted += (move / fill.mid) * 10000 * fill.quantity;
+        adverseQuantity += fill.quantity;
+      }
+    }
+  }
+  const lastPrice = finalMid ?? fills[fills.length - 1]?.price ?? 0;
+  const grossPnl = cash + position * lastPrice;
+  return {
+    quotesPlaced: quotes.length,
+    quotesRejected: rejected.length,
+    quotesFilled: filled.length,
+    fillRate: resting > 0 ? filled.length / resting : 0,
+    quotedQuantity: quotes.reduce((sum, order) => sum + Number(order.origQty), 0),
+    filledQuantity: quotes.reduce((sum, order) => sum + Number(order.executedQty), 0),
+    makerVolume,
+    takerVolume,
+    adverseSelection: adverseQuantity > 0 ? adverseWeighted / adverseQuantity : 0,
+    adverseSelectionBps: adverseQuantity > 0 ? adverseBpsWeighted / adverseQuantity : 0,
+    spreadPnl,
+    inventoryPnl: grossPnl - spreadPnl,
+    grossPnl,
+    fees,
+    netPnl: grossPnl - fees,
+    finalPosition: Math.abs(position) < QTY_EPS ? 0 : position,
+  };
+}
+
+function sideSign(side: OrderSide): number {
+  return side === "BUY" ? 1 : -1;
+}
+
+function midPrice(depth: AsterDepth): number | null {
+  const { topBid, topAsk } = getTopPrices(depth);
+  return topBid != null && topAsk != null ? (topBid + topAsk) / 2 : null;
+}
+
+/** 时间点之后的第一个中间价，超出回放范围时取最后一个 */
+function midAt(timeline: MidPoint[], time: number): number | null {
+  let low = 0;
+  let high = timeline.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (timeline[middle]!.t < time) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return (timeline[low] ?? timeline[timeline.length - 1])?.mid ?? null;
+}
@@ -0,0 +1,176 @@
+import type { MockFill } from "../exchanges/mock-adapter";
+
+export interface BacktestTrade {
+  direction: "long" | "short";
+  entryTime: number;
+  exitTime: number;
+  entryPrice: number;
+  exitPrice: number;
+  quantity: number;
+  grossPnl: number;
+  fees: number;
+  netPnl: number;
+}
+
+export interface EquityPoint {
+  time: number;
+  price: number;
+  equity: number;
+}
+
+export interface BacktestMetrics {
+  initialBalance: number;
+  finalEquity: number;
+  netProfit: number;
+  returnPct: number;
+  totalTrades: number;
+  winningTrades: number;
+  losingTrades: number;
+  winRate: number;
+  maxDrawdown: number;
+  maxDrawdownPct: number;
+  sharpe: number;
+  totalFees: number;
+  totalVolume: number;
+}
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+const EPSILON = 1e-9;
+
+interface OpenTrade {
+  direction: "long" | "short";
+  entryTime: number;
+  quantity: number; // 当前剩余持仓
+  openedQty: number;
+  entryNotional: number;
+  exitQty: number;
+  exitNotional: number;
+  grossPnl: number;
+  fees: number;
+}
+
+/**
+ * 将逐笔成交还原为完整交易（开仓到仓位归零），反手时拆分为平仓与新开仓两笔
+ */
+export function buildTrades(fills: MockFill[]): BacktestTrade[] {
+  const trades: BacktestTrade[] = [];
+  let open: OpenTrade | null = null;
+  for (const fill of fills) {
+    const signed = fill.side === "BUY" ? fill.quantity : -fill.quantity;
+    let remaining = Math.abs(signed);
+    const feePerUnit = fill.quantity > 0 ? fill.fee / fill.quantity : 0;
+    if (open) {
+      const reducing = (open.direction === "long") !== (signed > 0);
+      if (reducing) {
+        const closing = Math.min(remaining, open.quantity);
+        open.quantity -= closing;
+        open.exitQty += closing;
+        open.exitNotional += closing * fill.price;
+        open.grossPnl += fill.realizedPnl;
+        open.fees += closing * feePerUnit;
+        remaining -= closing;
+        if (open.quantity <= EPSILON) {
+          trades.push(finalizeTrade(open, fill.time));
+          open = null;
+        }
+      } else {
+        open.quantity += remaining;
+        open.openedQty += remaining;
+        open.entryNotional += remaining * fill.price;
+        open.fees += remaining * feePerUnit;
+        remaining = 0;
+      }
+    }
+    if (remaining > EPSILON) {
+      open = {
+        direction: signed > 0 ? "long" : "short",
+        entryTime: fill.time,
+        quantity: remaining,
+        openedQty: remaining,
+        entryNotional: remaining * fill.price,
+        exitQty: 0,
+        exitNotional: 0,
+        grossPnl: 0,
+        fees: remaining * feePerUnit,
+      };
+    }
+  }
+  return trades;
+}
+
+function finalizeTrade(open: OpenTrade, exitTime: number): BacktestTrade {
+  return {
+    direction: open.direction,
+    entryTime: open.entryTime,
+    exitTime,
+    entryPrice: open.entryNotional / open.openedQty,
+    exitPrice: open.exitQty > 0 ? open.exitNotional / open.exitQty : 0,
+    quantity: open.openedQty,
+    grossPnl: open.grossPnl,
+    fees: open.fees,
+    netPnl: open.grossPnl - open.fees,
+  };
+}
+
+/** 最大回撤（绝对值与相对峰值的百分比） */
+export function computeMaxDrawdown(curve: EquityPoint[]): { maxDrawdown: number; maxDrawdownPct: number } {
+  let peak = -Infinity;
+  let maxDrawdown = 0;
+  let maxDrawdownPct = 0;
+  for (const point of curve) {
+    peak = Math.max(peak, point.equity);
+    const drawdown = peak - point.equity;
+    if (drawdown > maxDrawdown) maxDrawdown = drawdown;
+    if (peak > 0 && (drawdown / peak) * 100 > maxDrawdownPct) maxDrawdownPct = (drawdown / peak) * 100;
+  }
+  return { maxDrawdown, maxDrawdownPct };
+}
+
+/**
+ * 年化夏普比率：按权益曲线逐点收益率计算，无风险利率取 0
+ */
+export function computeSharpe(curve: EquityPoint[], periodMs: number): number {
+  const returns: number[] = [];
+  for (let i = 1; i < curve.length; i += 1) {
+    const previous = curve[i - 1]!.equity;
+    if (previous > 0) returns.push(curve[i]!.equity / previous - 1);
+  }
+  if (returns.length < 2 || periodMs <= 0) return 0;
+  const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+  const variance = returns.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (returns.length - 1);
+  const std = Math.sqrt(variance);
+  if (std < EPSILON) return 0;
+  return (mean / std) * Math.sqrt(YEAR_MS / periodMs);
+}
+
+export function summarizeBacktest(params: {
+  initialBalance: number;
+  trades: BacktestTrade[];
+  fills: MockFill[];
+  equityCurve: EquityPoint[];
+  periodMs: number;
+}): BacktestMetrics {
+  const { initialBalance, trades, fills, equityCurve, periodMs } = params;
+  const finalEquity = equityCurve[equityCurve.length - 1]?.equity ?? initialBalance;
+  const winningTrades = trades.filter((trade) => trade.netPnl > 0).length;
+  const losingTrades = trades.filter((trade) => trade.netPnl <= 0).length;
+  const { maxDrawdown, maxDrawdownPct } = computeMaxDrawdown([
+    { time: equityCurve[0]?.time ?? 0, price: 0, equity: initialBalance },
+    ...equityCurve,
+  ]);
+  return {
+    initialBalance,
+    finalEquity,
+    netProfit: finalEquity - initialBalance,
+    returnPct: initialBalance > 0 ? ((finalEquity - initialBalance) / initialBalance) * 100 : 0,
+    totalTrades: trades.length,
+    winningTrades,
+    losingTrades,
+    winRate: trades.length > 0 ? winningTrades / trades.length : 0,
+    maxDrawdown,
+    maxDrawdownPct,
+    sharpe: computeSharpe(equityCurve, periodMs),
+    totalFees: fills.reduce((sum, fill) => sum + fill.fee, 0),
+    totalVolume: fills.reduce((sum, fill) => sum + fill.price * fill.quantity, 0),
+  };
+}
@@ -0,0 +1,27 @@
+import { parentPort, workerData } from "worker_threads";
+import { extractMessage } from "../utils/errors";
+import { evaluateJob, type OptimizerJob, type OptimizerWorkerContext, type OptimizerWorkerMessage } from "./optimizer";
+
+/**
+ * 参数优化工作线程：每个线程拥有独立的全局定时器，可与其他线程并行运行虚拟时钟回测
+ */
+const context = workerData as OptimizerWorkerContext;
+
+// 引擎日志在批量回测中没有意义，只保留错误输出
+console.log = () => {};
+console.info = () => {};
+console.warn = () => {};
+
+let chain: Promise<void> = Promise.resolve();
+
+parentPort?.on("message", (job: OptimizerJob) => {
+  chain = chain.then(async () => {
+    let message: OptimizerWorkerMessage;
+    try {
+      message = { type: "result", id: job.id, metrics: await evaluateJob(context, job) };
+    } catch (error) {
+      message = { type: "error", id: job.id, error: extractMessage(error) };
+    }
+    parentPort?.postMessage(message);
+  });
+});
@@ -0,0 +1,497 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { cpus } from "os";
+import { dirname } from "path";
+import { Worker } from "worker_threads";
+import type { TradingConfig } from "../config";
+import type { AsterKline } from "../exchanges/types";
+import { loadGreedyProfitConfig, type GreedyProfitConfig } from "../utils/greedy-take-profit";
+import { extractMessage } from "../utils/errors";
+import type { BacktestMetrics } from "./metrics";
+import { runBacktest, type BacktestStrategy } from "./runner";
+
+export type ParameterValue = number | boolean | string;
+
+/** 参数取值范围：枚举值，或 min/max（网格搜索需 step，随机搜索在区间内均匀采样） */
+export type ParameterRange =
+  | { values: ParameterValue[] }
+  | { min: number; max: number; step?: number; integer?: boolean };
+
+/** 键为 TradingConfig 字段名，或以 greedy. 为前缀的 GreedyProfitConfig 字段名 */
+export type ParameterSpace = Record<string, ParameterRange>;
+
+export type ParameterSet = Record<string, ParameterValue>;
+
+export type OptimizeObjective = "sharpe" | "netProfit" | "returnPct" | "winRate";
+
+export type SearchMethod = "grid" | "random";
+
+export interface WalkForwardOptions {
+  folds: number;
+  inSampleRatio: number; // 每个窗口中样本内所占比例，如 0.7
+}
+
+export interface OptimizeOptions {
+  strategy: BacktestStrategy;
+  klines: AsterKline[];
+  interval: string;
+  baseConfig: TradingConfig;
+  space: ParameterSpace;
+  method?: SearchMethod;
+  samples?: number; // 随机搜索的采样数
+  seed?: number;
+  objective?: OptimizeObjective;
+  walkForward?: WalkForwardOptions;
+  warmupBars?: number; // 每段回测前附加的预热K线数量
+  workers?: number; // 工作线程数，<=1 时在当前线程顺序执行
+  initialBalance?: number;
+  leverage?: number;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface DataSegment {
+  fold: number;
+  phase: "full" | "in-sample" | "out-of-sample";
+  from: number; // 含预热的起始下标
+  start: number; // 计入结果的起始下标
+  end: number; // 结束下标（不含）
+}
+
+export interface CandidateResult {
+  rank: number;
+  params: ParameterSet;
+  score: number; // 排名依据：样本内目标均值（未启用 walk-forward 时为全区间）
+  outOfSampleScore: number | null;
+  inSample: BacktestMetrics[];
+  outOfSample: BacktestMetrics[];
+}
+
+export interface WalkForwardFold {
+  fold: number;
+  params: ParameterSet; // 该折样本内表现最好的参数
+  inSampleScore: number;
+  outOfSample: BacktestMetrics;
+}
+
+export interface OptimizeResult {
+  objective: OptimizeObjective;
+  segments: DataSegment[];
+  candidates: CandidateResult[];
+  folds: WalkForwardFold[];
+}
+
+/** 工作线程启动时收到的共享数据 */
+export interface OptimizerWorkerContext {
+  strategy: BacktestStrategy;
+  klines: AsterKline[];
+  interval: string;
+  baseConfig: TradingConfig;
+  initialBalance?: number;
+  leverage?: number;
+}
+
+export interface OptimizerJob {
+  id: number;
+  params: ParameterSet;
+  segment: DataSegment;
+}
+
+export type OptimizerWorkerMessage =
+  | { type: "result"; id: number; metrics: BacktestMetrics }
+  | { type: "error"; id: number; error: string };
+
+type TradingParameterKey = Exclude<keyof TradingConfig, "greedyTakeProfit" | "fundingGuard" | "execution">;
+
+// 与 ConfigManager 解析的环境变量一一对应，导出的参数可直接被加载
+const TRADING_ENV_KEYS: Record<TradingParameterKey, string> = {
+  symbol: "TRADE_SYMBOL",
+  tradeAmount: "TRADE_AMOUNT",
+  lossLimit: "LOSS_LIMIT",
+  trailingProfit: "TRAILING_PROFIT",
+  trailingCallbackRate: "TRAILING_CALLBACK_RATE",
+  profitLockTriggerUsd: "PROFIT_LOCK_TRIGGER_USD",
+  profitLockOffsetUsd: "PROFIT_LOCK_OFFSET_USD",
+  pollIntervalMs: "POLL_INTERVAL_MS",
+  maxLogEntries: "MAX_LOG_ENTRIES",
+  klineInterval: "KLINE_INTERVAL",
+  maxCloseSlippagePct: "MAX_CLOSE_SLIPPAGE_PCT",
+  priceTick: "PRICE_TICK",
+  qtyStep: "QTY_STEP",
+  feeRate: "FEE_RATE",
+  maxDailyFeePct: "MAX_DAILY_FEE_PCT",
+  maxHourlyFeePct: "MAX_HOURLY_FEE_PCT",
+  feeWarningThreshold: "FEE_WARNING_THRESHOLD",
+  enableFeeProtection: "ENABLE_FEE_PROTECTION",
+  logFeeSummaryInterval: "LOG_FEE_SUMMARY_INTERVAL",
+  resetFeeCounterHour: "RESET_FEE_COUNTER_HOUR",
+  enableDynamicRisk: "ENABLE_DYNAMIC_RISK",
+  dynamicRiskThreshold: "DYNAMIC_RISK_THRESHOLD",
+  riskPercentage: "RISK_PERCENTAGE",
+  profitTargetPercentage: "PROFIT_TARGET_PERCENTAGE",
+  hedgeMode: "HEDGE_MODE",
+  leverage: "LEVERAGE",
+  marginType: "MARGIN_TYPE",
+};
+
+// 贪婪止盈由引擎直接读取这些环境变量
+const GREEDY_ENV_KEYS: Record<keyof GreedyProfitConfig, string> = {
+  enabled: "ENABLE_GREEDY_TAKE_PROFIT",
+  sampleSize: "GREEDY_SAMPLE_SIZE",
+  reversalThreshold: "GREEDY_REVERSAL_THRESHOLD",
+  maxWaitTime: "GREEDY_MAX_WAIT_TIME_MS",
+  extraProfitTarget: "GREEDY_EXTRA_PROFIT_TARGET",
+};
+
+const GREEDY_PREFIX = "greedy.";
+const DEFAULT_GRID_POINTS = 5;
+
+/** 参数名对应的环境变量名，未知参数抛出异常 */
+export function parameterEnvKey(name: string): string {
+  if (name.startsWith(GREEDY_PREFIX)) {
+    const key = GREEDY_ENV_KEYS[name.slice(GREEDY_PREFIX.length) as keyof GreedyProfitConfig];
+    if (key) return key;
+  } else if (Object.prototype.hasOwnProperty.call(TRADING_ENV_KEYS, name)) {
+    return TRADING_ENV_KEYS[name as TradingParameterKey];
+  }
+  throw new Error(`未知的优化参数: ${name}`);
+}
+
+/** 将参数组合应用到基础配置上，贪婪止盈参数写入 greedyTakeProfit */
+export function applyParameters(base: TradingConfig, params: ParameterSet): TradingConfig {
+  const config: Record<string, unknown> = { ...base };
+  const greedy: Record<string, unknown> = { ...(base.greedyTakeProfit ?? loadGreedyProfitConfig()) };
+  for (const [name, value] of Object.entries(params)) {
+    parameterEnvKey(name);
+    if (name.startsWith(GREEDY_PREFIX)) {
+      greedy[name.slice(GREEDY_PREFIX.length)] = value;
+    } else {
+      config[name] = value;
+    }
+  }
+  return { ...(config as unknown as TradingConfig), greedyTakeProfit: greedy as unknown as GreedyProfitConfig };
+}
+
+/** 网格搜索：展开所有参数取值的笛卡尔积 */
+export function expandGrid(space: ParameterSpace): ParameterSet[] {
+  let sets: ParameterSet[] = [{}];
+  for (const [name, range] of Object.entries(space)) {
+    parameterEnvKey(name);
+    const values = rangeValues(range);
+    sets = sets.flatMap((set) => values.map((value) => ({ ...set, [name]: value })));
+  }
+  return sets;
+}
+
+/** 随机搜索：按固定种子采样，结果可复现 */
+export function sampleRandom(space: ParameterSpace, samples: number, seed = 1): ParameterSet[] {
+  const random = createRandom(seed);
+  const seen = new Set<string>();
+  const sets: ParameterSet[] = [];
+  const maxAttempts = samples * 20;
+  for (let attempt = 0; attempt < maxAttempts && sets.length < samples; attempt += 1) {
+    const set: ParameterSet = {};
+    for (const [name, range] of Object.entries(space)) {
+      parameterEnvKey(name);
+      set[name] = sampleValue(range, random);
+    }
+    const key = JSON.stringify(set);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    sets.push(set);
+  }
+  return sets;
+}
+
+/**
+ * 划分回测区间。启用 walk-forward 时按滚动窗口切分，各折的样本外区间首尾相接、互不重叠
+ */
+export function createSegments(totalBars: number, walkForward?: WalkForwardOptions, warmupBars = 0): DataSegment[] {
+  const withWarmup = (segment: Omit<DataSegment, "from">): DataSegment => ({
+    ...segment,
+    from: Math.max(0, segment.start - warmupBars),
+  });
+  if (!walkForward || walkForward.folds < 1) {
+    return [withWarmup({ fold: 0, phase: "full", start: 0, end: totalBars })];
+  }
+  const { folds } = walkForward;
+  const ratio = Math.min(Math.max(walkForward.inSampleRatio, 0.1), 0.9);
+  const windowSize = Math.floor(totalBars / (1 + (folds - 1) * (1 - ratio)));
+  const inSampleSize = Math.floor(windowSize * ratio);
+  const stepSize = windowSize - inSampleSize;
+  if (inSampleSize < 2 || stepSize < 2) {
+    throw new Error(`K线数量 ${totalBars} 不足以划分 ${folds} 折 walk-forward`);
+  }
+  const segments: DataSegment[] = [];
+  for (let fold = 0; fold < folds; fold += 1) {
+    const start = fold * stepSize;
+    const split = start + inSampleSize;
+    const end = fold === folds - 1 ? totalBars : split + stepSize;
+    segments.push(withWarmup({ fold, phase: "in-sample", start, end: split }));
+    segments.push(withWarmup({ fold, phase: "out-of-sample", start: split, end }));
+  }
+  return segments;
+}
+
+/** 在当前线程执行单个回测任务（工作线程也复用此函数） */
+export async function evaluateJob(context: OptimizerWorkerContext, job: OptimizerJob): Promise<BacktestMetrics> {
+  const { segment } = job;
+  const result = await runBacktest({
+    strategy: context.strategy,
+    klines: context.klines.slice(segment.from, segment.end),
+    interval: context.interval,
+    config: applyParameters(context.baseConfig, job.params),
+    initialBalance: context.initialBalance,
+    leverage: context.leverage,
+    warmupBars: segment.start - segment.from,
+  });
+  return result.metrics;
+}
+
+export async function runOptimization(options: OptimizeOptions): Promise<OptimizeResult> {
+  const objective = options.objective ?? "sharpe";
+  const candidates =
+    (options.method ?? "grid") === "random"
+      ? sampleRandom(options.space, options.samples ?? 50, options.seed)
+      : expandGrid(options.space);
+  if (candidates.length === 0) {
+    throw new Error("参数空间为空");
+  }
+  const segments = createSegments(options.klines.length, options.walkForward, options.warmupBars ?? 0);
+  const jobs: OptimizerJob[] = [];
+  candidates.forEach((params, candidateIndex) => {
+    segments.forEach((segment, segmentIndex) => {
+      jobs.push({ id: candidateIndex * segments.length + segmentIndex, params, segment });
+    });
+  });
+  const context: OptimizerWorkerContext = {
+    strategy: options.strategy,
+    klines: options.klines,
+    interval: options.interval,
+    baseConfig: options.baseConfig,
+    initialBalance: options.initialBalance,
+    leverage: options.leverage,
+  };
+  const metrics = await runJobs(context, jobs, options.workers ?? 1, options.onProgress);
+
+  const results = candidates.map((params, candidateIndex) => {
+    const pick = (phase: DataSegment["phase"]) =>
+      segments
+        .map((segment, segmentIndex) => ({ segment, metrics: metrics[candidateIndex * segments.length + segmentIndex]! }))
+        .filter((entry) => entry.segment.phase === phase);
+    const inSample = [...pick("full"), ...pick("in-sample")].map((entry) => entry.metrics);
+    const outOfSample = pick("out-of-sample").map((entry) => entry.metrics);
+    return {
+      rank: 0,
+      params,
+      score: averageScore(inSample, objective),
+      outOfSampleScore: outOfSample.length > 0 ? averageScore(outOfSample, objective) : null,
+      inSample,
+      outOfSample,
+    } satisfies CandidateResult;
+  });
+  results.sort((a, b) => b.score - a.score);
+  results.forEach((result, index) => {
+    result.rank = index + 1;
+  });
+
+  const foldCount = options.walkForward && options.walkForward.folds >= 1 ? options.walkForward.folds : 0;
+  const folds: WalkForwardFold[] = [];
+  for (let fold = 0; fold < foldCount; fold += 1) {
+    let best: CandidateResult | null = null;
+    for (const candidate of results) {
+      if (!best || scoreOf(candidate.inSample[fold]!, objective) > scoreOf(best.inSample[fold]!, objective)) {
+        best = candidate;
+      }
+    }
+    if (best) {
+      folds.push({
+        fold,
+        params: best.params,
+        inSampleScore: scoreOf(best.inSample[fold]!, objective),
+        outOfSample: best.outOfSample[fold]!,
+      });
+    }
+  }
+  return { objective, segments, candidates: results, folds };
+}
+
+/** 将参数写入 .env 文件：在基础配置上替换同名变量，缺失的追加到末尾 */
+export function exportParametersToEnv(params: ParameterSet, targetPath: string, basePath?: string): void {
+  const source = basePath ?? targetPath;
+  const lines = existsSync(source) ? readFileSync(source, "utf-8").split(/\r?\n/) : [];
+  const appended: string[] = [];
+  for (const [name, value] of Object.entries(params)) {
+    const key = parameterEnvKey(name);
+    const entry = `${key}=${String(value)}`;
+    const index = lines.findIndex((line) => new RegExp(`^\\s*${key}\\s*=`).test(line));
+    if (index >= 0) {
+      lines[index] = entry;
+    } else {
+      appended.push(entry);
+    }
+  }
+  while (lines.length > 0 && lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  if (appended.length > 0) {
+    if (lines.length > 0) lines.push("");
+    lines.push(`# Optimizer results (${new Date().toISOString()})`, ...appended);
+  }
+  mkdirSync(dirname(targetPath), { recursive: true });
+  writeFileSync(targetPath, `${lines.join("\n")}\n`);
+}
+
+export function formatParameters(params: ParameterSet): string {
+  return Object.entries(params)
+    .map(([name, value]) => `${name}=${value}`)
+    .join(" ");
+}
+
+export function defaultWorkerCount(): number {
+  return Math.max(1, cpus().length - 1);
+}
+
+/**
+ * 解析命令行参数范围：name=min:max[:step] 或 name=v1,v2,...
+ */
+export function parseParameterSpec(spec: string): [string, ParameterRange] {
+  const index = spec.indexOf("=");
+  const name = spec.slice(0, index).trim();
+  const body = spec.slice(index + 1).trim();
+  if (index <= 0 || !body) {
+    throw new Error(`参数范围格式错误: ${spec}（应为 name=min:max[:step] 或 name=v1,v2）`);
+  }
+  parameterEnvKey(name);
+  if (body.includes(":")) {
+    const [min, max, step] = body.split(":").map(Number);
+    if (!Number.isFinite(min) || !Number.isFinite(max) || (step != null && !Number.isFinite(step))) {
+      throw new Error(`参数范围格式错误: ${spec}`);
+    }
+    return [name, { min: min!, max: max!, step }];
+  }
+  return [name, { values: body.split(",").map((value) => parseParameterValue(value.trim())) }];
+}
+
+function scoreOf(metrics: BacktestMetrics, objective: OptimizeObjective): number {
+  const value = metrics[objective];
+  return Number.isFinite(value) ? value : -Infinity;
+}
+
+function averageScore(list: BacktestMetrics[], objective: OptimizeObjective): number {
+  if (list.length === 0) return -Infinity;
+  return list.reduce((sum, metrics) => sum + scoreOf(metrics, objective), 0) / list.length;
+}
+
+async function runJobs(
+  context: OptimizerWorkerContext,
+  jobs: OptimizerJob[],
+  workerCount: number,
+  onProgress?: (done: number, total: number) => void
+): Promise<BacktestMetrics[]> {
+  const results: BacktestMetrics[] = new Array(jobs.length);
+  let done = 0;
+  const report = () => {
+    done += 1;
+    onProgress?.(done, jobs.length);
+  };
+  if (workerCount <= 1) {
+    // 虚拟时钟会替换全局定时器，同一线程内只能顺序回测
+    for (const job of jobs) {
+      results[job.id] = await evaluateJob(context, job);
+      report();
+    }
+    return results;
+  }
+
+  const queue = [...jobs];
+  const threads = Array.from({ length: Math.min(workerCount, jobs.length) }, () => createWorker(context));
+  try {
+    await Promise.all(
+      threads.map(
+        (worker) =>
+          new Promise<void>((resolve, reject) => {
+            const dispatch = () => {
+              const job = queue.shift();
+              if (job) {
+                worker.postMessage(job);
+              } else {
+                resolve();
+              }
+            };
+            worker.on("message", (message: OptimizerWorkerMessage) => {
+              if (message.type === "error") {
+                reject(new Error(`回测任务 ${message.id} 失败: ${message.error}`));
+                return;
+              }
+              results[message.id] = message.metrics;
+              report();
+              dispatch();
+            });
+            worker.on("error", (error) => reject(new Error(`优化工作线程异常: ${extractMessage(error)}`)));
+            dispatch();
+          })
+      )
+    );
+  } finally {
+    await Promise.all(threads.map((worker) => worker.terminate()));
+  }
+  return results;
+}
+
+function createWorker(context: OptimizerWorkerContext): Worker {
+  const entry = new URL("./optimizer-worker.ts", import.meta.url);
+  if (process.versions.bun) {
+    return new Worker(entry, { workerData: context });
+  }
+  // Node 的工作线程不继承 tsx 的加载钩子，需在线程内先注册再加载 .ts 入口
+  const tsxApi = import.meta.resolve("tsx/esm/api");
+  const bootstrap = `import(${JSON.stringify(tsxApi)}).then(({ register }) => { register(); return import(${JSON.stringify(entry.href)}); });`;
+  return new Worker(bootstrap, { eval: true, workerData: context });
+}
+
+function rangeValues(range: ParameterRange): ParameterValue[] {
+  if ("values" in range) {
+    return [...range.values];
+  }
+  const { min, max } = range;
+  if (max <= min) return [min];
+  const step = range.step && range.step > 0 ? range.step : (max - min) / (DEFAULT_GRID_POINTS - 1);
+  const values: number[] = [];
+  for (let value = min; value <= max + step * 1e-9; value += step) {
+    values.push(normalizeNumber(value, range.integer));
+  }
+  return Array.from(new Set(values));
+}
+
+function sampleValue(range: ParameterRange, random: () => number): ParameterValue {
+  if ("values" in range) {
+    return range.values[Math.floor(random() * range.values.length)] ?? range.values[0]!;
+  }
+  const { min, max } = range;
+  let value = min + random() * (max - min);
+  if (range.step && range.step > 0) {
+    value = min + Math.round((value - min) / range.step) * range.step;
+  }
+  return normalizeNumber(Math.min(max, value), range.integer);
+}
+
+function normalizeNumber(value: number, integer?: boolean): number {
+  return integer ? Math.round(value) : Number(value.toFixed(10));
+}
+
+/** mulberry32 伪随机数 */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function parseParameterValue(value: string): ParameterValue {
+  if (value === "true" || value === "false") return value === "true";
+  const numeric = Number(value);
+  return value !== "" && Number.isFinite(numeric) ? numeric : value;
+}
@@ -0,0 +1,165 @@
+import { technicalAnalysisConfig, type TradingConfig } from "../config";
+import { EnhancedTrendEngine } from "../core/enhanced-trend-engine";
+import { TrendEngine } from "../core/trend-engine";
+import type { StrategyEngine } from "../core/base-engine";
+import { MockExchangeAdapter } from "../exchanges/mock-adapter";
+import type { AsterKline } from "../exchanges/types";
+import { intervalToMs } from "../utils/kline";
+import type { MarketAnalyzerConfig } from "../utils/market-analyzer";
+import { MemoryKlineStore } from "../utils/memory-kline-store";
+import { buildTrades, summarizeBacktest, type BacktestMetrics, type BacktestTrade, type EquityPoint } from "./metrics";
+import { SimulatedClock } from "./simulated-clock";
+
+export type BacktestStrategy = "trend" | "enhanced";
+
+// MarketAnalyzer 固定使用 15m K线做技术分析
+const ANALYZER_INTERVAL = "15m";
+
+export interface BacktestOptions {
+  strategy: BacktestStrategy;
+  klines: AsterKline[];
+  interval: string;
+  config: TradingConfig;
+  initialBalance?: number;
+  leverage?: number;
+  spread?: number; // 合成盘口买一卖一价差，默认一个 priceTick
+  warmupBars?: number; // 开头的预热K线只用于积累指标，引擎在其后启动且不计入结果
+  analyzerConfig?: MarketAnalyzerConfig;
+}
+
+export interface BacktestResult {
+  strategy: BacktestStrategy;
+  symbol: string;
+  interval: string;
+  startTime: number;
+  endTime: number;
+  bars: number;
+  trades: BacktestTrade[];
+  equityCurve: EquityPoint[];
+  metrics: BacktestMetrics;
+  openPositionAmt: number; // 回测结束时未平仓数量，已计入权益但不计入交易列表
+}
+
+/**
+ * 回测用技术分析配置，与增强趋势界面的默认值一致
+ */
+export function createBacktestAnalyzerConfig(): MarketAnalyzerConfig {
+  return {
+    kdjPeriod: technicalAnalysisConfig.kdjPeriod || 14,
+    rsiPeriod: technicalAnalysisConfig.rsiPeriod || 14,
+    volumeMaPeriod: technicalAnalysisConfig.volumeMaPeriod || 20,
+    confidenceThreshold: technicalAnalysisConfig.confidenceThreshold || 0.7,
+    priceRangeHours: technicalAnalysisConfig.priceRangeHours || 3,
+    volatilityPeriod: technicalAnalysisConfig.volatilityPeriod || 20,
+    minVolumeRatio: technicalAnalysisConfig.minVolumeRatio || 1.5,
+    priceRangePeriod: 24,
+    overboughtLevel: 80,
+    oversoldLevel: 20,
+    highVolumeThreshold: 2.0,
+    cacheTTL: 300,
+  };
+}
+
+/**
+ * K线回测：在虚拟时钟与模拟交易所上运行真实的引擎代码
+ * 每根K线按 开→高/低→低/高→收 拆成四个价格点推送，手续费按 FeeMonitor 的 成交额×feeRate 模型计算
+ */
+export async function runBacktest(options: BacktestOptions): Promise<BacktestResult> {
+  const { strategy, klines, interval } = options;
+  const first = klines[0];
+  const last = klines[klines.length - 1];
+  if (!first || !last) {
+    throw new Error("回测K线数据为空");
+  }
+  const config: TradingConfig = { ...options.config, klineInterval: interval };
+  const symbol = config.symbol.toUpperCase();
+  const initialBalance = options.initialBalance ?? 10000;
+  const periodMs = intervalToMs(interval);
+  const clock = new SimulatedClock(first.openTime);
+  clock.install();
+  try {
+    const exchange = new MockExchangeAdapter({
+      symbol,
+      initialBalance,
+      makerFeeRate: config.feeRate,
+      takerFeeRate: config.feeRate,
+      leverage: options.leverage,
+      spread: options.spread ?? config.priceTick,
+      now: () => clock.now(),
+    });
+    exchange.setKlines(symbol, interval, []);
+    if (strategy === "enhanced" && interval !== ANALYZER_INTERVAL) {
+      exchange.setKlines(symbol, ANALYZER_INTERVAL, []);
+    }
+    const engine = createEngine(strategy, config, exchange, options.analyzerConfig);
+    const warmupBars = Math.min(Math.max(0, options.warmupBars ?? 0), klines.length - 1);
+
+    const equityCurve: EquityPoint[] = [];
+    for (const [index, kline] of klines.entries()) {
+      if (index === warmupBars) {
+        engine.start();
+      }
+      const path = barPath(kline);
+      const step = periodMs / path.length;
+      const volume = Number(kline.volume) / path.length || 0;
+      for (let i = 0; i < path.length; i += 1) {
+        await clock.advanceTo(kline.openTime + Math.floor(i * step));
+        exchange.pushPrice(path[i]!, { volume });
+      }
+      await clock.advanceTo(kline.openTime + periodMs - 1);
+      if (index < warmupBars) continue;
+      const account = exchange.getAccountSnapshot();
+      equityCurve.push({
+        time: clock.now(),
+        price: Number(kline.close),
+        equity: Number(account.totalMarginBalance),
+      });
+    }
+    engine.stop();
+
+    const fills = exchange.getFills();
+    const trades = buildTrades(fills);
+    return {
+      strategy,
+      symbol,
+      interval,
+      startTime: klines[warmupBars]!.openTime,
+      endTime: last.openTime + periodMs - 1,
+      bars: klines.length - warmupBars,
+      trades,
+      equityCurve,
+      metrics: summarizeBacktest({ initialBalance, trades, fills, equityCurve, periodMs }),
+      openPositionAmt: exchange.getPositionAmount(symbol),
+    };
+  } finally {
+    clock.uninstall();
+  }
+}
+
+function createEngine(
+  strategy: BacktestStrategy,
+  config: TradingConfig,
+  exchange: MockExchangeAdapter,
+  analyzerConfig?: MarketAnalyzerConfig
+): StrategyEngine {
+  if (strategy === "enhanced") {
+    return new EnhancedTrendEngine(
+      config,
+      exchange,
+      undefined,
+      analyzerConfig ?? createBacktestAnalyzerConfig(),
+      true,
+      new MemoryKlineStore()
+    );
+  }
+  return new TrendEngine(config, exchange);
+}
+
+/** 阳线先探低后冲高，阴线先冲高后探低 */
+function barPath(kline: AsterKline): number[] {
+  const open = Number(kline.open);
+  const high = Number(kline.high);
+  const low = Number(kline.low);
+  const close = Number(kline.close);
+  return close >= open ? [open, low, high, close] : [open, high, low, close];
+}
@@ -0,0 +1,138 @@
+type TimerCallback = (...args: unknown[]) => void;
+
+interface SimulatedTimer {
+  id: number;
+  dueAt: number;
+  interval: number | null;
+  callback: TimerCallback;
+  args: unknown[];
+}
+
+/** 与 Node 的 Timeout 对象兼容的句柄，引擎可照常调用 clearTimeout/clearInterval */
+class SimulatedTimerHandle {
+  constructor(readonly id: number) {}
+  ref(): this {
+    return this;
+  }
+  unref(): this {
+    return this;
+  }
+  hasRef(): boolean {
+    return true;
+  }
+  [Symbol.toPrimitive](): number {
+    return this.id;
+  }
+}
+
+interface InstalledGlobals {
+  now: typeof Date.now;
+  setTimeout: typeof globalThis.setTimeout;
+  setInterval: typeof globalThis.setInterval;
+  clearTimeout: typeof globalThis.clearTimeout;
+  clearInterval: typeof globalThis.clearInterval;
+}
+
+/**
+ * 回测虚拟时钟：接管 Date.now 与定时器，按时间顺序执行到期回调，使引擎代码无需修改即可在历史数据上运行
+ */
+export class SimulatedClock {
+  private current: number;
+  private nextId = 1;
+  private readonly timers = new Map<number, SimulatedTimer>();
+  private installed: InstalledGlobals | null = null;
+  private readonly yieldToEventLoop: () => Promise<void>;
+
+  constructor(start: number) {
+    this.current = start;
+    const realSetImmediate = globalThis.setImmediate;
+    this.yieldToEventLoop = () => new Promise((resolve) => realSetImmediate(resolve));
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  pendingTimers(): number {
+    return this.timers.size;
+  }
+
+  install(): void {
+    if (this.installed) return;
+    this.installed = {
+      now: Date.now,
+      setTimeout: globalThis.setTimeout,
+      setInterval: globalThis.setInterval,
+      clearTimeout: globalThis.clearTimeout,
+      clearInterval: globalThis.clearInterval,
+    };
+    Date.now = () => this.current;
+    globalThis.setTimeout = ((callback: TimerCallback, ms?: number, ...args: unknown[]) =>
+      this.schedule(callback, ms, null, args)) as unknown as typeof globalThis.setTimeout;
+    globalThis.setInterval = ((callback: TimerCallback, ms?: number, ...args: unknown[]) =>
+      this.schedule(callback, ms, Math.max(1, Number(ms) || 0), args)) as unknown as typeof globalThis.setInterval;
+    globalThis.clearTimeout = ((handle: unknown) => this.clear(handle)) as typeof globalThis.clearTimeout;
+    globalThis.clearInterval = ((handle: unknown) => this.clear(handle)) as typeof globalThis.clearInterval;
+  }
+
+  /** 恢复真实时钟，未执行的虚拟定时器全部丢弃 */
+  uninstall(): void {
+    const original = this.installed;
+    if (!original) return;
+    Date.now = original.now;
+    globalThis.setTimeout = original.setTimeout;
+    globalThis.setInterval = original.setInterval;
+    globalThis.clearTimeout = original.clearTimeout;
+    globalThis.clearInterval = original.clearInterval;
+    this.installed = null;
+    this.timers.clear();
+  }
+
+  /**
+   * 推进到指定时间：依次执行到期定时器，每次执行后让出事件循环，等待引擎中的异步流程完成
+   */
+  async advanceTo(timestamp: number): Promise<void> {
+    for (;;) {
+      const next = this.nextDueTimer(timestamp);
+      if (!next) break;
+      this.current = Math.max(this.current, next.dueAt);
+      if (next.interval != null) {
+        next.dueAt += next.interval;
+      } else {
+        this.timers.delete(next.id);
+      }
+      try {
+        next.callback(...next.args);
+      } catch (error) {
+        console.error("[SimulatedClock] timer failure", error);
+      }
+      await this.yieldToEventLoop();
+    }
+    this.current = Math.max(this.current, timestamp);
+    await this.yieldToEventLoop();
+  }
+
+  private nextDueTimer(limit: number): SimulatedTimer | null {
+    let next: SimulatedTimer | null = null;
+    for (const timer of this.timers.values()) {
+      if (timer.dueAt > limit) continue;
+      if (!next || timer.dueAt < next.dueAt || (timer.dueAt === next.dueAt && timer.id < next.id)) {
+        next = timer;
+      }
+    }
+    return next;
+  }
+
+  private schedule(callback: TimerCallback, ms: number | undefined, interval: number | null, args: unknown[]): SimulatedTimerHandle {
+    const id = this.nextId++;
+    const delay = Math.max(0, Number(ms) || 0);
+    this.timers.set(id, { id, dueAt: this.current + (interval ?? delay), interval, callback, args });
+    return new SimulatedTimerHandle(id);
+  }
+
+  private clear(handle: unknown): void {
+    if (handle == null) return;
+    const id = handle instanceof SimulatedTimerHandle ? handle.id : Number(handle);
+    this.timers.delete(id);
+  }
+}
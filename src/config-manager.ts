@@ -1,5 +1,5 @@
 import dotenv from 'dotenv';
-import type { TradingConfig } from './config.ts';
+import { loadTradingConfig, type TradingConfig } from './config.ts';
 import { ApiConfigManager, type ApiCredentials } from './api-config-manager.ts';
 
 export class ConfigManager {
@@ -57,48 +57,11 @@ export class ConfigManager {
     this.config = this.parseConfig();
   }
 
-  private parseNumber(value: string | undefined, fallback: number): number {
-    if (!value) return fallback;
-    const next = Number(value);
-    return Number.isFinite(next) ? next : fallback;
-  }
-
-  private parseBoolean(value: string | undefined, fallback: boolean): boolean {
-    if (!value) return fallback;
-    return value.toLowerCase() === 'true';
-  }
-
+  /**
+   * 与单实例入口及策略插件共用 loadTradingConfig，启动器显示的摘要即引擎实际使用的配置
+   */
   private parseConfig(): TradingConfig {
-    return {
-      symbol: process.env.TRADE_SYMBOL ?? "BTCUSDT",
-      tradeAmount: this.parseNumber(process.env.TRADE_AMOUNT, 0.001),
-      lossLimit: this.parseNumber(process.env.LOSS_LIMIT, 0.03),
-      trailingProfit: this.parseNumber(process.env.TRAILING_PROFIT, 0.2),
-      trailingCallbackRate: this.parseNumber(process.env.TRAILING_CALLBACK_RATE, 0.2),
-      profitLockTriggerUsd: this.parseNumber(process.env.PROFIT_LOCK_TRIGGER_USD, 0.1),
-      profitLockOffsetUsd: this.parseNumber(process.env.PROFIT_LOCK_OFFSET_USD, 0.05),
-      pollIntervalMs: this.parseNumber(process.env.POLL_INTERVAL_MS, 500),
-      maxLogEntries: this.parseNumber(process.env.MAX_LOG_ENTRIES, 200),
-      klineInterval: process.env.KLINE_INTERVAL ?? "1m",
-      maxCloseSlippagePct: this.parseNumber(process.env.MAX_CLOSE_SLIPPAGE_PCT, 0.3),
-      priceTick: this.parseNumber(process.env.PRICE_TICK, 0.1),
-      qtyStep: this.parseNumber(process.env.QTY_STEP, 0.001),
-      
-      // Fee monitoring settings
-      feeRate: this.parseNumber(process.env.FEE_RATE, 0.0005),
-      maxDailyFeePct: this.parseNumber(process.env.MAX_DAILY_FEE_PCT, 2.0),
-      maxHourlyFeePct: this.parseNumber(process.env.MAX_HOURLY_FEE_PCT, 0.5),
-      feeWarningThreshold: this.parseNumber(process.env.FEE_WARNING_THRESHOLD, 1.0),
-      enableFeeProtection: this.parseBoolean(process.env.ENABLE_FEE_PROTECTION, true),
-      logFeeSummaryInterval: this.parseNumber(process.env.LOG_FEE_SUMMARY_INTERVAL, 300000),
-      resetFeeCounterHour: this.parseNumber(process.env.RESET_FEE_COUNTER_HOUR, 0),
-      
-      // Dynamic risk management settings
-      enableDynamicRisk: this.parseBoolean(process.env.ENABLE_DYNAMIC_RISK, false),
-      dynamicRiskThreshold: this.parseNumber(process.env.DYNAMIC_RISK_THRESHOLD, 0.05),
-      riskPercentage: this.parseNumber(process.env.RISK_PERCENTAGE, 2.0),
-      profitTargetPercentage: this.parseNumber(process.env.PROFIT_TARGET_PERCENTAGE, 1.0)
-    };
+    return loadTradingConfig(process.env);
   }
 
   /**
@@ -180,6 +143,9 @@ export class ConfigManager {
     console.log(`⚡ 轮询间隔: ${this.config.pollIntervalMs}ms`);
     console.log(`🛡️ 手续费保护: ${this.config.enableFeeProtection ? '启用' : '禁用'}`);
     console.log(`🎰 动态风险: ${this.config.enableDynamicRisk ? '启用' : '禁用'}`);
+    console.log(`⚖️ 持仓模式: ${this.config.hedgeMode ? '对冲（双向）' : '单向'}`);
+    console.log(`🔧 杠杆倍数: ${this.config.leverage ? `${this.config.leverage}x` : '沿用账户设置'}`);
+    console.log(`🏦 保证金模式: ${this.config.marginType ? (this.config.marginType === 'ISOLATED' ? '逐仓' : '全仓') : '沿用账户设置'}`);
     
     // 显示API配置信息
     try {
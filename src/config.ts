@@ -1,3 +1,9 @@
+import type { ExecutionAlgo, ExecutionConfig } from "./core/lib/execution";
+import type { MarginType } from "./exchanges/types";
+import type { FundingGuardConfig } from "./utils/funding";
+import type { GreedyProfitConfig } from "./utils/greedy-take-profit";
+import type { InventoryQuotingConfig } from "./utils/inventory-quoting";
+
 export interface TradingConfig {
   symbol: string;
   tradeAmount: number;
@@ -25,6 +31,17 @@ export interface TradingConfig {
   dynamicRiskThreshold: number; // 价格变化阈值 (如 0.05 = 5%)
   riskPercentage: number;       // 风险百分比
   profitTargetPercentage: number; // 目标收益百分比
+  // 贪婪止盈配置，未设置时由引擎从环境变量读取（回测与参数优化时直接注入）
+  greedyTakeProfit?: GreedyProfitConfig;
+  // 资金费保护配置，未设置时由引擎从环境变量读取
+  fundingGuard?: FundingGuardConfig;
+  // 市价开平仓的执行算法配置，未设置时由引擎从环境变量读取
+  execution?: ExecutionConfig;
+  // 对冲模式（双向持仓）：多空两腿分别开平仓，须与账户设置一致
+  hedgeMode?: boolean;
+  // 杠杆倍数与保证金模式，设置后在引擎启动时应用到账户并校验，未设置时沿用账户现有设置
+  leverage?: number;
+  marginType?: MarginType;
 }
 
 function parseNumber(value: string | undefined, fallback: number): number {
@@ -38,34 +55,71 @@ function parseBoolean(value: string | undefined, fallback: boolean): boolean {
   return value.toLowerCase() === 'true';
 }
 
-export const tradingConfig: TradingConfig = {
-  symbol: process.env.TRADE_SYMBOL ?? "BTCUSDT",
-  tradeAmount: parseNumber(process.env.TRADE_AMOUNT, 0.001),
-  lossLimit: parseNumber(process.env.LOSS_LIMIT, 0.03),
-  trailingProfit: parseNumber(process.env.TRAILING_PROFIT, 0.2),
-  trailingCallbackRate: parseNumber(process.env.TRAILING_CALLBACK_RATE, 0.2),
-  profitLockTriggerUsd: parseNumber(process.env.PROFIT_LOCK_TRIGGER_USD, 0.1),
-  profitLockOffsetUsd: parseNumber(process.env.PROFIT_LOCK_OFFSET_USD, 0.05),
-  pollIntervalMs: parseNumber(process.env.POLL_INTERVAL_MS, 500),
-  maxLogEntries: parseNumber(process.env.MAX_LOG_ENTRIES, 200),
-  klineInterval: process.env.KLINE_INTERVAL ?? "1m",
-  maxCloseSlippagePct: parseNumber(process.env.MAX_CLOSE_SLIPPAGE_PCT, 0.05),
-  priceTick: parseNumber(process.env.PRICE_TICK, 0.1),
-  qtyStep: parseNumber(process.env.QTY_STEP, 0.001),
-  // Fee monitoring
-  feeRate: parseNumber(process.env.FEE_RATE, 0.0004),
-  maxDailyFeePct: parseNumber(process.env.MAX_DAILY_FEE_PCT, 2.0),
-  maxHourlyFeePct: parseNumber(process.env.MAX_HOURLY_FEE_PCT, 0.5),
-  feeWarningThreshold: parseNumber(process.env.FEE_WARNING_THRESHOLD, 1.0),
-  enableFeeProtection: parseBoolean(process.env.ENABLE_FEE_PROTECTION, true),
-  logFeeSummaryInterval: parseNumber(process.env.LOG_FEE_SUMMARY_INTERVAL, 300000),
-  resetFeeCounterHour: parseNumber(process.env.RESET_FEE_COUNTER_HOUR, 0),
-  // Dynamic risk management
-  enableDynamicRisk: parseBoolean(process.env.ENABLE_DYNAMIC_RISK, false),
-  dynamicRiskThreshold: parseNumber(process.env.DYNAMIC_RISK_THRESHOLD, 0.05),
-  riskPercentage: parseNumber(process.env.RISK_PERCENTAGE, 0.01),
-  profitTargetPercentage: parseNumber(process.env.PROFIT_TARGET_PERCENTAGE, 0.02),
-};
+// 各策略配置都会解析 LEVERAGE / MARGIN_TYPE，同一无效值只提示一次
+const warnedInvalidEnv = new Set<string>();
+
+function warnInvalidEnv(key: string, value: string, expected: string): void {
+  const id = `${key}=${value}`;
+  if (warnedInvalidEnv.has(id)) return;
+  warnedInvalidEnv.add(id);
+  console.warn(`⚠️ ${key}=${value} 无效（应为${expected}），已忽略并沿用账户现有设置`);
+}
+
+/** 解析 LEVERAGE，未设置或不是正整数时返回 undefined（无效值会提示） */
+export function parseLeverage(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const next = Number(value);
+  if (Number.isInteger(next) && next > 0) return next;
+  warnInvalidEnv("LEVERAGE", value, "正整数");
+  return undefined;
+}
+
+/** 解析 MARGIN_TYPE，支持 isolated / cross / crossed（不区分大小写，无效值会提示） */
+export function parseMarginType(value: string | undefined): MarginType | undefined {
+  if (!value) return undefined;
+  const normalized = value.trim().toUpperCase();
+  if (normalized === "ISOLATED") return "ISOLATED";
+  if (normalized === "CROSS" || normalized === "CROSSED") return "CROSSED";
+  warnInvalidEnv("MARGIN_TYPE", value, " isolated 或 cross");
+  return undefined;
+}
+
+/** 从环境变量读取趋势策略配置，多实例启动器加载实例配置文件后重新读取 */
+export function loadTradingConfig(env: NodeJS.ProcessEnv = process.env): TradingConfig {
+  return {
+    symbol: env.TRADE_SYMBOL ?? "BTCUSDT",
+    tradeAmount: parseNumber(env.TRADE_AMOUNT, 0.001),
+    lossLimit: parseNumber(env.LOSS_LIMIT, 0.03),
+    trailingProfit: parseNumber(env.TRAILING_PROFIT, 0.2),
+    trailingCallbackRate: parseNumber(env.TRAILING_CALLBACK_RATE, 0.2),
+    profitLockTriggerUsd: parseNumber(env.PROFIT_LOCK_TRIGGER_USD, 0.1),
+    profitLockOffsetUsd: parseNumber(env.PROFIT_LOCK_OFFSET_USD, 0.05),
+    pollIntervalMs: parseNumber(env.POLL_INTERVAL_MS, 500),
+    maxLogEntries: parseNumber(env.MAX_LOG_ENTRIES, 200),
+    klineInterval: env.KLINE_INTERVAL ?? "1m",
+    maxCloseSlippagePct: parseNumber(env.MAX_CLOSE_SLIPPAGE_PCT, 0.05),
+    priceTick: parseNumber(env.PRICE_TICK, 0.1),
+    qtyStep: parseNumber(env.QTY_STEP, 0.001),
+    // Fee monitoring
+    feeRate: parseNumber(env.FEE_RATE, 0.0004),
+    maxDailyFeePct: parseNumber(env.MAX_DAILY_FEE_PCT, 2.0),
+    maxHourlyFeePct: parseNumber(env.MAX_HOURLY_FEE_PCT, 0.5),
+    feeWarningThreshold: parseNumber(env.FEE_WARNING_THRESHOLD, 1.0),
+    enableFeeProtection: parseBoolean(env.ENABLE_FEE_PROTECTION, true),
+    logFeeSummaryInterval: parseNumber(env.LOG_FEE_SUMMARY_INTERVAL, 300000),
+    resetFeeCounterHour: parseNumber(env.RESET_FEE_COUNTER_HOUR, 0),
+    // Dynamic risk management
+    enableDynamicRisk: parseBoolean(env.ENABLE_DYNAMIC_RISK, false),
+    dynamicRiskThreshold: parseNumber(env.DYNAMIC_RISK_THRESHOLD, 0.05),
+    riskPercentage: parseNumber(env.RISK_PERCENTAGE, 0.01),
+    profitTargetPercentage: parseNumber(env.PROFIT_TARGET_PERCENTAGE, 0.02),
+    hedgeMode: parseBoolean(env.HEDGE_MODE, false),
+    leverage: parseLeverage(env.LEVERAGE),
+    marginType: parseMarginType(env.MARGIN_TYPE),
+  };
+}
+
+export const tradingConfig: TradingConfig = loadTradingConfig();
 
 export interface MakerConfig {
   symbol: string;
@@ -79,24 +133,162 @@ export interface MakerConfig {
   maxLogEntries: number;
   maxCloseSlippagePct: number;
   priceTick: number;
+  // 资金费保护配置，未设置时由引擎从环境变量读取
+  fundingGuard?: FundingGuardConfig;
+  // 市价开平仓的执行算法配置，未设置时由引擎从环境变量读取
+  execution?: ExecutionConfig;
+  // 库存偏移报价配置（仅做市策略），未设置时由引擎从环境变量读取
+  inventoryQuoting?: InventoryQuotingConfig;
+  // 对冲模式（双向持仓）：多空两腿分别挂单与风控，须与账户设置一致
+  hedgeMode?: boolean;
+  // 杠杆倍数与保证金模式，设置后在引擎启动时应用到账户并校验
+  leverage?: number;
+  marginType?: MarginType;
 }
 
-export const makerConfig: MakerConfig = {
-  symbol: process.env.TRADE_SYMBOL ?? "BTCUSDT",
-  tradeAmount: parseNumber(process.env.TRADE_AMOUNT, 0.001),
-  lossLimit: parseNumber(process.env.MAKER_LOSS_LIMIT, parseNumber(process.env.LOSS_LIMIT, 0.03)),
-  profitTarget: parseNumber(process.env.MAKER_PROFIT_TARGET, 0.5),
-  priceChaseThreshold: parseNumber(process.env.MAKER_PRICE_CHASE, 0.3),
-  bidOffset: parseNumber(process.env.MAKER_BID_OFFSET, 0),
-  askOffset: parseNumber(process.env.MAKER_ASK_OFFSET, 0),
-  refreshIntervalMs: parseNumber(process.env.MAKER_REFRESH_INTERVAL_MS, 1500),
-  maxLogEntries: parseNumber(process.env.MAKER_MAX_LOG_ENTRIES, 200),
-  maxCloseSlippagePct: parseNumber(
-    process.env.MAKER_MAX_CLOSE_SLIPPAGE_PCT ?? process.env.MAX_CLOSE_SLIPPAGE_PCT,
-    0.05
-  ),
-  priceTick: parseNumber(process.env.MAKER_PRICE_TICK ?? process.env.PRICE_TICK, 0.1),
-};
+/** 从环境变量读取做市策略配置 */
+export function loadMakerConfig(env: NodeJS.ProcessEnv = process.env): MakerConfig {
+  return {
+    symbol: env.TRADE_SYMBOL ?? "BTCUSDT",
+    tradeAmount: parseNumber(env.TRADE_AMOUNT, 0.001),
+    lossLimit: parseNumber(env.MAKER_LOSS_LIMIT, parseNumber(env.LOSS_LIMIT, 0.03)),
+    profitTarget: parseNumber(env.MAKER_PROFIT_TARGET, 0.5),
+    priceChaseThreshold: parseNumber(env.MAKER_PRICE_CHASE, 0.3),
+    bidOffset: parseNumber(env.MAKER_BID_OFFSET, 0),
+    askOffset: parseNumber(env.MAKER_ASK_OFFSET, 0),
+    refreshIntervalMs: parseNumber(env.MAKER_REFRESH_INTERVAL_MS, 1500),
+    maxLogEntries: parseNumber(env.MAKER_MAX_LOG_ENTRIES, 200),
+    maxCloseSlippagePct: parseNumber(
+      env.MAKER_MAX_CLOSE_SLIPPAGE_PCT ?? env.MAX_CLOSE_SLIPPAGE_PCT,
+      0.05
+    ),
+    priceTick: parseNumber(env.MAKER_PRICE_TICK ?? env.PRICE_TICK, 0.1),
+    hedgeMode: parseBoolean(env.HEDGE_MODE, false),
+    leverage: parseLeverage(env.LEVERAGE),
+    marginType: parseMarginType(env.MARGIN_TYPE),
+  };
+}
+
+export const makerConfig: MakerConfig = loadMakerConfig();
+
+/** 从环境变量读取库存偏移报价配置（仅做市策略） */
+export function loadInventoryQuotingConfig(env: NodeJS.ProcessEnv = process.env): InventoryQuotingConfig {
+  return {
+    model: env.MAKER_QUOTE_MODEL?.trim().toLowerCase() === "inventory" ? "inventory" : "fixed",
+    riskAversion: parseNumber(env.MAKER_RISK_AVERSION, 0.1),
+    orderIntensity: parseNumber(env.MAKER_ORDER_INTENSITY, 1),
+    horizonMs: parseNumber(env.MAKER_QUOTE_HORIZON_MS, 60000),
+    volatilityWindowMs: parseNumber(env.MAKER_VOLATILITY_WINDOW_MS, 300000),
+    maxInventory: parseNumber(env.MAKER_MAX_INVENTORY, 0),
+    twoSided: parseBoolean(env.MAKER_TWO_SIDED, false),
+  };
+}
+
+export type GridSpacing = "arithmetic" | "geometric";
+
+export interface GridConfig {
+  symbol: string;
+  lowerPrice: number;
+  upperPrice: number;
+  levelCount: number; // 网格档位数量（含上下边界）
+  spacing: GridSpacing; // arithmetic 等差，geometric 等比
+  levelQty: number; // 每档挂单数量
+  // 止损边界：价格跌破 stopLowerPrice 或涨破 stopUpperPrice 时撤单平仓并停止网格，0 表示不启用
+  stopLowerPrice: number;
+  stopUpperPrice: number;
+  refreshIntervalMs: number;
+  maxLogEntries: number;
+  maxCloseSlippagePct: number;
+  priceTick: number;
+  qtyStep: number;
+  // 资金费保护配置，未设置时由引擎从环境变量读取
+  fundingGuard?: FundingGuardConfig;
+  // 市价开平仓的执行算法配置，未设置时由引擎从环境变量读取
+  execution?: ExecutionConfig;
+  // 网格不支持对冲模式，设置为 true 时引擎不会启动
+  hedgeMode?: boolean;
+  leverage?: number;
+  marginType?: MarginType;
+}
+
+function parseGridSpacing(value: string | undefined): GridSpacing {
+  return value?.trim().toLowerCase() === "geometric" ? "geometric" : "arithmetic";
+}
+
+/** 从环境变量读取网格策略配置 */
+export function loadGridConfig(env: NodeJS.ProcessEnv = process.env): GridConfig {
+  return {
+    symbol: env.TRADE_SYMBOL ?? "BTCUSDT",
+    lowerPrice: parseNumber(env.GRID_LOWER_PRICE, 0),
+    upperPrice: parseNumber(env.GRID_UPPER_PRICE, 0),
+    levelCount: parseNumber(env.GRID_LEVELS, 10),
+    spacing: parseGridSpacing(env.GRID_SPACING),
+    levelQty: parseNumber(env.GRID_LEVEL_QTY, parseNumber(env.TRADE_AMOUNT, 0.001)),
+    stopLowerPrice: parseNumber(env.GRID_STOP_LOWER_PRICE, 0),
+    stopUpperPrice: parseNumber(env.GRID_STOP_UPPER_PRICE, 0),
+    refreshIntervalMs: parseNumber(env.GRID_REFRESH_INTERVAL_MS, 1500),
+    maxLogEntries: parseNumber(env.GRID_MAX_LOG_ENTRIES, 200),
+    maxCloseSlippagePct: parseNumber(env.MAX_CLOSE_SLIPPAGE_PCT, 0.05),
+    priceTick: parseNumber(env.PRICE_TICK, 0.1),
+    qtyStep: parseNumber(env.QTY_STEP, 0.001),
+    hedgeMode: parseBoolean(env.HEDGE_MODE, false),
+    leverage: parseLeverage(env.LEVERAGE),
+    marginType: parseMarginType(env.MARGIN_TYPE),
+  };
+}
+
+export const gridConfig: GridConfig = loadGridConfig();
+
+export function parseExecutionAlgo(value: string | undefined): ExecutionAlgo {
+  const normalized = value?.trim().toLowerCase();
+  return normalized === "twap" || normalized === "iceberg" || normalized === "pov" ? normalized : "market";
+}
+
+/** 从环境变量读取市价开平仓的执行算法配置，各策略引擎共用 */
+export function loadExecutionConfig(env: NodeJS.ProcessEnv = process.env): ExecutionConfig {
+  return {
+    algo: parseExecutionAlgo(env.EXECUTION_ALGO),
+    durationMs: parseNumber(env.EXECUTION_DURATION_MS, 60000),
+    intervalMs: parseNumber(env.EXECUTION_INTERVAL_MS, 2000),
+    twapSlices: parseNumber(env.EXECUTION_TWAP_SLICES, 6),
+    icebergVisibleQty: parseNumber(env.EXECUTION_ICEBERG_VISIBLE_QTY, 0),
+    povRate: parseNumber(env.EXECUTION_POV_RATE, 0.1),
+    finalSweep: parseBoolean(env.EXECUTION_FINAL_SWEEP, true),
+  };
+}
+
+// 交易模式：live 为实盘，paper 为使用实时行情的本地模拟盘
+export type TradingMode = "live" | "paper";
+
+export function parseTradingMode(value: string | undefined, fallback: TradingMode = "live"): TradingMode {
+  if (!value) return fallback;
+  const normalized = value.trim().toLowerCase();
+  return normalized === "paper" || normalized === "live" ? normalized : fallback;
+}
+
+export const tradingMode: TradingMode = parseTradingMode(process.env.TRADING_MODE);
+
+// 模拟盘配置
+export interface PaperTradingConfig {
+  initialBalance: number;
+  makerFeeRate: number;
+  takerFeeRate: number;
+  leverage: number;
+  dualSidePosition: boolean; // 模拟账户是否为对冲模式
+}
+
+// 按调用时的环境变量解析，便于在 ConfigManager 加载配置文件之后读取
+export function loadPaperTradingConfig(): PaperTradingConfig {
+  return {
+    initialBalance: parseNumber(process.env.PAPER_INITIAL_BALANCE, 10000),
+    makerFeeRate: parseNumber(process.env.PAPER_MAKER_FEE_RATE ?? process.env.PAPER_FEE_RATE, 0.0002),
+    takerFeeRate: parseNumber(process.env.PAPER_TAKER_FEE_RATE ?? process.env.PAPER_FEE_RATE, 0.0004),
+    leverage: parseNumber(process.env.PAPER_LEVERAGE, 10),
+    dualSidePosition: parseBoolean(process.env.HEDGE_MODE, false),
+  };
+}
+
+export const paperTradingConfig: PaperTradingConfig = loadPaperTradingConfig();
 
 // Redis配置
 export interface RedisConfig {
@@ -0,0 +1,548 @@
+import type { ExchangeAdapter } from "../exchanges/adapter";
+import { loadExecutionConfig } from "../config";
+import type {
+  AsterAccountSnapshot,
+  AsterDepth,
+  AsterFill,
+  AsterKline,
+  AsterOrder,
+  AsterTicker,
+  MarginType,
+  RateLimitUsage,
+  StreamHealth,
+} from "../exchanges/types";
+import { createTradeLog, type TradeLogEntry } from "../state/trade-log";
+import { getNetPositionAmount, getPosition, type PositionSnapshot } from "../utils/strategy";
+import {
+  FundingMonitor,
+  describeFundingSettlement,
+  loadFundingGuardConfig,
+  type FundingGuardConfig,
+  type FundingSnapshot,
+} from "../utils/funding";
+import { describeClockDrift } from "../utils/format";
+import { TradeFlowAggregator, type TradeFlowStats } from "../utils/trade-flow";
+import { getMidOrLast } from "../utils/price";
+import { unlockOperating } from "./order-coordinator";
+import type { OrderLockMap, OrderPendingMap, OrderTimerMap } from "./order-coordinator";
+import { AccountSetupGuard } from "./lib/account-setup";
+import { ClientOrderIdFactory, deriveInstanceName } from "./lib/client-order-id";
+import { OrderExecutor, type ExecutionConfig, type ExecutionReport } from "./lib/execution";
+import { PositionModeGuard } from "./lib/position-mode";
+import { MarketDataGuard } from "./lib/market-data-guard";
+import { SubscriptionSet } from "./lib/subscriptions";
+
+/**
+ * 引擎生命周期：
+ * init → warmup（等待行情、挂单快照与账户设置）→ running ⇄ paused（手动暂停或行情冻结）→ stopping → stopped
+ */
+export type EngineState = "init" | "warmup" | "running" | "paused" | "stopping" | "stopped";
+
+/** 所有策略共用的配置字段 */
+export interface BaseEngineConfig {
+  symbol: string;
+  maxLogEntries: number;
+  fundingGuard?: FundingGuardConfig;
+  execution?: ExecutionConfig;
+  hedgeMode?: boolean;
+  leverage?: number;
+  marginType?: MarginType;
+}
+
+/** 所有策略快照共有的字段，UI 与多实例启动器只依赖这些字段 */
+export interface BaseEngineSnapshot {
+  ready: boolean;
+  state: EngineState;
+  symbol: string;
+  position: PositionSnapshot;
+  sessionVolume: number;
+  openOrders: AsterOrder[];
+  tradeLog: TradeLogEntry[];
+  tradeFlow: TradeFlowStats | null; // 最近一分钟成交流，适配器不支持成交推送时为 null
+  funding: FundingSnapshot | null; // 标记价格与资金费，适配器不支持标记价格推送时为 null
+  rateLimit: RateLimitUsage | null; // REST 请求权重与下单次数，适配器不提供时为 null
+  streams: StreamHealth[] | null; // WebSocket 数据流健康状况，适配器不提供时为 null
+  execution: ExecutionReport | null; // 执行中的算法单进度或最近一次执行报告
+  lastUpdated: number | null;
+}
+
+export type EngineEvent = "update";
+export type EngineListener<TSnapshot> = (snapshot: TSnapshot) => void;
+
+/** UI、回测与多实例启动器使用的统一引擎接口 */
+export interface StrategyEngine<TSnapshot extends BaseEngineSnapshot = BaseEngineSnapshot> {
+  start(): void;
+  stop(): void;
+  on(event: EngineEvent, handler: EngineListener<TSnapshot>): void;
+  off(event: EngineEvent, handler: EngineListener<TSnapshot>): void;
+  getSnapshot(): TSnapshot;
+  getState(): EngineState;
+}
+
+export interface BaseEngineOptions {
+  strategyId: string; // clientOrderId 前缀，用于区分各策略的订单
+  intervalMs: number; // 决策循环间隔
+  klineInterval: string;
+  loopLabel: string; // 决策循环异常日志前缀
+  hedgeMode?: boolean; // 覆盖配置中的持仓模式，不支持对冲的策略传 false
+  watchFills?: boolean; // 订阅成交回报并交给 onFill 处理
+}
+
+/**
+ * 策略引擎基类：统一行情/账户订阅、挂单锁、启动守卫、会话成交额与生命周期，
+ * 子类只需实现 decide() 决策钩子与自身的快照字段
+ */
+export abstract class BaseEngine<TConfig extends BaseEngineConfig, TSnapshot extends BaseEngineSnapshot>
+  implements StrategyEngine<TSnapshot>
+{
+  protected accountSnapshot: AsterAccountSnapshot | null = null;
+  protected depthSnapshot: AsterDepth | null = null;
+  protected tickerSnapshot: AsterTicker | null = null;
+  protected klineSnapshot: AsterKline[] = [];
+  protected openOrders: AsterOrder[] = [];
+
+  protected readonly locks: OrderLockMap = {};
+  protected readonly timers: OrderTimerMap = {};
+  protected readonly pending: OrderPendingMap = {};
+  protected readonly pendingCancelOrders = new Set<number>();
+  protected readonly tradeFlow = new TradeFlowAggregator();
+  protected readonly tradeLog: ReturnType<typeof createTradeLog>;
+  protected readonly fundingConfig: FundingGuardConfig;
+  protected readonly fundingMonitor: FundingMonitor;
+  protected readonly hedgeMode: boolean;
+  protected readonly positionModeGuard: PositionModeGuard;
+  protected readonly marketDataGuard: MarketDataGuard;
+  protected readonly accountSetupGuard: AccountSetupGuard;
+  protected readonly clientOrderIds: ClientOrderIdFactory;
+  // 市价开平仓统一经由执行器，按配置选择一次性市价或 TWAP / 冰山 / POV
+  protected readonly executor: OrderExecutor;
+
+  protected accountUnrealized = 0;
+  // 数据流冻结时只暂停新开仓，每轮决策前更新
+  protected marketDataFresh = true;
+  protected ordersSnapshotReady = false;
+  // 适配器提供成交回报时为 true，子类据此决定是否按订单快照估算成交
+  protected fillStreamActive = false;
+
+  private readonly listeners = new Map<EngineEvent, Set<EngineListener<TSnapshot>>>();
+  private readonly subscriptions = new SubscriptionSet();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private processing = false;
+  private state: EngineState = "init";
+  private manuallyPaused = false;
+  private sessionQuoteVolume = 0;
+  private prevPositionAmt = 0;
+  private initializedPosition = false;
+
+  protected constructor(
+    protected readonly config: TConfig,
+    protected readonly exchange: ExchangeAdapter,
+    private readonly options: BaseEngineOptions
+  ) {
+    const log = (type: string, detail: string) => this.tradeLog.push(type, detail);
+    this.tradeLog = createTradeLog(this.config.maxLogEntries);
+    this.fundingConfig = this.config.fundingGuard ?? loadFundingGuardConfig();
+    this.fundingMonitor = new FundingMonitor(this.fundingConfig);
+    this.hedgeMode = this.options.hedgeMode ?? this.config.hedgeMode ?? false;
+    this.positionModeGuard = new PositionModeGuard(this.exchange, this.hedgeMode, log);
+    this.marketDataGuard = new MarketDataGuard(this.exchange, this.config.symbol, log);
+    this.accountSetupGuard = new AccountSetupGuard(
+      this.exchange,
+      this.config.symbol,
+      { leverage: this.config.leverage, marginType: this.config.marginType },
+      log
+    );
+    this.clientOrderIds = new ClientOrderIdFactory(this.options.strategyId, deriveInstanceName(this.config.symbol));
+    this.executor = new OrderExecutor(
+      {
+        adapter: this.exchange,
+        symbol: this.config.symbol,
+        locks: this.locks,
+        timers: this.timers,
+        pendings: this.pending,
+        log,
+        clientOrderIds: this.clientOrderIds,
+        getOpenOrders: () => this.openOrders,
+        getDepth: () => this.depthSnapshot,
+      },
+      this.config.execution ?? loadExecutionConfig()
+    );
+  }
+
+  /**
+   * 子类在构造函数末尾调用：订阅推送并启动账户守卫。
+   * 不能放在基类构造函数中，部分适配器订阅时会立即回调，此时子类字段尚未初始化
+   */
+  protected initialize(): void {
+    this.bootstrap();
+    this.positionModeGuard.start();
+    this.accountSetupGuard.start();
+  }
+
+  /** 决策钩子：仅在 running 状态下由决策循环调用 */
+  protected abstract decide(): Promise<void>;
+
+  /** 构建策略快照，通用字段由 buildBaseSnapshot() 提供 */
+  protected abstract buildSnapshot(): TSnapshot;
+
+  /** 决策所需的行情与账户数据是否已就绪 */
+  protected abstract isReady(): boolean;
+
+  start(): void {
+    if (this.timer) return;
+    // stop() 之后重新启动时恢复订阅
+    if (this.subscriptions.size === 0) this.bootstrap();
+    this.positionModeGuard.start();
+    this.accountSetupGuard.start();
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, this.options.intervalMs);
+    this.state = "warmup";
+    this.onStart();
+  }
+
+  stop(): void {
+    this.state = "stopping";
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.positionModeGuard.stop();
+    this.accountSetupGuard.stop();
+    this.executor.abort();
+    this.subscriptions.clear();
+    this.onStop();
+    this.state = "stopped";
+  }
+
+  /** 手动暂停决策循环，行情与账户推送照常更新 */
+  pause(): void {
+    if (this.manuallyPaused) return;
+    this.manuallyPaused = true;
+    this.tradeLog.push("info", "⏸️ 策略已暂停");
+    if (this.timer) this.state = "paused";
+    this.emitUpdate();
+  }
+
+  resume(): void {
+    if (!this.manuallyPaused) return;
+    this.manuallyPaused = false;
+    this.tradeLog.push("info", "▶️ 策略已恢复");
+    if (this.timer) this.state = "warmup";
+    this.emitUpdate();
+  }
+
+  getState(): EngineState {
+    return this.state;
+  }
+
+  /** start() 之后、stop() 之前返回 true */
+  protected isStarted(): boolean {
+    return this.timer != null;
+  }
+
+  on(event: EngineEvent, handler: EngineListener<TSnapshot>): void {
+    const handlers = this.listeners.get(event) ?? new Set<EngineListener<TSnapshot>>();
+    handlers.add(handler);
+    this.listeners.set(event, handlers);
+  }
+
+  off(event: EngineEvent, handler: EngineListener<TSnapshot>): void {
+    const handlers = this.listeners.get(event);
+    if (!handlers) return;
+    handlers.delete(handler);
+    if (handlers.size === 0) {
+      this.listeners.delete(event);
+    }
+  }
+
+  getSnapshot(): TSnapshot {
+    return this.buildSnapshot();
+  }
+
+  /** 行情与用户数据流未冻结时返回 true，冻结期间策略暂停新开仓 */
+  isMarketDataFresh(): boolean {
+    return this.marketDataGuard.isFresh();
+  }
+
+  /** 启动后调用，子类可在此启动额外的定时任务 */
+  protected onStart(): void {}
+
+  /** 停止时调用，子类可在此清理额外的定时任务 */
+  protected onStop(): void {}
+
+  /** 账户推送钩子：默认按持仓变化累计会话成交额 */
+  protected onAccount(_snapshot: AsterAccountSnapshot, _previous: AsterAccountSnapshot | null): void {
+    this.updateSessionVolume(this.getVolumePosition());
+  }
+
+  /** 挂单推送钩子：openOrders 已过滤为本交易对的非市价单，orders 为原始推送 */
+  protected onOrders(_orders: AsterOrder[]): void {}
+
+  /** 成交回报钩子，仅在 watchFills 选项开启时调用 */
+  protected onFill(_fill: AsterFill): void {}
+
+  /** 资金费结算钩子 */
+  protected onFundingSettlement(message: string): void {
+    this.tradeLog.push("info", message);
+  }
+
+  /** 除手动暂停外，进入 running 前需要满足的条件 */
+  protected isWarmedUp(): boolean {
+    return this.isReady() && this.positionModeGuard.ready() && this.accountSetupGuard.ready();
+  }
+
+  private evaluateState(): EngineState {
+    if (this.manuallyPaused) return "paused";
+    if (!this.isWarmedUp()) return "warmup";
+    return "running";
+  }
+
+  private async tick(): Promise<void> {
+    if (this.processing || !this.timer) return;
+    this.processing = true;
+    try {
+      this.state = this.evaluateState();
+      if (this.state !== "running") return;
+      // 数据流冻结时仍执行决策，止损与风控照常运行，只由 isEntryBlocked() 拦下新开仓
+      this.marketDataFresh = this.isMarketDataFresh();
+      await this.decide();
+    } catch (error) {
+      this.tradeLog.push("error", `${this.options.loopLabel}异常: ${String(error)}`);
+    } finally {
+      this.processing = false;
+      this.emitUpdate();
+    }
+  }
+
+  private bootstrap(): void {
+    try {
+      this.subscriptions.add(this.exchange.watchAccount((snapshot) => {
+        try {
+          const previous = this.accountSnapshot;
+          this.accountSnapshot = snapshot;
+          const totalUnrealized = Number(snapshot.totalUnrealizedProfit ?? "0");
+          if (Number.isFinite(totalUnrealized)) {
+            this.accountUnrealized = totalUnrealized;
+          }
+          this.onAccount(snapshot, previous);
+          this.emitUpdate();
+        } catch (err) {
+          this.tradeLog.push("error", `账户推送处理异常: ${String(err)}`);
+        }
+      }));
+    } catch (err) {
+      this.tradeLog.push("error", `订阅账户失败: ${String(err)}`);
+    }
+
+    try {
+      this.subscriptions.add(this.exchange.watchOrders((orders) => {
+        try {
+          const list = Array.isArray(orders) ? orders : [];
+          this.syncLocksWithOrders(list);
+          // 执行算法的子单由执行器自行撤单，不交给策略的挂单同步
+          this.openOrders = list.filter(
+            (order) => order.type !== "MARKET" && order.symbol === this.config.symbol && !this.executor.ownsOrder(order)
+          );
+          const currentIds = new Set(this.openOrders.map((order) => order.orderId));
+          for (const id of Array.from(this.pendingCancelOrders)) {
+            if (!currentIds.has(id)) {
+              this.pendingCancelOrders.delete(id);
+            }
+          }
+          this.onOrders(list);
+          this.ordersSnapshotReady = true;
+          this.emitUpdate();
+        } catch (err) {
+          this.tradeLog.push("error", `订单推送处理异常: ${String(err)}`);
+        }
+      }));
+    } catch (err) {
+      this.tradeLog.push("error", `订阅订单失败: ${String(err)}`);
+    }
+
+    if (this.options.watchFills && this.exchange.watchFills) {
+      try {
+        this.subscriptions.add(this.exchange.watchFills((fill) => {
+          try {
+            this.onFill(fill);
+          } catch (err) {
+            this.tradeLog.push("error", `成交回报处理异常: ${String(err)}`);
+          }
+        }));
+        this.fillStreamActive = true;
+      } catch (err) {
+        this.tradeLog.push("error", `订阅成交回报失败: ${String(err)}`);
+      }
+    }
+
+    try {
+      this.subscriptions.add(this.exchange.watchDepth(this.config.symbol, (depth) => {
+        try {
+          this.depthSnapshot = depth;
+          this.emitUpdate();
+        } catch (err) {
+          this.tradeLog.push("error", `深度推送处理异常: ${String(err)}`);
+        }
+      }));
+    } catch (err) {
+      this.tradeLog.push("error", `订阅深度失败: ${String(err)}`);
+    }
+
+    try {
+      this.subscriptions.add(this.exchange.watchTicker(this.config.symbol, (ticker) => {
+        try {
+          this.tickerSnapshot = ticker;
+          this.emitUpdate();
+        } catch (err) {
+          this.tradeLog.push("error", `价格推送处理异常: ${String(err)}`);
+        }
+      }));
+    } catch (err) {
+      this.tradeLog.push("error", `订阅Ticker失败: ${String(err)}`);
+    }
+
+    try {
+      this.subscriptions.add(this.exchange.watchKlines(this.config.symbol, this.options.klineInterval, (klines) => {
+        try {
+          this.klineSnapshot = Array.isArray(klines) ? klines : [];
+          this.emitUpdate();
+        } catch (err) {
+          this.tradeLog.push("error", `K线推送处理异常: ${String(err)}`);
+        }
+      }));
+    } catch (err) {
+      this.tradeLog.push("error", `订阅K线失败: ${String(err)}`);
+    }
+
+    try {
+      this.subscriptions.add(this.exchange.watchTrades?.(this.config.symbol, (trade) => {
+        try {
+          this.tradeFlow.push(trade);
+        } catch (err) {
+          this.tradeLog.push("error", `成交推送处理异常: ${String(err)}`);
+        }
+      }));
+    } catch (err) {
+      this.tradeLog.push("error", `订阅成交失败: ${String(err)}`);
+    }
+
+    try {
+      this.subscriptions.add(this.exchange.watchMarkPrice?.(this.config.symbol, (mark) => {
+        try {
+          const position = getPosition(this.accountSnapshot, this.config.symbol);
+          const settlement = this.fundingMonitor.update(mark, getNetPositionAmount(position));
+          if (settlement) {
+            this.onFundingSettlement(describeFundingSettlement(settlement));
+          }
+          this.emitUpdate();
+        } catch (err) {
+          this.tradeLog.push("error", `标记价格推送处理异常: ${String(err)}`);
+        }
+      }));
+    } catch (err) {
+      this.tradeLog.push("error", `订阅标记价格失败: ${String(err)}`);
+    }
+
+    try {
+      this.subscriptions.add(this.exchange.watchClockDrift?.((status) => {
+        this.tradeLog.push("warning", describeClockDrift(status));
+        this.emitUpdate();
+      }));
+    } catch (err) {
+      this.tradeLog.push("error", `订阅时钟校准失败: ${String(err)}`);
+    }
+  }
+
+  /** 挂单不在推送中或已进入终态时释放对应的下单锁，部分成交的挂单保持锁定 */
+  private syncLocksWithOrders(orders: AsterOrder[]): void {
+    Object.keys(this.pending).forEach((type) => {
+      const pendingId = this.pending[type];
+      if (!pendingId) return;
+      const match = orders.find((order) => String(order.orderId) === pendingId);
+      if (!match || (match.status && match.status !== "NEW" && match.status !== "PARTIALLY_FILLED")) {
+        unlockOperating(this.locks, this.timers, this.pending, type);
+      }
+    });
+  }
+
+  /** 是否暂停该方向的新开仓：数据流冻结或资金费保护触发 */
+  protected isEntryBlocked(side: "BUY" | "SELL"): boolean {
+    return !this.marketDataFresh || this.isEntryBlockedByFunding(side);
+  }
+
+  /** 资金费保护：临近结算且费率对该方向不利时不开仓，每个结算周期只提示一次 */
+  protected isEntryBlockedByFunding(side: "BUY" | "SELL"): boolean {
+    if (!this.fundingMonitor.getEntryBlock(side)) return false;
+    const notice = this.fundingMonitor.consumeEntryBlockNotice(side);
+    if (notice) {
+      this.tradeLog.push("info", `💸 资金费保护，暂停${side === "BUY" ? "买入" : "卖出"}开仓挂单: ${notice}`);
+    }
+    return true;
+  }
+
+  /** 对冲模式下用两腿持仓量之和统计成交额 */
+  protected getVolumePosition(): PositionSnapshot {
+    const position = getPosition(this.accountSnapshot, this.config.symbol);
+    if (!this.hedgeMode || !position.legs) return position;
+    return { ...position, positionAmt: position.legs.long.positionAmt + Math.abs(position.legs.short.positionAmt) };
+  }
+
+  protected updateSessionVolume(position: PositionSnapshot): void {
+    const price = this.getReferencePrice();
+    if (!this.initializedPosition) {
+      this.prevPositionAmt = position.positionAmt;
+      this.initializedPosition = true;
+      return;
+    }
+    if (price == null) {
+      this.prevPositionAmt = position.positionAmt;
+      return;
+    }
+    const delta = Math.abs(position.positionAmt - this.prevPositionAmt);
+    if (delta > 0) {
+      this.sessionQuoteVolume += delta * price;
+    }
+    this.prevPositionAmt = position.positionAmt;
+  }
+
+  protected getReferencePrice(): number | null {
+    return getMidOrLast(this.depthSnapshot, this.tickerSnapshot);
+  }
+
+  protected buildBaseSnapshot(): BaseEngineSnapshot {
+    return {
+      ready: this.isReady(),
+      state: this.state,
+      symbol: this.config.symbol,
+      position: getPosition(this.accountSnapshot, this.config.symbol),
+      sessionVolume: this.sessionQuoteVolume,
+      openOrders: this.openOrders,
+      tradeLog: this.tradeLog.all(),
+      tradeFlow: this.exchange.watchTrades ? this.tradeFlow.getStats() : null,
+      funding: this.fundingMonitor.getSnapshot(),
+      rateLimit: this.exchange.getRateLimitUsage?.() ?? null,
+      streams: this.exchange.getStreamHealth?.() ?? null,
+      execution: this.executor.getReport(),
+      lastUpdated: Date.now(),
+    };
+  }
+
+  protected emitUpdate(): void {
+    try {
+      const snapshot = this.buildSnapshot();
+      const handlers = this.listeners.get("update");
+      if (handlers) {
+        handlers.forEach((handler) => {
+          try {
+            handler(snapshot);
+          } catch (err) {
+            this.tradeLog.push("error", `更新回调处理异常: ${String(err)}`);
+          }
+        });
+      }
+    } catch (err) {
+      this.tradeLog.push("error", `快照或更新分发异常: ${String(err)}`);
+    }
+  }
+}
@@ -1,16 +1,12 @@
  import { TrendEngine, type TrendEngineSnapshot } from './trend-engine';
-import { RedisKlineManager, type KlineManagerConfig } from '../utils/redis-kline-manager';
+import type { EngineEvent, EngineState, StrategyEngine } from './base-engine';
+import { RedisKlineManager, type KlineManagerConfig, type KlineStore } from '../utils/redis-kline-manager';
 import { MarketAnalyzer, type MarketAnalyzerConfig, type MarketAnalysisResult } from '../utils/market-analyzer';
 import type { TradingConfig } from '../config';
 import type { ExchangeAdapter } from '../exchanges/adapter';
-import {
-  placeMarketOrder,
-  unlockOperating,
-  type OrderLockMap,
-  type OrderTimerMap,
-  type OrderPendingMap,
-} from "./order-coordinator";
+import { SubscriptionSet } from "./lib/subscriptions";
 import { FeeMonitor } from "../utils/fee-monitor";
+import { TradeFlowAggregator } from "../utils/trade-flow";
 
 export interface EnhancedTrendEngineSnapshot extends TrendEngineSnapshot {
   // 增强模式的快照数据
@@ -32,9 +28,9 @@ export interface EnhancedTrendEngineSnapshot extends TrendEngineSnapshot {
  * 增强版趋势引擎 - 使用技术分析代替SMA30进行交易决策
  * 不再是简单的组合模式，而是重写了核心交易逻辑
  */
-export class EnhancedTrendEngine {
+export class EnhancedTrendEngine implements StrategyEngine<EnhancedTrendEngineSnapshot> {
   private baseEngine: TrendEngine;
-  private klineManager?: RedisKlineManager;
+  private klineManager?: KlineStore;
   private marketAnalyzer?: MarketAnalyzerConfig;
   private isEnhancedEnabled: boolean;
   private lastAnalysisTime = 0;
@@ -48,6 +44,13 @@ export class EnhancedTrendEngine {
   private signalChangedAt = 0;
   private feeMonitor: FeeMonitor;
   private marketAnalyzerInstance?: MarketAnalyzer;
+  private readonly subscriptions = new SubscriptionSet();
+  private readonly timers: Array<ReturnType<typeof setTimeout>> = [];
+  // 外部监听器到基础引擎包装监听器的映射，供 off() 移除
+  private readonly wrappedListeners = new Map<
+    (snapshot: EnhancedTrendEngineSnapshot) => void,
+    (snapshot: TrendEngineSnapshot) => void
+  >();
   
   // 交易控制
   private minSignalInterval = 30000; // 最小信号间隔30秒
@@ -58,7 +61,8 @@ export class EnhancedTrendEngine {
     exchange: ExchangeAdapter,
     klineConfig?: KlineManagerConfig,
     analyzerConfig?: MarketAnalyzerConfig,
-    enableEnhanced: boolean = false
+    enableEnhanced: boolean = false,
+    klineStore?: KlineStore // 自定义K线存储（如回测使用内存存储），未指定时按 klineConfig 连接 Redis
   ) {
     this.config = config;
     this.exchange = exchange;
@@ -72,9 +76,15 @@ export class EnhancedTrendEngine {
       enableFeeProtection: config.enableFeeProtection,
       logInterval: config.logFeeSummaryInterval
     });
+    // 有成交回报时按实际手续费记账，否则在下单时按费率估算
+    this.subscriptions.add(this.exchange.watchFills?.((fill) => {
+      if (fill.symbol === this.config.symbol.toUpperCase()) {
+        this.feeMonitor.recordFill(fill);
+      }
+    }));
     
-    if (enableEnhanced && klineConfig && analyzerConfig) {
-      this.klineManager = new RedisKlineManager(klineConfig);
+    if (enableEnhanced && analyzerConfig && (klineStore || klineConfig)) {
+      this.klineManager = klineStore ?? new RedisKlineManager(klineConfig!);
       this.marketAnalyzer = analyzerConfig;
       this.confidenceThreshold = analyzerConfig.confidenceThreshold;
       this.initializeEnhancedAnalysis();
@@ -92,6 +102,11 @@ export class EnhancedTrendEngine {
       await this.klineManager.connect();
       
       this.marketAnalyzerInstance = new MarketAnalyzer(this.klineManager, this.marketAnalyzer);
+      if (this.exchange.watchTrades) {
+        const tradeFlow = new TradeFlowAggregator();
+        this.subscriptions.add(this.exchange.watchTrades(this.config.symbol, (trade) => tradeFlow.push(trade)));
+        this.marketAnalyzerInstance.attachTradeFlow(this.config.symbol, tradeFlow);
+      }
       
       console.log('📊 增强技术分析系统已启动');
       console.log(`✨ 使用技术分析替代SMA30进行交易决策`);
@@ -120,21 +135,21 @@ export class EnhancedTrendEngine {
       this.baseEngine.start();
       
       // 启动增强分析定时器
-      setInterval(() => {
+      this.timers.push(setInterval(() => {
         this.performEnhancedTradingDecision().catch(error => {
           console.error('❌ 增强交易决策失败:', error);
         });
-      }, this.analysisInterval);
+      }, this.analysisInterval));
       
       // 定期触发UI更新 (确保手续费数据及时更新)
-      setInterval(() => {
+      this.timers.push(setInterval(() => {
         (this.baseEngine as any).emitUpdate?.();
-      }, 10000); // 每10秒触发一次更新
+      }, 10000)); // 每10秒触发一次更新
       
       // 立即执行一次分析
-      setTimeout(() => {
+      this.timers.push(setTimeout(() => {
         this.performEnhancedTradingDecision().catch(console.error);
-      }, 5000);
+      }, 5000));
       
     } else {
       console.log('🚀 启动基础趋势引擎 - SMA30模式');
@@ -247,6 +262,20 @@ export class EnhancedTrendEngine {
 
     // 额外的开仓条件检查
     const technicalIndicators = analysis.analysis;
+
+    // 数据流冻结期间不开新仓
+    if (!this.baseEngine.isMarketDataFresh()) {
+      return;
+    }
+
+    // 资金费保护：临近结算且费率对开仓方向不利时跳过
+    if (signal === 'BUY' || signal === 'SELL') {
+      const fundingBlock = this.baseEngine.getFundingEntryBlock(signal);
+      if (fundingBlock) {
+        console.log(`💸 资金费保护，跳过开仓: ${fundingBlock}`);
+        return;
+      }
+    }
     
     // BUY信号检查
     if (signal === 'BUY') {
@@ -322,40 +351,25 @@ export class EnhancedTrendEngine {
       console.log(`🎯 提交订单: ${side} @ $${price.toFixed(4)} - ${reason}`);
       
       // 记录手续费
-      this.feeMonitor.recordTrade({
-        symbol: this.config.symbol,
-        side,
-        quantity: this.config.tradeAmount,
-        price,
-        orderId: `enhanced_${Date.now()}`
-      });
-
-      // 使用基础引擎的订单提交逻辑
-      const openOrders = (this.baseEngine as any).openOrders;
-      const locks = (this.baseEngine as any).locks as OrderLockMap;
-      const timers = (this.baseEngine as any).timers as OrderTimerMap;
-      const pending = (this.baseEngine as any).pending as OrderPendingMap;
-
-      await placeMarketOrder(
-        this.exchange,
-        this.config.symbol,
-        openOrders,
-        locks,
-        timers,
-        pending,
-        side,
-        this.config.tradeAmount,
-        (this.baseEngine as any).tradeLog,
-        false,
-        {
-          markPrice: (this.baseEngine as any).accountSnapshot?.position?.markPrice || price,
-          expectedPrice: price,
-          maxPct: this.config.maxCloseSlippagePct,
-        },
-        { qtyStep: this.config.qtyStep }
-      );
+      if (!this.exchange.watchFills) {
+        this.feeMonitor.recordTrade({
+          symbol: this.config.symbol,
+          side,
+          quantity: this.config.tradeAmount,
+          price,
+          orderId: `enhanced_${Date.now()}`
+        });
+      }
+
+      // 使用基础引擎的执行器提交，与基础趋势策略共用锁与执行算法配置
+      const outcome = await this.baseEngine.submitEntry(side, price);
+      if (outcome === "rejected") return;
 
-      console.log(`✅ 增强趋势订单已提交: ${side} ${this.config.tradeAmount} @ $${price.toFixed(4)}`);
+      console.log(
+        outcome === "started"
+          ? `✅ 增强趋势订单开始分片执行: ${side} ${this.config.tradeAmount} 到达价 $${price.toFixed(4)}`
+          : `✅ 增强趋势订单已提交: ${side} ${this.config.tradeAmount} @ $${price.toFixed(4)}`
+      );
       
       // 订单提交后，手动触发更新事件以确保手续费数据及时更新到UI
       this.triggerUpdate();
@@ -405,6 +419,8 @@ export class EnhancedTrendEngine {
     
     // 停止基础引擎
     this.baseEngine.stop();
+    this.timers.splice(0).forEach((timer) => clearInterval(timer));
+    this.subscriptions.clear();
     
     // 清理增强功能资源
     if (this.isEnhancedEnabled && this.klineManager) {
@@ -427,19 +443,29 @@ export class EnhancedTrendEngine {
   /**
    * 监听器代理
    */
-  on(event: "update", handler: (snapshot: EnhancedTrendEngineSnapshot) => void): void {
-    this.baseEngine.on(event, () => {
+  on(event: EngineEvent, handler: (snapshot: EnhancedTrendEngineSnapshot) => void): void {
+    if (this.wrappedListeners.has(handler)) return;
+    const wrapped = () => {
       const enhancedSnapshot = this.getSnapshot();
       handler(enhancedSnapshot);
-    });
+    };
+    this.wrappedListeners.set(handler, wrapped);
+    this.baseEngine.on(event, wrapped);
   }
 
   /**
    * 移除监听器代理
    */
-  off(event: "update", handler: (snapshot: EnhancedTrendEngineSnapshot) => void): void {
-    // 注意：这里无法完美代理off方法，因为原始handler被包装了
-    console.warn('Enhanced trend engine off() method has limitations');
+  off(event: EngineEvent, handler: (snapshot: EnhancedTrendEngineSnapshot) => void): void {
+    const wrapped = this.wrappedListeners.get(handler);
+    if (!wrapped) return;
+    this.wrappedListeners.delete(handler);
+    this.baseEngine.off(event, wrapped);
+  }
+
+  /** 生命周期状态与基础趋势引擎一致 */
+  getState(): EngineState {
+    return this.baseEngine.getState();
   }
 
   /**
@@ -0,0 +1,405 @@
+import type { GridConfig } from "../config";
+import type { ExchangeAdapter } from "../exchanges/adapter";
+import type { AsterFill } from "../exchanges/types";
+import { isOrderNotFoundError, isUnknownOrderError } from "../utils/errors";
+import {
+  applyGridFill,
+  computeGridLevels,
+  createInitialGrid,
+  validateGridConfig,
+  type GridPnl,
+  type GridSlot,
+} from "../utils/grid";
+import { computeMakerPnl } from "../utils/maker-risk";
+import { getTopPrices } from "../utils/price";
+import { getPosition } from "../utils/strategy";
+import { placeOrder } from "./order-coordinator";
+import { BaseEngine, type BaseEngineSnapshot } from "./base-engine";
+import { makeOrderPlan, type OrderTarget } from "./lib/order-plan";
+import { safeCancelOrder } from "./lib/orders";
+
+interface GridOrder extends OrderTarget {
+  level: number;
+}
+
+interface LevelOrder {
+  level: number;
+  placedAt: number;
+  seen: boolean; // 已出现在挂单推送中
+  reconciling: boolean;
+}
+
+export interface GridLevelView {
+  level: number;
+  price: number;
+  side: "BUY" | "SELL" | null;
+  closing: boolean;
+}
+
+export interface GridEngineSnapshot extends BaseEngineSnapshot {
+  topBid: number | null;
+  topAsk: number | null;
+  spread: number | null;
+  levels: GridLevelView[];
+  pnl: GridPnl;
+  stoppedOut: string | null; // 触发止损边界的原因，网格已停止
+  configError: string | null;
+}
+
+const EPS = 1e-5;
+// 下单后等待挂单推送出现的时间，超时仍未出现的订单按查单结果对账
+const ORDER_SETTLE_MS = 5000;
+
+function gridLockKey(level: number): string {
+  return `GRID_${level}`;
+}
+
+export class GridEngine extends BaseEngine<GridConfig, GridEngineSnapshot> {
+  private readonly levels: number[];
+  private readonly configError: string | null;
+  private slots: Array<GridSlot | null> = [];
+  // 本次运行挂出的网格订单 clientOrderId → 档位，下单前登记，成交推送早于下单回报也能归到对应档位
+  private readonly levelOrders = new Map<string, LevelOrder>();
+  private realizedProfit = 0;
+  private roundTrips = 0;
+  private stoppedOut: string | null = null;
+  private initialOrderResetDone = false;
+
+  constructor(config: GridConfig, exchange: ExchangeAdapter) {
+    // 网格按净持仓双向挂单，只支持单向模式
+    super(config, exchange, {
+      strategyId: "grid",
+      intervalMs: config.refreshIntervalMs,
+      klineInterval: "1m",
+      loopLabel: "网格循环",
+      hedgeMode: false,
+      watchFills: true,
+    });
+    this.configError = validateGridConfig(config);
+    this.levels = this.configError
+      ? []
+      : computeGridLevels(config.lowerPrice, config.upperPrice, config.levelCount, config.spacing, config.priceTick);
+    if (this.configError) {
+      this.tradeLog.push("error", `网格配置无效: ${this.configError}`);
+    } else if (this.config.hedgeMode) {
+      this.tradeLog.push("error", "网格策略暂不支持对冲模式，请关闭 HEDGE_MODE 并将账户切换为单向持仓");
+    }
+    this.initialize();
+  }
+
+  protected isReady(): boolean {
+    return Boolean(this.accountSnapshot && this.depthSnapshot);
+  }
+
+  protected override isWarmedUp(): boolean {
+    return !this.configError && !this.config.hedgeMode && super.isWarmedUp();
+  }
+
+  protected async decide(): Promise<void> {
+    if (this.stoppedOut) {
+      await this.closeOut();
+      return;
+    }
+    if (!(await this.ensureStartupOrderReset())) return;
+
+    const { topBid, topAsk } = getTopPrices(this.depthSnapshot);
+    if (topBid == null || topAsk == null) return;
+    const mid = (topBid + topAsk) / 2;
+
+    if (this.checkStopBounds(mid)) {
+      await this.closeOut();
+      return;
+    }
+
+    if (!this.slots.length) {
+      this.slots = createInitialGrid(this.levels, mid);
+      this.tradeLog.push(
+        "info",
+        `网格已初始化: ${this.levels.length} 档 ${this.levels[0]} ~ ${this.levels[this.levels.length - 1]} (${this.config.spacing === "geometric" ? "等比" : "等差"})，每档数量 ${this.config.levelQty}`
+      );
+    }
+
+    this.updateSessionVolume(getPosition(this.accountSnapshot, this.config.symbol));
+    await this.reconcileLevelOrders();
+    await this.syncOrders(this.buildGridOrders(topBid, topAsk));
+  }
+
+  /** 当前需要挂出的网格订单；会立即成交的档位（穿过盘口）等待价格离开后再挂 */
+  private buildGridOrders(topBid: number, topAsk: number): GridOrder[] {
+    const orders: GridOrder[] = [];
+    const openIds = new Set(this.openOrders.map((order) => order.clientOrderId));
+    // 已登记但不在挂单中的档位（下单在途或等待对账）不重复挂单
+    const unsettled = new Set(
+      Array.from(this.levelOrders)
+        .filter(([clientOrderId]) => !openIds.has(clientOrderId))
+        .map(([, entry]) => entry.level)
+    );
+    this.slots.forEach((slot, level) => {
+      if (!slot || unsettled.has(level)) return;
+      const price = this.levels[level]!;
+      if (slot.side === "BUY" ? price >= topAsk : price <= topBid) return;
+      if (!slot.closing && this.isEntryBlocked(slot.side)) return;
+      orders.push({ level, side: slot.side, price, amount: this.config.levelQty, reduceOnly: false });
+    });
+    return orders;
+  }
+
+  private async ensureStartupOrderReset(): Promise<boolean> {
+    if (this.initialOrderResetDone) return true;
+    if (!this.ordersSnapshotReady) return false;
+    if (!this.openOrders.length) {
+      this.initialOrderResetDone = true;
+      return true;
+    }
+    try {
+      await this.exchange.cancelAllOrders({ symbol: this.config.symbol });
+      this.pendingCancelOrders.clear();
+      this.openOrders = [];
+      this.emitUpdate();
+      this.tradeLog.push("order", "启动时清理历史挂单");
+      this.initialOrderResetDone = true;
+      return true;
+    } catch (error) {
+      if (isUnknownOrderError(error)) {
+        this.tradeLog.push("order", "历史挂单已消失，跳过启动清理");
+        this.initialOrderResetDone = true;
+        this.openOrders = [];
+        this.emitUpdate();
+        return true;
+      }
+      this.tradeLog.push("error", `启动撤单失败: ${String(error)}`);
+      return false;
+    }
+  }
+
+  private async syncOrders(targets: GridOrder[]): Promise<void> {
+    // 档位价格已按 priceTick 取整，容差取半个价位
+    const tolerance = this.config.priceTick / 2;
+    const availableOrders = this.openOrders.filter((o) => !this.pendingCancelOrders.has(o.orderId));
+    const { toCancel, toPlace } = makeOrderPlan(availableOrders, targets, tolerance);
+
+    for (const order of toCancel) {
+      if (this.pendingCancelOrders.has(order.orderId)) continue;
+      this.pendingCancelOrders.add(order.orderId);
+      await safeCancelOrder(
+        this.exchange,
+        this.config.symbol,
+        order,
+        () => {
+          this.levelOrders.delete(order.clientOrderId);
+          this.tradeLog.push("order", `撤销不在网格内的订单 ${order.side} @ ${order.price}`);
+        },
+        () => {
+          this.tradeLog.push("order", "撤销时发现订单已被成交/取消，忽略");
+          this.pendingCancelOrders.delete(order.orderId);
+          this.openOrders = this.openOrders.filter((existing) => existing.orderId !== order.orderId);
+        },
+        (error) => {
+          this.tradeLog.push("error", `撤销订单失败: ${String(error)}`);
+          this.pendingCancelOrders.delete(order.orderId);
+          this.openOrders = this.openOrders.filter((existing) => existing.orderId !== order.orderId);
+        }
+      );
+    }
+
+    for (const target of toPlace) {
+      const clientOrderId = this.clientOrderIds.next("lmt");
+      this.levelOrders.set(clientOrderId, { level: target.level, placedAt: Date.now(), seen: false, reconciling: false });
+      try {
+        const order = await placeOrder(
+          this.exchange,
+          this.config.symbol,
+          this.openOrders,
+          this.locks,
+          this.timers,
+          this.pending,
+          target.side,
+          target.price,
+          target.amount,
+          (type, detail) => this.tradeLog.push(type, detail),
+          false,
+          {
+            markPrice: getPosition(this.accountSnapshot, this.config.symbol).markPrice,
+            maxPct: this.config.maxCloseSlippagePct,
+          },
+          {
+            priceTick: this.config.priceTick,
+            qtyStep: this.config.qtyStep,
+            clientOrderId,
+            lockKey: gridLockKey(target.level),
+          }
+        );
+        // 未提交（锁定、保护或规则校验未通过）时释放登记；提交异常时保留，由对账确认订单是否存在
+        if (!order) this.levelOrders.delete(clientOrderId);
+      } catch (error) {
+        this.tradeLog.push("error", `网格挂单失败(第${target.level + 1}档 ${target.side} ${target.price}): ${String(error)}`);
+      }
+    }
+  }
+
+  protected override onOrders(): void {
+    for (const order of this.openOrders) {
+      const entry = this.levelOrders.get(order.clientOrderId);
+      if (entry) entry.seen = true;
+    }
+  }
+
+  protected override onFill(fill: AsterFill): void {
+    if (fill.symbol !== this.config.symbol || fill.orderStatus !== "FILLED") return;
+    const entry = this.levelOrders.get(fill.clientOrderId);
+    if (!entry) return;
+    this.levelOrders.delete(fill.clientOrderId);
+    const price = Number(fill.avgPrice) || Number(fill.lastFilledPrice) || this.levels[entry.level]!;
+    this.applyLevelFill(entry.level, fill.side, price, Number(fill.cumulativeFilledQty) || this.config.levelQty);
+  }
+
+  /**
+   * 网格订单从挂单中消失却没有收到成交推送（推送丢失或被外部撤单）时查单对账：
+   * 已成交的按成交处理，已撤销的释放档位重新挂单
+   */
+  private async reconcileLevelOrders(): Promise<void> {
+    const openIds = new Set(this.openOrders.map((order) => order.clientOrderId));
+    const now = Date.now();
+    for (const [clientOrderId, entry] of Array.from(this.levelOrders)) {
+      if (openIds.has(clientOrderId)) continue;
+      if (entry.reconciling || (!entry.seen && now - entry.placedAt < ORDER_SETTLE_MS)) continue;
+      entry.reconciling = true;
+      try {
+        await this.reconcileLevelOrder(clientOrderId, entry);
+      } finally {
+        entry.reconciling = false;
+      }
+    }
+  }
+
+  private async reconcileLevelOrder(clientOrderId: string, entry: LevelOrder): Promise<void> {
+    const label = `网格第${entry.level + 1}档订单`;
+    if (!this.exchange.queryOrder) {
+      this.levelOrders.delete(clientOrderId);
+      this.tradeLog.push("warning", `${label}已不在挂单中，交易所不支持查单，按未成交重新挂单`);
+      return;
+    }
+    try {
+      const order = await this.exchange.queryOrder({ symbol: this.config.symbol, origClientOrderId: clientOrderId });
+      // 查单期间成交推送已处理
+      if (!this.levelOrders.has(clientOrderId)) return;
+      if (order.status === "NEW" || order.status === "PARTIALLY_FILLED") {
+        // 挂单推送滞后，订单仍有效，等待下一次推送
+        entry.seen = false;
+        entry.placedAt = Date.now();
+        return;
+      }
+      this.levelOrders.delete(clientOrderId);
+      const executed = Number(order.executedQty);
+      if (executed > EPS) {
+        const price = Number(order.avgPrice) || Number(order.price) || this.levels[entry.level]!;
+        this.tradeLog.push("order", `${label}未收到成交推送，查单确认已成交 ${executed}`);
+        this.applyLevelFill(entry.level, order.side, price, executed);
+      } else {
+        this.tradeLog.push("order", `${label}已${order.status === "EXPIRED" ? "过期" : "撤销"}，重新挂单`);
+      }
+    } catch (error) {
+      if (isOrderNotFoundError(error)) {
+        this.levelOrders.delete(clientOrderId);
+        this.tradeLog.push("order", `${label}未在交易所找到，重新挂单`);
+        return;
+      }
+      this.tradeLog.push("error", `${label}查单失败: ${String(error)}`);
+    }
+  }
+
+  private applyLevelFill(level: number, side: "BUY" | "SELL", price: number, qty: number): void {
+    const slot = this.slots[level];
+    if (!slot || slot.side !== side) return;
+    const { slots, realized } = applyGridFill(this.slots, level, price, qty);
+    this.slots = slots;
+    this.tradeLog.push("order", `网格第${level + 1}档 ${side} 成交 @ ${price} 数量 ${qty}`);
+    if (slot.closing) {
+      this.realizedProfit += realized;
+      this.roundTrips += 1;
+      this.tradeLog.push("profit", `网格配对完成，利润 ${realized.toFixed(4)} USDT，累计 ${this.realizedProfit.toFixed(4)} USDT`);
+    }
+    this.emitUpdate();
+  }
+
+  /** 价格越过止损边界时停止网格，返回是否触发 */
+  private checkStopBounds(mid: number): boolean {
+    const { stopLowerPrice, stopUpperPrice } = this.config;
+    if (stopLowerPrice > 0 && mid <= stopLowerPrice) {
+      this.stoppedOut = `价格 ${mid} 跌破下方止损价 ${stopLowerPrice}`;
+    } else if (stopUpperPrice > 0 && mid >= stopUpperPrice) {
+      this.stoppedOut = `价格 ${mid} 涨破上方止损价 ${stopUpperPrice}`;
+    } else {
+      return false;
+    }
+    this.tradeLog.push("stop", `🛑 ${this.stoppedOut}，撤销网格挂单并平仓，网格已停止`);
+    return true;
+  }
+
+  /** 止损后撤掉全部挂单并市价平仓，未完成时在后续循环中重试 */
+  private async closeOut(): Promise<void> {
+    if (this.executor.isActive()) return;
+    if (this.openOrders.length) {
+      try {
+        await this.exchange.cancelAllOrders({ symbol: this.config.symbol });
+        this.openOrders = [];
+        this.levelOrders.clear();
+      } catch (error) {
+        if (!isUnknownOrderError(error)) {
+          this.tradeLog.push("error", `止损撤单失败: ${String(error)}`);
+          return;
+        }
+      }
+    }
+
+    const position = getPosition(this.accountSnapshot, this.config.symbol);
+    const absPosition = Math.abs(position.positionAmt);
+    if (absPosition < EPS) return;
+    const { topBid, topAsk } = getTopPrices(this.depthSnapshot);
+    const closeSide = position.positionAmt > 0 ? "SELL" : "BUY";
+    try {
+      await this.executor.execute({
+        side: closeSide,
+        quantity: absPosition,
+        reduceOnly: true,
+        guard: {
+          markPrice: position.markPrice,
+          expectedPrice: (closeSide === "SELL" ? topBid : topAsk) ?? null,
+          maxPct: this.config.maxCloseSlippagePct,
+        },
+        qtyStep: this.config.qtyStep,
+        priceTick: this.config.priceTick,
+      });
+    } catch (error) {
+      if (isUnknownOrderError(error)) {
+        this.tradeLog.push("order", "止损平仓时订单已不存在");
+      } else {
+        this.tradeLog.push("error", `止损平仓失败: ${String(error)}`);
+      }
+    }
+  }
+
+  protected buildSnapshot(): GridEngineSnapshot {
+    const { topBid, topAsk } = getTopPrices(this.depthSnapshot);
+    const base = this.buildBaseSnapshot();
+    const inventory = computeMakerPnl(base.position, topBid ?? 0, topAsk ?? 0);
+    return {
+      ...base,
+      topBid,
+      topAsk,
+      spread: topBid != null && topAsk != null ? topAsk - topBid : null,
+      levels: this.levels.map((price, level) => {
+        const slot = this.slots[level];
+        return { level, price, side: slot?.side ?? null, closing: slot?.closing ?? false };
+      }),
+      pnl: {
+        realized: this.realizedProfit,
+        roundTrips: this.roundTrips,
+        inventory,
+        total: this.realizedProfit + inventory,
+      },
+      stoppedOut: this.stoppedOut,
+      configError: this.configError,
+    };
+  }
+}
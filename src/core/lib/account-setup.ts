@@ -0,0 +1,92 @@
+import type { ExchangeAdapter } from "../../exchanges/adapter";
+import type { MarginType } from "../../exchanges/types";
+import { extractErrorCode, extractMessage } from "../../utils/errors";
+import type { LogHandler } from "../order-coordinator";
+import { StartupGuard } from "./startup-guard";
+
+export type AccountSetupStatus = "applying" | "ok" | "failed" | "skipped";
+
+export interface AccountSetupConfig {
+  leverage?: number;
+  marginType?: MarginType;
+}
+
+// -4046: 保证金模式无需变更；-4047/-4048: 存在挂单或持仓时无法切换保证金模式
+const NO_NEED_TO_CHANGE_MARGIN_TYPE = -4046;
+const MARGIN_TYPE_BLOCKED: Record<number, string> = {
+  [-4047]: "存在挂单",
+  [-4048]: "存在持仓",
+};
+
+function describeMarginType(marginType: MarginType): string {
+  return marginType === "ISOLATED" ? "逐仓" : "全仓";
+}
+
+/**
+ * 启动时把配置的保证金模式与杠杆应用到账户并校验结果，失败时拒绝下单
+ * 未配置或适配器不支持时跳过；网络错误按间隔重试，交易所明确拒绝时不再重试
+ */
+export class AccountSetupGuard extends StartupGuard<AccountSetupStatus> {
+  constructor(
+    private readonly exchange: ExchangeAdapter,
+    private readonly symbol: string,
+    private readonly config: AccountSetupConfig,
+    log: LogHandler,
+    retryDelayMs?: number
+  ) {
+    super({ initial: "applying", readyWhen: ["ok", "skipped"], action: "设置杠杆或保证金模式", log, retryDelayMs });
+  }
+
+  protected async run(): Promise<AccountSetupStatus> {
+    const { leverage, marginType } = this.config;
+    if (leverage == null && marginType == null) return "skipped";
+    if ((marginType && !this.exchange.setMarginType) || (leverage != null && !this.exchange.setLeverage)) {
+      this.log("warn", `${this.exchange.id} 不支持设置杠杆或保证金模式，沿用账户现有设置`);
+      return "skipped";
+    }
+    if (marginType && !(await this.applyMarginType(marginType))) return "failed";
+    if (leverage != null && !(await this.applyLeverage(leverage))) return "failed";
+    return "ok";
+  }
+
+  /** 交易所明确拒绝（带错误码）时不再重试，网络错误按间隔重试 */
+  protected override resolveError(error: unknown): AccountSetupStatus | null {
+    if (extractErrorCode(error) == null) return null;
+    this.log("error", `设置杠杆或保证金模式被交易所拒绝: ${extractMessage(error)}，已拒绝下单`);
+    return "failed";
+  }
+
+  private async applyMarginType(marginType: MarginType): Promise<boolean> {
+    try {
+      await this.exchange.setMarginType!(this.symbol, marginType);
+    } catch (error) {
+      const code = extractErrorCode(error);
+      if (code === NO_NEED_TO_CHANGE_MARGIN_TYPE) return true;
+      const reason = code != null ? MARGIN_TYPE_BLOCKED[code] : undefined;
+      if (!reason) throw error;
+      this.log(
+        "error",
+        `${reason}，无法将 ${this.symbol} 切换为${describeMarginType(marginType)}，已拒绝下单，请先平仓撤单或调整 MARGIN_TYPE`
+      );
+      return false;
+    }
+    this.log("info", `${this.symbol} 保证金模式已设置为${describeMarginType(marginType)}`);
+    return true;
+  }
+
+  private async applyLeverage(leverage: number): Promise<boolean> {
+    const brackets = (await this.exchange.getLeverageBrackets?.(this.symbol)) ?? [];
+    const maxLeverage = brackets.reduce((max, bracket) => Math.max(max, bracket.initialLeverage), 0);
+    if (maxLeverage > 0 && leverage > maxLeverage) {
+      this.log("error", `${this.symbol} 最大杠杆为 ${maxLeverage}x，配置的 LEVERAGE=${leverage} 超出范围，已拒绝下单`);
+      return false;
+    }
+    const result = await this.exchange.setLeverage!(this.symbol, leverage);
+    if (result.leverage !== leverage) {
+      this.log("error", `${this.symbol} 杠杆设置为 ${leverage}x 后交易所返回 ${result.leverage}x，已拒绝下单`);
+      return false;
+    }
+    this.log("info", `${this.symbol} 杠杆已设置为 ${leverage}x，当前档位最大名义价值 ${result.maxNotionalValue}`);
+    return true;
+  }
+}
@@ -0,0 +1,37 @@
+// 交易所限制：最长 36 位，只允许字母、数字与 .:/_-
+const MAX_CLIENT_ORDER_ID_LENGTH = 36;
+const INVALID_CHARS = /[^.:/A-Za-z0-9_-]/g;
+
+export type OrderIntent = "lmt" | "mkt" | "sl" | "tp" | "cls" | "alg";
+
+function sanitize(value: string, maxLength: number): string {
+  return value.replace(INVALID_CHARS, "").slice(0, maxLength);
+}
+
+/** 与配置管理一致：交易对去掉 USDT 后小写作为实例名 */
+export function deriveInstanceName(symbol: string): string {
+  return symbol.toUpperCase().replace("USDT", "").toLowerCase();
+}
+
+/**
+ * 确定性的自定义订单号：策略-实例-会话-意图-序号
+ * 同一次提交的重试复用同一个订单号，交易所据此拒绝重复下单，也可按订单号查询是否已生效
+ */
+export class ClientOrderIdFactory {
+  private readonly prefix: string;
+  private sequence = 0;
+
+  constructor(strategy: string, instance: string, session: string = Math.floor(Date.now() / 1000).toString(36)) {
+    this.prefix = `${sanitize(strategy, 6)}-${sanitize(instance, 8)}-${sanitize(session, 8)}`;
+  }
+
+  next(intent: OrderIntent): string {
+    this.sequence += 1;
+    return `${this.prefix}-${intent}-${this.sequence.toString(36)}`.slice(0, MAX_CLIENT_ORDER_ID_LENGTH);
+  }
+
+  /** 是否为本实例本次运行生成的订单号 */
+  owns(clientOrderId: string | null | undefined): boolean {
+    return Boolean(clientOrderId?.startsWith(`${this.prefix}-`));
+  }
+}
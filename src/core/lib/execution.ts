@@ -0,0 +1,523 @@
+import type { ExchangeAdapter, Unsubscribe } from "../../exchanges/adapter";
+import type { AsterDepth, AsterFill, AsterOrder, PositionSide } from "../../exchanges/types";
+import { isUnknownOrderError } from "../../utils/errors";
+import { roundDownToTick, roundUpToTick } from "../../utils/math";
+import { getTopPrices } from "../../utils/price";
+import {
+  isOperating,
+  lockOperating,
+  marketClose,
+  orderLockKey,
+  placeMarketOrder,
+  submitChildOrder,
+  unlockOperating,
+  type LogHandler,
+  type OrderGuardOptions,
+  type OrderLockMap,
+  type OrderPendingMap,
+  type OrderTimerMap,
+} from "../order-coordinator";
+import type { ClientOrderIdFactory } from "./client-order-id";
+
+export type ExecutionAlgo = "market" | "twap" | "iceberg" | "pov";
+
+export interface ExecutionConfig {
+  algo: ExecutionAlgo; // market 为一次性市价单，其余为分片执行
+  durationMs: number; // TWAP 执行时长，同时是冰山与 POV 的最长执行时间
+  intervalMs: number; // 冰山重新挂单与 POV 下单的检查间隔
+  twapSlices: number; // TWAP 分片数量
+  icebergVisibleQty: number; // 冰山单每次可见数量，0 表示总量的 1/5
+  povRate: number; // POV 参与率：累计成交不超过同期市场成交量 × 参与率
+  finalSweep: boolean; // 到期后剩余数量以限价 IOC 扫单
+}
+
+export interface ExecutionRequest {
+  side: "BUY" | "SELL";
+  quantity: number;
+  reduceOnly: boolean; // true 时等同 marketClose，否则等同 placeMarketOrder
+  guard: OrderGuardOptions; // expectedPrice 作为到达价，maxPct 作为滑点上限
+  limitPrice?: number; // 显式限价，与滑点上限取更严格者
+  qtyStep?: number;
+  priceTick?: number;
+  positionSide?: PositionSide;
+}
+
+/**
+ * 执行请求的结果：submitted 为市价单已提交，started 为分片执行已在后台开始（需等 whenIdle 才算完成），
+ * rejected 为已有执行进行中、锁被占用或保护触发而未执行
+ */
+export type ExecutionOutcome = "submitted" | "started" | "rejected";
+
+export interface ExecutionReport {
+  algo: ExecutionAlgo;
+  side: "BUY" | "SELL";
+  status: "running" | "filled" | "partial" | "aborted";
+  requestedQty: number;
+  filledQty: number;
+  avgPrice: number | null;
+  arrivalPrice: number;
+  limitPrice: number;
+  slippageBps: number | null; // 成交均价相对到达价的滑点，正数表示劣于到达价
+  childOrders: number;
+  startedAt: number;
+  finishedAt: number | null;
+}
+
+export interface ExecutionContext {
+  adapter: ExchangeAdapter;
+  symbol: string;
+  locks: OrderLockMap;
+  timers: OrderTimerMap;
+  pendings: OrderPendingMap;
+  log: LogHandler;
+  clientOrderIds: ClientOrderIdFactory;
+  getOpenOrders: () => AsterOrder[];
+  getDepth: () => AsterDepth | null;
+}
+
+interface ChildState {
+  filled: number; // 已计入的成交数量，取成交推送与下单回报 executedQty 中较大者
+  tradeIds: Set<number>; // 已计入的成交推送，重复推送不再累计
+  final: boolean; // 成交推送报告订单已全部成交
+}
+
+interface RestingChild {
+  clientOrderId: string;
+  orderId: number;
+  price: number;
+}
+
+interface ExecutionTask {
+  algo: Exclude<ExecutionAlgo, "market">;
+  request: ExecutionRequest;
+  lockKey: string;
+  arrivalPrice: number;
+  limitPrice: number;
+  startedAt: number;
+  deadline: number;
+  filledQty: number;
+  filledNotional: number;
+  children: Map<string, ChildState>;
+  resting: RestingChild | null;
+  marketVolume: number;
+  aborted: boolean;
+  rejectLogged: boolean;
+  waiters: Set<() => void>;
+  subscriptions: Unsubscribe[];
+}
+
+const ALGO_LABELS: Record<ExecutionAlgo, string> = {
+  market: "市价",
+  twap: "TWAP",
+  iceberg: "冰山",
+  pov: "POV",
+};
+
+const FINAL_ORDER_STATUSES = new Set(["FILLED", "CANCELED", "REJECTED", "EXPIRED"]);
+const EPS = 1e-9;
+// 子单提交后等待成交推送的最长时间
+const CHILD_SETTLE_MS = 500;
+// 执行期间持有市价单锁，超时时间在执行时长之外留出余量
+const LOCK_GRACE_MS = 30_000;
+
+/**
+ * 执行算法层：引擎用它替代 placeMarketOrder / marketClose。
+ * market 模式保持一次性市价单；TWAP / 冰山 / POV 在后台分片执行，子单均不越过限价，
+ * 执行期间持有市价单锁，引擎后续的市价操作会像现有逻辑一样被跳过
+ */
+export class OrderExecutor {
+  private task: ExecutionTask | null = null;
+  private running: Promise<void> | null = null;
+  private lastReport: ExecutionReport | null = null;
+  private fallbackLogged = false;
+
+  constructor(
+    private readonly ctx: ExecutionContext,
+    private readonly config: ExecutionConfig
+  ) {}
+
+  async execute(request: ExecutionRequest): Promise<ExecutionOutcome> {
+    const algo = this.resolveAlgo();
+    if (algo === "market") {
+      return this.executeMarket(request);
+    }
+
+    // 开仓执行中收到反向平仓请求：中止开仓，避免继续加仓，再执行平仓
+    const current = this.task;
+    if (current && request.reduceOnly && !current.request.reduceOnly && current.request.side !== request.side) {
+      this.ctx.log("warning", `收到平仓请求，中止进行中的${ALGO_LABELS[current.algo]}开仓`);
+      this.abort();
+      await this.running;
+    }
+
+    const lockKey = orderLockKey("MARKET", request.positionSide);
+    if (this.task || isOperating(this.ctx.locks, lockKey)) {
+      if (this.task && !this.task.rejectLogged) {
+        this.task.rejectLogged = true;
+        this.ctx.log("info", `${ALGO_LABELS[this.task.algo]} 执行进行中，跳过 ${request.side} ${request.quantity}${request.reduceOnly ? " (平仓)" : ""}`);
+      }
+      return "rejected";
+    }
+    const arrivalPrice = this.resolveArrivalPrice(request);
+    if (arrivalPrice == null) {
+      this.ctx.log("error", `${ALGO_LABELS[algo]} 执行缺少到达价，跳过 ${request.side} ${request.quantity}`);
+      return "rejected";
+    }
+
+    const now = Date.now();
+    const task: ExecutionTask = {
+      algo,
+      request,
+      lockKey,
+      arrivalPrice,
+      limitPrice: this.computeLimitPrice(request, arrivalPrice),
+      startedAt: now,
+      deadline: now + this.config.durationMs,
+      filledQty: 0,
+      filledNotional: 0,
+      children: new Map(),
+      resting: null,
+      marketVolume: 0,
+      aborted: false,
+      rejectLogged: false,
+      waiters: new Set(),
+      subscriptions: [],
+    };
+    lockOperating(this.ctx.locks, this.ctx.timers, this.ctx.pendings, lockKey, this.ctx.log, this.config.durationMs + LOCK_GRACE_MS);
+    this.subscribe(task);
+    this.task = task;
+    this.ctx.log(
+      "order",
+      `${ALGO_LABELS[algo]} 开始执行: ${request.side} ${request.quantity} 到达价 ${arrivalPrice} 限价 ${task.limitPrice}${request.reduceOnly ? " (平仓)" : ""}`
+    );
+    this.running = this.run(task)
+      .catch((error) => {
+        this.ctx.log("error", `${ALGO_LABELS[algo]} 执行异常: ${String(error)}`);
+      })
+      .finally(() => this.finish(task));
+    return "started";
+  }
+
+  /** 执行中的进度或最近一次执行报告 */
+  getReport(): ExecutionReport | null {
+    return this.task ? this.buildReport(this.task, "running") : this.lastReport;
+  }
+
+  isActive(): boolean {
+    return this.task !== null;
+  }
+
+  /** 是否为当前执行的子单 */
+  ownsOrder(order: AsterOrder): boolean {
+    return Boolean(this.task?.children.has(order.clientOrderId));
+  }
+
+  /** 等待当前执行结束，返回执行报告 */
+  async whenIdle(): Promise<ExecutionReport | null> {
+    await this.running;
+    return this.lastReport;
+  }
+
+  /** 停止当前执行：撤掉挂着的子单，不再发送新的子单 */
+  abort(): void {
+    if (!this.task) return;
+    this.task.aborted = true;
+    this.notify(this.task);
+  }
+
+  private resolveAlgo(): ExecutionAlgo {
+    const algo = this.config.algo;
+    if (algo === "market") return algo;
+    const missing = !this.ctx.adapter.watchFills ? "成交推送" : algo === "pov" && !this.ctx.adapter.watchTrades ? "逐笔成交推送" : null;
+    if (!missing) return algo;
+    if (!this.fallbackLogged) {
+      this.ctx.log("warning", `交易所适配器不支持${missing}，${ALGO_LABELS[algo]} 执行改用市价单`);
+      this.fallbackLogged = true;
+    }
+    return "market";
+  }
+
+  private async executeMarket(request: ExecutionRequest): Promise<ExecutionOutcome> {
+    const { adapter, symbol, locks, timers, pendings, log, clientOrderIds } = this.ctx;
+    const opts = { qtyStep: request.qtyStep, positionSide: request.positionSide, clientOrderIds };
+    const order = request.reduceOnly
+      ? await marketClose(adapter, symbol, this.ctx.getOpenOrders(), locks, timers, pendings, request.side, request.quantity, log, request.guard, opts)
+      : await placeMarketOrder(adapter, symbol, this.ctx.getOpenOrders(), locks, timers, pendings, request.side, request.quantity, log, false, request.guard, opts);
+    return order ? "submitted" : "rejected";
+  }
+
+  private resolveArrivalPrice(request: ExecutionRequest): number | null {
+    const expected = Number(request.guard.expectedPrice);
+    if (Number.isFinite(expected) && expected > 0) return expected;
+    const { topBid, topAsk } = getTopPrices(this.ctx.getDepth());
+    if (topBid != null && topAsk != null) return (topBid + topAsk) / 2;
+    const mark = Number(request.guard.markPrice);
+    return Number.isFinite(mark) && mark > 0 ? mark : null;
+  }
+
+  /** 滑点上限对应的限价，买单不高于、卖单不低于该价格 */
+  private computeLimitPrice(request: ExecutionRequest, arrivalPrice: number): number {
+    const tick = request.priceTick ?? 0.1;
+    const maxPct = request.guard.maxPct ?? 0;
+    if (request.side === "BUY") {
+      const cap = roundDownToTick(arrivalPrice * (1 + maxPct), tick);
+      return request.limitPrice != null ? Math.min(cap, request.limitPrice) : cap;
+    }
+    const cap = roundUpToTick(arrivalPrice * (1 - maxPct), tick);
+    return request.limitPrice != null ? Math.max(cap, request.limitPrice) : cap;
+  }
+
+  private subscribe(task: ExecutionTask): void {
+    const { adapter, symbol } = this.ctx;
+    const unsubscribeFills = adapter.watchFills?.((fill) => this.handleFill(task, fill));
+    if (unsubscribeFills) task.subscriptions.push(unsubscribeFills);
+    if (task.algo === "pov") {
+      const unsubscribeTrades = adapter.watchTrades?.(symbol, (trade) => {
+        const qty = Number(trade.quantity);
+        if (Number.isFinite(qty)) task.marketVolume += qty;
+      });
+      if (unsubscribeTrades) task.subscriptions.push(unsubscribeTrades);
+    }
+  }
+
+  private handleFill(task: ExecutionTask, fill: AsterFill): void {
+    const child = task.children.get(fill.clientOrderId);
+    if (!child) return;
+    if (!child.tradeIds.has(fill.tradeId)) {
+      child.tradeIds.add(fill.tradeId);
+      // 优先按累计成交量计算增量，已由下单回报计入的部分不重复累计
+      const cumulative = Number(fill.cumulativeFilledQty);
+      const qty = Number.isFinite(cumulative) && cumulative > 0 ? cumulative - child.filled : Number(fill.lastFilledQty);
+      this.creditFill(task, child, qty, Number(fill.lastFilledPrice));
+    }
+    if (fill.orderStatus === "FILLED") child.final = true;
+    this.notify(task);
+  }
+
+  /** 下单回报的 executedQty 作为子单成交量下限，成交推送迟到时也不会多发子单 */
+  private creditOrder(task: ExecutionTask, child: ChildState, order: AsterOrder, fallbackPrice: number): void {
+    const executed = Number(order.executedQty);
+    if (!(executed > child.filled + EPS)) return;
+    const avg = Number(order.avgPrice);
+    this.creditFill(task, child, executed - child.filled, avg > 0 ? avg : fallbackPrice);
+  }
+
+  private creditFill(task: ExecutionTask, child: ChildState, qty: number, price: number): void {
+    if (!(qty > EPS) || !(price > 0)) return;
+    child.filled += qty;
+    task.filledQty += qty;
+    task.filledNotional += qty * price;
+  }
+
+  private async run(task: ExecutionTask): Promise<void> {
+    if (task.algo === "twap") {
+      await this.runTwap(task);
+    } else if (task.algo === "iceberg") {
+      await this.runIceberg(task);
+    } else {
+      await this.runPov(task);
+    }
+    await this.cancelResting(task);
+    const remaining = this.remaining(task);
+    if (!task.aborted && this.config.finalSweep && remaining >= this.minQty(task)) {
+      this.ctx.log("order", `${ALGO_LABELS[task.algo]} 到期，剩余 ${remaining} 以限价 ${task.limitPrice} 扫单`);
+      await this.sendIoc(task, remaining);
+    }
+  }
+
+  /** TWAP：执行时长内均匀分片，每片以限价 IOC 追到累计目标数量 */
+  private async runTwap(task: ExecutionTask): Promise<void> {
+    const slices = Math.max(1, Math.floor(this.config.twapSlices));
+    const gap = this.config.durationMs / slices;
+    for (let slice = 1; slice <= slices && !task.aborted; slice += 1) {
+      const target = (task.request.quantity * slice) / slices;
+      const qty = Math.min(target - task.filledQty, this.remaining(task));
+      if (qty >= this.minQty(task)) {
+        await this.sendIoc(task, qty);
+      }
+      if (slice < slices) {
+        await this.sleep(task, gap);
+      }
+    }
+  }
+
+  /** 冰山：只在盘口挂出可见数量，成交后补挂，盘口移动时撤单重挂 */
+  private async runIceberg(task: ExecutionTask): Promise<void> {
+    const visible = this.config.icebergVisibleQty > 0 ? this.config.icebergVisibleQty : task.request.quantity / 5;
+    const tick = task.request.priceTick ?? 0.1;
+    while (!task.aborted && this.remaining(task) >= this.minQty(task) && Date.now() < task.deadline) {
+      const price = this.touchPrice(task);
+      const resting = task.resting;
+      if (resting) {
+        const child = task.children.get(resting.clientOrderId);
+        if (child?.final) {
+          task.resting = null;
+        } else if (price != null && Math.abs(resting.price - price) > tick / 2) {
+          await this.cancelResting(task);
+        }
+      }
+      if (!task.resting && price != null) {
+        const qty = Math.min(visible, this.remaining(task));
+        if (qty >= this.minQty(task)) {
+          await this.placeResting(task, price, qty);
+        }
+      }
+      await this.sleep(task, Math.min(this.config.intervalMs, Math.max(0, task.deadline - Date.now())));
+    }
+  }
+
+  /** POV：按检查间隔把累计成交追到市场成交量 × 参与率 */
+  private async runPov(task: ExecutionTask): Promise<void> {
+    while (!task.aborted && this.remaining(task) >= this.minQty(task) && Date.now() < task.deadline) {
+      await this.sleep(task, Math.min(this.config.intervalMs, Math.max(0, task.deadline - Date.now())));
+      if (task.aborted) break;
+      const target = Math.min(task.request.quantity, task.marketVolume * this.config.povRate);
+      const qty = target - task.filledQty;
+      if (qty >= this.minQty(task)) {
+        await this.sendIoc(task, qty);
+      }
+    }
+  }
+
+  /** 冰山挂单价格：买单挂买一、卖单挂卖一，不越过限价 */
+  private touchPrice(task: ExecutionTask): number | null {
+    const { topBid, topAsk } = getTopPrices(this.ctx.getDepth());
+    if (task.request.side === "BUY") {
+      return topBid != null ? Math.min(topBid, task.limitPrice) : null;
+    }
+    return topAsk != null ? Math.max(topAsk, task.limitPrice) : null;
+  }
+
+  private async sendIoc(task: ExecutionTask, qty: number): Promise<void> {
+    const clientOrderId = this.ctx.clientOrderIds.next("alg");
+    const child: ChildState = { filled: 0, tradeIds: new Set(), final: false };
+    task.children.set(clientOrderId, child);
+    try {
+      const order = await this.submitChild(task, task.limitPrice, qty, "IOC", clientOrderId);
+      if (!order) return;
+      this.creditOrder(task, child, order, task.limitPrice);
+      if (FINAL_ORDER_STATUSES.has(order.status)) return;
+      await this.waitFor(task, () => child.final, CHILD_SETTLE_MS);
+    } catch (error) {
+      this.ctx.log("error", `${ALGO_LABELS[task.algo]} 子单失败: ${String(error)}`);
+    }
+  }
+
+  private async placeResting(task: ExecutionTask, price: number, qty: number): Promise<void> {
+    const clientOrderId = this.ctx.clientOrderIds.next("alg");
+    const child: ChildState = { filled: 0, tradeIds: new Set(), final: false };
+    task.children.set(clientOrderId, child);
+    try {
+      const order = await this.submitChild(task, price, qty, "GTX", clientOrderId);
+      if (order) this.creditOrder(task, child, order, price);
+      // 只做 Maker 的子单会立即成交时被交易所拒绝，等下一轮盘口
+      if (!order || FINAL_ORDER_STATUSES.has(order.status)) return;
+      task.resting = { clientOrderId, orderId: order.orderId, price };
+    } catch (error) {
+      this.ctx.log("error", `${ALGO_LABELS[task.algo]} 挂单失败: ${String(error)}`);
+    }
+  }
+
+  private submitChild(
+    task: ExecutionTask,
+    price: number,
+    qty: number,
+    timeInForce: "IOC" | "GTX",
+    clientOrderId: string
+  ): Promise<AsterOrder | undefined> {
+    const { request } = task;
+    return submitChildOrder(this.ctx.adapter, this.ctx.symbol, request.side, price, qty, this.ctx.log, {
+      timeInForce,
+      reduceOnly: request.reduceOnly,
+      clientOrderId,
+      priceTick: request.priceTick,
+      qtyStep: request.qtyStep,
+      positionSide: request.positionSide,
+    });
+  }
+
+  private async cancelResting(task: ExecutionTask): Promise<void> {
+    const resting = task.resting;
+    if (!resting) return;
+    task.resting = null;
+    const child = task.children.get(resting.clientOrderId);
+    if (child?.final) return;
+    try {
+      await this.ctx.adapter.cancelOrder({ symbol: this.ctx.symbol, orderId: resting.orderId });
+    } catch (error) {
+      if (!isUnknownOrderError(error)) {
+        this.ctx.log("error", `${ALGO_LABELS[task.algo]} 撤销子单失败: ${String(error)}`);
+      }
+    }
+    // 撤单前可能已有部分成交在途
+    await this.waitFor(task, () => child?.final ?? true, CHILD_SETTLE_MS);
+  }
+
+  private finish(task: ExecutionTask): void {
+    for (const unsubscribe of task.subscriptions) unsubscribe();
+    unlockOperating(this.ctx.locks, this.ctx.timers, this.ctx.pendings, task.lockKey);
+    const status = task.aborted ? "aborted" : this.remaining(task) < this.minQty(task) ? "filled" : "partial";
+    const report = this.buildReport(task, status);
+    this.lastReport = report;
+    this.task = null;
+    this.running = null;
+    const avg = report.avgPrice != null ? report.avgPrice.toFixed(4) : "-";
+    const slippage = report.slippageBps != null ? `${report.slippageBps >= 0 ? "+" : ""}${report.slippageBps.toFixed(1)} bps` : "-";
+    this.ctx.log(
+      status === "filled" ? "order" : "warning",
+      `${ALGO_LABELS[task.algo]} 执行${status === "filled" ? "完成" : status === "aborted" ? "中止" : "未全部成交"}: ${report.side} 成交 ${report.filledQty}/${report.requestedQty} 均价 ${avg} 到达价 ${report.arrivalPrice} 滑点 ${slippage}，子单 ${report.childOrders} 笔，用时 ${((report.finishedAt! - report.startedAt) / 1000).toFixed(1)}s`
+    );
+  }
+
+  private buildReport(task: ExecutionTask, status: ExecutionReport["status"]): ExecutionReport {
+    const avgPrice = task.filledQty > EPS ? task.filledNotional / task.filledQty : null;
+    const direction = task.request.side === "BUY" ? 1 : -1;
+    return {
+      algo: task.algo,
+      side: task.request.side,
+      status,
+      requestedQty: task.request.quantity,
+      filledQty: Number(task.filledQty.toFixed(8)),
+      avgPrice,
+      arrivalPrice: task.arrivalPrice,
+      limitPrice: task.limitPrice,
+      slippageBps: avgPrice != null ? ((avgPrice - task.arrivalPrice) / task.arrivalPrice) * 10_000 * direction : null,
+      childOrders: task.children.size,
+      startedAt: task.startedAt,
+      finishedAt: status === "running" ? null : Date.now(),
+    };
+  }
+
+  private remaining(task: ExecutionTask): number {
+    return Math.max(0, task.request.quantity - task.filledQty);
+  }
+
+  private minQty(task: ExecutionTask): number {
+    return task.request.qtyStep ?? 0.001;
+  }
+
+  private sleep(task: ExecutionTask, ms: number): Promise<void> {
+    return this.waitFor(task, () => false, ms);
+  }
+
+  /** 等待条件满足、超时或执行被中止 */
+  private waitFor(task: ExecutionTask, predicate: () => boolean, ms: number): Promise<void> {
+    if (task.aborted || predicate()) return Promise.resolve();
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        task.waiters.delete(check);
+        resolve();
+      };
+      const check = () => {
+        if (task.aborted || predicate()) done();
+      };
+      const timer = setTimeout(done, ms);
+      task.waiters.add(check);
+    });
+  }
+
+  private notify(task: ExecutionTask): void {
+    for (const check of Array.from(task.waiters)) check();
+  }
+}
@@ -0,0 +1,45 @@
+import type { ExchangeAdapter } from "../../exchanges/adapter";
+import type { StreamHealth } from "../../exchanges/types";
+import type { LogHandler } from "../order-coordinator";
+
+function describeStream(health: StreamHealth): string {
+  const age = health.lastMessageAt == null ? "从未收到消息" : `${((Date.now() - health.lastMessageAt) / 1000).toFixed(0)}s 未更新`;
+  return `${health.stream}（${age}）`;
+}
+
+/**
+ * 行情新鲜度守卫：适配器报告本交易对行情流或用户数据流失效时，策略暂停新开仓，恢复后继续；
+ * 止损与风控不受影响
+ * 适配器不提供数据流健康状况（模拟盘、回测）时始终视为新鲜
+ */
+export class MarketDataGuard {
+  private pausedSince: number | null = null;
+
+  constructor(
+    private readonly exchange: ExchangeAdapter,
+    private readonly symbol: string,
+    private readonly log: LogHandler
+  ) {}
+
+  isFresh(): boolean {
+    const stale = this.getStaleStreams();
+    if (stale.length === 0) {
+      if (this.pausedSince != null) {
+        this.log("info", `✅ 数据流已恢复，继续运行（暂停 ${((Date.now() - this.pausedSince) / 1000).toFixed(0)}s）`);
+        this.pausedSince = null;
+      }
+      return true;
+    }
+    if (this.pausedSince == null) {
+      this.pausedSince = Date.now();
+      this.log("warning", `⏸️ 数据流 ${stale.map(describeStream).join("、")}，暂停下单开仓直至恢复（止损与风控照常执行）`);
+    }
+    return false;
+  }
+
+  getStaleStreams(): StreamHealth[] {
+    const health = this.exchange.getStreamHealth?.() ?? [];
+    const symbol = this.symbol.toUpperCase();
+    return health.filter((entry) => entry.stale && (entry.symbol == null || entry.symbol === symbol));
+  }
+}
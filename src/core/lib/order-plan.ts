@@ -1,17 +1,18 @@
-import type { AsterOrder } from "../../exchanges/types";
+import type { AsterOrder, PositionSide } from "../../exchanges/types";
 
 export interface OrderTarget {
   side: "BUY" | "SELL";
   price: number;
   amount: number;
   reduceOnly: boolean;
+  positionSide?: PositionSide; // 对冲模式下按持仓方向匹配，此时不比较 reduceOnly
 }
 
-export function makeOrderPlan(
+export function makeOrderPlan<T extends OrderTarget>(
   openOrders: AsterOrder[],
-  targets: OrderTarget[],
+  targets: T[],
   tolerance: number
-): { toCancel: AsterOrder[]; toPlace: OrderTarget[] } {
+): { toCancel: AsterOrder[]; toPlace: T[] } {
   const unmatched = new Set(targets.map((_, idx) => idx));
   const toCancel: AsterOrder[] = [];
 
@@ -26,7 +27,9 @@ export function makeOrderPlan(
       return (
         unmatched.has(index) &&
         target.side === order.side &&
-        target.reduceOnly === reduceOnly &&
+        (target.positionSide && target.positionSide !== "BOTH"
+          ? order.positionSide === target.positionSide
+          : target.reduceOnly === reduceOnly) &&
         Math.abs(price - target.price) <= tolerance
       );
     });
@@ -39,7 +42,7 @@ export function makeOrderPlan(
 
   const toPlace = [...unmatched]
     .map((idx) => targets[idx])
-    .filter((t): t is OrderTarget => t !== undefined && t.amount > 1e-5);
+    .filter((t): t is T => t !== undefined && t.amount > 1e-5);
 
   return { toCancel, toPlace };
 }
@@ -0,0 +1,38 @@
+import type { ExchangeAdapter } from "../../exchanges/adapter";
+import type { LogHandler } from "../order-coordinator";
+import { StartupGuard } from "./startup-guard";
+
+export type PositionModeStatus = "checking" | "ok" | "mismatch" | "unknown";
+
+function describeMode(hedge: boolean): string {
+  return hedge ? "对冲模式（双向持仓）" : "单向模式";
+}
+
+/**
+ * 启动时校验账户持仓模式与策略配置是否一致，不一致时拒绝下单
+ * 适配器不支持查询（或返回 null）时视为无法判断，按配置继续运行
+ */
+export class PositionModeGuard extends StartupGuard<PositionModeStatus> {
+  constructor(
+    private readonly exchange: ExchangeAdapter,
+    private readonly expectHedge: boolean,
+    log: LogHandler,
+    retryDelayMs?: number
+  ) {
+    super({ initial: "checking", readyWhen: ["ok", "unknown"], action: "查询持仓模式", log, retryDelayMs });
+  }
+
+  protected async run(): Promise<PositionModeStatus> {
+    if (!this.exchange.getDualSidePosition) return "unknown";
+    const dualSide = await this.exchange.getDualSidePosition();
+    if (dualSide == null) return "unknown";
+    if (dualSide !== this.expectHedge) {
+      this.log(
+        "error",
+        `账户为${describeMode(dualSide)}，策略配置为${describeMode(this.expectHedge)}，已拒绝下单，请调整账户设置或 HEDGE_MODE`
+      );
+      return "mismatch";
+    }
+    return "ok";
+  }
+}
@@ -0,0 +1,82 @@
+import { extractMessage } from "../../utils/errors";
+import type { LogHandler } from "../order-coordinator";
+
+const DEFAULT_RETRY_DELAY_MS = 5000;
+
+export interface StartupGuardOptions<TStatus extends string> {
+  initial: TStatus; // 检查完成前的状态，start 仅在该状态下发起检查
+  readyWhen: readonly TStatus[]; // 允许下单的状态
+  action: string; // 日志中的操作名称，如“查询持仓模式”
+  log: LogHandler;
+  retryDelayMs?: number;
+}
+
+/**
+ * 引擎启动时的一次性账户检查：stop 后不再重试，重新 start 时继续未完成的检查
+ * 子类在 run 中返回最终状态；抛出的错误默认按间隔重试，resolveError 返回状态时不再重试
+ */
+export abstract class StartupGuard<TStatus extends string> {
+  protected readonly log: LogHandler;
+  protected readonly retryDelayMs: number;
+  private status: TStatus;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private stopped = false;
+  private inFlight = false;
+
+  protected constructor(private readonly options: StartupGuardOptions<TStatus>) {
+    this.status = options.initial;
+    this.log = options.log;
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  }
+
+  start(): void {
+    this.stopped = false;
+    if (this.status === this.options.initial && !this.retryTimer && !this.inFlight) {
+      void this.attempt();
+    }
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  ready(): boolean {
+    return this.options.readyWhen.includes(this.status);
+  }
+
+  getStatus(): TStatus {
+    return this.status;
+  }
+
+  protected abstract run(): Promise<TStatus>;
+
+  /** 返回最终状态表示不再重试，返回 null 时记录日志并按间隔重试 */
+  protected resolveError(_error: unknown): TStatus | null {
+    return null;
+  }
+
+  private async attempt(): Promise<void> {
+    this.retryTimer = null;
+    this.inFlight = true;
+    try {
+      this.status = await this.run();
+    } catch (error) {
+      if (this.stopped) return;
+      const status = this.resolveError(error);
+      if (status != null) {
+        this.status = status;
+        return;
+      }
+      this.log("error", `${this.options.action}失败: ${extractMessage(error)}，${this.retryDelayMs / 1000}s 后重试`);
+      this.retryTimer = setTimeout(() => {
+        void this.attempt();
+      }, this.retryDelayMs);
+    } finally {
+      this.inFlight = false;
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import type { Unsubscribe } from "../../exchanges/adapter";
+
+/**
+ * 引擎持有的行情/账户订阅，stop() 时统一取消，避免切换策略后旧引擎仍收到推送
+ * 可选的 watch* 未实现时传入 undefined，直接忽略
+ */
+export class SubscriptionSet {
+  private readonly handles: Unsubscribe[] = [];
+
+  add(unsubscribe: Unsubscribe | undefined): void {
+    if (unsubscribe) this.handles.push(unsubscribe);
+  }
+
+  get size(): number {
+    return this.handles.length;
+  }
+
+  clear(): void {
+    const handles = this.handles.splice(0);
+    for (const unsubscribe of handles) {
+      try {
+        unsubscribe();
+      } catch (error) {
+        console.error("[SubscriptionSet] 取消订阅失败", error);
+      }
+    }
+  }
+}
@@ -1,25 +1,22 @@
-import type { MakerConfig } from "../config";
+import { loadInventoryQuotingConfig, type MakerConfig } from "../config";
 import type { ExchangeAdapter } from "../exchanges/adapter";
-import type {
-  AsterAccountSnapshot,
-  AsterDepth,
-  AsterOrder,
-  AsterTicker,
-} from "../exchanges/types";
+import type { PositionSide } from "../exchanges/types";
 import { roundDownToTick } from "../utils/math";
-import { createTradeLog, type TradeLogEntry } from "../state/trade-log";
 import { isUnknownOrderError } from "../utils/errors";
-import { getPosition, type PositionSnapshot } from "../utils/strategy";
-import { computePositionPnl } from "../utils/pnl";
+import { getPosition, getPositionLeg, type PositionSnapshot } from "../utils/strategy";
 import { shouldMakerStopLoss, shouldMakerTakeProfit, computeMakerPnl } from "../utils/maker-risk";
-import { getTopPrices, getMidOrLast } from "../utils/price";
-import { shouldStopLoss } from "../utils/risk";
 import {
-  marketClose,
+  VolatilityEstimator,
+  computeInventoryQuote,
+  type InventoryQuote,
+  type InventoryQuotingConfig,
+} from "../utils/inventory-quoting";
+import { getTopPrices } from "../utils/price";
+import {
   placeOrder,
   unlockOperating,
 } from "./order-coordinator";
-import type { OrderLockMap, OrderPendingMap, OrderTimerMap } from "./order-coordinator";
+import { BaseEngine, type BaseEngineSnapshot } from "./base-engine";
 import { makeOrderPlan } from "./lib/order-plan";
 import { safeCancelOrder } from "./lib/orders";
 
@@ -28,244 +25,183 @@ interface DesiredOrder {
   price: number;
   amount: number;
   reduceOnly: boolean;
+  positionSide?: PositionSide; // 仅对冲模式设置
+  lockKey?: string; // 库存偏移报价按买卖方向分别加锁，两侧报价可同时挂出
 }
 
-export interface MakerEngineSnapshot {
-  ready: boolean;
-  symbol: string;
+type HedgeLeg = "LONG" | "SHORT";
+
+export interface MakerEngineSnapshot extends BaseEngineSnapshot {
   topBid: number | null;
   topAsk: number | null;
   spread: number | null;
-  position: PositionSnapshot;
   pnl: number;
   accountUnrealized: number;
-  sessionVolume: number;
-  openOrders: AsterOrder[];
   desiredOrders: DesiredOrder[];
-  tradeLog: TradeLogEntry[];
-  lastUpdated: number | null;
+  inventoryQuote: InventoryQuote | null; // 库存偏移报价模式下最近一次的保留价与价差
 }
 
-type MakerEvent = "update";
-type MakerListener = (snapshot: MakerEngineSnapshot) => void;
-
 const EPS = 1e-5;
+// MAKER_MAX_INVENTORY 未设置时的最大持仓（每笔数量的倍数）
+const DEFAULT_MAX_INVENTORY_LOTS = 5;
 
-export class MakerEngine {
-  private accountSnapshot: AsterAccountSnapshot | null = null;
-  private depthSnapshot: AsterDepth | null = null;
-  private tickerSnapshot: AsterTicker | null = null;
-  private openOrders: AsterOrder[] = [];
-
-  private readonly locks: OrderLockMap = {};
-  private readonly timers: OrderTimerMap = {};
-  private readonly pending: OrderPendingMap = {};
-  private readonly pendingCancelOrders = new Set<number>();
-
-  private readonly tradeLog: ReturnType<typeof createTradeLog>;
-  private readonly listeners = new Map<MakerEvent, Set<MakerListener>>();
-
-  private timer: ReturnType<typeof setInterval> | null = null;
-  private processing = false;
+export class MakerEngine extends BaseEngine<MakerConfig, MakerEngineSnapshot> {
   private desiredOrders: DesiredOrder[] = [];
-  private accountUnrealized = 0;
-  private sessionQuoteVolume = 0;
-  private prevPositionAmt = 0;
-  private initializedPosition = false;
-  private initialOrderSnapshotReady = false;
   private initialOrderResetDone = false;
   private entryPricePendingLogged = false;
-
-  constructor(private readonly config: MakerConfig, private readonly exchange: ExchangeAdapter) {
-    this.tradeLog = createTradeLog(this.config.maxLogEntries);
-    this.bootstrap();
-  }
-
-  start(): void {
-    if (this.timer) return;
-    this.timer = setInterval(() => {
-      void this.tick();
-    }, this.config.refreshIntervalMs);
-  }
-
-  stop(): void {
-    if (this.timer) {
-      clearInterval(this.timer);
-      this.timer = null;
+  private readonly quoting: InventoryQuotingConfig;
+  private readonly maxInventory: number;
+  private readonly volatility: VolatilityEstimator;
+  private inventoryQuote: InventoryQuote | null = null;
+  private inventoryCapLogged = false;
+
+  constructor(config: MakerConfig, exchange: ExchangeAdapter) {
+    super(config, exchange, {
+      strategyId: "maker",
+      intervalMs: config.refreshIntervalMs,
+      // 做市不使用K线，保持与其他模块一致的订阅
+      klineInterval: "1m",
+      loopLabel: "做市循环",
+    });
+    this.quoting = this.config.inventoryQuoting ?? loadInventoryQuotingConfig();
+    this.maxInventory = this.quoting.maxInventory > 0 ? this.quoting.maxInventory : this.config.tradeAmount * DEFAULT_MAX_INVENTORY_LOTS;
+    this.volatility = new VolatilityEstimator(this.quoting.volatilityWindowMs);
+    if (this.quoting.model === "inventory" && this.hedgeMode) {
+      this.tradeLog.push("warning", "对冲模式下暂不支持库存偏移报价，沿用固定偏移报价");
     }
+    this.initialize();
   }
 
-  on(event: MakerEvent, handler: MakerListener): void {
-    const handlers = this.listeners.get(event) ?? new Set<MakerListener>();
-    handlers.add(handler);
-    this.listeners.set(event, handlers);
+  protected isReady(): boolean {
+    return Boolean(this.accountSnapshot && this.depthSnapshot);
   }
 
-  off(event: MakerEvent, handler: MakerListener): void {
-    const handlers = this.listeners.get(event);
-    if (!handlers) return;
-    handlers.delete(handler);
-    if (handlers.size === 0) {
-      this.listeners.delete(event);
+  /**
+   * 对冲模式报价：空仓的腿挂开仓单（多头买一、空头卖一），有仓位的腿挂同方向的平仓单
+   */
+  private buildHedgeQuotes(bidPrice: number, askPrice: number): DesiredOrder[] {
+    const desired: DesiredOrder[] = [];
+    for (const leg of ["LONG", "SHORT"] as const) {
+      const position = getPositionLeg(this.accountSnapshot, this.config.symbol, leg);
+      const absPosition = Math.abs(position.positionAmt);
+      if (absPosition < EPS) {
+        const side = leg === "LONG" ? "BUY" : "SELL";
+        if (!this.isEntryBlocked(side)) {
+          desired.push({ side, price: side === "BUY" ? bidPrice : askPrice, amount: this.config.tradeAmount, reduceOnly: false, positionSide: leg });
+        }
+      } else {
+        const side = leg === "LONG" ? "SELL" : "BUY";
+        desired.push({ side, price: side === "SELL" ? askPrice : bidPrice, amount: absPosition, reduceOnly: true, positionSide: leg });
+      }
     }
+    return desired;
   }
 
-  getSnapshot(): MakerEngineSnapshot {
-    return this.buildSnapshot();
-  }
+  protected async decide(): Promise<void> {
+    if (!(await this.ensureStartupOrderReset())) return;
+    // 分片平仓执行期间暂停报价，避免新挂单与平仓子单互相成交
+    if (this.executor.isActive()) return;
 
-  private bootstrap(): void {
-    try {
-      this.exchange.watchAccount((snapshot) => {
-        try {
-          this.accountSnapshot = snapshot;
-          const totalUnrealized = Number(snapshot.totalUnrealizedProfit ?? "0");
-          if (Number.isFinite(totalUnrealized)) {
-            this.accountUnrealized = totalUnrealized;
-          }
-          const position = getPosition(snapshot, this.config.symbol);
-          this.updateSessionVolume(position);
-          this.emitUpdate();
-        } catch (err) {
-          this.tradeLog.push("error", `账户推送处理异常: ${String(err)}`);
-        }
-      });
-    } catch (err) {
-      this.tradeLog.push("error", `订阅账户失败: ${String(err)}`);
-    }
+    const { topBid, topAsk } = getTopPrices(this.depthSnapshot);
+    if (topBid == null || topAsk == null) return;
 
-    try {
-      this.exchange.watchOrders((orders) => {
-        try {
-          this.syncLocksWithOrders(orders);
-          this.openOrders = Array.isArray(orders)
-            ? orders.filter((order) => order.type !== "MARKET" && order.symbol === this.config.symbol)
-            : [];
-          const currentIds = new Set(this.openOrders.map((order) => order.orderId));
-          for (const id of Array.from(this.pendingCancelOrders)) {
-            if (!currentIds.has(id)) {
-              this.pendingCancelOrders.delete(id);
-            }
-          }
-          this.initialOrderSnapshotReady = true;
-          this.emitUpdate();
-        } catch (err) {
-          this.tradeLog.push("error", `订单推送处理异常: ${String(err)}`);
-        }
-      });
-    } catch (err) {
-      this.tradeLog.push("error", `订阅订单失败: ${String(err)}`);
-    }
+    const bidPrice = roundDownToTick(topBid - this.config.bidOffset, this.config.priceTick);
+    const askPrice = roundDownToTick(topAsk + this.config.askOffset, this.config.priceTick);
 
-    try {
-      this.exchange.watchDepth(this.config.symbol, (depth) => {
-        try {
-          this.depthSnapshot = depth;
-          this.emitUpdate();
-        } catch (err) {
-          this.tradeLog.push("error", `深度推送处理异常: ${String(err)}`);
-        }
-      });
-    } catch (err) {
-      this.tradeLog.push("error", `订阅深度失败: ${String(err)}`);
-    }
+    const position = getPosition(this.accountSnapshot, this.config.symbol);
+    const absPosition = Math.abs(position.positionAmt);
+    const desired: DesiredOrder[] = [];
 
-    try {
-      this.exchange.watchTicker(this.config.symbol, (ticker) => {
-        try {
-          this.tickerSnapshot = ticker;
-          this.emitUpdate();
-        } catch (err) {
-          this.tradeLog.push("error", `价格推送处理异常: ${String(err)}`);
-        }
-      });
-    } catch (err) {
-      this.tradeLog.push("error", `订阅Ticker失败: ${String(err)}`);
+    if (this.hedgeMode) {
+      desired.push(...this.buildHedgeQuotes(bidPrice, askPrice));
+      this.desiredOrders = desired;
+      this.updateSessionVolume(this.getVolumePosition());
+      await this.syncOrders(desired);
+      for (const leg of ["LONG", "SHORT"] as const) {
+        await this.checkRisk(getPositionLeg(this.accountSnapshot, this.config.symbol, leg), bidPrice, askPrice, leg);
+      }
+      return;
     }
 
-    // Maker strategy does not consume klines, but subscribe to keep parity with other modules
-    try {
-      this.exchange.watchKlines(this.config.symbol, "1m", () => {
-        try {
-          /* no-op */
-        } catch (err) {
-          this.tradeLog.push("error", `K线推送处理异常: ${String(err)}`);
-        }
+    if (this.quoting.model === "inventory") {
+      if (absPosition < EPS) this.entryPricePendingLogged = false;
+      this.volatility.push((topBid + topAsk) / 2);
+      const quote = computeInventoryQuote({
+        topBid,
+        topAsk,
+        positionAmt: position.positionAmt,
+        tradeAmount: this.config.tradeAmount,
+        sigmaBps: this.volatility.getSigmaBps(),
+        priceTick: this.config.priceTick,
+        config: this.quoting,
+        maxInventory: this.maxInventory,
       });
-    } catch (err) {
-      this.tradeLog.push("error", `订阅K线失败: ${String(err)}`);
-    }
-  }
-
-  private syncLocksWithOrders(orders: AsterOrder[] | null | undefined): void {
-    const list = Array.isArray(orders) ? orders : [];
-    Object.keys(this.pending).forEach((type) => {
-      const pendingId = this.pending[type];
-      if (!pendingId) return;
-      const match = list.find((order) => String(order.orderId) === pendingId);
-      if (!match || (match.status && match.status !== "NEW" && match.status !== "PARTIALLY_FILLED")) {
-        unlockOperating(this.locks, this.timers, this.pending, type);
+      this.inventoryQuote = quote;
+      desired.push(...this.buildInventoryQuotes(position.positionAmt, quote));
+    } else if (absPosition < EPS) {
+      this.entryPricePendingLogged = false;
+      if (!this.isEntryBlocked("BUY")) {
+        desired.push({ side: "BUY", price: bidPrice, amount: this.config.tradeAmount, reduceOnly: false });
       }
-    });
-  }
+      if (!this.isEntryBlocked("SELL")) {
+        desired.push({ side: "SELL", price: askPrice, amount: this.config.tradeAmount, reduceOnly: false });
+      }
+    } else {
+      const closeSide: "BUY" | "SELL" = position.positionAmt > 0 ? "SELL" : "BUY";
+      const closePrice = closeSide === "SELL" ? askPrice : bidPrice;
+      desired.push({ side: closeSide, price: closePrice, amount: absPosition, reduceOnly: true });
+    }
 
-  private isReady(): boolean {
-    return Boolean(this.accountSnapshot && this.depthSnapshot);
+    this.desiredOrders = desired;
+    this.updateSessionVolume(position);
+    await this.syncOrders(desired);
+    await this.checkRisk(position, bidPrice, askPrice);
   }
 
-  private async tick(): Promise<void> {
-    if (this.processing) return;
-    this.processing = true;
-    try {
-      if (!this.isReady()) {
-        this.emitUpdate();
-        return;
+  /**
+   * 库存偏移报价：双边按保留价两侧挂单，加仓方向受最大持仓限制；
+   * 未开启持续双边报价时，有持仓只挂一笔平仓单（价格同样随库存偏移）
+   */
+  private buildInventoryQuotes(positionAmt: number, quote: InventoryQuote): DesiredOrder[] {
+    const absPosition = Math.abs(positionAmt);
+    const priceOf = (side: "BUY" | "SELL") => (side === "BUY" ? quote.bidPrice : quote.askPrice);
+    const lockOf = (side: "BUY" | "SELL") => (side === "BUY" ? "MAKER_BID" : "MAKER_ASK");
+    const desired: DesiredOrder[] = [];
+
+    if (absPosition >= EPS) {
+      const closeSide: "BUY" | "SELL" = positionAmt > 0 ? "SELL" : "BUY";
+      if (!this.quoting.twoSided) {
+        return [{ side: closeSide, price: priceOf(closeSide), amount: absPosition, reduceOnly: true, lockKey: lockOf(closeSide) }];
       }
-      if (!(await this.ensureStartupOrderReset())) {
-        this.emitUpdate();
-        return;
-      }
-
-      const depth = this.depthSnapshot!;
-      const { topBid, topAsk } = getTopPrices(depth);
-      if (topBid == null || topAsk == null) {
-        this.emitUpdate();
-        return;
-      }
-
-      const bidPrice = roundDownToTick(topBid - this.config.bidOffset, this.config.priceTick);
-      const askPrice = roundDownToTick(topAsk + this.config.askOffset, this.config.priceTick);
-      
-      const position = getPosition(this.accountSnapshot, this.config.symbol);
-      const absPosition = Math.abs(position.positionAmt);
-      const desired: DesiredOrder[] = [];
+      desired.push({
+        side: closeSide,
+        price: priceOf(closeSide),
+        amount: Math.min(this.config.tradeAmount, absPosition),
+        reduceOnly: true,
+        lockKey: lockOf(closeSide),
+      });
+    }
 
-      if (absPosition < EPS) {
-        this.entryPricePendingLogged = false;
-        desired.push({ side: "BUY", price: bidPrice, amount: this.config.tradeAmount, reduceOnly: false });
-        desired.push({ side: "SELL", price: askPrice, amount: this.config.tradeAmount, reduceOnly: false });
-      } else {
-        const closeSide: "BUY" | "SELL" = position.positionAmt > 0 ? "SELL" : "BUY";
-        const closePrice = closeSide === "SELL" ? askPrice : bidPrice;
-        desired.push({ side: closeSide, price: closePrice, amount: absPosition, reduceOnly: true });
+    const room = this.maxInventory - absPosition;
+    const entrySides: Array<"BUY" | "SELL"> = absPosition < EPS ? ["BUY", "SELL"] : [positionAmt > 0 ? "BUY" : "SELL"];
+    if (room < EPS) {
+      if (!this.inventoryCapLogged) {
+        this.tradeLog.push("info", `持仓 ${absPosition} 达到最大库存 ${this.maxInventory}，暂停${positionAmt > 0 ? "买入" : "卖出"}方向报价`);
+        this.inventoryCapLogged = true;
       }
-
-      this.desiredOrders = desired;
-      this.updateSessionVolume(position);
-      await this.syncOrders(desired);
-      await this.checkRisk(position, bidPrice, askPrice);
-      this.emitUpdate();
-    } catch (error) {
-      this.tradeLog.push("error", `做市循环异常: ${String(error)}`);
-      this.emitUpdate();
-    } finally {
-      this.processing = false;
+      return desired;
+    }
+    this.inventoryCapLogged = false;
+    for (const side of entrySides) {
+      if (this.isEntryBlocked(side)) continue;
+      desired.push({ side, price: priceOf(side), amount: Math.min(this.config.tradeAmount, room), reduceOnly: false, lockKey: lockOf(side) });
     }
+    return desired;
   }
 
   private async ensureStartupOrderReset(): Promise<boolean> {
     if (this.initialOrderResetDone) return true;
-    if (!this.initialOrderSnapshotReady) return false;
+    if (!this.ordersSnapshotReady) return false;
     if (!this.openOrders.length) {
       this.initialOrderResetDone = true;
       return true;
@@ -346,7 +282,10 @@ export class MakerEngine {
           },
           {
             priceTick: this.config.priceTick,
-            qtyStep: 0.1  // 从配置或环境变量获取
+            qtyStep: 0.1,  // 从配置或环境变量获取
+            positionSide: target.positionSide,
+            clientOrderIds: this.clientOrderIds,
+            lockKey: target.lockKey,
           }
         );
       } catch (error) {
@@ -355,7 +294,7 @@ export class MakerEngine {
     }
   }
 
-  private async checkRisk(position: PositionSnapshot, bidPrice: number, askPrice: number): Promise<void> {
+  private async checkRisk(position: PositionSnapshot, bidPrice: number, askPrice: number, leg?: HedgeLeg): Promise<void> {
     const absPosition = Math.abs(position.positionAmt);
     if (absPosition < EPS) return;
 
@@ -380,7 +319,7 @@ export class MakerEngine {
         "stop",
         `🛑 触发止损，方向=${position.positionAmt > 0 ? "多" : "空"} 当前亏损=${pnl.toFixed(4)} USDT (限制=${this.config.lossLimit})`
       );
-      await this.executeClose(position, bidPrice, askPrice, "止损");
+      await this.executeClose(position, bidPrice, askPrice, "止损", leg);
     }
     // 止盈检查
     else if (triggerTakeProfit) {
@@ -388,7 +327,7 @@ export class MakerEngine {
         "profit",
         `💰 触发止盈，方向=${position.positionAmt > 0 ? "多" : "空"} 当前盈利=${pnl.toFixed(4)} USDT (目标=${this.config.profitTarget})`
       );
-      await this.executeClose(position, bidPrice, askPrice, "止盈");
+      await this.executeClose(position, bidPrice, askPrice, "止盈", leg);
     }
   }
 
@@ -396,33 +335,31 @@ export class MakerEngine {
     position: PositionSnapshot, 
     bidPrice: number, 
     askPrice: number, 
-    reason: string
+    reason: string,
+    leg?: HedgeLeg
   ): Promise<void> {
     const absPosition = Math.abs(position.positionAmt);
     const closeSideIsSell = position.positionAmt > 0;
     const closeSidePrice = closeSideIsSell ? bidPrice : askPrice;
     
     try {
-      // 先撤销所有挂单
-      await this.flushOrders();
+      // 先撤销所有挂单（对冲模式只撤本腿）
+      await this.flushOrders(leg);
       
       // 执行市价平仓
-      await marketClose(
-        this.exchange,
-        this.config.symbol,
-        this.openOrders,
-        this.locks,
-        this.timers,
-        this.pending,
-        position.positionAmt > 0 ? "SELL" : "BUY",
-        absPosition,
-        (type, detail) => this.tradeLog.push(type, detail),
-        {
+      await this.executor.execute({
+        side: position.positionAmt > 0 ? "SELL" : "BUY",
+        quantity: absPosition,
+        reduceOnly: true,
+        guard: {
           markPrice: position.markPrice,
           expectedPrice: Number(closeSidePrice) || null,
           maxPct: this.config.maxCloseSlippagePct,
-        }
-      );
+        },
+        qtyStep: 0.001,
+        priceTick: this.config.priceTick,
+        positionSide: leg,
+      });
     } catch (error) {
       if (isUnknownOrderError(error)) {
         this.tradeLog.push("order", `${reason}平仓时订单已不存在`);
@@ -432,9 +369,10 @@ export class MakerEngine {
     }
   }
 
-  private async flushOrders(): Promise<void> {
+  private async flushOrders(leg?: HedgeLeg): Promise<void> {
     if (!this.openOrders.length) return;
-    for (const order of this.openOrders) {
+    const targets = leg ? this.openOrders.filter((order) => order.positionSide === leg) : this.openOrders;
+    for (const order of targets) {
       if (this.pendingCancelOrders.has(order.orderId)) continue;
       this.pendingCancelOrders.add(order.orderId);
       await safeCancelOrder(
@@ -458,66 +396,18 @@ export class MakerEngine {
     }
   }
 
-  private emitUpdate(): void {
-    try {
-      const snapshot = this.buildSnapshot();
-      const handlers = this.listeners.get("update");
-      if (handlers) {
-        handlers.forEach((handler) => {
-          try {
-            handler(snapshot);
-          } catch (err) {
-            this.tradeLog.push("error", `更新回调处理异常: ${String(err)}`);
-          }
-        });
-      }
-    } catch (err) {
-      this.tradeLog.push("error", `快照或更新分发异常: ${String(err)}`);
-    }
-  }
-
-  private buildSnapshot(): MakerEngineSnapshot {
-    const position = getPosition(this.accountSnapshot, this.config.symbol);
+  protected buildSnapshot(): MakerEngineSnapshot {
     const { topBid, topAsk } = getTopPrices(this.depthSnapshot);
-    const spread = topBid != null && topAsk != null ? topAsk - topBid : null;
-    const pnl = computeMakerPnl(position, topBid ?? 0, topAsk ?? 0);
-
+    const base = this.buildBaseSnapshot();
     return {
-      ready: this.isReady(),
-      symbol: this.config.symbol,
-      topBid: topBid,
-      topAsk: topAsk,
-      spread,
-      position,
-      pnl,
+      ...base,
+      topBid,
+      topAsk,
+      spread: topBid != null && topAsk != null ? topAsk - topBid : null,
+      pnl: computeMakerPnl(base.position, topBid ?? 0, topAsk ?? 0),
       accountUnrealized: this.accountUnrealized,
-      sessionVolume: this.sessionQuoteVolume,
-      openOrders: this.openOrders,
       desiredOrders: this.desiredOrders,
-      tradeLog: this.tradeLog.all(),
-      lastUpdated: Date.now(),
+      inventoryQuote: this.inventoryQuote,
     };
   }
-
-  private updateSessionVolume(position: PositionSnapshot): void {
-    const price = this.getReferencePrice();
-    if (!this.initializedPosition) {
-      this.prevPositionAmt = position.positionAmt;
-      this.initializedPosition = true;
-      return;
-    }
-    if (price == null) {
-      this.prevPositionAmt = position.positionAmt;
-      return;
-    }
-    const delta = Math.abs(position.positionAmt - this.prevPositionAmt);
-    if (delta > 0) {
-      this.sessionQuoteVolume += delta * price;
-    }
-    this.prevPositionAmt = position.positionAmt;
-  }
-
-  private getReferencePrice(): number | null {
-    return getMidOrLast(this.depthSnapshot, this.tickerSnapshot);
-  }
 }
@@ -1,25 +1,18 @@
 import type { MakerConfig } from "../config";
 import type { ExchangeAdapter } from "../exchanges/adapter";
-import type {
-  AsterAccountSnapshot,
-  AsterDepth,
-  AsterOrder,
-  AsterTicker,
-} from "../exchanges/types";
+import type { AsterDepth } from "../exchanges/types";
 import { roundDownToTick } from "../utils/math";
-import { createTradeLog } from "../state/trade-log";
 import { isUnknownOrderError } from "../utils/errors";
 import { getPosition, type PositionSnapshot } from "../utils/strategy";
 import { computeDepthStats } from "../utils/depth";
 import { computePositionPnl } from "../utils/pnl";
-import { getTopPrices, getMidOrLast } from "../utils/price";
+import { getTopPrices } from "../utils/price";
 import { shouldStopLoss } from "../utils/risk";
 import {
-  marketClose,
   placeOrder,
   unlockOperating,
 } from "./order-coordinator";
-import type { OrderLockMap, OrderPendingMap, OrderTimerMap } from "./order-coordinator";
+import { BaseEngine } from "./base-engine";
 import type { MakerEngineSnapshot } from "./maker-engine";
 import { makeOrderPlan } from "./lib/order-plan";
 import { safeCancelOrder } from "./lib/orders";
@@ -39,247 +32,89 @@ export interface OffsetMakerEngineSnapshot extends MakerEngineSnapshot {
   skipSellSide: boolean;
 }
 
-type MakerEvent = "update";
-type MakerListener = (snapshot: OffsetMakerEngineSnapshot) => void;
-
 const EPS = 1e-5;
 
-export class OffsetMakerEngine {
-  private accountSnapshot: AsterAccountSnapshot | null = null;
-  private depthSnapshot: AsterDepth | null = null;
-  private tickerSnapshot: AsterTicker | null = null;
-  private openOrders: AsterOrder[] = [];
-
-  private readonly locks: OrderLockMap = {};
-  private readonly timers: OrderTimerMap = {};
-  private readonly pending: OrderPendingMap = {};
-  private readonly pendingCancelOrders = new Set<number>();
-
-  private readonly tradeLog: ReturnType<typeof createTradeLog>;
-  private readonly listeners = new Map<MakerEvent, Set<MakerListener>>();
-
-  private timer: ReturnType<typeof setInterval> | null = null;
-  private processing = false;
+export class OffsetMakerEngine extends BaseEngine<MakerConfig, OffsetMakerEngineSnapshot> {
   private desiredOrders: DesiredOrder[] = [];
-  private accountUnrealized = 0;
-  private sessionQuoteVolume = 0;
-  private prevPositionAmt = 0;
-  private initializedPosition = false;
-  private initialOrderSnapshotReady = false;
   private initialOrderResetDone = false;
   private entryPricePendingLogged = false;
-
   private lastBuyDepthSum10 = 0;
   private lastSellDepthSum10 = 0;
   private lastSkipBuy = false;
   private lastSkipSell = false;
   private lastImbalance: "balanced" | "buy_dominant" | "sell_dominant" = "balanced";
 
-  constructor(private readonly config: MakerConfig, private readonly exchange: ExchangeAdapter) {
-    this.tradeLog = createTradeLog(this.config.maxLogEntries);
-    this.bootstrap();
-  }
-
-  start(): void {
-    if (this.timer) return;
-    this.timer = setInterval(() => {
-      void this.tick();
-    }, this.config.refreshIntervalMs);
-  }
-
-  stop(): void {
-    if (this.timer) {
-      clearInterval(this.timer);
-      this.timer = null;
+  constructor(config: MakerConfig, exchange: ExchangeAdapter) {
+    // 偏移做市按净持仓挂单，只支持单向模式
+    super(config, exchange, {
+      strategyId: "offset",
+      intervalMs: config.refreshIntervalMs,
+      klineInterval: "1m",
+      loopLabel: "偏移做市循环",
+      hedgeMode: false,
+    });
+    if (this.config.hedgeMode) {
+      this.tradeLog.push("error", "偏移做市暂不支持对冲模式，请关闭 HEDGE_MODE 并将账户切换为单向持仓");
     }
+    this.initialize();
   }
 
-  on(event: MakerEvent, handler: MakerListener): void {
-    const handlers = this.listeners.get(event) ?? new Set<MakerListener>();
-    handlers.add(handler);
-    this.listeners.set(event, handlers);
-  }
-
-  off(event: MakerEvent, handler: MakerListener): void {
-    const handlers = this.listeners.get(event);
-    if (!handlers) return;
-    handlers.delete(handler);
-    if (handlers.size === 0) {
-      this.listeners.delete(event);
-    }
+  protected isReady(): boolean {
+    return Boolean(this.accountSnapshot && this.depthSnapshot);
   }
 
-  getSnapshot(): OffsetMakerEngineSnapshot {
-    return this.buildSnapshot();
+  protected override isWarmedUp(): boolean {
+    return !this.config.hedgeMode && super.isWarmedUp();
   }
 
-  private bootstrap(): void {
-    try {
-      this.exchange.watchAccount((snapshot) => {
-        try {
-          this.accountSnapshot = snapshot;
-          const totalUnrealized = Number(snapshot.totalUnrealizedProfit ?? "0");
-          if (Number.isFinite(totalUnrealized)) {
-            this.accountUnrealized = totalUnrealized;
-          }
-          const position = getPosition(snapshot, this.config.symbol);
-          this.updateSessionVolume(position);
-          this.emitUpdate();
-        } catch (err) {
-          this.tradeLog.push("error", `账户推送处理异常: ${String(err)}`);
-        }
-      });
-    } catch (err) {
-      this.tradeLog.push("error", `订阅账户失败: ${String(err)}`);
-    }
+  protected async decide(): Promise<void> {
+    if (!(await this.ensureStartupOrderReset())) return;
+    // 分片平仓执行期间暂停报价，避免新挂单与平仓子单互相成交
+    if (this.executor.isActive()) return;
 
-    try {
-      this.exchange.watchOrders((orders) => {
-        try {
-          this.syncLocksWithOrders(orders);
-          this.openOrders = Array.isArray(orders)
-            ? orders.filter((order) => order.type !== "MARKET" && order.symbol === this.config.symbol)
-            : [];
-          const currentIds = new Set(this.openOrders.map((order) => order.orderId));
-          for (const id of Array.from(this.pendingCancelOrders)) {
-            if (!currentIds.has(id)) {
-              this.pendingCancelOrders.delete(id);
-            }
-          }
-          this.initialOrderSnapshotReady = true;
-          this.emitUpdate();
-        } catch (err) {
-          this.tradeLog.push("error", `订单推送处理异常: ${String(err)}`);
-        }
-      });
-    } catch (err) {
-      this.tradeLog.push("error", `订阅订单失败: ${String(err)}`);
-    }
+    const depth = this.depthSnapshot!;
+    const { topBid, topAsk } = getTopPrices(depth);
+    if (topBid == null || topAsk == null) return;
 
-    try {
-      this.exchange.watchDepth(this.config.symbol, (depth) => {
-        try {
-          this.depthSnapshot = depth;
-          this.emitUpdate();
-        } catch (err) {
-          this.tradeLog.push("error", `深度推送处理异常: ${String(err)}`);
-        }
-      });
-    } catch (err) {
-      this.tradeLog.push("error", `订阅深度失败: ${String(err)}`);
-    }
-
-    try {
-      this.exchange.watchTicker(this.config.symbol, (ticker) => {
-        try {
-          this.tickerSnapshot = ticker;
-          this.emitUpdate();
-        } catch (err) {
-          this.tradeLog.push("error", `价格推送处理异常: ${String(err)}`);
-        }
-      });
-    } catch (err) {
-      this.tradeLog.push("error", `订阅Ticker失败: ${String(err)}`);
-    }
-
-    try {
-      this.exchange.watchKlines(this.config.symbol, "1m", () => {
-        try {
-          /* no-op */
-        } catch (err) {
-          this.tradeLog.push("error", `K线推送处理异常: ${String(err)}`);
-        }
-      });
-    } catch (err) {
-      this.tradeLog.push("error", `订阅K线失败: ${String(err)}`);
-    }
-  }
-
-  private syncLocksWithOrders(orders: AsterOrder[] | null | undefined): void {
-    const list = Array.isArray(orders) ? orders : [];
-    Object.keys(this.pending).forEach((type) => {
-      const pendingId = this.pending[type];
-      if (!pendingId) return;
-      const match = list.find((order) => String(order.orderId) === pendingId);
-      if (!match || (match.status && match.status !== "NEW" && match.status !== "PARTIALLY_FILLED")) {
-        unlockOperating(this.locks, this.timers, this.pending, type);
-      }
-    });
-  }
-
-  private isReady(): boolean {
-    return Boolean(this.accountSnapshot && this.depthSnapshot);
-  }
-
-  private async tick(): Promise<void> {
-    if (this.processing) return;
-    this.processing = true;
-    try {
-      if (!this.isReady()) {
-        this.emitUpdate();
-        return;
-      }
-      if (!(await this.ensureStartupOrderReset())) {
-        this.emitUpdate();
-        return;
-      }
+    const { buySum, sellSum, skipBuySide, skipSellSide, imbalance } = this.evaluateDepth(depth);
+    this.lastBuyDepthSum10 = buySum;
+    this.lastSellDepthSum10 = sellSum;
+    this.lastSkipBuy = skipBuySide;
+    this.lastSkipSell = skipSellSide;
+    this.lastImbalance = imbalance;
 
-      const depth = this.depthSnapshot!;
-      const { topBid, topAsk } = getTopPrices(depth);
-      if (topBid == null || topAsk == null) {
-        this.emitUpdate();
-        return;
-      }
+    const position = getPosition(this.accountSnapshot, this.config.symbol);
+    const handledImbalance = await this.handleImbalanceExit(position, buySum, sellSum);
+    if (handledImbalance) return;
 
-      const { buySum, sellSum, skipBuySide, skipSellSide, imbalance } = this.evaluateDepth(depth);
-      this.lastBuyDepthSum10 = buySum;
-      this.lastSellDepthSum10 = sellSum;
-      this.lastSkipBuy = skipBuySide;
-      this.lastSkipSell = skipSellSide;
-      this.lastImbalance = imbalance;
+    const bidPrice = roundDownToTick(topBid - this.config.bidOffset, this.config.priceTick);
+    const askPrice = roundDownToTick(topAsk + this.config.askOffset, this.config.priceTick);
+    const absPosition = Math.abs(position.positionAmt);
+    const desired: DesiredOrder[] = [];
 
-      const position = getPosition(this.accountSnapshot, this.config.symbol);
-      const handledImbalance = await this.handleImbalanceExit(position, buySum, sellSum);
-      if (handledImbalance) {
-        this.emitUpdate();
-        return;
+    if (absPosition < EPS) {
+      this.entryPricePendingLogged = false;
+      if (!skipBuySide && !this.isEntryBlocked("BUY")) {
+        desired.push({ side: "BUY", price: bidPrice, amount: this.config.tradeAmount, reduceOnly: false });
       }
-
-      const bidPrice = roundDownToTick(topBid! - this.config.bidOffset, this.config.priceTick);
-      const askPrice = roundDownToTick(topAsk! + this.config.askOffset, this.config.priceTick);
-      const absPosition = Math.abs(position.positionAmt);
-      const desired: DesiredOrder[] = [];
-
-      if (absPosition < EPS) {
-        this.entryPricePendingLogged = false;
-        if (!skipBuySide) {
-          desired.push({ side: "BUY", price: bidPrice, amount: this.config.tradeAmount, reduceOnly: false });
-        }
-        if (!skipSellSide) {
-          desired.push({ side: "SELL", price: askPrice, amount: this.config.tradeAmount, reduceOnly: false });
-        }
-      } else {
-        const closeSide: "BUY" | "SELL" = position.positionAmt > 0 ? "SELL" : "BUY";
-        const closePrice = closeSide === "SELL" ? askPrice : bidPrice;
-        desired.push({ side: closeSide, price: closePrice, amount: absPosition, reduceOnly: true });
+      if (!skipSellSide && !this.isEntryBlocked("SELL")) {
+        desired.push({ side: "SELL", price: askPrice, amount: this.config.tradeAmount, reduceOnly: false });
       }
-
-      this.desiredOrders = desired;
-      this.updateSessionVolume(position);
-      await this.syncOrders(desired);
-      await this.checkRisk(position, bidPrice, askPrice);
-      this.emitUpdate();
-    } catch (error) {
-      this.tradeLog.push("error", `偏移做市循环异常: ${String(error)}`);
-      this.emitUpdate();
-    } finally {
-      this.processing = false;
+    } else {
+      const closeSide: "BUY" | "SELL" = position.positionAmt > 0 ? "SELL" : "BUY";
+      const closePrice = closeSide === "SELL" ? askPrice : bidPrice;
+      desired.push({ side: closeSide, price: closePrice, amount: absPosition, reduceOnly: true });
     }
+
+    this.desiredOrders = desired;
+    this.updateSessionVolume(position);
+    await this.syncOrders(desired);
+    await this.checkRisk(position, bidPrice, askPrice);
   }
 
   private async ensureStartupOrderReset(): Promise<boolean> {
     if (this.initialOrderResetDone) return true;
-    if (!this.initialOrderSnapshotReady) return false;
+    if (!this.ordersSnapshotReady) return false;
     if (!this.openOrders.length) {
       this.initialOrderResetDone = true;
       return true;
@@ -340,22 +175,17 @@ export class OffsetMakerEngine {
     );
     try {
       await this.flushOrders();
-      await marketClose(
-        this.exchange,
-        this.config.symbol,
-        this.openOrders,
-        this.locks,
-        this.timers,
-        this.pending,
+      await this.executor.execute({
         side,
-        absPosition,
-        (type, detail) => this.tradeLog.push(type, detail),
-        {
+        quantity: absPosition,
+        reduceOnly: true,
+        guard: {
           markPrice: position.markPrice,
           expectedPrice: Number(closeSidePrice) || null,
           maxPct: this.config.maxCloseSlippagePct,
-        }
-      );
+        },
+        priceTick: this.config.priceTick,
+      });
     } catch (error) {
       if (isUnknownOrderError(error)) {
         this.tradeLog.push("order", "深度不平衡平仓时订单已不存在");
@@ -418,7 +248,8 @@ export class OffsetMakerEngine {
           {
             markPrice: getPosition(this.accountSnapshot, this.config.symbol).markPrice,
             maxPct: this.config.maxCloseSlippagePct,
-          }
+          },
+          { clientOrderIds: this.clientOrderIds }
         );
       } catch (error) {
         this.tradeLog.push("error", `挂单失败(${target.side} ${target.price}): ${String(error)}`);
@@ -450,22 +281,17 @@ export class OffsetMakerEngine {
       );
       try {
         await this.flushOrders();
-        await marketClose(
-          this.exchange,
-          this.config.symbol,
-          this.openOrders,
-          this.locks,
-          this.timers,
-          this.pending,
-          position.positionAmt > 0 ? "SELL" : "BUY",
-          absPosition,
-          (type, detail) => this.tradeLog.push(type, detail),
-          {
+        await this.executor.execute({
+          side: position.positionAmt > 0 ? "SELL" : "BUY",
+          quantity: absPosition,
+          reduceOnly: true,
+          guard: {
             markPrice: position.markPrice,
             expectedPrice: Number(position.positionAmt > 0 ? bidPrice : askPrice) || null,
             maxPct: this.config.maxCloseSlippagePct,
-          }
-        );
+          },
+          priceTick: this.config.priceTick,
+        });
       } catch (error) {
         if (isUnknownOrderError(error)) {
           this.tradeLog.push("order", "止损平仓时订单已不存在");
@@ -503,44 +329,19 @@ export class OffsetMakerEngine {
     }
   }
 
-  private emitUpdate(): void {
-    try {
-      const snapshot = this.buildSnapshot();
-      const handlers = this.listeners.get("update");
-      if (handlers) {
-        handlers.forEach((handler) => {
-          try {
-            handler(snapshot);
-          } catch (err) {
-            this.tradeLog.push("error", `更新回调处理异常: ${String(err)}`);
-          }
-        });
-      }
-    } catch (err) {
-      this.tradeLog.push("error", `快照或更新分发异常: ${String(err)}`);
-    }
-  }
-
-  private buildSnapshot(): OffsetMakerEngineSnapshot {
-    const position = getPosition(this.accountSnapshot, this.config.symbol);
+  protected buildSnapshot(): OffsetMakerEngineSnapshot {
     const { topBid, topAsk } = getTopPrices(this.depthSnapshot);
-    const spread = topBid != null && topAsk != null ? topAsk - topBid : null;
-    const pnl = computePositionPnl(position, topBid, topAsk);
-
+    const base = this.buildBaseSnapshot();
     return {
-      ready: this.isReady(),
-      symbol: this.config.symbol,
-      topBid: topBid,
-      topAsk: topAsk,
-      spread,
-      position,
-      pnl,
+      ...base,
+      topBid,
+      topAsk,
+      spread: topBid != null && topAsk != null ? topAsk - topBid : null,
+      pnl: computePositionPnl(base.position, topBid, topAsk),
       accountUnrealized: this.accountUnrealized,
-      sessionVolume: this.sessionQuoteVolume,
-      openOrders: this.openOrders,
       desiredOrders: this.desiredOrders,
-      tradeLog: this.tradeLog.all(),
-      lastUpdated: Date.now(),
+      // 偏移做市按深度不平衡报价，不使用库存偏移报价
+      inventoryQuote: null,
       buyDepthSum10: this.lastBuyDepthSum10,
       sellDepthSum10: this.lastSellDepthSum10,
       depthImbalance: this.lastImbalance,
@@ -548,26 +349,4 @@ export class OffsetMakerEngine {
       skipSellSide: this.lastSkipSell,
     };
   }
-
-  private updateSessionVolume(position: PositionSnapshot): void {
-    const price = this.getReferencePrice();
-    if (!this.initializedPosition) {
-      this.prevPositionAmt = position.positionAmt;
-      this.initializedPosition = true;
-      return;
-    }
-    if (price == null) {
-      this.prevPositionAmt = position.positionAmt;
-      return;
-    }
-    const delta = Math.abs(position.positionAmt - this.prevPositionAmt);
-    if (delta > 0) {
-      this.sessionQuoteVolume += delta * price;
-    }
-    this.prevPositionAmt = position.positionAmt;
-  }
-
-  private getReferencePrice(): number | null {
-    return getMidOrLast(this.depthSnapshot, this.tickerSnapshot);
-  }
 }
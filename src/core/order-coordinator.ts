@@ -1,15 +1,23 @@
 import type { ExchangeAdapter } from "../exchanges/adapter";
-import type { AsterOrder, CreateOrderParams } from "../exchanges/types";
-import { roundDownToTick, roundQtyDownToStep } from "../utils/math";
-import { isUnknownOrderError } from "../utils/errors";
+import type { AsterOrder, AsterSymbolFilters, CreateOrderParams, PositionSide } from "../exchanges/types";
+import { roundDownToTick, roundQtyDownToStep, roundUpToTick } from "../utils/math";
+import {
+  extractErrorCode,
+  extractMessage,
+  isOrderNotFoundError,
+  isOrderOutcomeUnknownError,
+  isUnknownOrderError,
+} from "../utils/errors";
 import { isOrderPriceAllowedByMark } from "../utils/strategy";
+import { applySymbolFilters } from "../utils/symbol-filters";
+import type { ClientOrderIdFactory, OrderIntent } from "./lib/client-order-id";
 
 export type OrderLockMap = Record<string, boolean>;
 export type OrderTimerMap = Record<string, ReturnType<typeof setTimeout> | null>;
 export type OrderPendingMap = Record<string, string | null>;
 export type LogHandler = (type: string, detail: string) => void;
 
-type OrderGuardOptions = {
+export type OrderGuardOptions = {
   markPrice?: number | null;
   expectedPrice?: number | null;
   maxPct?: number;
@@ -41,6 +49,136 @@ function enforceMarkPriceGuard(
   return true;
 }
 
+// 交易规则按适配器与交易对缓存，获取失败（null）不缓存，下次下单时重试
+const symbolFilterCache = new WeakMap<ExchangeAdapter, Map<string, AsterSymbolFilters>>();
+
+async function resolveSymbolFilters(adapter: ExchangeAdapter, symbol: string): Promise<AsterSymbolFilters | null> {
+  if (!adapter.getSymbolFilters) return null;
+  const key = symbol.toUpperCase();
+  const cache = symbolFilterCache.get(adapter) ?? new Map<string, AsterSymbolFilters>();
+  symbolFilterCache.set(adapter, cache);
+  const cached = cache.get(key);
+  if (cached) return cached;
+  try {
+    const filters = await adapter.getSymbolFilters(key);
+    if (filters) cache.set(key, filters);
+    return filters;
+  } catch {
+    return null;
+  }
+}
+
+/** 交易所规则不可用时的配置精度，价格默认向下取整 */
+type FallbackPrecision = {
+  priceTick?: number;
+  qtyStep?: number;
+  roundPriceUp?: boolean;
+};
+
+function roundPrice(value: number, tick: number, up: boolean | undefined): number {
+  return up ? roundUpToTick(value, tick) : roundDownToTick(value, tick);
+}
+
+/**
+ * 按交易所规则取整并校验订单；只有拿不到交易规则时才按配置的 PRICE_TICK / QTY_STEP 取整，
+ * 避免配置精度比交易所粗时价格与数量被过度取整。校验失败返回 null
+ */
+async function prepareOrderParams(
+  adapter: ExchangeAdapter,
+  params: CreateOrderParams,
+  referencePrice: number | null | undefined,
+  log: LogHandler,
+  context: string,
+  precision: FallbackPrecision = {}
+): Promise<CreateOrderParams | null> {
+  const filters = await resolveSymbolFilters(adapter, params.symbol);
+  if (!filters) {
+    const priceTick = precision.priceTick ?? 0.1;
+    const rounded: CreateOrderParams = { ...params };
+    if (rounded.price != null) rounded.price = roundPrice(rounded.price, priceTick, precision.roundPriceUp);
+    if (rounded.stopPrice != null) rounded.stopPrice = roundDownToTick(rounded.stopPrice, priceTick);
+    if (rounded.activationPrice != null) rounded.activationPrice = roundDownToTick(rounded.activationPrice, priceTick);
+    if (rounded.quantity != null) rounded.quantity = roundQtyDownToStep(rounded.quantity, precision.qtyStep ?? 0.001);
+    return rounded;
+  }
+  // 交易规则统一向下取整，需要向上取整的价格先按交易所精度取整
+  const draft: CreateOrderParams =
+    precision.roundPriceUp && params.price != null ? { ...params, price: roundUpToTick(params.price, filters.priceTick) } : params;
+  const result = applySymbolFilters(draft, filters, referencePrice);
+  if (!result.ok) {
+    log("error", `${context}未通过交易规则校验(${result.violation.filter})：${result.violation.reason}`);
+    return null;
+  }
+  return result.params;
+}
+
+/**
+ * 对冲模式下锁按持仓方向区分，避免多空两腿的同类订单互相阻塞
+ */
+export function orderLockKey(type: string, positionSide?: PositionSide): string {
+  return positionSide && positionSide !== "BOTH" ? `${type}_${positionSide}` : type;
+}
+
+// 对冲模式订单必须带 positionSide，且交易所不接受 reduceOnly 参数（平仓方向本身即只减仓）
+function applyPositionSide(draft: CreateOrderParams, positionSide: PositionSide | undefined): CreateOrderParams {
+  if (!positionSide || positionSide === "BOTH") return draft;
+  const { reduceOnly: _reduceOnly, ...rest } = draft;
+  return { ...rest, positionSide };
+}
+
+const MAX_SUBMIT_ATTEMPTS = 3;
+const SUBMIT_RETRY_DELAY_MS = 300;
+const DUPLICATE_CLIENT_ORDER_ID_CODE = -4116;
+
+function withClientOrderId(
+  params: CreateOrderParams,
+  factory: ClientOrderIdFactory | undefined,
+  intent: OrderIntent
+): CreateOrderParams {
+  return factory ? { ...params, newClientOrderId: factory.next(intent) } : params;
+}
+
+async function findSubmittedOrder(adapter: ExchangeAdapter, symbol: string, clientOrderId: string): Promise<AsterOrder | null> {
+  try {
+    return await adapter.queryOrder!({ symbol, origClientOrderId: clientOrderId });
+  } catch (err) {
+    if (isOrderNotFoundError(err)) return null;
+    throw err;
+  }
+}
+
+/**
+ * 提交订单。带自定义订单号时，超时等结果未知的失败先按订单号查询，确认未生效才用同一订单号重发，
+ * 查询失败则放弃重发，宁可漏单也不重复开仓
+ */
+async function submitOrder(
+  adapter: ExchangeAdapter,
+  params: CreateOrderParams,
+  log: LogHandler,
+  context: string,
+  onRetry: () => void
+): Promise<AsterOrder> {
+  const clientOrderId = params.newClientOrderId;
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      return await adapter.createOrder(params);
+    } catch (err) {
+      const duplicated = extractErrorCode(err) === DUPLICATE_CLIENT_ORDER_ID_CODE;
+      if (!clientOrderId || !adapter.queryOrder || !(duplicated || isOrderOutcomeUnknownError(err))) throw err;
+      log("error", `${context}提交结果未知(${clientOrderId}): ${extractMessage(err)}，查询订单状态`);
+      onRetry();
+      await new Promise((resolve) => setTimeout(resolve, SUBMIT_RETRY_DELAY_MS));
+      const existing = await findSubmittedOrder(adapter, params.symbol, clientOrderId);
+      if (existing) {
+        log("order", `${context}已在交易所生效(${clientOrderId})，不再重复提交`);
+        return existing;
+      }
+      if (duplicated || attempt >= MAX_SUBMIT_ATTEMPTS) throw err;
+      log("order", `${context}未生效，第 ${attempt + 1} 次提交(${clientOrderId})`);
+    }
+  }
+}
+
 export function isOperating(locks: OrderLockMap, type: string): boolean {
   return Boolean(locks[type]);
 }
@@ -87,9 +225,13 @@ export async function deduplicateOrders(
   pendings: OrderPendingMap,
   type: string,
   side: string,
-  log: LogHandler
+  log: LogHandler,
+  positionSide?: PositionSide
 ): Promise<void> {
-  const sameTypeOrders = openOrders.filter((o) => o.type === type && o.side === side);
+  const lockKey = orderLockKey(type, positionSide);
+  const sameTypeOrders = openOrders.filter(
+    (o) => o.type === type && o.side === side && (lockKey === type || o.positionSide === positionSide)
+  );
   if (sameTypeOrders.length <= 1) return;
   sameTypeOrders.sort((a, b) => {
     const ta = b.updateTime || b.time || 0;
@@ -100,7 +242,7 @@ export async function deduplicateOrders(
   const orderIdList = toCancel.map((o) => o.orderId);
   if (!orderIdList.length) return;
   try {
-    lockOperating(locks, timers, pendings, type, log);
+    lockOperating(locks, timers, pendings, lockKey, log);
     await adapter.cancelOrders({ symbol, orderIdList });
     log("order", `去重撤销重复 ${type} 单: ${orderIdList.join(",")}`);
   } catch (err) {
@@ -110,7 +252,7 @@ export async function deduplicateOrders(
       log("error", `去重撤单失败: ${String(err)}`);
     }
   } finally {
-    unlockOperating(locks, timers, pendings, type);
+    unlockOperating(locks, timers, pendings, lockKey);
   }
 }
 
@@ -127,33 +269,54 @@ export async function placeOrder(
   log: LogHandler,
   reduceOnly = false,
   guard?: OrderGuardOptions,
-  opts?: { priceTick: number; qtyStep: number }
+  opts?: {
+    priceTick?: number;
+    qtyStep?: number;
+    positionSide?: PositionSide;
+    clientOrderIds?: ClientOrderIdFactory;
+    // 调用方预先生成的订单号，便于在下单回报前就能匹配成交推送
+    clientOrderId?: string;
+    // 自定义下单锁（如网格按档位加锁），同方向允许多张限价单，因此不做去重
+    lockKey?: string;
+  }
 ): Promise<AsterOrder | undefined> {
   const type = "LIMIT";
-  if (isOperating(locks, type)) return;
+  const lockKey = opts?.lockKey ?? orderLockKey(type, opts?.positionSide);
+  if (isOperating(locks, lockKey)) return;
   if (!enforceMarkPriceGuard(side, price, guard, log, "限价单")) return;
-  const priceTick = opts?.priceTick ?? 0.1;
-  const qtyStep = opts?.qtyStep ?? 0.001;
-  const params: CreateOrderParams = {
+  const draft: CreateOrderParams = {
     symbol,
     side,
     type,
-    quantity: roundQtyDownToStep(amount, qtyStep),
-    price: roundDownToTick(price, priceTick),
+    quantity: amount,
+    price,
     timeInForce: "GTX",
   };
-  if (reduceOnly) params.reduceOnly = "true";
-  
-  await deduplicateOrders(adapter, symbol, openOrders, locks, timers, pendings, type, side, log);
-  lockOperating(locks, timers, pendings, type, log);
+  if (reduceOnly) draft.reduceOnly = "true";
+  const params = await prepareOrderParams(adapter, applyPositionSide(draft, opts?.positionSide), guard?.markPrice, log, "限价单", {
+    priceTick: opts?.priceTick,
+    qtyStep: opts?.qtyStep,
+  });
+  if (!params) return;
+
+  if (!opts?.lockKey) {
+    await deduplicateOrders(adapter, symbol, openOrders, locks, timers, pendings, type, side, log, opts?.positionSide);
+  }
+  lockOperating(locks, timers, pendings, lockKey, log);
   
   try {
-    const order = await adapter.createOrder(params);
-    pendings[type] = String(order.orderId);
+    const order = await submitOrder(
+      adapter,
+      opts?.clientOrderId ? { ...params, newClientOrderId: opts.clientOrderId } : withClientOrderId(params, opts?.clientOrderIds, "lmt"),
+      log,
+      "限价单",
+      () => lockOperating(locks, timers, pendings, lockKey, log)
+    );
+    pendings[lockKey] = String(order.orderId);
     log("order", `挂限价单: ${side} @ ${params.price} 数量 ${params.quantity} reduceOnly=${reduceOnly}`);
     return order;
   } catch (err) {
-    unlockOperating(locks, timers, pendings, type);
+    unlockOperating(locks, timers, pendings, lockKey);
     if (isUnknownOrderError(err)) {
       log("order", "订单已成交或被撤销，跳过新单");
       return undefined;
@@ -162,6 +325,53 @@ export async function placeOrder(
   }
 }
 
+/**
+ * 执行算法的子单：按交易规则取整后以限价 IOC/GTX 提交。
+ * 不加锁也不去重，锁由执行器在整个执行期间持有；订单号由执行器预先生成，便于匹配同步推送的成交
+ */
+export async function submitChildOrder(
+  adapter: ExchangeAdapter,
+  symbol: string,
+  side: "BUY" | "SELL",
+  price: number,
+  quantity: number,
+  log: LogHandler,
+  opts: {
+    timeInForce: "IOC" | "GTX";
+    reduceOnly: boolean;
+    clientOrderId: string;
+    priceTick?: number;
+    qtyStep?: number;
+    positionSide?: PositionSide;
+  }
+): Promise<AsterOrder | undefined> {
+  const draft: CreateOrderParams = {
+    symbol,
+    side,
+    type: "LIMIT",
+    quantity,
+    price,
+    timeInForce: opts.timeInForce,
+  };
+  if (opts.reduceOnly) draft.reduceOnly = "true";
+  const params = await prepareOrderParams(adapter, applyPositionSide(draft, opts.positionSide), price, log, "算法子单", {
+    priceTick: opts.priceTick,
+    qtyStep: opts.qtyStep,
+    // 买单向下、卖单向上取整，保证子单不越过执行器给出的限价
+    roundPriceUp: side === "SELL",
+  });
+  if (!params || !(Number(params.quantity) > 0)) return undefined;
+  try {
+    return await submitOrder(adapter, { ...params, newClientOrderId: opts.clientOrderId }, log, "算法子单", () => {});
+  } catch (err) {
+    if (isUnknownOrderError(err)) {
+      log("order", "算法子单已成交或被撤销，跳过");
+      return undefined;
+    }
+    throw err;
+  }
+}
+
 export async function placeMarketOrder(
   adapter: ExchangeAdapter,
   symbol: string,
@@ -174,28 +384,43 @@ export async function placeMarketOrder(
   log: LogHandler,
   reduceOnly = false,
   guard?: OrderGuardOptions,
-  opts?: { qtyStep: number }
+  opts?: { qtyStep?: number; positionSide?: PositionSide; clientOrderIds?: ClientOrderIdFactory }
 ): Promise<AsterOrder | undefined> {
   const type = "MARKET";
-  if (isOperating(locks, type)) return;
+  const lockKey = orderLockKey(type, opts?.positionSide);
+  if (isOperating(locks, lockKey)) return;
   if (!enforceMarkPriceGuard(side, guard?.expectedPrice ?? null, guard, log, "市价单")) return;
-  const qtyStep = opts?.qtyStep ?? 0.001;
-  const params: CreateOrderParams = {
+  const draft: CreateOrderParams = {
     symbol,
     side,
     type,
-    quantity: roundQtyDownToStep(amount, qtyStep),
+    quantity: amount,
   };
-  if (reduceOnly) params.reduceOnly = "true";
-  await deduplicateOrders(adapter, symbol, openOrders, locks, timers, pendings, type, side, log);
-  lockOperating(locks, timers, pendings, type, log);
+  if (reduceOnly) draft.reduceOnly = "true";
+  const params = await prepareOrderParams(
+    adapter,
+    applyPositionSide(draft, opts?.positionSide),
+    guard?.expectedPrice ?? guard?.markPrice,
+    log,
+    "市价单",
+    { qtyStep: opts?.qtyStep }
+  );
+  if (!params) return;
+  await deduplicateOrders(adapter, symbol, openOrders, locks, timers, pendings, type, side, log, opts?.positionSide);
+  lockOperating(locks, timers, pendings, lockKey, log);
   try {
-    const order = await adapter.createOrder(params);
-    pendings[type] = String(order.orderId);
+    const order = await submitOrder(
+      adapter,
+      withClientOrderId(params, opts?.clientOrderIds, "mkt"),
+      log,
+      "市价单",
+      () => lockOperating(locks, timers, pendings, lockKey, log)
+    );
+    pendings[lockKey] = String(order.orderId);
     log("order", `市价单: ${side} 数量 ${params.quantity} reduceOnly=${reduceOnly}`);
     return order;
   } catch (err) {
-    unlockOperating(locks, timers, pendings, type);
+    unlockOperating(locks, timers, pendings, lockKey);
     if (isUnknownOrderError(err)) {
       log("order", "市价单失败但订单已不存在，忽略");
       return undefined;
@@ -217,10 +442,11 @@ export async function placeStopLossOrder(
   lastPrice: number | null,
   log: LogHandler,
   guard?: OrderGuardOptions,
-  opts?: { priceTick: number; qtyStep: number }
+  opts?: { priceTick?: number; qtyStep?: number; positionSide?: PositionSide; clientOrderIds?: ClientOrderIdFactory }
 ): Promise<AsterOrder | undefined> {
   const type = "STOP_MARKET";
-  if (isOperating(locks, type)) return;
+  const lockKey = orderLockKey(type, opts?.positionSide);
+  if (isOperating(locks, lockKey)) return;
   if (!enforceMarkPriceGuard(side, stopPrice, guard, log, "止损单")) return;
   if (lastPrice != null) {
     if (side === "SELL" && stopPrice >= lastPrice) {
@@ -232,26 +458,41 @@ export async function placeStopLossOrder(
       return;
     }
   }
-  const priceTick = opts?.priceTick ?? 0.1;
-  const qtyStep = opts?.qtyStep ?? 0.001;
-  const params: CreateOrderParams = {
-    symbol,
-    side,
-    type,
-    stopPrice: roundDownToTick(stopPrice, priceTick),
-    closePosition: "true",
-    timeInForce: "GTC",
-    quantity: roundQtyDownToStep(quantity, qtyStep),
-  };
-  await deduplicateOrders(adapter, symbol, openOrders, locks, timers, pendings, type, side, log);
-  lockOperating(locks, timers, pendings, type, log);
+  const params = await prepareOrderParams(
+    adapter,
+    applyPositionSide(
+      {
+        symbol,
+        side,
+        type,
+        stopPrice,
+        closePosition: "true",
+        timeInForce: "GTC",
+        quantity,
+      },
+      opts?.positionSide
+    ),
+    lastPrice ?? guard?.markPrice,
+    log,
+    "止损单",
+    { priceTick: opts?.priceTick, qtyStep: opts?.qtyStep }
+  );
+  if (!params) return;
+  await deduplicateOrders(adapter, symbol, openOrders, locks, timers, pendings, type, side, log, opts?.positionSide);
+  lockOperating(locks, timers, pendings, lockKey, log);
   try {
-    const order = await adapter.createOrder(params);
-    pendings[type] = String(order.orderId);
+    const order = await submitOrder(
+      adapter,
+      withClientOrderId(params, opts?.clientOrderIds, "sl"),
+      log,
+      "止损单",
+      () => lockOperating(locks, timers, pendings, lockKey, log)
+    );
+    pendings[lockKey] = String(order.orderId);
     log("stop", `挂止损单: ${side} STOP_MARKET @ ${params.stopPrice}`);
     return order;
   } catch (err) {
-    unlockOperating(locks, timers, pendings, type);
+    unlockOperating(locks, timers, pendings, lockKey);
     if (isUnknownOrderError(err)) {
       log("order", "止损单已失效，跳过");
       return undefined;
@@ -273,35 +514,51 @@ export async function placeTrailingStopOrder(
   callbackRate: number,
   log: LogHandler,
   guard?: OrderGuardOptions,
-  opts?: { priceTick: number; qtyStep: number }
+  opts?: { priceTick?: number; qtyStep?: number; positionSide?: PositionSide; clientOrderIds?: ClientOrderIdFactory }
 ): Promise<AsterOrder | undefined> {
   const type = "TRAILING_STOP_MARKET";
-  if (isOperating(locks, type)) return;
+  const lockKey = orderLockKey(type, opts?.positionSide);
+  if (isOperating(locks, lockKey)) return;
   if (!enforceMarkPriceGuard(side, activationPrice, guard, log, "动态止盈单")) return;
-  const priceTick = opts?.priceTick ?? 0.1;
-  const qtyStep = opts?.qtyStep ?? 0.001;
-  const params: CreateOrderParams = {
-    symbol,
-    side,
-    type,
-    quantity: roundQtyDownToStep(quantity, qtyStep),
-    reduceOnly: "true",
-    activationPrice: roundDownToTick(activationPrice, priceTick),
-    callbackRate,
-    timeInForce: "GTC",
-  };
-  await deduplicateOrders(adapter, symbol, openOrders, locks, timers, pendings, type, side, log);
-  lockOperating(locks, timers, pendings, type, log);
+  const params = await prepareOrderParams(
+    adapter,
+    applyPositionSide(
+      {
+        symbol,
+        side,
+        type,
+        quantity,
+        reduceOnly: "true",
+        activationPrice,
+        callbackRate,
+        timeInForce: "GTC",
+      },
+      opts?.positionSide
+    ),
+    guard?.markPrice,
+    log,
+    "动态止盈单",
+    { priceTick: opts?.priceTick, qtyStep: opts?.qtyStep }
+  );
+  if (!params) return;
+  await deduplicateOrders(adapter, symbol, openOrders, locks, timers, pendings, type, side, log, opts?.positionSide);
+  lockOperating(locks, timers, pendings, lockKey, log);
   try {
-    const order = await adapter.createOrder(params);
-    pendings[type] = String(order.orderId);
+    const order = await submitOrder(
+      adapter,
+      withClientOrderId(params, opts?.clientOrderIds, "tp"),
+      log,
+      "动态止盈单",
+      () => lockOperating(locks, timers, pendings, lockKey, log)
+    );
+    pendings[lockKey] = String(order.orderId);
     log(
       "order",
       `挂动态止盈单: ${side} activation=${params.activationPrice} callbackRate=${callbackRate}`
     );
     return order;
   } catch (err) {
-    unlockOperating(locks, timers, pendings, type);
+    unlockOperating(locks, timers, pendings, lockKey);
     if (isUnknownOrderError(err)) {
       log("order", "动态止盈单已失效，跳过");
       return undefined;
@@ -321,30 +578,48 @@ export async function marketClose(
   quantity: number,
   log: LogHandler,
   guard?: OrderGuardOptions,
-  opts?: { qtyStep: number }
-): Promise<void> {
+  opts?: { qtyStep?: number; positionSide?: PositionSide; clientOrderIds?: ClientOrderIdFactory }
+): Promise<AsterOrder | undefined> {
   const type = "MARKET";
-  if (isOperating(locks, type)) return;
+  const lockKey = orderLockKey(type, opts?.positionSide);
+  if (isOperating(locks, lockKey)) return;
   if (!enforceMarkPriceGuard(side, guard?.expectedPrice ?? null, guard, log, "市价平仓")) return;
-  const qtyStep = opts?.qtyStep ?? 0.001;
-  const params: CreateOrderParams = {
-    symbol,
-    side,
-    type,
-    quantity: roundQtyDownToStep(quantity, qtyStep),
-    reduceOnly: "true",
-  };
-  await deduplicateOrders(adapter, symbol, openOrders, locks, timers, pendings, type, side, log);
-  lockOperating(locks, timers, pendings, type, log);
+  const params = await prepareOrderParams(
+    adapter,
+    applyPositionSide(
+      {
+        symbol,
+        side,
+        type,
+        quantity,
+        reduceOnly: "true",
+      },
+      opts?.positionSide
+    ),
+    guard?.expectedPrice ?? guard?.markPrice,
+    log,
+    "市价平仓",
+    { qtyStep: opts?.qtyStep }
+  );
+  if (!params) return;
+  await deduplicateOrders(adapter, symbol, openOrders, locks, timers, pendings, type, side, log, opts?.positionSide);
+  lockOperating(locks, timers, pendings, lockKey, log);
   try {
-    const order = await adapter.createOrder(params);
-    pendings[type] = String(order.orderId);
+    const order = await submitOrder(
+      adapter,
+      withClientOrderId(params, opts?.clientOrderIds, "cls"),
+      log,
+      "市价平仓",
+      () => lockOperating(locks, timers, pendings, lockKey, log)
+    );
+    pendings[lockKey] = String(order.orderId);
     log("close", `市价平仓: ${side}`);
+    return order;
   } catch (err) {
-    unlockOperating(locks, timers, pendings, type);
+    unlockOperating(locks, timers, pendings, lockKey);
     if (isUnknownOrderError(err)) {
       log("order", "市场平仓时订单已不存在");
-      return;
+      return undefined;
     }
     throw err;
   }
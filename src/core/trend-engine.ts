@@ -2,55 +2,47 @@ import type { TradingConfig } from "../config";
 import type { ExchangeAdapter } from "../exchanges/adapter";
 import type {
   AsterAccountSnapshot,
+  AsterFill,
   AsterOrder,
   AsterTicker,
   AsterDepth,
-  AsterKline,
 } from "../exchanges/types";
 import {
   calcStopLossPrice,
   calcTrailingActivationPrice,
   getPosition,
+  getPositionLeg,
   getSMA,
   shouldStopLossByPercentage,
   shouldTakeProfitByPercentage,
   type PositionSnapshot,
 } from "../utils/strategy";
 import { computePositionPnl } from "../utils/pnl";
-import { getMidOrLast } from "../utils/price";
 import {
-  marketClose,
-  placeMarketOrder,
   placeStopLossOrder,
   placeTrailingStopOrder,
-  unlockOperating,
 } from "./order-coordinator";
-import type { OrderLockMap, OrderPendingMap, OrderTimerMap } from "./order-coordinator";
-import { isUnknownOrderError } from "../utils/errors";
+import { BaseEngine, type BaseEngineSnapshot } from "./base-engine";
+import type { ExecutionOutcome } from "./lib/execution";
+import { extractMessage, isUnknownOrderError } from "../utils/errors";
 import { roundDownToTick } from "../utils/math";
-import { createTradeLog, type TradeLogEntry } from "../state/trade-log";
+import type { IncomeLedger, LedgerReconciliation, LedgerSnapshot } from "../state/ledger";
 import { FeeMonitor, type FeeStats } from "../utils/fee-monitor";
+import { ClosedTradeTracker, describeFill } from "../utils/fills";
 import { logger } from "../utils/logger";
 import { DynamicRiskManager, createDefaultDynamicRiskConfig, type DynamicRiskParams } from "../utils/dynamic-risk";
-import { GreedyTakeProfitManager, type GreedyProfitConfig } from "../utils/greedy-take-profit";
+import { GreedyTakeProfitManager, loadGreedyProfitConfig, type GreedyProfitConfig } from "../utils/greedy-take-profit";
 
-export interface TrendEngineSnapshot {
-  ready: boolean;
-  symbol: string;
+export interface TrendEngineSnapshot extends BaseEngineSnapshot {
   lastPrice: number | null;
   sma30: number | null;
   trend: "做多" | "做空" | "无信号";
-  position: PositionSnapshot;
   pnl: number;
   unrealized: number;
   totalProfit: number;
   totalTrades: number;
-  sessionVolume: number;
-  tradeLog: TradeLogEntry[];
-  openOrders: AsterOrder[];
   depth: AsterDepth | null;
   ticker: AsterTicker | null;
-  lastUpdated: number | null;
   lastOpenSignal: OpenOrderPlan;
   feeStats: FeeStats;  // 手续费统计
   // 当前实际使用的风险参数（动态或静态）
@@ -70,35 +62,31 @@ export interface TrendEngineSnapshot {
     extraProfitTarget?: number;
     bestPrice?: number;
   };
+  // 交易所资金流水账本的今日/本周汇总与对账结果，未接入账本时为 null
+  ledger: LedgerSnapshot | null;
 }
 
+const LEDGER_SYNC_INTERVAL_MS = 5 * 60_000;
+
+type HedgeLeg = "LONG" | "SHORT";
+
 export interface OpenOrderPlan {
   side: "BUY" | "SELL" | null;
   price: number | null;
 }
 
-type TrendEngineEvent = "update";
-
-type TrendEngineListener = (snapshot: TrendEngineSnapshot) => void;
-
-export class TrendEngine {
-  private accountSnapshot: AsterAccountSnapshot | null = null;
-  private openOrders: AsterOrder[] = [];
-  private depthSnapshot: AsterDepth | null = null;
-  private tickerSnapshot: AsterTicker | null = null;
-  private klineSnapshot: AsterKline[] = [];
-
-  private readonly locks: OrderLockMap = {};
-  private readonly timers: OrderTimerMap = {};
-  private readonly pending: OrderPendingMap = {};
-
-  private readonly tradeLog: ReturnType<typeof createTradeLog>;
+export class TrendEngine extends BaseEngine<TradingConfig, TrendEngineSnapshot> {
   private readonly feeMonitor: FeeMonitor;
   private readonly dynamicRiskManager: DynamicRiskManager | null = null;
   private readonly greedyTakeProfitManager!: GreedyTakeProfitManager;
-
-  private timer: ReturnType<typeof setInterval> | null = null;
-  private processing = false;
+  // 对冲模式下每条腿独立的贪婪止盈状态
+  private readonly legGreedyManagers = new Map<HedgeLeg, GreedyTakeProfitManager>();
+  private greedyConfig!: GreedyProfitConfig;
+
+  private ledger: IncomeLedger | null = null;
+  private ledgerTimer: ReturnType<typeof setInterval> | null = null;
+  private ledgerReconciliation: LedgerReconciliation | null = null;
+  private readonly sessionStartedAt = Date.now();
   private lastPrice: number | null = null;
   private lastSma30: number | null = null;
   private lastRiskUpdatePrice: number | null = null;  // 最后更新风险参数时的价格
@@ -128,36 +116,36 @@ export class TrendEngine {
         ? currentPrice - this.lastPositionEntryPrice 
         : this.lastPositionEntryPrice - currentPrice) * Math.abs(this.lastPositionAmount);
       
-      // 更新统计数据
-      this.totalTrades += 1;
-      this.totalProfit += pnl;
-      
-      // 记录手动平仓的手续费
-      const closeSide = direction === "long" ? "SELL" : "BUY";
-      this.feeMonitor.recordTrade({
-        symbol: this.config.symbol,
-        side: closeSide,
-        quantity: Math.abs(this.lastPositionAmount),
-        price: currentPrice,
-        orderId: `manual_close_${Date.now()}`
-      });
-      
-      // 计算并记录手续费信息
-      const tradeValue = Math.abs(this.lastPositionAmount) * currentPrice;
-      const feeAmount = tradeValue * this.config.feeRate;
-      const feeSummary = this.feeMonitor.getFeeSummary();
-      this.tradeLog.push("info", `💰 手动平仓手续费: $${feeAmount.toFixed(6)} USDT (日累计: $${feeSummary.dailyFee.toFixed(6)} USDT)`);
-      
-      // 记录到日志文件
-      logger.writeTrade(`手动平仓: ${direction === "long" ? "多头" : "空头"} ${Math.abs(this.lastPositionAmount)} @ $${currentPrice.toFixed(4)}, 手续费: $${feeAmount.toFixed(6)}`);
-      logger.writeTrade(`平仓${pnl > 0 ? "盈利" : "亏损"}: $${Math.abs(pnl).toFixed(4)} USDT`);
-      
-      // 记录手动平仓事件
-      const pnlText = pnl > 0 ? `盈利 $${pnl.toFixed(4)}` : `亏损 $${Math.abs(pnl).toFixed(4)}`;
       this.tradeLog.push("close", 
         `🔄 检测到手动平仓: ${direction === "long" ? "多头" : "空头"} ${Math.abs(this.lastPositionAmount)} @ $${currentPrice.toFixed(4)}`
       );
-      this.tradeLog.push("info", `📊 平仓${pnl > 0 ? "盈利" : "亏损"}: $${Math.abs(pnl).toFixed(4)} USDT`);
+
+      // 有成交回报时手续费、交易计数与盈亏均按实际成交统计，这里只在无回报时估算
+      if (!this.fillStreamActive) {
+        this.totalTrades += 1;
+        this.totalProfit += pnl;
+        
+        // 记录手动平仓的手续费
+        const closeSide = direction === "long" ? "SELL" : "BUY";
+        this.feeMonitor.recordTrade({
+          symbol: this.config.symbol,
+          side: closeSide,
+          quantity: Math.abs(this.lastPositionAmount),
+          price: currentPrice,
+          orderId: `manual_close_${Date.now()}`
+        });
+        
+        // 计算并记录手续费信息
+        const tradeValue = Math.abs(this.lastPositionAmount) * currentPrice;
+        const feeAmount = tradeValue * this.config.feeRate;
+        const feeSummary = this.feeMonitor.getFeeSummary();
+        this.tradeLog.push("info", `💰 手动平仓手续费: $${feeAmount.toFixed(6)} USDT (日累计: $${feeSummary.dailyFee.toFixed(6)} USDT)`);
+        
+        // 记录到日志文件
+        logger.writeTrade(`手动平仓: ${direction === "long" ? "多头" : "空头"} ${Math.abs(this.lastPositionAmount)} @ $${currentPrice.toFixed(4)}, 手续费: $${feeAmount.toFixed(6)}`);
+        logger.writeTrade(`平仓${pnl > 0 ? "盈利" : "亏损"}: $${Math.abs(pnl).toFixed(4)} USDT`);
+        this.tradeLog.push("info", `📊 平仓${pnl > 0 ? "盈利" : "亏损"}: $${Math.abs(pnl).toFixed(4)} USDT`);
+      }
       
       // 重置贪婪止盈管理器状态
       this.greedyTakeProfitManager.forceExit();
@@ -173,25 +161,27 @@ export class TrendEngine {
       if (!hadPosition && hasPosition) {
         const direction = position.positionAmt > 0 ? "long" : "short";
         const openSide = direction === "long" ? "BUY" : "SELL";
-        
-        // 记录手动开仓的手续费
-        this.feeMonitor.recordTrade({
-          symbol: this.config.symbol,
-          side: openSide,
-          quantity: Math.abs(position.positionAmt),
-          price: position.entryPrice,
-          orderId: `manual_open_${Date.now()}`
-        });
-        
-        // 计算并记录手续费信息
-        const tradeValue = Math.abs(position.positionAmt) * position.entryPrice;
-        const feeAmount = tradeValue * this.config.feeRate;
-        const feeSummary = this.feeMonitor.getFeeSummary();
-        this.tradeLog.push("info", `💰 手动开仓手续费: $${feeAmount.toFixed(6)} USDT (日累计: $${feeSummary.dailyFee.toFixed(6)} USDT)`);
         this.tradeLog.push("open", `🔄 检测到手动开仓: ${direction === "long" ? "多头" : "空头"} ${Math.abs(position.positionAmt)} @ $${position.entryPrice.toFixed(4)}`);
         
-        // 记录到日志文件
-        logger.writeTrade(`手动开仓: ${direction === "long" ? "多头" : "空头"} ${Math.abs(position.positionAmt)} @ $${position.entryPrice.toFixed(4)}, 手续费: $${feeAmount.toFixed(6)}`);
+        if (!this.fillStreamActive) {
+          // 记录手动开仓的手续费
+          this.feeMonitor.recordTrade({
+            symbol: this.config.symbol,
+            side: openSide,
+            quantity: Math.abs(position.positionAmt),
+            price: position.entryPrice,
+            orderId: `manual_open_${Date.now()}`
+          });
+          
+          // 计算并记录手续费信息
+          const tradeValue = Math.abs(position.positionAmt) * position.entryPrice;
+          const feeAmount = tradeValue * this.config.feeRate;
+          const feeSummary = this.feeMonitor.getFeeSummary();
+          this.tradeLog.push("info", `💰 手动开仓手续费: $${feeAmount.toFixed(6)} USDT (日累计: $${feeSummary.dailyFee.toFixed(6)} USDT)`);
+          
+          // 记录到日志文件
+          logger.writeTrade(`手动开仓: ${direction === "long" ? "多头" : "空头"} ${Math.abs(position.positionAmt)} @ $${position.entryPrice.toFixed(4)}, 手续费: $${feeAmount.toFixed(6)}`);
+        }
       }
       
       this.lastPositionAmount = position.positionAmt;
@@ -201,21 +191,21 @@ export class TrendEngine {
 
   private totalProfit = 0;
   private totalTrades = 0;
+  private readonly closedTrades = new ClosedTradeTracker();
   private lastOpenPlan: OpenOrderPlan = { side: null, price: null };
-  private sessionQuoteVolume = 0;
-  private prevPositionAmt = 0;
-  private initializedPosition = false;
   private cancelAllRequested = false;
-  private readonly pendingCancelOrders = new Set<number>();
-
-  private ordersSnapshotReady = false;
   private startupLogged = false;
   private entryPricePendingLogged = false;
 
-  private readonly listeners = new Map<TrendEngineEvent, Set<TrendEngineListener>>();
-
-  constructor(private readonly config: TradingConfig, private readonly exchange: ExchangeAdapter) {
-    this.tradeLog = createTradeLog(this.config.maxLogEntries);
+  constructor(config: TradingConfig, exchange: ExchangeAdapter) {
+    super(config, exchange, {
+      strategyId: "trend",
+      intervalMs: config.pollIntervalMs,
+      klineInterval: config.klineInterval,
+      loopLabel: "策略循环",
+      // 适配器提供成交回报时，手续费、交易计数与已实现盈亏按实际成交统计
+      watchFills: true,
+    });
     this.feeMonitor = new FeeMonitor({
       feeRate: this.config.feeRate,
       maxDailyFeePct: this.config.maxDailyFeePct,
@@ -247,13 +237,8 @@ export class TrendEngine {
     }
     
     // 初始化贪婪止盈管理器
-    const greedyConfig: GreedyProfitConfig = {
-      enabled: process.env.ENABLE_GREEDY_TAKE_PROFIT === 'true',
-      sampleSize: parseInt(process.env.GREEDY_SAMPLE_SIZE || '10'),
-      reversalThreshold: parseFloat(process.env.GREEDY_REVERSAL_THRESHOLD || '0.002'),
-      maxWaitTime: parseInt(process.env.GREEDY_MAX_WAIT_TIME_MS || '30000'),
-      extraProfitTarget: parseFloat(process.env.GREEDY_EXTRA_PROFIT_TARGET || '0.005')
-    };
+    const greedyConfig: GreedyProfitConfig = this.config.greedyTakeProfit ?? loadGreedyProfitConfig();
+    this.greedyConfig = greedyConfig;
     
     (this as any).greedyTakeProfitManager = new GreedyTakeProfitManager(greedyConfig);
     
@@ -262,8 +247,19 @@ export class TrendEngine {
     } else {
       this.tradeLog.push("info", "📊 使用标准止盈策略");
     }
-    
-    this.bootstrap();
+
+    const fundingConfig = this.fundingConfig;
+    if (fundingConfig.enabled) {
+      this.tradeLog.push("info", `💸 资金费保护已启用 - 结算前 ${(fundingConfig.windowMs / 60000).toFixed(0)} 分钟内不逆费率开仓, 费率阈值: ${(fundingConfig.minRate * 100).toFixed(4)}%`);
+    }
+
+    if (this.hedgeMode) {
+      this.tradeLog.push("info", "⚖️ 对冲模式已启用 - 多空两腿分别开仓与风控");
+    }
+
+    // 记录系统启动
+    logger.writeSystem("开始订阅账户数据流...");
+    this.initialize();
   }
 
   /**
@@ -286,230 +282,197 @@ export class TrendEngine {
     return timeSinceLastOpen >= params.minHoldTimeMs && timeSinceLastClose >= params.minHoldTimeMs;
   }
 
-  start(): void {
-    if (this.timer) return;
-    this.timer = setInterval(() => {
-      void this.tick();
-    }, this.config.pollIntervalMs);
+  protected override onStart(): void {
+    this.startLedgerSync();
   }
 
-  stop(): void {
-    if (this.timer) {
-      clearInterval(this.timer);
-      this.timer = null;
+  protected override onStop(): void {
+    if (this.ledgerTimer) {
+      clearInterval(this.ledgerTimer);
+      this.ledgerTimer = null;
     }
   }
 
-  on(event: TrendEngineEvent, handler: TrendEngineListener): void {
-    const handlers = this.listeners.get(event) ?? new Set<TrendEngineListener>();
-    handlers.add(handler);
-    this.listeners.set(event, handlers);
+  /**
+   * 接入交易所资金流水账本，运行期间定期同步并核对本次运行的已实现盈亏与手续费
+   */
+  attachLedger(ledger: IncomeLedger): void {
+    this.ledger = ledger;
+    if (this.isStarted()) this.startLedgerSync();
   }
 
-  off(event: TrendEngineEvent, handler: TrendEngineListener): void {
-    const handlers = this.listeners.get(event);
-    if (!handlers) return;
-    handlers.delete(handler);
-    if (handlers.size === 0) {
-      this.listeners.delete(event);
+  private startLedgerSync(): void {
+    if (!this.ledger || this.ledgerTimer) return;
+    void this.syncLedger();
+    this.ledgerTimer = setInterval(() => {
+      void this.syncLedger();
+    }, LEDGER_SYNC_INTERVAL_MS);
+  }
+
+  private async syncLedger(): Promise<void> {
+    const ledger = this.ledger;
+    if (!ledger) return;
+    try {
+      await ledger.sync();
+    } catch (error) {
+      this.tradeLog.push("error", `同步资金流水失败: ${extractMessage(error)}`);
+      return;
     }
+    const previous = this.ledgerReconciliation;
+    const result = ledger.reconcile(this.config.symbol, {
+      since: this.sessionStartedAt,
+      realizedPnl: this.totalProfit,
+      commission: this.feeMonitor.getSessionFee(),
+      trades: this.totalTrades,
+    });
+    this.ledgerReconciliation = result;
+    if (!result.matched && (previous?.matched ?? true)) {
+      this.tradeLog.push(
+        "warning",
+        `⚠️ 账本对账不一致: 交易所已实现盈亏 ${result.ledger.realizedPnl.toFixed(4)} / 引擎 ${result.engine.realizedPnl.toFixed(4)}，` +
+          `交易所手续费 ${result.ledger.commission.toFixed(4)} / 引擎 ${result.engine.commission.toFixed(4)}`
+      );
+    }
+    this.emitUpdate();
   }
 
-  getSnapshot(): TrendEngineSnapshot {
-    return this.buildSnapshot();
+  protected override onAccount(snapshot: AsterAccountSnapshot, previous: AsterAccountSnapshot | null): void {
+    // 记录持仓变化
+    const previousPosition = previous ? getPosition(previous, this.config.symbol) : null;
+    const currentPosition = getPosition(snapshot, this.config.symbol);
+    
+    // 检查持仓变化并记录
+    if (previousPosition && currentPosition) {
+      const prevAmount = previousPosition.positionAmt;
+      const currAmount = currentPosition.positionAmt;
+      const prevEntry = previousPosition.entryPrice;
+      const currEntry = currentPosition.entryPrice;
+      
+      // 检查持仓量变化
+      if (Math.abs(prevAmount - currAmount) > 0.0001) {
+        if (prevAmount === 0 && currAmount !== 0) {
+          // 新开仓
+          const direction = currAmount > 0 ? "多头" : "空头";
+          this.tradeLog.push("position", `📊 ${direction}持仓已建立: ${Math.abs(currAmount)} ${this.config.symbol} @ $${currEntry.toFixed(4)}`);
+          this.tradeLog.push("info", `💼 账户余额: $${Number(snapshot.totalWalletBalance || 0).toFixed(2)} USDT`);
+        } else if (prevAmount !== 0 && currAmount === 0) {
+          // 平仓
+          this.tradeLog.push("position", `✅ 持仓已平仓: 原持仓 ${Math.abs(prevAmount)} ${this.config.symbol}`);
+          this.tradeLog.push("info", `💼 账户余额: $${Number(snapshot.totalWalletBalance || 0).toFixed(2)} USDT`);
+        } else {
+          // 持仓量变化
+          const change = currAmount - prevAmount;
+          const action = change > 0 ? "增加" : "减少";
+          this.tradeLog.push("position", `🔄 持仓${action}: ${Math.abs(change)} ${this.config.symbol} (当前: ${Math.abs(currAmount)})`);
+        }
+      }
+    }
+    
+    this.updateSessionVolume(currentPosition);
+    
+    // 更新账户余额到手续费监控器
+    if (snapshot && snapshot.totalWalletBalance) {
+      const previousBalance = this.feeMonitor ? (this.feeMonitor as any).totalBalance : 0;
+      const currentBalance = Number(snapshot.totalWalletBalance);
+      this.feeMonitor.updateBalance(currentBalance);
+      
+      // 记录余额变化（如果变化超过0.01 USDT）
+      if (previousBalance > 0 && Math.abs(currentBalance - previousBalance) > 0.01) {
+        const change = currentBalance - previousBalance;
+        const changePercent = ((change / previousBalance) * 100);
+        const direction = change > 0 ? "增加" : "减少";
+        this.tradeLog.push("info", `💰 账户余额${direction}: $${Math.abs(change).toFixed(4)} USDT (${changePercent > 0 ? '+' : ''}${changePercent.toFixed(2)}%) -> $${currentBalance.toFixed(2)} USDT`);
+      }
+    }
   }
 
-  private bootstrap(): void {
-    try {
-      // 记录系统启动
-      logger.writeSystem("开始订阅账户数据流...");
+  protected override onOrders(orders: AsterOrder[]): void {
+    // 检查订单状态变化并记录手续费（无成交回报时按订单快照估算）
+    if (!this.fillStreamActive) {
+      // 只在调试模式下显示订单概览，避免频繁输出
+      if (process.env.DEBUG_TRADE_RECORDING === 'true') {
+        const filledOrders = orders.filter(o => o.symbol === this.config.symbol && o.status === 'FILLED');
+        if (filledOrders.length > 0) {
+          console.log(`🔍 发现 ${filledOrders.length} 个已成交订单需要处理`);
+        }
+      }
       
-      this.exchange.watchAccount((snapshot) => {
-        try {
-          // 记录持仓变化
-          const previousPosition = this.accountSnapshot ? getPosition(this.accountSnapshot, this.config.symbol) : null;
-          this.accountSnapshot = snapshot;
-          const currentPosition = getPosition(snapshot, this.config.symbol);
-          
-          // 检查持仓变化并记录
-          if (previousPosition && currentPosition) {
-            const prevAmount = previousPosition.positionAmt;
-            const currAmount = currentPosition.positionAmt;
-            const prevEntry = previousPosition.entryPrice;
-            const currEntry = currentPosition.entryPrice;
-            
-            // 检查持仓量变化
-            if (Math.abs(prevAmount - currAmount) > 0.0001) {
-              if (prevAmount === 0 && currAmount !== 0) {
-                // 新开仓
-                const direction = currAmount > 0 ? "多头" : "空头";
-                this.tradeLog.push("position", `📊 ${direction}持仓已建立: ${Math.abs(currAmount)} ${this.config.symbol} @ $${currEntry.toFixed(4)}`);
-                this.tradeLog.push("info", `💼 账户余额: $${Number(snapshot.totalWalletBalance || 0).toFixed(2)} USDT`);
-              } else if (prevAmount !== 0 && currAmount === 0) {
-                // 平仓
-                this.tradeLog.push("position", `✅ 持仓已平仓: 原持仓 ${Math.abs(prevAmount)} ${this.config.symbol}`);
-                this.tradeLog.push("info", `💼 账户余额: $${Number(snapshot.totalWalletBalance || 0).toFixed(2)} USDT`);
-              } else {
-                // 持仓量变化
-                const change = currAmount - prevAmount;
-                const action = change > 0 ? "增加" : "减少";
-                this.tradeLog.push("position", `🔄 持仓${action}: ${Math.abs(change)} ${this.config.symbol} (当前: ${Math.abs(currAmount)})`);
-              }
-            }
+      for (const order of orders) {
+        if (order.symbol === this.config.symbol && order.status === 'FILLED' && order.executedQty && order.avgPrice) {
+          // 只在实际处理成交订单时显示详细信息
+          if (process.env.DEBUG_TRADE_RECORDING === 'true') {
+            console.log(`📊 处理成交订单: ${order.orderId} | ${order.side} ${order.executedQty} @ $${order.avgPrice}`);
           }
           
-          this.updateSessionVolume(currentPosition);
+          // 记录成交信息到交易日志
+          this.tradeLog.push("order", `✅ 订单成交: ${order.side} ${order.executedQty} @ $${Number(order.avgPrice).toFixed(4)}`);
           
-          // 更新账户余额到手续费监控器
-          if (snapshot && snapshot.totalWalletBalance) {
-            const previousBalance = this.feeMonitor ? (this.feeMonitor as any).totalBalance : 0;
-            const currentBalance = Number(snapshot.totalWalletBalance);
-            this.feeMonitor.updateBalance(currentBalance);
-            
-            // 记录余额变化（如果变化超过0.01 USDT）
-            if (previousBalance > 0 && Math.abs(currentBalance - previousBalance) > 0.01) {
-              const change = currentBalance - previousBalance;
-              const changePercent = ((change / previousBalance) * 100);
-              const direction = change > 0 ? "增加" : "减少";
-              this.tradeLog.push("info", `💰 账户余额${direction}: $${Math.abs(change).toFixed(4)} USDT (${changePercent > 0 ? '+' : ''}${changePercent.toFixed(2)}%) -> $${currentBalance.toFixed(2)} USDT`);
-            }
-          }
+          // 记录手续费
+          const feeResult = this.feeMonitor.recordTrade({
+            symbol: order.symbol,
+            side: order.side as 'BUY' | 'SELL',
+            quantity: Number(order.executedQty),
+            price: Number(order.avgPrice),
+            orderId: String(order.orderId)
+          });
           
-          this.emitUpdate();
-        } catch (err) {
-          this.tradeLog.push("error", `账户推送处理异常: ${String(err)}`);
-        }
-      });
-    } catch (err) {
-      this.tradeLog.push("error", `订阅账户失败: ${String(err)}`);
-    }
-    try {
-      this.exchange.watchOrders((orders) => {
-        try {
-          this.synchronizeLocks(orders);
+          // 计算并记录手续费信息
+          const tradeValue = Number(order.executedQty) * Number(order.avgPrice);
+          const feeAmount = tradeValue * 0.0004; // ASTER手续费率0.04%
+          const feeSummary = this.feeMonitor.getFeeSummary();
+          this.tradeLog.push("info", `💰 交易手续费: $${feeAmount.toFixed(6)} USDT (日累计: $${feeSummary.dailyFee.toFixed(6)} USDT)`);
           
-          // 检查订单状态变化并记录手续费
-          if (Array.isArray(orders)) {
-            // 只在调试模式下显示订单概览，避免频繁输出
-            if (process.env.DEBUG_TRADE_RECORDING === 'true') {
-              const filledOrders = orders.filter(o => o.symbol === this.config.symbol && o.status === 'FILLED');
-              if (filledOrders.length > 0) {
-                console.log(`🔍 发现 ${filledOrders.length} 个已成交订单需要处理`);
-              }
-            }
-            
-            for (const order of orders) {
-              if (order.symbol === this.config.symbol && order.status === 'FILLED' && order.executedQty && order.avgPrice) {
-                // 只在实际处理成交订单时显示详细信息
-                if (process.env.DEBUG_TRADE_RECORDING === 'true') {
-                  console.log(`📊 处理成交订单: ${order.orderId} | ${order.side} ${order.executedQty} @ $${order.avgPrice}`);
-                }
-                
-                // 记录成交信息到交易日志
-                this.tradeLog.push("order", `✅ 订单成交: ${order.side} ${order.executedQty} @ $${Number(order.avgPrice).toFixed(4)}`);
-                
-                // 记录手续费
-                const feeResult = this.feeMonitor.recordTrade({
-                  symbol: order.symbol,
-                  side: order.side as 'BUY' | 'SELL',
-                  quantity: Number(order.executedQty),
-                  price: Number(order.avgPrice),
-                  orderId: String(order.orderId)
-                });
-                
-                // 计算并记录手续费信息
-                const tradeValue = Number(order.executedQty) * Number(order.avgPrice);
-                const feeAmount = tradeValue * 0.0004; // ASTER手续费率0.04%
-                const feeSummary = this.feeMonitor.getFeeSummary();
-                this.tradeLog.push("info", `💰 交易手续费: $${feeAmount.toFixed(6)} USDT (日累计: $${feeSummary.dailyFee.toFixed(6)} USDT)`);
-                
-                // 记录到日志文件
-                logger.writeTrade(`订单成交: ${order.side} ${order.executedQty} @ $${Number(order.avgPrice).toFixed(4)}, 手续费: $${feeAmount.toFixed(6)}`);
-                
-                // 立即增加交易计数（不等到仓位关闭）
-                // 注释：这里不增加totalTrades，因为应该在仓位完全关闭时才算一笔完整交易
-                // this.totalTrades += 1;
-                // console.log(`📊 记录交易: 总交易数现在为 ${this.totalTrades}`);
-                
-                if (feeResult.shouldStop) {
-                  this.tradeLog.push("warning", `🚨 手续费保护触发: ${feeResult.reason}`);
-                }
-              }
-            }
-          }
+          // 记录到日志文件
+          logger.writeTrade(`订单成交: ${order.side} ${order.executedQty} @ $${Number(order.avgPrice).toFixed(4)}, 手续费: $${feeAmount.toFixed(6)}`);
           
-          this.openOrders = Array.isArray(orders)
-            ? orders.filter((order) => order.type !== "MARKET" && order.symbol === this.config.symbol)
-            : [];
-          const currentIds = new Set(this.openOrders.map((order) => order.orderId));
-          for (const id of Array.from(this.pendingCancelOrders)) {
-            if (!currentIds.has(id)) {
-              this.pendingCancelOrders.delete(id);
-            }
-          }
-          if (this.openOrders.length === 0 || this.pendingCancelOrders.size === 0) {
-            this.cancelAllRequested = false;
+          // 立即增加交易计数（不等到仓位关闭）
+          // 注释：这里不增加totalTrades，因为应该在仓位完全关闭时才算一笔完整交易
+          // this.totalTrades += 1;
+          // console.log(`📊 记录交易: 总交易数现在为 ${this.totalTrades}`);
+          
+          if (feeResult.shouldStop) {
+            this.tradeLog.push("warning", `🚨 手续费保护触发: ${feeResult.reason}`);
           }
-          this.ordersSnapshotReady = true;
-          this.emitUpdate();
-        } catch (err) {
-          this.tradeLog.push("error", `订单推送处理异常: ${String(err)}`);
-        }
-      });
-    } catch (err) {
-      this.tradeLog.push("error", `订阅订单失败: ${String(err)}`);
-    }
-    try {
-      this.exchange.watchDepth(this.config.symbol, (depth) => {
-        try {
-          this.depthSnapshot = depth;
-          this.emitUpdate();
-        } catch (err) {
-          this.tradeLog.push("error", `深度推送处理异常: ${String(err)}`);
         }
-      });
-    } catch (err) {
-      this.tradeLog.push("error", `订阅深度失败: ${String(err)}`);
-    }
-    try {
-      this.exchange.watchTicker(this.config.symbol, (ticker) => {
-        try {
-          this.tickerSnapshot = ticker;
-          this.emitUpdate();
-        } catch (err) {
-          this.tradeLog.push("error", `价格推送处理异常: ${String(err)}`);
-        }
-      });
-    } catch (err) {
-      this.tradeLog.push("error", `订阅Ticker失败: ${String(err)}`);
+      }
     }
-    try {
-      this.exchange.watchKlines(this.config.symbol, this.config.klineInterval, (klines) => {
-        try {
-          this.klineSnapshot = Array.isArray(klines) ? klines : [];
-          this.emitUpdate();
-        } catch (err) {
-          this.tradeLog.push("error", `K线推送处理异常: ${String(err)}`);
-        }
-      });
-    } catch (err) {
-      this.tradeLog.push("error", `订阅K线失败: ${String(err)}`);
+
+    if (this.openOrders.length === 0 || this.pendingCancelOrders.size === 0) {
+      this.cancelAllRequested = false;
     }
   }
 
-  private synchronizeLocks(orders: AsterOrder[] | null | undefined): void {
-    const list = Array.isArray(orders) ? orders : [];
-    Object.keys(this.pending).forEach((type) => {
-      const pendingId = this.pending[type];
-      if (!pendingId) return;
-      const match = list.find((order) => String(order.orderId) === pendingId);
-      if (!match || (match.status && match.status !== "NEW")) {
-        unlockOperating(this.locks, this.timers, this.pending, type);
-      }
-    });
+  protected override onFill(fill: AsterFill): void {
+    this.handleFill(fill);
+  }
+
+  protected override onFundingSettlement(message: string): void {
+    super.onFundingSettlement(message);
+    logger.writeTrade(message);
+  }
+
+  /**
+   * 成交回报：按实际手续费记账，订单全部平仓成交后计入交易次数与已实现盈亏
+   */
+  private handleFill(fill: AsterFill): void {
+    if (fill.symbol !== this.config.symbol.toUpperCase()) return;
+    const message = describeFill(fill);
+    this.tradeLog.push("order", message);
+    logger.writeTrade(message);
+    const feeResult = this.feeMonitor.recordFill(fill);
+    if (feeResult.shouldStop) {
+      this.tradeLog.push("warning", `🚨 手续费保护触发: ${feeResult.reason}`);
+    }
+    const closed = this.closedTrades.push(fill);
+    if (closed) {
+      this.totalTrades += 1;
+      this.totalProfit += closed.realizedPnl;
+      this.tradeLog.push("info", `📊 平仓已实现${closed.realizedPnl >= 0 ? "盈利" : "亏损"}: $${Math.abs(closed.realizedPnl).toFixed(4)} USDT`);
+    }
+    this.emitUpdate();
   }
 
-  private isReady(): boolean {
+  protected isReady(): boolean {
     return Boolean(
       this.accountSnapshot &&
         this.tickerSnapshot &&
@@ -518,37 +481,33 @@ export class TrendEngine {
     );
   }
 
-  private async tick(): Promise<void> {
-    if (this.processing) return;
-    this.processing = true;
-    try {
-      if (!this.ordersSnapshotReady) {
-        this.emitUpdate();
-        return;
-      }
-      if (!this.isReady()) {
-        this.emitUpdate();
-        return;
-      }
-      
-      // 更新账户余额到手续费监控器
-      if (this.accountSnapshot && this.accountSnapshot.totalWalletBalance) {
-        this.feeMonitor.updateBalance(Number(this.accountSnapshot.totalWalletBalance));
-      }
-      
-      this.logStartupState();
-      const sma30 = getSMA(this.klineSnapshot, 30);
-      if (sma30 == null) {
-        return;
-      }
-      const ticker = this.tickerSnapshot!;
-      const price = Number(ticker.lastPrice);
-      
-      // 动态风险管理 - 检查是否需要更新参数
-      await this.updateDynamicRiskIfNeeded(price);
-      
-      const position = getPosition(this.accountSnapshot, this.config.symbol);
+  /** 首个挂单快照到达前不做决策，避免重复开仓或遗漏已有挂单 */
+  protected override isWarmedUp(): boolean {
+    return this.ordersSnapshotReady && super.isWarmedUp();
+  }
+
+  protected async decide(): Promise<void> {
+    // 更新账户余额到手续费监控器
+    if (this.accountSnapshot && this.accountSnapshot.totalWalletBalance) {
+      this.feeMonitor.updateBalance(Number(this.accountSnapshot.totalWalletBalance));
+    }
+    
+    this.logStartupState();
+    const sma30 = getSMA(this.klineSnapshot, 30);
+    if (sma30 == null) {
+      return;
+    }
+    const ticker = this.tickerSnapshot!;
+    const price = Number(ticker.lastPrice);
+    
+    // 动态风险管理 - 检查是否需要更新参数
+    await this.updateDynamicRiskIfNeeded(price);
+    
+    const position = getPosition(this.accountSnapshot, this.config.symbol);
 
+    if (this.hedgeMode) {
+      await this.tickHedge(price, sma30);
+    } else {
       // 检测手动平仓：如果之前有仓位，现在没有了，且不是通过系统平仓的
       await this.detectManualPositionClose(position, price);
 
@@ -556,23 +515,17 @@ export class TrendEngine {
         await this.handleOpenPosition(price, sma30);
       } else {
         const result = await this.handlePositionManagement(position, price);
-        if (result.closed) {
+        if (result.closed && !this.fillStreamActive) {
           // 在仓位完全关闭时同时更新交易计数和盈亏
           this.totalTrades += 1;
           this.totalProfit += result.pnl;
         }
       }
-
-      this.updateSessionVolume(position);
-      this.lastSma30 = sma30;
-      this.lastPrice = price;
-      this.emitUpdate();
-    } catch (error) {
-      this.tradeLog.push("error", `策略循环异常: ${String(error)}`);
-      this.emitUpdate();
-    } finally {
-      this.processing = false;
     }
+
+    this.updateSessionVolume(this.getVolumePosition());
+    this.lastSma30 = sma30;
+    this.lastPrice = price;
   }
 
   private logStartupState(): void {
@@ -624,12 +577,87 @@ export class TrendEngine {
     }
   }
 
+  /**
+   * 对冲模式：多空两腿各自风控，空仓的腿撤掉残留挂单并按均线交叉独立开仓
+   */
+  private async tickHedge(price: number, sma30: number): Promise<void> {
+    const legs = (["LONG", "SHORT"] as const).map((leg) => getPositionLeg(this.accountSnapshot, this.config.symbol, leg));
+    for (const leg of legs) {
+      const legSide = leg.positionSide as HedgeLeg;
+      if (Math.abs(leg.positionAmt) < 1e-5) {
+        await this.cancelLegOrders(legSide);
+        continue;
+      }
+      const result = await this.handlePositionManagement(leg, price, legSide);
+      if (result.closed && !this.fillStreamActive) {
+        this.totalTrades += 1;
+        this.totalProfit += result.pnl;
+      }
+    }
+    if (this.lastPrice == null) {
+      this.lastPrice = price;
+      return;
+    }
+    const [longLeg, shortLeg] = legs;
+    if (this.lastPrice < sma30 && price > sma30 && Math.abs(longLeg!.positionAmt) < 1e-5) {
+      await this.submitMarketOrder("BUY", price, "上穿SMA30，市价开多");
+    } else if (this.lastPrice > sma30 && price < sma30 && Math.abs(shortLeg!.positionAmt) < 1e-5) {
+      await this.submitMarketOrder("SELL", price, "下穿SMA30，市价开空");
+    }
+  }
+
+  private async cancelLegOrders(leg: HedgeLeg): Promise<void> {
+    const orderIdList = this.openOrders
+      .filter((order) => order.positionSide === leg && !this.pendingCancelOrders.has(order.orderId))
+      .map((order) => order.orderId);
+    if (!orderIdList.length) return;
+    try {
+      await this.exchange.cancelOrders({ symbol: this.config.symbol, orderIdList });
+      orderIdList.forEach((id) => this.pendingCancelOrders.add(id));
+    } catch (err) {
+      if (isUnknownOrderError(err)) {
+        this.tradeLog.push("order", "撤单时部分订单已不存在，忽略");
+        this.openOrders = this.openOrders.filter((o) => !orderIdList.includes(o.orderId));
+      } else {
+        this.tradeLog.push("error", `撤销${leg === "LONG" ? "多头" : "空头"}挂单失败: ${String(err)}`);
+      }
+    }
+  }
+
+  private getGreedyManager(leg?: HedgeLeg): GreedyTakeProfitManager {
+    if (!leg) return this.greedyTakeProfitManager;
+    let manager = this.legGreedyManagers.get(leg);
+    if (!manager) {
+      manager = new GreedyTakeProfitManager(this.greedyConfig);
+      this.legGreedyManagers.set(leg, manager);
+    }
+    return manager;
+  }
+
+  private getLegOrders(leg?: HedgeLeg): AsterOrder[] {
+    return leg ? this.openOrders.filter((o) => o.positionSide === leg) : this.openOrders;
+  }
+
+  private getManagedPosition(leg?: HedgeLeg): PositionSnapshot {
+    return leg ? getPositionLeg(this.accountSnapshot, this.config.symbol, leg) : getPosition(this.accountSnapshot, this.config.symbol);
+  }
+
   private async submitMarketOrder(side: "BUY" | "SELL", price: number, reason: string): Promise<void> {
     // 检查手续费保护
     if (this.feeMonitor.shouldStopTrading()) {
       this.tradeLog.push("warning", `🚨 手续费保护激活，跳过开仓: ${reason}`);
       return;
     }
+
+    // 数据流冻结期间不开新仓（守卫已记录暂停原因），平仓与止损照常执行
+    if (!this.marketDataFresh) return;
+
+    // 检查资金费保护：临近结算且费率对开仓方向不利
+    const fundingBlock = this.getFundingEntryBlock(side);
+    if (fundingBlock) {
+      this.tradeLog.push("info", `💸 资金费保护，跳过开仓: ${reason}（${fundingBlock}）`);
+      return;
+    }
     
     // 检查最小持仓时间（高频交易控制）
     if (!this.canPlaceNewOrder()) {
@@ -642,28 +670,17 @@ export class TrendEngine {
     }
     
     try {
-      await placeMarketOrder(
-        this.exchange,
-        this.config.symbol,
-        this.openOrders,
-        this.locks,
-        this.timers,
-        this.pending,
-        side,
-        this.config.tradeAmount,
-        (type, detail) => this.tradeLog.push(type, detail),
-        false,
-        {
-          markPrice: getPosition(this.accountSnapshot, this.config.symbol).markPrice,
-          expectedPrice: Number(this.tickerSnapshot?.lastPrice) || null,
-          maxPct: this.config.maxCloseSlippagePct,
-        },
-        { qtyStep: this.config.qtyStep }
-      );
+      const outcome = await this.submitEntry(side, Number(this.tickerSnapshot?.lastPrice) || null);
+      if (outcome === "rejected") return;
       
       // 记录详细的开仓信息
       const direction = side === "BUY" ? "多头" : "空头";
-      this.tradeLog.push("open", `🎯 ${direction}开仓: ${side} ${this.config.tradeAmount} ${this.config.symbol} @ $${price.toFixed(4)}`);
+      this.tradeLog.push(
+        "open",
+        outcome === "started"
+          ? `🎯 ${direction}开仓开始分片执行: ${side} ${this.config.tradeAmount} ${this.config.symbol} 到达价 $${price.toFixed(4)}`
+          : `🎯 ${direction}开仓: ${side} ${this.config.tradeAmount} ${this.config.symbol} @ $${price.toFixed(4)}`
+      );
       this.tradeLog.push("info", `📊 开仓原因: ${reason}`);
       
       // 更新开仓时间戳（高频交易控制）
@@ -676,7 +693,8 @@ export class TrendEngine {
 
   private async handlePositionManagement(
     position: PositionSnapshot,
-    price: number
+    price: number,
+    leg?: HedgeLeg
   ): Promise<{ closed: boolean; pnl: number }> {
     const hasEntryPrice = Number.isFinite(position.entryPrice) && Math.abs(position.entryPrice) > 1e-8;
     if (!hasEntryPrice) {
@@ -750,10 +768,13 @@ export class TrendEngine {
       );
     }
 
-    const currentStop = this.openOrders.find(
+    // 对冲模式下只看本腿的挂单
+    const legOrders = this.getLegOrders(leg);
+    const greedyManager = this.getGreedyManager(leg);
+    const currentStop = legOrders.find(
       (o) => o.type === "STOP_MARKET" && o.side === stopSide
     );
-    const currentTrailing = this.openOrders.find(
+    const currentTrailing = legOrders.find(
       (o) => o.type === "TRAILING_STOP_MARKET" && o.side === stopSide
     );
 
@@ -802,7 +823,7 @@ export class TrendEngine {
         (stopSide === "BUY" && optimizedProfitLockStopPrice >= price + tick);
       if (profitLockValid) {
         if (!currentStop) {
-          await this.tryPlaceStopLoss(stopSide, optimizedProfitLockStopPrice, price);
+          await this.tryPlaceStopLoss(stopSide, optimizedProfitLockStopPrice, price, leg);
         } else {
           const existingRaw = Number(currentStop.stopPrice);
           const existingPrice = Number.isFinite(existingRaw) ? existingRaw : NaN;
@@ -811,14 +832,14 @@ export class TrendEngine {
             (stopSide === "SELL" && optimizedProfitLockStopPrice >= existingPrice + tick) ||
             (stopSide === "BUY" && optimizedProfitLockStopPrice <= existingPrice - tick);
           if (improves) {
-            await this.tryReplaceStop(stopSide, currentStop, optimizedProfitLockStopPrice, price);
+            await this.tryReplaceStop(stopSide, currentStop, optimizedProfitLockStopPrice, price, leg);
           }
         }
       }
     }
 
     if (!currentStop) {
-      await this.tryPlaceStopLoss(stopSide, roundDownToTick(stopPrice, this.config.priceTick), price);
+      await this.tryPlaceStopLoss(stopSide, roundDownToTick(stopPrice, this.config.priceTick), price, leg);
       this.tradeLog.push("info", `✅ 创建新止损单: ${stopSide} @ ${stopPrice.toFixed(4)}`);
     } else {
       // 检查现有止损单是否需要更新（基于新的优化价格）
@@ -834,7 +855,7 @@ export class TrendEngine {
         this.tradeLog.push("info", 
           `🔄 现有止损需要更新: ${existingStopPrice.toFixed(4)} → ${stopPrice.toFixed(4)} (改进${Math.abs(stopPrice - existingStopPrice).toFixed(4)})`
         );
-        await this.tryReplaceStop(stopSide, currentStop, stopPrice, price);
+        await this.tryReplaceStop(stopSide, currentStop, stopPrice, price, leg);
       } else {
         // 移除频繁的"价格合理"日志，避免UI闪动
         // this.tradeLog.push("info", 
@@ -847,7 +868,8 @@ export class TrendEngine {
       await this.tryPlaceTrailingStop(
         stopSide,
         roundDownToTick(optimizedActivationPrice, this.config.priceTick),
-        Math.abs(position.positionAmt)
+        Math.abs(position.positionAmt),
+        leg
       );
     }
 
@@ -859,7 +881,7 @@ export class TrendEngine {
 
     // 1. 首先检查是否应该激活贪婪模式
     const baseTakeProfitPercent = this.getCurrentTakeProfitPercentage();
-    const greedyActivated = this.greedyTakeProfitManager.shouldActivateGreedy(
+    const greedyActivated = greedyManager.shouldActivateGreedy(
       currentPrice,
       position.entryPrice,
       direction,
@@ -871,11 +893,11 @@ export class TrendEngine {
     }
 
     // 2. 如果贪婪模式已激活，检查是否应该止盈
-    const greedyResult = this.greedyTakeProfitManager.updateAndCheckTakeProfit(currentPrice);
+    const greedyResult = greedyManager.updateAndCheckTakeProfit(currentPrice);
     
     // 3. 检查标准止盈条件或贪婪止盈决策
     const standardTakeProfit = shouldTakeProfitByPercentage(position, currentPrice, baseTakeProfitPercent);
-    const shouldTakeProfit = greedyResult.shouldTakeProfit || (!this.greedyTakeProfitManager.getStateInfo().isActive && standardTakeProfit);
+    const shouldTakeProfit = greedyResult.shouldTakeProfit || (!greedyManager.getStateInfo().isActive && standardTakeProfit);
 
     if (shouldTakeProfit) {
       // 记录止盈原因
@@ -896,8 +918,9 @@ export class TrendEngine {
       }
 
       try {
-        if (this.openOrders.length > 0) {
-          const orderIdList = this.openOrders.map((order) => order.orderId);
+        const closeOrders = this.getLegOrders(leg);
+        if (closeOrders.length > 0) {
+          const orderIdList = closeOrders.map((order) => order.orderId);
           try {
             await this.exchange.cancelOrders({ symbol: this.config.symbol, orderIdList });
             orderIdList.forEach((id) => this.pendingCancelOrders.add(id));
@@ -932,17 +955,11 @@ export class TrendEngine {
           }
         }
         
-        await marketClose(
-          this.exchange,
-          this.config.symbol,
-          this.openOrders,
-          this.locks,
-          this.timers,
-          this.pending,
-          direction === "long" ? "SELL" : "BUY",
-          Math.abs(position.positionAmt),
-          (type, detail) => this.tradeLog.push(type, detail),
-          {
+        const outcome = await this.executor.execute({
+          side: direction === "long" ? "SELL" : "BUY",
+          quantity: Math.abs(position.positionAmt),
+          reduceOnly: true,
+          guard: {
             markPrice: getPosition(this.accountSnapshot, this.config.symbol).markPrice,
             expectedPrice: Number(
               direction === "long"
@@ -950,25 +967,32 @@ export class TrendEngine {
                 : this.depthSnapshot?.asks?.[0]?.[0]
             ) || null,
             maxPct: this.config.maxCloseSlippagePct,
-        },
-        { qtyStep: this.config.qtyStep }
-        );
-        
-        const totalProfit = (currentPrice - position.entryPrice) * Math.abs(position.positionAmt) * (direction === "long" ? 1 : -1);
-        const profitPercent = ((currentPrice - position.entryPrice) / position.entryPrice) * 100 * (direction === "long" ? 1 : -1);
+          },
+          qtyStep: this.config.qtyStep,
+          priceTick: this.config.priceTick,
+          positionSide: leg,
+        });
+        if (outcome === "rejected") return { closed: false, pnl };
         
-        this.tradeLog.push("close", `💰 ${takeProfitReason}: ${direction === "long" ? "SELL" : "BUY"} @ $${currentPrice.toFixed(4)}`);
-        this.tradeLog.push("info", `📊 止盈盈利: $${totalProfit.toFixed(4)} USDT (${profitPercent.toFixed(2)}%)`);
-        this.tradeLog.push("info", `📈 持仓详情: ${direction === "long" ? "多头" : "空头"} ${Math.abs(position.positionAmt)} ${this.config.symbol} (成本: $${position.entryPrice.toFixed(4)})`);
+        if (outcome === "started") {
+          this.trackExecutionClose(`💰 ${takeProfitReason}`, position);
+        } else {
+          const totalProfit = (currentPrice - position.entryPrice) * Math.abs(position.positionAmt) * (direction === "long" ? 1 : -1);
+          const profitPercent = ((currentPrice - position.entryPrice) / position.entryPrice) * 100 * (direction === "long" ? 1 : -1);
+          
+          this.tradeLog.push("close", `💰 ${takeProfitReason}: ${direction === "long" ? "SELL" : "BUY"} @ $${currentPrice.toFixed(4)}`);
+          this.tradeLog.push("info", `📊 止盈盈利: $${totalProfit.toFixed(4)} USDT (${profitPercent.toFixed(2)}%)`);
+          this.tradeLog.push("info", `📈 持仓详情: ${direction === "long" ? "多头" : "空头"} ${Math.abs(position.positionAmt)} ${this.config.symbol} (成本: $${position.entryPrice.toFixed(4)})`);
+        }
         
         // 强制退出贪婪模式
-        this.greedyTakeProfitManager.forceExit();
+        greedyManager.forceExit();
         this.lastPositionCloseTime = Date.now();
         return { closed: true, pnl };
       } catch (err) {
         this.tradeLog.push("error", `止盈失败: ${String(err)}`);
         // 出错时也要退出贪婪模式
-        this.greedyTakeProfitManager.forceExit();
+        greedyManager.forceExit();
         return { closed: false, pnl };
       }
     }
@@ -979,8 +1003,9 @@ export class TrendEngine {
 
     if (shouldStopLoss) {
       try {
-        if (this.openOrders.length > 0) {
-          const orderIdList = this.openOrders.map((order) => order.orderId);
+        const closeOrders = this.getLegOrders(leg);
+        if (closeOrders.length > 0) {
+          const orderIdList = closeOrders.map((order) => order.orderId);
           try {
             await this.exchange.cancelOrders({ symbol: this.config.symbol, orderIdList });
             orderIdList.forEach((id) => this.pendingCancelOrders.add(id));
@@ -1014,17 +1039,11 @@ export class TrendEngine {
             return { closed: false, pnl };
           }
         }
-        await marketClose(
-          this.exchange,
-          this.config.symbol,
-          this.openOrders,
-          this.locks,
-          this.timers,
-          this.pending,
-          direction === "long" ? "SELL" : "BUY",
-          Math.abs(position.positionAmt),
-          (type, detail) => this.tradeLog.push(type, detail),
-          {
+        const outcome = await this.executor.execute({
+          side: direction === "long" ? "SELL" : "BUY",
+          quantity: Math.abs(position.positionAmt),
+          reduceOnly: true,
+          guard: {
             markPrice: getPosition(this.accountSnapshot, this.config.symbol).markPrice,
             expectedPrice: Number(
               direction === "long"
@@ -1032,14 +1051,21 @@ export class TrendEngine {
                 : this.depthSnapshot?.asks?.[0]?.[0]
             ) || null,
             maxPct: this.config.maxCloseSlippagePct,
-        },
-        { qtyStep: this.config.qtyStep }
-        );
-        const lossAmount = ((currentPrice - position.entryPrice) * Math.abs(position.positionAmt) * (direction === "long" ? 1 : -1));
-        const lossPercent = ((currentPrice - position.entryPrice) / position.entryPrice) * 100 * (direction === "long" ? 1 : -1);
-        this.tradeLog.push("close", `⛔ 百分比止损平仓: ${direction === "long" ? "SELL" : "BUY"} @ $${currentPrice.toFixed(4)}`);
-        this.tradeLog.push("info", `📊 止损亏损: $${lossAmount.toFixed(4)} USDT (${lossPercent.toFixed(2)}%)`);
-        this.tradeLog.push("info", `📉 持仓详情: ${direction === "long" ? "多头" : "空头"} ${Math.abs(position.positionAmt)} ${this.config.symbol} (成本: $${position.entryPrice.toFixed(4)})`);
+          },
+          qtyStep: this.config.qtyStep,
+          priceTick: this.config.priceTick,
+          positionSide: leg,
+        });
+        if (outcome === "rejected") return { closed: false, pnl };
+        if (outcome === "started") {
+          this.trackExecutionClose("⛔ 百分比止损平仓", position);
+        } else {
+          const lossAmount = ((currentPrice - position.entryPrice) * Math.abs(position.positionAmt) * (direction === "long" ? 1 : -1));
+          const lossPercent = ((currentPrice - position.entryPrice) / position.entryPrice) * 100 * (direction === "long" ? 1 : -1);
+          this.tradeLog.push("close", `⛔ 百分比止损平仓: ${direction === "long" ? "SELL" : "BUY"} @ $${currentPrice.toFixed(4)}`);
+          this.tradeLog.push("info", `📊 止损亏损: $${lossAmount.toFixed(4)} USDT (${lossPercent.toFixed(2)}%)`);
+          this.tradeLog.push("info", `📉 持仓详情: ${direction === "long" ? "多头" : "空头"} ${Math.abs(position.positionAmt)} ${this.config.symbol} (成本: $${position.entryPrice.toFixed(4)})`);
+        }
         
         // 更新平仓时间戳（高频交易控制）
         this.lastPositionCloseTime = Date.now();
@@ -1056,13 +1082,31 @@ export class TrendEngine {
     return { closed: false, pnl };
   }
 
+  /**
+   * 分片平仓在后台执行：先记录平仓开始，执行结束后按成交均价记录平仓结果
+   */
+  private trackExecutionClose(title: string, position: PositionSnapshot): void {
+    const isLong = position.positionAmt > 0;
+    const side = isLong ? "SELL" : "BUY";
+    this.tradeLog.push("close", `${title}: 开始平仓 ${side} ${Math.abs(position.positionAmt)} ${this.config.symbol} (成本: $${position.entryPrice.toFixed(4)})`);
+    void this.executor.whenIdle().then((report) => {
+      if (!report || report.side !== side || report.avgPrice == null) return;
+      const pnl = (report.avgPrice - position.entryPrice) * report.filledQty * (isLong ? 1 : -1);
+      this.tradeLog.push(
+        "close",
+        `${title}结束: ${side} ${report.filledQty}/${report.requestedQty} 均价 $${report.avgPrice.toFixed(4)}，盈亏 $${pnl.toFixed(4)} USDT`
+      );
+    });
+  }
+
   private async tryPlaceStopLoss(
     side: "BUY" | "SELL",
     stopPrice: number,
-    lastPrice: number
+    lastPrice: number,
+    leg?: HedgeLeg
   ): Promise<void> {
     try {
-      const position = getPosition(this.accountSnapshot, this.config.symbol);
+      const position = this.getManagedPosition(leg);
       const quantity = Math.abs(position.positionAmt) || this.config.tradeAmount;
       await placeStopLossOrder(
         this.exchange,
@@ -1080,7 +1124,7 @@ export class TrendEngine {
           markPrice: position.markPrice,
           maxPct: this.config.maxCloseSlippagePct,
         },
-        { priceTick: this.config.priceTick, qtyStep: this.config.qtyStep }
+        { priceTick: this.config.priceTick, qtyStep: this.config.qtyStep, positionSide: leg, clientOrderIds: this.clientOrderIds }
       );
     } catch (err) {
       this.tradeLog.push("error", `挂止损单失败: ${String(err)}`);
@@ -1091,7 +1135,8 @@ export class TrendEngine {
     side: "BUY" | "SELL",
     currentOrder: AsterOrder,
     nextStopPrice: number,
-    lastPrice: number
+    lastPrice: number,
+    leg?: HedgeLeg
   ): Promise<void> {
     // 预校验：SELL 止损价必须低于当前价；BUY 止损价必须高于当前价
     const invalidForSide =
@@ -1115,7 +1160,7 @@ export class TrendEngine {
     }
     // 仅在成功创建新止损单后记录“移动止损”日志
     try {
-      const position = getPosition(this.accountSnapshot, this.config.symbol);
+      const position = this.getManagedPosition(leg);
       const quantity = Math.abs(position.positionAmt) || this.config.tradeAmount;
       const order = await placeStopLossOrder(
         this.exchange,
@@ -1133,7 +1178,7 @@ export class TrendEngine {
           markPrice: position.markPrice,
           maxPct: this.config.maxCloseSlippagePct,
         },
-        { priceTick: this.config.priceTick, qtyStep: this.config.qtyStep }
+        { priceTick: this.config.priceTick, qtyStep: this.config.qtyStep, positionSide: leg, clientOrderIds: this.clientOrderIds }
       );
       if (order) {
         this.tradeLog.push("stop", `移动止损到 ${roundDownToTick(nextStopPrice, this.config.priceTick)}`);
@@ -1142,7 +1187,7 @@ export class TrendEngine {
       this.tradeLog.push("error", `移动止损失败: ${String(err)}`);
       // 回滚策略：尝试用原价恢复止损，以避免出现短时间内无止损保护
       try {
-        const position = getPosition(this.accountSnapshot, this.config.symbol);
+        const position = this.getManagedPosition(leg);
         const quantity = Math.abs(position.positionAmt) || this.config.tradeAmount;
         const restoreInvalid =
           (side === "SELL" && existingStopPrice >= lastPrice) ||
@@ -1164,7 +1209,7 @@ export class TrendEngine {
               markPrice: position.markPrice,
               maxPct: this.config.maxCloseSlippagePct,
             },
-            { priceTick: this.config.priceTick, qtyStep: this.config.qtyStep }
+            { priceTick: this.config.priceTick, qtyStep: this.config.qtyStep, positionSide: leg, clientOrderIds: this.clientOrderIds }
           );
           if (restored) {
             this.tradeLog.push("order", `恢复原止损 @ ${roundDownToTick(existingStopPrice, this.config.priceTick)}`);
@@ -1179,7 +1224,8 @@ export class TrendEngine {
   private async tryPlaceTrailingStop(
     side: "BUY" | "SELL",
     activationPrice: number,
-    quantity: number
+    quantity: number,
+    leg?: HedgeLeg
   ): Promise<void> {
     try {
       await placeTrailingStopOrder(
@@ -1198,33 +1244,16 @@ export class TrendEngine {
           markPrice: getPosition(this.accountSnapshot, this.config.symbol).markPrice,
           maxPct: this.config.maxCloseSlippagePct,
         },
-        { priceTick: this.config.priceTick, qtyStep: this.config.qtyStep }
+        { priceTick: this.config.priceTick, qtyStep: this.config.qtyStep, positionSide: leg, clientOrderIds: this.clientOrderIds }
       );
     } catch (err) {
       this.tradeLog.push("error", `挂动态止盈失败: ${String(err)}`);
     }
   }
 
-  private emitUpdate(): void {
-    try {
-      const snapshot = this.buildSnapshot();
-      const handlers = this.listeners.get("update");
-      if (handlers) {
-        handlers.forEach((handler) => {
-          try {
-            handler(snapshot);
-          } catch (err) {
-            this.tradeLog.push("error", `更新回调处理异常: ${String(err)}`);
-          }
-        });
-      }
-    } catch (err) {
-      this.tradeLog.push("error", `快照或更新分发异常: ${String(err)}`);
-    }
-  }
-
-  private buildSnapshot(): TrendEngineSnapshot {
-    const position = getPosition(this.accountSnapshot, this.config.symbol);
+  protected buildSnapshot(): TrendEngineSnapshot {
+    const base = this.buildBaseSnapshot();
+    const position = base.position;
     const price = this.tickerSnapshot ? Number(this.tickerSnapshot.lastPrice) : null;
     const sma30 = this.lastSma30;
     const trend = price == null || sma30 == null
@@ -1236,22 +1265,16 @@ export class TrendEngine {
       : "无信号";
     const pnl = price != null ? computePositionPnl(position, price, price) : 0;
     return {
-      ready: this.isReady(),
-      symbol: this.config.symbol,
+      ...base,
       lastPrice: price,
       sma30,
       trend,
-      position,
       pnl,
       unrealized: position.unrealizedProfit,
       totalProfit: this.totalProfit,
       totalTrades: this.totalTrades,
-      sessionVolume: this.sessionQuoteVolume,
-      tradeLog: this.tradeLog.all(),
-      openOrders: this.openOrders,
       depth: this.depthSnapshot,
       ticker: this.tickerSnapshot,
-      lastUpdated: Date.now(),
       lastOpenSignal: this.lastOpenPlan,
       feeStats: this.feeMonitor.getFeeStats(),
       // 当前实际使用的风险参数
@@ -1263,10 +1286,33 @@ export class TrendEngine {
         isDynamic: this.config.enableDynamicRisk && this.dynamicLossLimit !== null
       },
       // 贪婪止盈状态
-      greedyTakeProfit: this.greedyTakeProfitManager.getStateInfo()
+      greedyTakeProfit: this.greedyTakeProfitManager.getStateInfo(),
+      ledger: this.ledger ? this.ledger.getSnapshot(this.config.symbol, this.ledgerReconciliation) : null,
     };
   }
 
+  /** 经由执行器提交一笔开仓，增强趋势策略借此共用基础引擎的锁与执行算法配置 */
+  submitEntry(side: "BUY" | "SELL", expectedPrice: number | null): Promise<ExecutionOutcome> {
+    return this.executor.execute({
+      side,
+      quantity: this.config.tradeAmount,
+      reduceOnly: false,
+      guard: {
+        markPrice: getPosition(this.accountSnapshot, this.config.symbol).markPrice,
+        expectedPrice,
+        maxPct: this.config.maxCloseSlippagePct,
+      },
+      qtyStep: this.config.qtyStep,
+      priceTick: this.config.priceTick,
+      positionSide: this.hedgeMode ? (side === "BUY" ? "LONG" : "SHORT") : undefined,
+    });
+  }
+
+  /** 资金费保护：临近结算且费率对该方向不利时返回原因，否则返回 null */
+  getFundingEntryBlock(side: "BUY" | "SELL"): string | null {
+    return this.fundingMonitor.getEntryBlock(side);
+  }
+
   getFeeStats(): FeeStats {
     return this.feeMonitor.getFeeStats();
   }
@@ -1377,26 +1423,8 @@ export class TrendEngine {
     return this.config.profitLockOffsetUsd;
   }
 
-  private updateSessionVolume(position: PositionSnapshot): void {
-    const price = this.getReferencePrice();
-    if (!this.initializedPosition) {
-      this.prevPositionAmt = position.positionAmt;
-      this.initializedPosition = true;
-      return;
-    }
-    if (price == null) {
-      this.prevPositionAmt = position.positionAmt;
-      return;
-    }
-    const delta = Math.abs(position.positionAmt - this.prevPositionAmt);
-    if (delta > 0) {
-      this.sessionQuoteVolume += delta * price;
-    }
-    this.prevPositionAmt = position.positionAmt;
-  }
-
-  private getReferencePrice(): number | null {
-    return getMidOrLast(this.depthSnapshot, this.tickerSnapshot) ?? (this.lastPrice != null && Number.isFinite(this.lastPrice) ? this.lastPrice : null);
+  protected override getReferencePrice(): number | null {
+    return super.getReferencePrice() ?? (this.lastPrice != null && Number.isFinite(this.lastPrice) ? this.lastPrice : null);
   }
 
 }
@@ -1,10 +1,26 @@
 import type {
+  AdjustIsolatedMarginParams,
   AsterAccountSnapshot,
   AsterOrder,
   AsterDepth,
+  AsterFill,
+  AsterIncome,
   AsterTicker,
   AsterKline,
+  AsterLeverageBracket,
+  AsterLeverageResult,
+  AsterMarkPrice,
+  AsterSymbolFilters,
+  AsterTrade,
+  AsterUserTrade,
+  ClockSyncStatus,
   CreateOrderParams,
+  IncomeHistoryQuery,
+  MarginType,
+  QueryOrderParams,
+  RateLimitUsage,
+  StreamHealth,
+  UserTradesQuery,
 } from "./types";
 
 export interface AccountListener {
@@ -23,21 +39,66 @@ export interface TickerListener {
   (ticker: AsterTicker): void;
 }
 
+export interface TradeListener {
+  (trade: AsterTrade): void;
+}
+
+export interface FillListener {
+  (fill: AsterFill): void;
+}
+
+export interface MarkPriceListener {
+  (mark: AsterMarkPrice): void;
+}
+
 export interface KlineListener {
   (klines: AsterKline[]): void;
 }
 
+/** watch* 返回的取消订阅函数，重复调用无副作用 */
+export type Unsubscribe = () => void;
+
 export interface ExchangeAdapter {
   readonly id: string;
-  watchAccount(cb: AccountListener): void;
-  watchOrders(cb: OrderListener): void;
-  watchDepth(symbol: string, cb: DepthListener): void;
-  watchTicker(symbol: string, cb: TickerListener): void;
-  watchKlines(symbol: string, interval: string, cb: KlineListener): void;
+  watchAccount(cb: AccountListener): Unsubscribe;
+  watchOrders(cb: OrderListener): Unsubscribe;
+  watchDepth(symbol: string, cb: DepthListener): Unsubscribe;
+  watchTicker(symbol: string, cb: TickerListener): Unsubscribe;
+  watchKlines(symbol: string, interval: string, cb: KlineListener): Unsubscribe;
+  // 逐笔归集成交（@aggTrade），用于成交流统计
+  watchTrades?(symbol: string, cb: TradeListener): Unsubscribe;
+  // 标记价格、指数价格与资金费率（@markPrice），用于资金费保护与结算记录
+  watchMarkPrice?(symbol: string, cb: MarkPriceListener): Unsubscribe;
+  // 成交回报（ORDER_TRADE_UPDATE 中的 TRADE），含实际手续费与已实现盈亏；未实现时引擎按费率估算
+  watchFills?(cb: FillListener): Unsubscribe;
+  // 快照 + 增量同步的本地全量订单簿，推送前 levels 档；未实现时使用 watchDepth 的有限档位
+  watchOrderBook?(symbol: string, levels: number, cb: DepthListener): Unsubscribe;
   createOrder(params: CreateOrderParams): Promise<AsterOrder>;
   cancelOrder(params: { symbol: string; orderId: number | string }): Promise<void>;
   cancelOrders(params: { symbol: string; orderIdList: Array<number | string> }): Promise<void>;
   cancelAllOrders(params: { symbol: string }): Promise<void>;
+  // 按 orderId 或 origClientOrderId 查询订单（含已成交/已撤销），不存在时抛出 -2013；下单结果未知时用于确认是否已生效
+  queryOrder?(params: QueryOrderParams): Promise<AsterOrder>;
   // 新增：获取历史K线数据
   getKlines(symbol: string, interval: string, limit: number): Promise<AsterKline[]>;
+  // 交易对下单规则，未实现或获取不到时下单退回到配置中的 priceTick/qtyStep
+  getSymbolFilters?(symbol: string): Promise<AsterSymbolFilters | null>;
+  // 账户持仓模式：true 为对冲（双向持仓），false 为单向，无法确定时返回 null
+  getDualSidePosition?(): Promise<boolean | null>;
+  // 杠杆与保证金模式管理，未实现的适配器由引擎跳过启动时的账户设置
+  setLeverage?(symbol: string, leverage: number): Promise<AsterLeverageResult>;
+  setMarginType?(symbol: string, marginType: MarginType): Promise<void>;
+  adjustIsolatedMargin?(params: AdjustIsolatedMarginParams): Promise<void>;
+  getLeverageBrackets?(symbol: string): Promise<AsterLeverageBracket[]>;
+  // 资金流水与账户成交历史，供本地账本同步已实现盈亏、资金费与手续费
+  getIncomeHistory?(query?: IncomeHistoryQuery): Promise<AsterIncome[]>;
+  getUserTrades?(query: UserTradesQuery): Promise<AsterUserTrade[]>;
+  // REST 请求权重与下单次数的使用情况，不经过 REST 的适配器返回 null 或不实现
+  getRateLimitUsage?(): RateLimitUsage | null;
+  // 本地时钟与服务器时间偏差超过告警阈值时回调（签名时间戳已自动校正）
+  watchClockDrift?(cb: (status: ClockSyncStatus) => void): Unsubscribe;
+  // WebSocket 数据流健康状况（最后消息时间、消息速率、是否静默），引擎据此在行情冻结时暂停下单
+  getStreamHealth?(): StreamHealth[];
+  // 释放适配器：关闭 WebSocket、停止定时刷新与 listenKey 保活并注销 listenKey；之后不应再使用该适配器
+  close(): Promise<void>;
 }
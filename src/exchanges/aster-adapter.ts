@@ -2,12 +2,38 @@ import type {
   AccountListener,
   DepthListener,
   ExchangeAdapter,
+  FillListener,
   KlineListener,
+  MarkPriceListener,
   OrderListener,
   TickerListener,
+  TradeListener,
+  Unsubscribe,
 } from "./adapter";
-import type { AsterOrder, CreateOrderParams, AsterDepth, AsterTicker, AsterKline } from "./types";
-import { AsterGateway } from "./aster/client";
+import type {
+  AdjustIsolatedMarginParams,
+  AsterOrder,
+  CreateOrderParams,
+  AsterDepth,
+  AsterFill,
+  AsterIncome,
+  AsterTicker,
+  AsterKline,
+  AsterLeverageBracket,
+  AsterLeverageResult,
+  AsterMarkPrice,
+  AsterSymbolFilters,
+  AsterTrade,
+  AsterUserTrade,
+  ClockSyncStatus,
+  IncomeHistoryQuery,
+  MarginType,
+  QueryOrderParams,
+  RateLimitUsage,
+  StreamHealth,
+  UserTradesQuery,
+} from "./types";
+import { acquireAsterGateway, releaseAsterGateway, type AsterGateway } from "./aster/client";
 
 export interface AsterCredentials {
   apiKey?: string;
@@ -15,17 +41,33 @@ export interface AsterCredentials {
   symbol?: string;
 }
 
+/**
+ * 绑定单个交易对的适配器；同一 API Key 的适配器共享网关，挂单与成交推送只包含本交易对
+ */
 export class AsterExchangeAdapter implements ExchangeAdapter {
   readonly id = "aster";
   private readonly gateway: AsterGateway;
+  private readonly ownsGateway: boolean;
   private readonly symbol: string;
+  private readonly subscriptions = new Set<Unsubscribe>();
   private initPromise: Promise<void> | null = null;
+  private closed = false;
 
-  constructor(credentials: AsterCredentials = {}) {
-    this.gateway = new AsterGateway({ apiKey: credentials.apiKey, apiSecret: credentials.apiSecret });
+  constructor(credentials: AsterCredentials = {}, gateway?: AsterGateway) {
+    this.ownsGateway = !gateway;
+    this.gateway = gateway ?? acquireAsterGateway({ apiKey: credentials.apiKey, apiSecret: credentials.apiSecret });
     this.symbol = (credentials.symbol ?? process.env.TRADE_SYMBOL ?? "BTCUSDT").toUpperCase();
   }
 
+  /** 记录本适配器的订阅，close() 时统一取消，避免共享网关上残留监听器 */
+  private track(unsubscribe: Unsubscribe): Unsubscribe {
+    this.subscriptions.add(unsubscribe);
+    return () => {
+      if (!this.subscriptions.delete(unsubscribe)) return;
+      unsubscribe();
+    };
+  }
+
   private ensureInitialized(): Promise<void> {
     if (!this.initPromise) {
       this.initPromise = this.gateway.ensureInitialized(this.symbol);
@@ -33,39 +75,67 @@ export class AsterExchangeAdapter implements ExchangeAdapter {
     return this.initPromise;
   }
 
-  watchAccount(cb: AccountListener): void {
+  watchAccount(cb: AccountListener): Unsubscribe {
     void this.ensureInitialized();
-    this.gateway.onAccount((snapshot) => {
+    return this.track(this.gateway.onAccount((snapshot) => {
       cb(snapshot);
-    });
+    }));
   }
 
-  watchOrders(cb: OrderListener): void {
+  watchOrders(cb: OrderListener): Unsubscribe {
     void this.ensureInitialized();
-    this.gateway.onOrders((orders) => {
+    return this.track(this.gateway.onOrders((orders) => {
       cb(orders);
-    });
+    }, this.symbol));
   }
 
-  watchDepth(symbol: string, cb: DepthListener): void {
+  watchFills(cb: FillListener): Unsubscribe {
     void this.ensureInitialized();
-    this.gateway.onDepth(symbol, (depth: AsterDepth) => {
+    return this.track(this.gateway.onFills((fill: AsterFill) => {
+      cb(fill);
+    }, this.symbol));
+  }
+
+  watchDepth(symbol: string, cb: DepthListener): Unsubscribe {
+    void this.ensureInitialized();
+    return this.track(this.gateway.onDepth(symbol, (depth: AsterDepth) => {
       cb(depth);
-    });
+    }));
   }
 
-  watchTicker(symbol: string, cb: TickerListener): void {
+  watchOrderBook(symbol: string, levels: number, cb: DepthListener): Unsubscribe {
     void this.ensureInitialized();
-    this.gateway.onTicker(symbol, (ticker: AsterTicker) => {
+    return this.track(this.gateway.onOrderBook(symbol, levels, (depth: AsterDepth) => {
+      cb(depth);
+    }));
+  }
+
+  watchTicker(symbol: string, cb: TickerListener): Unsubscribe {
+    void this.ensureInitialized();
+    return this.track(this.gateway.onTicker(symbol, (ticker: AsterTicker) => {
       cb(ticker);
-    });
+    }));
+  }
+
+  watchTrades(symbol: string, cb: TradeListener): Unsubscribe {
+    void this.ensureInitialized();
+    return this.track(this.gateway.onTrades(symbol, (trade: AsterTrade) => {
+      cb(trade);
+    }));
   }
 
-  watchKlines(symbol: string, interval: string, cb: KlineListener): void {
+  watchMarkPrice(symbol: string, cb: MarkPriceListener): Unsubscribe {
     void this.ensureInitialized();
-    this.gateway.onKlines(symbol, interval, (klines: AsterKline[]) => {
+    return this.track(this.gateway.onMarkPrice(symbol, (mark: AsterMarkPrice) => {
+      cb(mark);
+    }));
+  }
+
+  watchKlines(symbol: string, interval: string, cb: KlineListener): Unsubscribe {
+    void this.ensureInitialized();
+    return this.track(this.gateway.onKlines(symbol, interval, (klines: AsterKline[]) => {
       cb(klines);
-    });
+    }));
   }
 
   async createOrder(params: CreateOrderParams): Promise<AsterOrder> {
@@ -73,6 +143,11 @@ export class AsterExchangeAdapter implements ExchangeAdapter {
     return this.gateway.createOrder(params);
   }
 
+  async queryOrder(params: QueryOrderParams): Promise<AsterOrder> {
+    await this.ensureInitialized();
+    return this.gateway.queryOrder(params);
+  }
+
   async cancelOrder(params: { symbol: string; orderId: number | string }): Promise<void> {
     await this.ensureInitialized();
     await this.gateway.cancelOrder({ symbol: params.symbol, orderId: Number(params.orderId) });
@@ -92,4 +167,70 @@ export class AsterExchangeAdapter implements ExchangeAdapter {
     await this.ensureInitialized();
     return this.gateway.getKlines(symbol, interval, limit);
   }
+
+  async getDualSidePosition(): Promise<boolean | null> {
+    await this.ensureInitialized();
+    return this.gateway.getDualSidePosition();
+  }
+
+  async setLeverage(symbol: string, leverage: number): Promise<AsterLeverageResult> {
+    await this.ensureInitialized();
+    return this.gateway.setLeverage(symbol, leverage);
+  }
+
+  async setMarginType(symbol: string, marginType: MarginType): Promise<void> {
+    await this.ensureInitialized();
+    await this.gateway.setMarginType(symbol, marginType);
+  }
+
+  async adjustIsolatedMargin(params: AdjustIsolatedMarginParams): Promise<void> {
+    await this.ensureInitialized();
+    await this.gateway.adjustIsolatedMargin(params);
+  }
+
+  async getLeverageBrackets(symbol: string): Promise<AsterLeverageBracket[]> {
+    await this.ensureInitialized();
+    return this.gateway.getLeverageBrackets(symbol);
+  }
+
+  async getIncomeHistory(query?: IncomeHistoryQuery): Promise<AsterIncome[]> {
+    await this.ensureInitialized();
+    return this.gateway.getIncomeHistory(query);
+  }
+
+  async getUserTrades(query: UserTradesQuery): Promise<AsterUserTrade[]> {
+    await this.ensureInitialized();
+    return this.gateway.getUserTrades(query);
+  }
+
+  getRateLimitUsage(): RateLimitUsage {
+    return this.gateway.getRateLimitUsage();
+  }
+
+  watchClockDrift(cb: (status: ClockSyncStatus) => void): Unsubscribe {
+    return this.track(this.gateway.onClockDrift(cb));
+  }
+
+  getStreamHealth(): StreamHealth[] {
+    return this.gateway.getStreamHealth();
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    this.subscriptions.forEach((unsubscribe) => unsubscribe());
+    this.subscriptions.clear();
+    if (this.ownsGateway) {
+      releaseAsterGateway(this.gateway);
+    }
+  }
+
+  async getSymbolFilters(symbol: string): Promise<AsterSymbolFilters | null> {
+    try {
+      return await this.gateway.getSymbolFilters(symbol);
+    } catch (error) {
+      console.warn(`[AsterExchangeAdapter] 获取 ${symbol} 交易规则失败，使用配置中的精度`, error);
+      return null;
+    }
+  }
 }
@@ -1,16 +1,37 @@
 import * as crypto from "crypto";
 import { setInterval, clearInterval, setTimeout, clearTimeout } from "timers";
 import { getAsterApiKey, getAsterApiSecret } from "../../utils/api-credentials";
+import { ExchangeRequestError, classifyExchangeError, extractMessage, isRetryableError } from "../../utils/errors";
 import type {
+  AdjustIsolatedMarginParams,
   AsterAccountPosition,
   AsterAccountSnapshot,
   AsterDepth,
+  AsterFill,
+  AsterIncome,
   AsterKline,
+  AsterLeverageBracket,
+  AsterLeverageResult,
+  AsterMarkPrice,
   AsterOrder,
+  AsterSymbolFilters,
   AsterTicker,
+  AsterTrade,
+  AsterUserTrade,
+  ClockSyncStatus,
   CreateOrderParams,
+  IncomeHistoryQuery,
+  MarginType,
   PositionSide,
+  QueryOrderParams,
+  RateLimitUsage,
+  StreamHealth,
+  UserTradesQuery,
 } from "../types";
+import { LocalOrderBook } from "./order-book";
+import { RateLimitTracker } from "./rate-limit";
+import { StreamHealthTracker, loadStreamWatchdogConfig, type StreamWatchdogConfig } from "./stream-health";
+import { TimeSync, loadTimeSyncConfig } from "./time-sync";
 
 const REST_BASE = "https://fapi.asterdex.com";
 const WS_PUBLIC_URL = "wss://fstream.asterdex.com/ws";
@@ -19,11 +40,26 @@ const WS_LISTEN_KEY_URL = "wss://fstream.asterdex.com/ws/";
 const FINAL_ORDER_STATUSES = new Set(["FILLED", "CANCELED", "REJECTED", "EXPIRED"]);
 const DEFAULT_DEPTH_LEVEL = 20;
 const DEFAULT_DEPTH_SPEED = "100ms";
+const ORDER_BOOK_SNAPSHOT_LIMIT = 1000;
 const DEFAULT_KLINE_LIMIT = 120;
 const KLINE_REFRESH_INTERVAL_MS = 60_000;
 const LISTEN_KEY_KEEPALIVE_MS = 30 * 60 * 1000;
 const RECONNECT_DELAY_MS = 2000;
 const POSITION_SYNC_INTERVAL_MS = 5000;
+const REQUEST_TIMEOUT_MS = 10_000;
+const MAX_REQUEST_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8000;
+const ORDER_PATHS = new Set(["/fapi/v1/order", "/fapi/v1/batchOrders"]);
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function parseRetryAfter(value: string | null): number | null {
+  const seconds = Number(value);
+  return value != null && Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : null;
+}
 
 function requireEnv(value: string | undefined, key: string): string {
   if (!value) {
@@ -39,6 +75,8 @@ function toDepth(streamSymbol: string, data: any): AsterDepth {
     tradeTime: data.T,
     symbol: streamSymbol,
     lastUpdateId: data.u,
+    firstUpdateId: data.U,
+    prevUpdateId: data.pu,
     bids: (data.b ?? []).map(([price, qty]: [string, string]) => [price, qty]),
     asks: (data.a ?? []).map(([price, qty]: [string, string]) => [price, qty]),
   };
@@ -67,6 +105,34 @@ function toTicker(data: any): AsterTicker {
   };
 }
 
+function toTrade(data: any): AsterTrade {
+  return {
+    eventType: data.e,
+    eventTime: data.E,
+    symbol: String(data.s ?? "").toUpperCase(),
+    aggTradeId: data.a,
+    price: data.p,
+    quantity: data.q,
+    firstTradeId: data.f,
+    lastTradeId: data.l,
+    tradeTime: data.T,
+    buyerMaker: Boolean(data.m),
+  };
+}
+
+function toMarkPrice(data: any): AsterMarkPrice {
+  return {
+    eventType: data.e,
+    eventTime: data.E,
+    symbol: String(data.s ?? "").toUpperCase(),
+    markPrice: data.p,
+    indexPrice: data.i,
+    estimatedSettlePrice: data.P,
+    fundingRate: data.r,
+    nextFundingTime: Number(data.T),
+  };
+}
+
 function toKline(data: any): AsterKline {
   return {
     eventType: data.e,
@@ -90,7 +156,7 @@ function toKline(data: any): AsterKline {
   };
 }
 
-function fromRestKline(entry: any[], interval: string, symbol: string): AsterKline {
+export function fromRestKline(entry: any[], interval: string, symbol: string): AsterKline {
   return {
     eventType: undefined,
     eventTime: undefined,
@@ -167,6 +233,74 @@ function toOrderFromEvent(event: any): AsterOrder {
   };
 }
 
+/** 解析 ORDER_TRADE_UPDATE 的订单字段 o 为成交回报 */
+export function toFillFromEvent(event: any, eventTime?: number): AsterFill {
+  return {
+    symbol: String(event.s ?? "").toUpperCase(),
+    orderId: Number(event.i),
+    clientOrderId: event.c ?? "",
+    tradeId: Number(event.t ?? 0),
+    side: event.S,
+    positionSide: event.ps ?? "BOTH",
+    orderType: event.o ?? "",
+    orderStatus: event.X ?? "",
+    reduceOnly: Boolean(event.R),
+    lastFilledQty: event.l ?? "0",
+    lastFilledPrice: event.L ?? "0",
+    cumulativeFilledQty: event.z ?? "0",
+    avgPrice: event.ap ?? "0",
+    commission: event.n ?? "0",
+    commissionAsset: event.N ?? "",
+    isMaker: Boolean(event.m),
+    realizedPnl: event.rp ?? "0",
+    tradeTime: Number(event.T ?? eventTime ?? Date.now()),
+    eventTime,
+  };
+}
+
+function toIncome(raw: any): AsterIncome {
+  return {
+    symbol: raw.symbol ?? "",
+    incomeType: raw.incomeType ?? "",
+    income: String(raw.income ?? "0"),
+    asset: raw.asset ?? "",
+    info: raw.info ?? "",
+    time: Number(raw.time),
+    tranId: Number(raw.tranId),
+    tradeId: String(raw.tradeId ?? ""),
+  };
+}
+
+function toUserTrade(raw: any): AsterUserTrade {
+  return {
+    symbol: raw.symbol ?? "",
+    id: Number(raw.id),
+    orderId: Number(raw.orderId),
+    side: raw.side,
+    positionSide: raw.positionSide ?? "BOTH",
+    price: String(raw.price ?? "0"),
+    qty: String(raw.qty ?? "0"),
+    quoteQty: String(raw.quoteQty ?? "0"),
+    commission: String(raw.commission ?? "0"),
+    commissionAsset: raw.commissionAsset ?? "",
+    realizedPnl: String(raw.realizedPnl ?? "0"),
+    maker: Boolean(raw.maker),
+    buyer: Boolean(raw.buyer),
+    time: Number(raw.time),
+  };
+}
+
+function toLeverageBracket(raw: any): AsterLeverageBracket {
+  return {
+    bracket: Number(raw.bracket),
+    initialLeverage: Number(raw.initialLeverage),
+    notionalCap: Number(raw.notionalCap),
+    notionalFloor: Number(raw.notionalFloor),
+    maintMarginRatio: Number(raw.maintMarginRatio),
+    cum: Number(raw.cum ?? 0),
+  };
+}
+
 function toPositionFromRisk(raw: any): AsterAccountPosition {
   const positionSide = String(raw.positionSide ?? raw.ps ?? "BOTH").toUpperCase() as PositionSide;
   return {
@@ -210,8 +344,10 @@ function clonePositions(positions: AsterAccountPosition[]): AsterAccountPosition
 class SimpleEvent<T> {
   private readonly listeners = new Set<(payload: T) => void>();
 
-  add(listener: (payload: T) => void): void {
+  /** 返回取消订阅函数 */
+  add(listener: (payload: T) => void): () => void {
     this.listeners.add(listener);
+    return () => this.remove(listener);
   }
 
   remove(listener: (payload: T) => void): void {
@@ -233,6 +369,148 @@ class SimpleEvent<T> {
   }
 }
 
+/**
+ * 公共K线接口无需签名，供不持有API密钥的场景（如模拟盘）直接调用
+ */
+export async function fetchPublicKlines(symbol: string, interval: string, limit = DEFAULT_KLINE_LIMIT): Promise<AsterKline[]> {
+  const upper = symbol.toUpperCase();
+  const url = `${REST_BASE}/fapi/v1/continuousKlines?pair=${upper}&contractType=PERPETUAL&interval=${encodeURIComponent(interval)}&limit=${limit}`;
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    throw new Error(`[AsterRestClient] 获取K线失败 ${String(error)}`);
+  }
+  const text = await response.text();
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} ${text}`);
+  }
+  try {
+    const payload = JSON.parse(text) as any[];
+    return payload.map((entry) => fromRestKline(entry, interval, upper));
+  } catch (error) {
+    throw new Error(`[AsterRestClient] 无法解析K线响应: ${text.slice(0, 200)}`);
+  }
+}
+
+function filterNumber(value: unknown, fallback = 0): number {
+  const next = Number(value);
+  return Number.isFinite(next) ? next : fallback;
+}
+
+/**
+ * 解析 exchangeInfo 中单个交易对的过滤器
+ */
+export function parseSymbolFilters(info: any): AsterSymbolFilters {
+  const filters: any[] = Array.isArray(info?.filters) ? info.filters : [];
+  const find = (type: string) => filters.find((filter) => filter?.filterType === type) ?? {};
+  const price = find("PRICE_FILTER");
+  const lot = find("LOT_SIZE");
+  const marketLot = find("MARKET_LOT_SIZE");
+  const notional = find("MIN_NOTIONAL");
+  const percent = find("PERCENT_PRICE");
+  const qtyStep = filterNumber(lot.stepSize);
+  const minQty = filterNumber(lot.minQty);
+  const maxQty = filterNumber(lot.maxQty);
+  return {
+    symbol: String(info?.symbol ?? "").toUpperCase(),
+    priceTick: filterNumber(price.tickSize),
+    minPrice: filterNumber(price.minPrice),
+    maxPrice: filterNumber(price.maxPrice),
+    qtyStep,
+    minQty,
+    maxQty,
+    marketQtyStep: filterNumber(marketLot.stepSize, qtyStep) || qtyStep,
+    marketMinQty: filterNumber(marketLot.minQty, minQty),
+    marketMaxQty: filterNumber(marketLot.maxQty, maxQty),
+    minNotional: filterNumber(notional.notional ?? notional.minNotional),
+    percentPriceUp: filterNumber(percent.multiplierUp),
+    percentPriceDown: filterNumber(percent.multiplierDown),
+  };
+}
+
+/**
+ * 公共 exchangeInfo 接口，返回全部交易对的下单规则
+ */
+export async function fetchExchangeInfo(): Promise<AsterSymbolFilters[]> {
+  let response: Response;
+  try {
+    response = await fetch(`${REST_BASE}/fapi/v1/exchangeInfo`);
+  } catch (error) {
+    throw new Error(`[AsterRestClient] 获取交易规则失败 ${String(error)}`);
+  }
+  const text = await response.text();
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} ${text}`);
+  }
+  let payload: any;
+  try {
+    payload = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`[AsterRestClient] 无法解析交易规则响应: ${text.slice(0, 200)}`);
+  }
+  const symbols: any[] = Array.isArray(payload?.symbols) ? payload.symbols : [];
+  return symbols.map(parseSymbolFilters).filter((filters) => filters.symbol.length > 0);
+}
+
+/**
+ * 交易所服务器时间（毫秒），用于校正签名时间戳
+ */
+export async function fetchServerTime(): Promise<number> {
+  let response: Response;
+  try {
+    response = await fetch(`${REST_BASE}/fapi/v1/time`, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  } catch (error) {
+    throw new Error(`[AsterRestClient] 获取服务器时间失败 ${String(error)}`);
+  }
+  const text = await response.text();
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} ${text}`);
+  }
+  let payload: any;
+  try {
+    payload = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`[AsterRestClient] 无法解析服务器时间响应: ${text.slice(0, 200)}`);
+  }
+  const serverTime = Number(payload?.serverTime);
+  if (!Number.isFinite(serverTime)) {
+    throw new Error(`[AsterRestClient] 服务器时间无效: ${text.slice(0, 200)}`);
+  }
+  return serverTime;
+}
+
+/**
+ * 公共深度快照接口，用作本地订单簿的同步起点
+ */
+export async function fetchDepthSnapshot(symbol: string, limit = ORDER_BOOK_SNAPSHOT_LIMIT): Promise<AsterDepth> {
+  const upper = symbol.toUpperCase();
+  let response: Response;
+  try {
+    response = await fetch(`${REST_BASE}/fapi/v1/depth?symbol=${upper}&limit=${limit}`);
+  } catch (error) {
+    throw new Error(`[AsterRestClient] 获取深度快照失败 ${String(error)}`);
+  }
+  const text = await response.text();
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} ${text}`);
+  }
+  let payload: any;
+  try {
+    payload = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`[AsterRestClient] 无法解析深度快照响应: ${text.slice(0, 200)}`);
+  }
+  return {
+    symbol: upper,
+    lastUpdateId: Number(payload.lastUpdateId),
+    eventTime: payload.E,
+    tradeTime: payload.T,
+    bids: payload.bids ?? [],
+    asks: payload.asks ?? [],
+  };
+}
+
 export interface ListenKeyResponse {
   listenKey: string;
 }
@@ -240,8 +518,10 @@ export interface ListenKeyResponse {
 export class AsterRestClient {
   private readonly apiKey: string;
   private readonly apiSecret: string;
+  private readonly rateLimits = new RateLimitTracker();
+  private readonly timeSync: TimeSync;
 
-  constructor(options: { apiKey?: string; apiSecret?: string } = {}) {
+  constructor(options: { apiKey?: string; apiSecret?: string; recvWindow?: number } = {}) {
     // 优先使用传入的凭证，如果没有则从凭证文件加载
     this.apiKey = requireEnv(
       options.apiKey ?? getAsterApiKey(), 
@@ -251,6 +531,28 @@ export class AsterRestClient {
       options.apiSecret ?? getAsterApiSecret(), 
       "ASTER_API_SECRET"
     );
+    const timeSyncConfig = loadTimeSyncConfig();
+    this.timeSync = new TimeSync(fetchServerTime, {
+      ...timeSyncConfig,
+      recvWindow: options.recvWindow ?? timeSyncConfig.recvWindow,
+    });
+  }
+
+  /** 启动定期校时，首次校时失败时仍使用本地时钟 */
+  startTimeSync(): Promise<ClockSyncStatus | null> {
+    return this.timeSync.start();
+  }
+
+  stopTimeSync(): void {
+    this.timeSync.stop();
+  }
+
+  getClockStatus(): ClockSyncStatus {
+    return this.timeSync.getStatus();
+  }
+
+  onClockDrift(listener: (status: ClockSyncStatus) => void): () => void {
+    return this.timeSync.onDrift(listener);
   }
 
   async getAccount(): Promise<AsterAccountSnapshot> {
@@ -277,6 +579,11 @@ export class AsterRestClient {
     return toOrderFromRest(response);
   }
 
+  async queryOrder(params: QueryOrderParams): Promise<AsterOrder> {
+    const response = await this.signedRequest<any>({ path: "/fapi/v1/order", method: "GET", params: { ...params } });
+    return toOrderFromRest(response);
+  }
+
   async cancelOrder(params: { symbol: string; orderId?: number; origClientOrderId?: string }): Promise<AsterOrder> {
     const response = await this.signedRequest<any>({ path: "/fapi/v1/order", method: "DELETE", params });
     return toOrderFromRest(response);
@@ -294,25 +601,82 @@ export class AsterRestClient {
     await this.signedRequest({ path: "/fapi/v1/allOpenOrders", method: "DELETE", params });
   }
 
+  /** 账户持仓模式，true 为对冲（双向持仓）模式 */
+  async getPositionSideDual(): Promise<boolean> {
+    const response = await this.signedRequest<{ dualSidePosition: boolean | string }>({
+      path: "/fapi/v1/positionSide/dual",
+      method: "GET",
+      params: {},
+    });
+    return response.dualSidePosition === true || response.dualSidePosition === "true";
+  }
+
+  async setLeverage(symbol: string, leverage: number): Promise<AsterLeverageResult> {
+    const response = await this.signedRequest<any>({
+      path: "/fapi/v1/leverage",
+      method: "POST",
+      params: { symbol: symbol.toUpperCase(), leverage },
+    });
+    return {
+      symbol: response.symbol ?? symbol.toUpperCase(),
+      leverage: Number(response.leverage),
+      maxNotionalValue: Number(response.maxNotionalValue),
+    };
+  }
+
+  async setMarginType(symbol: string, marginType: MarginType): Promise<void> {
+    await this.signedRequest({ path: "/fapi/v1/marginType", method: "POST", params: { symbol: symbol.toUpperCase(), marginType } });
+  }
+
+  async adjustIsolatedMargin(params: AdjustIsolatedMarginParams): Promise<void> {
+    await this.signedRequest({
+      path: "/fapi/v1/positionMargin",
+      method: "POST",
+      params: {
+        symbol: params.symbol.toUpperCase(),
+        positionSide: params.positionSide,
+        amount: params.amount,
+        type: params.type === "ADD" ? 1 : 2,
+      },
+    });
+  }
+
+  /** 指定交易对时部分版本返回单个对象，统一按数组解析 */
+  async getLeverageBrackets(symbol: string): Promise<AsterLeverageBracket[]> {
+    const response = await this.signedRequest<any>({
+      path: "/fapi/v1/leverageBracket",
+      method: "GET",
+      params: { symbol: symbol.toUpperCase() },
+    });
+    const list: any[] = Array.isArray(response) ? response : [response];
+    const entry = list.find((item) => item?.symbol === symbol.toUpperCase()) ?? list[0];
+    return Array.isArray(entry?.brackets) ? entry.brackets.map(toLeverageBracket) : [];
+  }
+
+  async getIncomeHistory(query: IncomeHistoryQuery = {}): Promise<AsterIncome[]> {
+    const response = await this.signedRequest<any[]>({
+      path: "/fapi/v1/income",
+      method: "GET",
+      params: { ...query, symbol: query.symbol?.toUpperCase() },
+    });
+    return Array.isArray(response) ? response.map(toIncome) : [];
+  }
+
+  async getUserTrades(query: UserTradesQuery): Promise<AsterUserTrade[]> {
+    const response = await this.signedRequest<any[]>({
+      path: "/fapi/v1/userTrades",
+      method: "GET",
+      params: { ...query, symbol: query.symbol.toUpperCase() },
+    });
+    return Array.isArray(response) ? response.map(toUserTrade) : [];
+  }
+
   async getKlines(symbol: string, interval: string, limit = DEFAULT_KLINE_LIMIT): Promise<AsterKline[]> {
-    const upper = symbol.toUpperCase();
-    const url = `${REST_BASE}/fapi/v1/continuousKlines?pair=${upper}&contractType=PERPETUAL&interval=${encodeURIComponent(interval)}&limit=${limit}`;
-    let response: Response;
-    try {
-      response = await fetch(url);
-    } catch (error) {
-      throw new Error(`[AsterRestClient] 获取K线失败 ${String(error)}`);
-    }
-    const text = await response.text();
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status} ${text}`);
-    }
-    try {
-      const payload = JSON.parse(text) as any[];
-      return payload.map((entry) => fromRestKline(entry, interval, upper));
-    } catch (error) {
-      throw new Error(`[AsterRestClient] 无法解析K线响应: ${text.slice(0, 200)}`);
-    }
+    return fetchPublicKlines(symbol, interval, limit);
+  }
+
+  async getExchangeInfo(): Promise<AsterSymbolFilters[]> {
+    return fetchExchangeInfo();
   }
 
   async getListenKey(): Promise<string> {
@@ -328,9 +692,56 @@ export class AsterRestClient {
     await this.signedRequest({ path: "/fapi/v1/listenKey", method: "DELETE", params: { listenKey } });
   }
 
-  private async signedRequest<T>({ path, method, params }: { path: string; method: string; params: Record<string, unknown> }): Promise<T> {
-    const timestamp = Date.now();
-    const payload = { ...params, timestamp, recvWindow: 5000 };
+  getRateLimitUsage(): RateLimitUsage {
+    return this.rateLimits.getUsage();
+  }
+
+  /**
+   * 签名请求：接近频率上限时先等待，可重试的错误按退避重试（非幂等的 POST 只在确定未受理时重试）
+   */
+  private async signedRequest<T>(request: { path: string; method: string; params: Record<string, unknown> }): Promise<T> {
+    const isOrder = request.method !== "GET" && ORDER_PATHS.has(request.path);
+    for (let attempt = 0; ; attempt += 1) {
+      await this.throttle(isOrder);
+      try {
+        return await this.sendSignedRequest<T>(request);
+      } catch (error) {
+        if (attempt >= MAX_REQUEST_RETRIES || !isRetryableError(error, request.method !== "POST")) throw error;
+        if (classifyExchangeError(error) === "timestamp") {
+          // 时间戳超出 recvWindow：先重新校时，再用校正后的时间戳立即重发
+          const status = await this.timeSync.sync();
+          console.warn(`[AsterRestClient] ${request.method} ${request.path} 时间戳超出 recvWindow，重新校时后重试（偏差 ${status?.offsetMs ?? "未知"}ms）`);
+          continue;
+        }
+        const retryAfter = error instanceof ExchangeRequestError ? error.retryAfterMs : null;
+        const delay = retryAfter ?? Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+        console.warn(
+          `[AsterRestClient] ${request.method} ${request.path} 失败(${classifyExchangeError(error)})，${delay}ms 后第 ${attempt + 1} 次重试: ${extractMessage(error)}`
+        );
+        await sleep(delay);
+      }
+    }
+  }
+
+  private async throttle(isOrder: boolean): Promise<void> {
+    const bannedUntil = this.rateLimits.getBannedUntil();
+    if (bannedUntil) {
+      throw new ExchangeRequestError(
+        `HTTP 418 {"code":-1003,"msg":"IP 因请求过多被限制，${new Date(bannedUntil).toLocaleTimeString()} 后解除"}`,
+        418,
+        bannedUntil - Date.now()
+      );
+    }
+    const wait = this.rateLimits.waitTime(isOrder);
+    if (wait <= 0) return;
+    this.rateLimits.recordThrottle();
+    console.warn(`[AsterRestClient] 接近${isOrder ? "下单" : "请求"}频率上限，等待 ${wait}ms`);
+    await sleep(wait);
+  }
+
+  private async sendSignedRequest<T>({ path, method, params }: { path: string; method: string; params: Record<string, unknown> }): Promise<T> {
+    const timestamp = this.timeSync.timestamp();
+    const payload = { ...params, timestamp, recvWindow: this.timeSync.recvWindow };
     const query = this.serialize(payload);
     const signature = crypto.createHmac("sha256", this.apiSecret).update(query).digest("hex");
     const url = `${REST_BASE}${path}?${query}&signature=${signature}`;
@@ -340,16 +751,23 @@ export class AsterRestClient {
         "X-MBX-APIKEY": this.apiKey,
         "Content-Type": "application/x-www-form-urlencoded",
       },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
     };
     let response: Response;
+    let text: string;
     try {
       response = await fetch(url, init);
+      text = await response.text();
     } catch (error) {
-      throw new Error(`[AsterRestClient] 请求失败 ${String(error)}`);
+      throw new ExchangeRequestError(`[AsterRestClient] 请求失败 ${String(error)}`, null);
     }
-    const text = await response.text();
+    this.rateLimits.update(response.headers);
     if (!response.ok) {
-      throw new Error(`HTTP ${response.status} ${text}`);
+      const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+      if (response.status === 418) {
+        this.rateLimits.ban(retryAfter, text);
+      }
+      throw new ExchangeRequestError(`HTTP ${response.status} ${text}`, response.status, retryAfter);
     }
     try {
       return JSON.parse(text) as T;
@@ -370,8 +788,23 @@ export class AsterRestClient {
 type DepthHandler = (depth: AsterDepth) => void;
 type TickerHandler = (ticker: AsterTicker) => void;
 type KlineHandler = (kline: AsterKline) => void;
-
-type StreamKind = "depth" | "ticker" | "kline";
+type TradeHandler = (trade: AsterTrade) => void;
+type MarkPriceHandler = (mark: AsterMarkPrice) => void;
+
+type StreamKind = "depth" | "ticker" | "kline" | "trade" | "markPrice";
+
+const EVENT_STREAM_KINDS: Record<string, StreamKind> = {
+  depthUpdate: "depth",
+  "24hrMiniTicker": "ticker",
+  kline: "kline",
+  aggTrade: "trade",
+  markPriceUpdate: "markPrice",
+};
+
+/** 看门狗检查间隔：静默阈值的三分之一，限制在 1~5 秒 */
+function watchdogInterval(staleMs: number): number {
+  return Math.min(Math.max(Math.floor(staleMs / 3), 1000), 5000);
+}
 
 interface StreamState {
   stream: string;
@@ -387,7 +820,20 @@ export class AsterPublicStreams {
   private readonly depthHandlers = new Map<string, Set<DepthHandler>>();
   private readonly tickerHandlers = new Map<string, Set<TickerHandler>>();
   private readonly klineHandlers = new Map<string, Set<KlineHandler>>();
+  private readonly tradeHandlers = new Map<string, Set<TradeHandler>>();
+  private readonly markPriceHandlers = new Map<string, Set<MarkPriceHandler>>();
   private nextRequestId = 1;
+  private readonly health: StreamHealthTracker;
+  private watchdogTimer: ReturnType<typeof setInterval> | null = null;
+  private lastForcedReconnectAt = 0;
+
+  constructor(private readonly watchdog: StreamWatchdogConfig = loadStreamWatchdogConfig()) {
+    this.health = new StreamHealthTracker(watchdog.staleMs);
+  }
+
+  getHealth(): StreamHealth[] {
+    return this.health.getHealth();
+  }
 
   subscribeDepth(symbol: string, handler: DepthHandler): void {
     const upper = symbol.toUpperCase();
@@ -396,6 +842,14 @@ export class AsterPublicStreams {
     this.registerStream(stream, { stream, kind: "depth", symbol: upper });
   }
 
+  /** 全量增量深度流 @depth，推送事件类型与有限档位流相同，需使用独立的连接订阅 */
+  subscribeDepthDiff(symbol: string, handler: DepthHandler): void {
+    const upper = symbol.toUpperCase();
+    const stream = `${upper.toLowerCase()}@depth@${DEFAULT_DEPTH_SPEED}`;
+    this.addHandler(this.depthHandlers, upper, handler);
+    this.registerStream(stream, { stream, kind: "depth", symbol: upper });
+  }
+
   subscribeTicker(symbol: string, handler: TickerHandler): void {
     const upper = symbol.toUpperCase();
     const stream = `${upper.toLowerCase()}@miniTicker`;
@@ -410,6 +864,21 @@ export class AsterPublicStreams {
     this.registerStream(stream, { stream, kind: "kline", symbol: upper, interval });
   }
 
+  subscribeTrades(symbol: string, handler: TradeHandler): void {
+    const upper = symbol.toUpperCase();
+    const stream = `${upper.toLowerCase()}@aggTrade`;
+    this.addHandler(this.tradeHandlers, upper, handler);
+    this.registerStream(stream, { stream, kind: "trade", symbol: upper });
+  }
+
+  /** 标记价格与资金费率推送，每 3 秒一次 */
+  subscribeMarkPrice(symbol: string, handler: MarkPriceHandler): void {
+    const upper = symbol.toUpperCase();
+    const stream = `${upper.toLowerCase()}@markPrice`;
+    this.addHandler(this.markPriceHandlers, upper, handler);
+    this.registerStream(stream, { stream, kind: "markPrice", symbol: upper });
+  }
+
   private addHandler<T>(map: Map<string, Set<T>>, key: string, handler: T): void {
     let set = map.get(key);
     if (!set) {
@@ -423,6 +892,7 @@ export class AsterPublicStreams {
   private registerStream(stream: string, state: StreamState): void {
     if (!this.streams.has(stream)) {
       this.streams.set(stream, state);
+      this.health.register(stream, state.kind, state.symbol);
       this.send({ method: "SUBSCRIBE", params: [stream], id: this.nextRequestId++ });
     }
   }
@@ -448,6 +918,8 @@ export class AsterPublicStreams {
     this.ws.onopen = () => {
       console.log("[AsterPublicStreams] 公共数据流连接成功");
       isReconnecting = false; // 重置重连标志
+      this.health.setConnected(true);
+      this.startWatchdog();
       
       const streams = Array.from(this.streams.keys());
       if (streams.length) {
@@ -471,6 +943,7 @@ export class AsterPublicStreams {
       if (payload.result !== undefined) return; // subscription ack
       const data = payload.data ?? payload;
       if (!data.e) return;
+      this.recordMessage(data);
       switch (data.e) {
         case "depthUpdate":
           this.dispatchDepth(data);
@@ -481,6 +954,12 @@ export class AsterPublicStreams {
         case "kline":
           this.dispatchKline(data);
           break;
+        case "aggTrade":
+          this.dispatchTrade(data);
+          break;
+        case "markPriceUpdate":
+          this.dispatchMarkPrice(data);
+          break;
         default:
           break;
       }
@@ -488,6 +967,7 @@ export class AsterPublicStreams {
     
     this.ws.onclose = (event) => {
       console.log(`[AsterPublicStreams] 公共数据流连接关闭: ${event.code} ${event.reason}`);
+      this.health.setConnected(false);
       
       // 只有在非重连状态下才尝试重连
       if (!isReconnecting) {
@@ -498,6 +978,7 @@ export class AsterPublicStreams {
     
     this.ws.onerror = (error) => {
       console.error("[AsterPublicStreams] 公共WebSocket错误:", error);
+      this.health.setConnected(false);
       
       // 防止递归关闭
       if (!isReconnecting && this.ws) {
@@ -533,6 +1014,49 @@ export class AsterPublicStreams {
     }, RECONNECT_DELAY_MS);
   }
 
+  private recordMessage(data: any): void {
+    const kind = EVENT_STREAM_KINDS[data.e];
+    if (!kind) return;
+    const symbol = String(data.s ?? "").toUpperCase();
+    const interval = kind === "kline" ? data.k?.i : undefined;
+    for (const state of this.streams.values()) {
+      if (state.kind === kind && state.symbol === symbol && state.interval === interval) {
+        this.health.record(state.stream);
+      }
+    }
+  }
+
+  private startWatchdog(): void {
+    if (this.watchdogTimer) return;
+    this.watchdogTimer = setInterval(() => this.checkStale(), watchdogInterval(this.watchdog.staleMs));
+  }
+
+  /** 连接仍在但持续推送的流长时间没有消息（静默断流）时，关闭旧连接重新订阅 */
+  private checkStale(): void {
+    const stale = this.health.staleStreams();
+    if (!stale.length) return;
+    const now = Date.now();
+    if (now - this.lastForcedReconnectAt < this.watchdog.staleMs) return;
+    this.lastForcedReconnectAt = now;
+    console.warn(`[AsterPublicStreams] ${stale.join(", ")} 超过 ${this.watchdog.staleMs}ms 未收到消息，强制重连`);
+    this.health.recordReconnect();
+    const ws = this.ws;
+    this.ws = null;
+    if (ws) {
+      ws.onopen = null;
+      ws.onclose = null;
+      ws.onerror = null;
+      ws.onmessage = null;
+      try {
+        ws.close();
+      } catch (error) {
+        console.error("[AsterPublicStreams] 关闭WebSocket失败:", error);
+      }
+    }
+    this.health.setConnected(false);
+    this.connect();
+  }
+
   private send(message: Record<string, unknown>): void {
     if (this.ws && this.ws.readyState === WebSocket.OPEN) {
       this.ws.send(JSON.stringify(message));
@@ -565,10 +1089,31 @@ export class AsterPublicStreams {
     handlers.forEach((handler) => handler(kline));
   }
 
+  private dispatchTrade(data: any): void {
+    const symbol = String(data.s ?? "").toUpperCase();
+    const handlers = this.tradeHandlers.get(symbol);
+    if (!handlers || !handlers.size) return;
+    const trade = toTrade(data);
+    handlers.forEach((handler) => handler(trade));
+  }
+
+  private dispatchMarkPrice(data: any): void {
+    const symbol = String(data.s ?? "").toUpperCase();
+    const handlers = this.markPriceHandlers.get(symbol);
+    if (!handlers || !handlers.size) return;
+    const mark = toMarkPrice(data);
+    handlers.forEach((handler) => handler(mark));
+  }
+
   // 添加安全的断开连接方法
   public disconnect(): void {
     console.log("[AsterPublicStreams] 正在断开连接...");
     
+    if (this.watchdogTimer) {
+      clearInterval(this.watchdogTimer);
+      this.watchdogTimer = null;
+    }
+
     if (this.reconnectTimeout) {
       clearTimeout(this.reconnectTimeout);
       this.reconnectTimeout = null;
@@ -582,7 +1127,7 @@ export class AsterPublicStreams {
         this.ws.onmessage = null;
         this.ws.onopen = null;
         
-        if (this.ws.readyState === WebSocket.OPEN) {
+        if (this.ws.readyState === WebSocket.OPEN || this.ws.readyState === WebSocket.CONNECTING) {
           this.ws.close();
         }
       } catch (error) {
@@ -596,6 +1141,10 @@ export class AsterPublicStreams {
     this.depthHandlers.clear();
     this.tickerHandlers.clear();
     this.klineHandlers.clear();
+    this.tradeHandlers.clear();
+    this.markPriceHandlers.clear();
+    this.health.setConnected(false);
+    this.health.clear();
     
     console.log("[AsterPublicStreams] ✅ 断开连接完成");
   }
@@ -618,9 +1167,18 @@ export class AsterUserStream {
   private readonly orderEvent = new SimpleEvent<{ eventTime: number; payload: OrderUpdatePayload }>();
   private readonly connectEvent = new SimpleEvent<void>();
   private isRunning = false;
+  private readonly health: StreamHealthTracker;
+  private watchdogTimer: ReturnType<typeof setInterval> | null = null;
+  private lastForcedReconnectAt = 0;
 
-  constructor(rest: AsterRestClient) {
+  constructor(rest: AsterRestClient, private readonly watchdog: StreamWatchdogConfig = loadStreamWatchdogConfig()) {
     this.rest = rest;
+    this.health = new StreamHealthTracker(watchdog.userStaleMs);
+    this.health.register("user", "user", null);
+  }
+
+  getHealth(): StreamHealth[] {
+    return this.isRunning ? this.health.getHealth() : [];
   }
 
   onAccount(listener: (payload: { eventTime: number; payload: AccountUpdatePayload }) => void): void {
@@ -639,12 +1197,24 @@ export class AsterUserStream {
     if (this.isRunning) return;
     this.isRunning = true;
     await this.ensureListenKey();
+    // 获取 listenKey 期间已被 stop()，不再建立连接
+    if (!this.isRunning) {
+      this.stop();
+      return;
+    }
     this.openSocket();
     this.scheduleKeepAlive();
+    this.startWatchdog();
   }
 
   stop(): void {
     this.isRunning = false;
+    this.health.setConnected(false);
+
+    if (this.watchdogTimer) {
+      clearInterval(this.watchdogTimer);
+      this.watchdogTimer = null;
+    }
     
     if (this.keepAliveTimer) {
       clearInterval(this.keepAliveTimer);
@@ -664,7 +1234,7 @@ export class AsterUserStream {
         this.ws.onmessage = null;
         this.ws.onopen = null;
         
-        if (this.ws.readyState === WebSocket.OPEN) {
+        if (this.ws.readyState === WebSocket.OPEN || this.ws.readyState === WebSocket.CONNECTING) {
           this.ws.close();
         }
       } catch (error) {
@@ -709,10 +1279,12 @@ export class AsterUserStream {
     this.ws.onopen = () => {
       console.log("[AsterUserStream] 用户数据流连接成功");
       isReconnecting = false; // 重置重连标志
+      this.health.setConnected(true);
       this.connectEvent.emit();
     };
     
     this.ws.onmessage = (event) => {
+      this.health.record("user");
       let payload: any;
       if (typeof event.data === "string") {
         try {
@@ -746,6 +1318,7 @@ export class AsterUserStream {
     
     this.ws.onclose = (event) => {
       console.log(`[AsterUserStream] 用户数据流连接关闭: ${event.code} ${event.reason}`);
+      this.health.setConnected(false);
       
       // 只有在非重连状态下才尝试重连
       if (!isReconnecting) {
@@ -756,6 +1329,7 @@ export class AsterUserStream {
     
     this.ws.onerror = (error) => {
       console.error("[AsterUserStream] 用户数据流WebSocket错误:", error);
+      this.health.setConnected(false);
       
       // 防止递归关闭
       if (!isReconnecting && this.ws) {
@@ -784,6 +1358,39 @@ export class AsterUserStream {
     };
   }
 
+  private startWatchdog(): void {
+    if (this.watchdogTimer) return;
+    this.watchdogTimer = setInterval(() => this.checkStale(), watchdogInterval(this.watchdog.userStaleMs));
+  }
+
+  /** 用户数据流断开过久时重新获取 listenKey 并重连，重连后网关会重新拉取账户与挂单快照 */
+  private checkStale(): void {
+    if (!this.isRunning || this.health.staleStreams().length === 0) return;
+    const now = Date.now();
+    if (now - this.lastForcedReconnectAt < this.watchdog.userStaleMs) return;
+    this.lastForcedReconnectAt = now;
+    console.warn(`[AsterUserStream] 连接断开超过 ${this.watchdog.userStaleMs}ms，重新获取 listenKey 并重连`);
+    this.health.recordReconnect();
+    const ws = this.ws;
+    this.ws = null;
+    if (ws) {
+      ws.onopen = null;
+      ws.onclose = null;
+      ws.onerror = null;
+      ws.onmessage = null;
+      try {
+        ws.close();
+      } catch (error) {
+        console.error("[AsterUserStream] 关闭WebSocket失败:", error);
+      }
+    }
+    this.health.setConnected(false);
+    void this.handleListenKeyExpired().catch((error) => {
+      console.error("[AsterUserStream] 重连失败", error);
+      this.scheduleReconnect();
+    });
+  }
+
   private async handleListenKeyExpired(): Promise<void> {
     this.listenKey = null;
     await this.ensureListenKey();
@@ -861,6 +1468,7 @@ function mergeOrderSnapshot(map: Map<number, AsterOrder>, order: AsterOrder): vo
 export class AsterGateway {
   private readonly rest: AsterRestClient;
   private readonly publicStreams: AsterPublicStreams;
+  private orderBookStreams: AsterPublicStreams | null = null;
   private readonly userStream: AsterUserStream;
 
   private accountSnapshot: AsterAccountSnapshot | null = null;
@@ -870,13 +1478,21 @@ export class AsterGateway {
 
   private readonly accountEvent = new SimpleEvent<AsterAccountSnapshot>();
   private readonly ordersEvent = new SimpleEvent<AsterOrder[]>();
+  private readonly symbolOrderEvents = new Map<string, SimpleEvent<AsterOrder[]>>();
+  private readonly fillEvent = new SimpleEvent<AsterFill>();
+  private readonly symbols = new Set<string>();
   private readonly depthEvents = new Map<string, SimpleEvent<AsterDepth>>();
   private readonly tickerEvents = new Map<string, SimpleEvent<AsterTicker>>();
   private readonly klineEvents = new Map<string, SimpleEvent<AsterKline[]>>();
+  private readonly tradeEvents = new Map<string, SimpleEvent<AsterTrade>>();
+  private readonly markPriceEvents = new Map<string, SimpleEvent<AsterMarkPrice>>();
+  private readonly lastMarkPrices = new Map<string, AsterMarkPrice>();
+  private readonly orderBooks = new Map<string, { book: LocalOrderBook; event: SimpleEvent<LocalOrderBook> }>();
 
   private readonly klineStores = new Map<string, AsterKline[]>();
   private readonly klineRefreshTimers = new Map<string, ReturnType<typeof setInterval>>();
   private readonly klineInitialFetches = new Map<string, Promise<void>>();
+  private symbolFilters: Promise<Map<string, AsterSymbolFilters>> | null = null;
   private initialized = false;
   private initializing: Promise<void> | null = null;
 
@@ -894,9 +1510,12 @@ export class AsterGateway {
     this.userStream.onOrder((event) => {
       const order = toOrderFromEvent(event.payload);
       mergeOrderSnapshot(this.openOrders, order);
-      this.ordersEvent.emit(Array.from(this.openOrders.values()));
+      this.emitOrders(order.symbol);
       const execType = typeof event.payload?.x === "string" ? event.payload.x.toUpperCase() : "";
       const status = typeof event.payload?.X === "string" ? event.payload.X.toUpperCase() : "";
+      if (execType === "TRADE") {
+        this.fillEvent.emit(toFillFromEvent(event.payload, event.eventTime));
+      }
       if (execType === "TRADE" || status === "FILLED" || status === "PARTIALLY_FILLED") {
         void this.refreshPositions();
       }
@@ -906,10 +1525,13 @@ export class AsterGateway {
     });
   }
 
+  /** 账户级初始化只做一次，之后每个交易对只登记到交易对列表 */
   async ensureInitialized(symbol: string): Promise<void> {
+    this.symbols.add(symbol.toUpperCase());
     if (this.initialized) return;
     if (this.initializing) return this.initializing;
     this.initializing = (async () => {
+      await this.rest.startTimeSync();
       await this.refreshSnapshots();
       this.initialized = true;
       await this.userStream.start();
@@ -921,17 +1543,56 @@ export class AsterGateway {
     return this.initializing;
   }
 
-  onAccount(listener: (snapshot: AsterAccountSnapshot) => void): void {
-    this.accountEvent.add(listener);
+  onAccount(listener: (snapshot: AsterAccountSnapshot) => void): () => void {
+    const unsubscribe = this.accountEvent.add(listener);
     if (this.accountSnapshot) listener(this.accountSnapshot);
+    return unsubscribe;
+  }
+
+  /** 已登记的交易对（共享网关的各个适配器） */
+  getSymbols(): string[] {
+    return Array.from(this.symbols);
   }
 
-  onOrders(listener: (orders: AsterOrder[]) => void): void {
-    this.ordersEvent.add(listener);
-    listener(Array.from(this.openOrders.values()));
+  /** 指定交易对时只推送该交易对的挂单，且只在该交易对的挂单变化时推送 */
+  onOrders(listener: (orders: AsterOrder[]) => void, symbol?: string): () => void {
+    if (!symbol) {
+      const unsubscribe = this.ordersEvent.add(listener);
+      listener(this.getOpenOrdersSnapshot());
+      return unsubscribe;
+    }
+    const upper = symbol.toUpperCase();
+    let event = this.symbolOrderEvents.get(upper);
+    if (!event) {
+      event = new SimpleEvent<AsterOrder[]>();
+      this.symbolOrderEvents.set(upper, event);
+    }
+    const unsubscribe = event.add(listener);
+    listener(this.getOpenOrdersSnapshot(upper));
+    return unsubscribe;
+  }
+
+  /** 成交回报，只推送订阅之后发生的成交；指定交易对时只推送该交易对的成交 */
+  onFills(listener: (fill: AsterFill) => void, symbol?: string): () => void {
+    if (!symbol) {
+      return this.fillEvent.add(listener);
+    }
+    const upper = symbol.toUpperCase();
+    return this.fillEvent.add((fill) => {
+      if (fill.symbol === upper) listener(fill);
+    });
+  }
+
+  private emitOrders(changedSymbol?: string): void {
+    this.ordersEvent.emit(this.getOpenOrdersSnapshot());
+    const changed = changedSymbol?.toUpperCase();
+    for (const [symbol, event] of this.symbolOrderEvents) {
+      if (changed && changed !== symbol) continue;
+      event.emit(this.getOpenOrdersSnapshot(symbol));
+    }
   }
 
-  onDepth(symbol: string, listener: (depth: AsterDepth) => void): void {
+  onDepth(symbol: string, listener: (depth: AsterDepth) => void): () => void {
     const upper = symbol.toUpperCase();
     let event = this.depthEvents.get(upper);
     if (!event) {
@@ -941,10 +1602,37 @@ export class AsterGateway {
         event?.emit(depth);
       });
     }
-    event.add(listener);
+    return event.add(listener);
   }
 
-  onTicker(symbol: string, listener: (ticker: AsterTicker) => void): void {
+  /** 本地维护的全量订单簿，每次更新推送前 levels 档 */
+  onOrderBook(symbol: string, levels: number, listener: (depth: AsterDepth) => void): () => void {
+    const upper = symbol.toUpperCase();
+    let entry = this.orderBooks.get(upper);
+    if (!entry) {
+      const event = new SimpleEvent<LocalOrderBook>();
+      const book = new LocalOrderBook({
+        symbol: upper,
+        fetchSnapshot: (target) => fetchDepthSnapshot(target),
+        onUpdate: (updated) => event.emit(updated),
+      });
+      entry = { book, event };
+      this.orderBooks.set(upper, entry);
+      if (!this.orderBookStreams) {
+        this.orderBookStreams = new AsterPublicStreams();
+      }
+      this.orderBookStreams.subscribeDepthDiff(upper, (diff) => book.handleDiff(diff));
+    }
+    const unsubscribe = entry.event.add((book) => {
+      const depth = book.getDepth(levels);
+      if (depth) listener(depth);
+    });
+    const current = entry.book.getDepth(levels);
+    if (current) listener(current);
+    return unsubscribe;
+  }
+
+  onTicker(symbol: string, listener: (ticker: AsterTicker) => void): () => void {
     const upper = symbol.toUpperCase();
     let event = this.tickerEvents.get(upper);
     if (!event) {
@@ -954,10 +1642,40 @@ export class AsterGateway {
         event?.emit(ticker);
       });
     }
-    event.add(listener);
+    return event.add(listener);
+  }
+
+  onTrades(symbol: string, listener: (trade: AsterTrade) => void): () => void {
+    const upper = symbol.toUpperCase();
+    let event = this.tradeEvents.get(upper);
+    if (!event) {
+      event = new SimpleEvent<AsterTrade>();
+      this.tradeEvents.set(upper, event);
+      this.publicStreams.subscribeTrades(upper, (trade) => {
+        event?.emit(trade);
+      });
+    }
+    return event.add(listener);
+  }
+
+  onMarkPrice(symbol: string, listener: (mark: AsterMarkPrice) => void): () => void {
+    const upper = symbol.toUpperCase();
+    let event = this.markPriceEvents.get(upper);
+    if (!event) {
+      event = new SimpleEvent<AsterMarkPrice>();
+      this.markPriceEvents.set(upper, event);
+      this.publicStreams.subscribeMarkPrice(upper, (mark) => {
+        this.lastMarkPrices.set(upper, mark);
+        event?.emit(mark);
+      });
+    }
+    const unsubscribe = event.add(listener);
+    const last = this.lastMarkPrices.get(upper);
+    if (last) listener(last);
+    return unsubscribe;
   }
 
-  onKlines(symbol: string, interval: string, listener: (klines: AsterKline[]) => void): void {
+  onKlines(symbol: string, interval: string, listener: (klines: AsterKline[]) => void): () => void {
     const upper = symbol.toUpperCase();
     const key = `${upper}:${interval}`;
     let event = this.klineEvents.get(key);
@@ -985,13 +1703,14 @@ export class AsterGateway {
       });
       void this.ensureKlineSeed(upper, interval);
     }
-    event.add(listener);
+    const unsubscribe = event.add(listener);
     const existing = this.klineStores.get(key);
     if (existing && existing.length) {
       listener([...existing]);
     } else {
       void this.ensureKlineSeed(upper, interval);
     }
+    return unsubscribe;
   }
 
   private ensureKlineSeed(symbol: string, interval: string): Promise<void> {
@@ -1064,7 +1783,7 @@ export class AsterGateway {
       const orders = await this.rest.getOpenOrders();
       this.openOrders.clear();
       orders.forEach((order) => mergeOrderSnapshot(this.openOrders, order));
-      this.ordersEvent.emit(Array.from(this.openOrders.values()));
+      this.emitOrders();
     } catch (error) {
       console.error("[AsterGateway] 刷新挂单失败", error);
     }
@@ -1120,27 +1839,44 @@ export class AsterGateway {
     return this.accountSnapshot;
   }
 
-  getOpenOrdersSnapshot(): AsterOrder[] {
-    return Array.from(this.openOrders.values());
+  getOpenOrdersSnapshot(symbol?: string): AsterOrder[] {
+    const orders = Array.from(this.openOrders.values());
+    if (!symbol) return orders;
+    const upper = symbol.toUpperCase();
+    return orders.filter((order) => order.symbol === upper);
+  }
+
+  getPositionsSnapshot(symbol?: string): AsterAccountPosition[] {
+    const positions = this.accountSnapshot?.positions ?? [];
+    if (!symbol) return positions;
+    const upper = symbol.toUpperCase();
+    return positions.filter((position) => position.symbol === upper);
   }
 
   async createOrder(params: CreateOrderParams): Promise<AsterOrder> {
     const order = await this.rest.createOrder(params);
     mergeOrderSnapshot(this.openOrders, order);
-    this.ordersEvent.emit(Array.from(this.openOrders.values()));
+    this.emitOrders(order.symbol);
+    return order;
+  }
+
+  async queryOrder(params: QueryOrderParams): Promise<AsterOrder> {
+    const order = await this.rest.queryOrder(params);
+    mergeOrderSnapshot(this.openOrders, order);
+    this.emitOrders(order.symbol);
     return order;
   }
 
   async cancelOrder(params: { symbol: string; orderId?: number; origClientOrderId?: string }): Promise<void> {
     const result = await this.rest.cancelOrder(params);
     mergeOrderSnapshot(this.openOrders, result);
-    this.ordersEvent.emit(Array.from(this.openOrders.values()));
+    this.emitOrders(params.symbol);
   }
 
   async cancelOrders(params: { symbol: string; orderIdList?: Array<number | string>; origClientOrderIdList?: string[] }): Promise<void> {
     const results = await this.rest.cancelOrders(params);
     results.forEach((order) => mergeOrderSnapshot(this.openOrders, order));
-    this.ordersEvent.emit(Array.from(this.openOrders.values()));
+    this.emitOrders(params.symbol);
   }
 
   async cancelAllOrders(params: { symbol: string }): Promise<void> {
@@ -1150,13 +1886,77 @@ export class AsterGateway {
         this.openOrders.delete(order.orderId);
       }
     }
-    this.ordersEvent.emit(Array.from(this.openOrders.values()));
+    this.emitOrders(params.symbol);
   }
 
   async getKlines(symbol: string, interval: string, limit: number = DEFAULT_KLINE_LIMIT): Promise<AsterKline[]> {
     return this.rest.getKlines(symbol, interval, limit);
   }
 
+  async getDualSidePosition(): Promise<boolean> {
+    return this.rest.getPositionSideDual();
+  }
+
+  async setLeverage(symbol: string, leverage: number): Promise<AsterLeverageResult> {
+    return this.rest.setLeverage(symbol, leverage);
+  }
+
+  async setMarginType(symbol: string, marginType: MarginType): Promise<void> {
+    await this.rest.setMarginType(symbol, marginType);
+  }
+
+  async adjustIsolatedMargin(params: AdjustIsolatedMarginParams): Promise<void> {
+    await this.rest.adjustIsolatedMargin(params);
+  }
+
+  async getLeverageBrackets(symbol: string): Promise<AsterLeverageBracket[]> {
+    return this.rest.getLeverageBrackets(symbol);
+  }
+
+  async getIncomeHistory(query: IncomeHistoryQuery = {}): Promise<AsterIncome[]> {
+    return this.rest.getIncomeHistory(query);
+  }
+
+  async getUserTrades(query: UserTradesQuery): Promise<AsterUserTrade[]> {
+    return this.rest.getUserTrades(query);
+  }
+
+  getRateLimitUsage(): RateLimitUsage {
+    return this.rest.getRateLimitUsage();
+  }
+
+  getClockStatus(): ClockSyncStatus {
+    return this.rest.getClockStatus();
+  }
+
+  /** 公共行情、增量深度与用户数据流的健康状况 */
+  getStreamHealth(): StreamHealth[] {
+    return [
+      ...this.publicStreams.getHealth(),
+      ...(this.orderBookStreams?.getHealth() ?? []),
+      ...this.userStream.getHealth(),
+    ];
+  }
+
+  onClockDrift(listener: (status: ClockSyncStatus) => void): () => void {
+    return this.rest.onClockDrift(listener);
+  }
+
+  /** 交易规则在进程内只拉取一次，失败后下次调用重新请求 */
+  async getSymbolFilters(symbol: string): Promise<AsterSymbolFilters | null> {
+    if (!this.symbolFilters) {
+      this.symbolFilters = this.rest
+        .getExchangeInfo()
+        .then((list) => new Map(list.map((filters) => [filters.symbol, filters])))
+        .catch((error) => {
+          this.symbolFilters = null;
+          throw error;
+        });
+    }
+    const filters = await this.symbolFilters;
+    return filters.get(symbol.toUpperCase()) ?? null;
+  }
+
   // 添加安全的断开连接方法
   public disconnect(): void {
     console.log("[AsterGateway] 正在断开所有连接...");
@@ -1172,27 +1972,26 @@ export class AsterGateway {
       clearInterval(timer);
     });
     this.klineRefreshTimers.clear();
+    this.klineInitialFetches.clear();
+    this.rest.stopTimeSync();
 
     // 安全关闭公共WebSocket
     if (this.publicStreams) {
       try {
-        // 通过反射访问私有属性 ws
-        const ws = (this.publicStreams as any).ws;
-        if (ws) {
-          ws.onclose = null;
-          ws.onerror = null;
-          ws.onmessage = null;
-          ws.onopen = null;
-          
-          if (ws.readyState === WebSocket.OPEN) {
-            ws.close();
-          }
-        }
+        this.publicStreams.disconnect();
       } catch (error) {
         console.error("[AsterGateway] 关闭公共WebSocket失败:", error);
       }
     }
 
+    // 停止本地订单簿同步并关闭增量深度连接
+    this.orderBooks.forEach(({ book }) => book.stop());
+    this.orderBooks.clear();
+    if (this.orderBookStreams) {
+      this.orderBookStreams.disconnect();
+      this.orderBookStreams = null;
+    }
+
     // 安全关闭用户数据流
     if (this.userStream) {
       try {
@@ -1205,3 +2004,33 @@ export class AsterGateway {
     console.log("[AsterGateway] ✅ 断开连接完成");
   }
 }
+
+const sharedGateways = new Map<string, { gateway: AsterGateway; refs: number }>();
+
+/**
+ * 同一 API Key 在进程内共享一个网关：一个用户数据流、一条公共行情连接、一次持仓轮询与一份频率限制额度，
+ * 多个交易对的适配器各自按交易对过滤挂单与成交
+ */
+export function acquireAsterGateway(options: { apiKey?: string; apiSecret?: string } = {}): AsterGateway {
+  const key = options.apiKey ?? getAsterApiKey();
+  let entry = sharedGateways.get(key);
+  if (!entry) {
+    entry = { gateway: new AsterGateway(options), refs: 0 };
+    sharedGateways.set(key, entry);
+  }
+  entry.refs += 1;
+  return entry.gateway;
+}
+
+/** 归还 acquireAsterGateway 取得的网关，最后一个使用者归还时断开连接并从共享表移除 */
+export function releaseAsterGateway(gateway: AsterGateway): void {
+  for (const [key, entry] of sharedGateways) {
+    if (entry.gateway !== gateway) continue;
+    entry.refs -= 1;
+    if (entry.refs <= 0) {
+      sharedGateways.delete(key);
+      gateway.disconnect();
+    }
+    return;
+  }
+}
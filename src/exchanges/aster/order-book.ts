@@ -0,0 +1,193 @@
+import type { AsterDepth, AsterDepthLevel } from "../types";
+
+export interface LocalOrderBookOptions {
+  symbol: string;
+  fetchSnapshot: (symbol: string) => Promise<AsterDepth>;
+  retryDelayMs?: number; // 快照获取失败或快照落后于增量时的重试间隔
+  onUpdate?: (book: LocalOrderBook) => void;
+  log?: (message: string) => void;
+}
+
+const DEFAULT_RETRY_DELAY_MS = 1000;
+
+type ApplyResult = "applied" | "stale" | "gap";
+
+/**
+ * 本地维护的全量订单簿：先取 REST 快照，再按 lastUpdateId 顺序叠加 @depth 增量推送
+ * 发现序列缺口（pu 与本地 lastUpdateId 不连续）时丢弃本地簿并自动重新同步
+ */
+export class LocalOrderBook {
+  readonly symbol: string;
+  private readonly fetchSnapshot: (symbol: string) => Promise<AsterDepth>;
+  private readonly retryDelayMs: number;
+  private readonly onUpdate?: (book: LocalOrderBook) => void;
+  private readonly log: (message: string) => void;
+
+  private readonly bids = new Map<number, AsterDepthLevel>();
+  private readonly asks = new Map<number, AsterDepthLevel>();
+  private lastUpdateId = 0;
+  private eventTime: number | undefined;
+  private synced = false;
+  private awaitingFirstEvent = false;
+  private buffer: AsterDepth[] = [];
+  private syncing = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private stopped = false;
+  private resyncCount = 0;
+
+  constructor(options: LocalOrderBookOptions) {
+    this.symbol = options.symbol.toUpperCase();
+    this.fetchSnapshot = options.fetchSnapshot;
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    this.onUpdate = options.onUpdate;
+    this.log = options.log ?? ((message) => console.warn(`[LocalOrderBook] ${message}`));
+  }
+
+  /** 处理一条 @depth 增量推送，未同步时先缓存并触发快照同步 */
+  handleDiff(event: AsterDepth): void {
+    if (this.stopped) return;
+    if (!this.synced) {
+      this.buffer.push(event);
+      this.requestSync();
+      return;
+    }
+    const result = this.apply(event);
+    if (result === "gap") {
+      this.resync(event, `增量序列缺口 (pu=${event.prevUpdateId ?? event.firstUpdateId}, 本地=${this.lastUpdateId})`);
+      return;
+    }
+    if (result === "applied") {
+      this.onUpdate?.(this);
+    }
+  }
+
+  isSynced(): boolean {
+    return this.synced;
+  }
+
+  getLastUpdateId(): number {
+    return this.lastUpdateId;
+  }
+
+  /** 因缺口触发的重新同步次数 */
+  getResyncCount(): number {
+    return this.resyncCount;
+  }
+
+  /** 按价格排序的前 levels 档盘口，未同步时返回 null */
+  getDepth(levels?: number): AsterDepth | null {
+    if (!this.synced) return null;
+    return {
+      symbol: this.symbol,
+      lastUpdateId: this.lastUpdateId,
+      eventTime: this.eventTime,
+      eventType: "depthUpdate",
+      bids: sortLevels(this.bids, "desc", levels),
+      asks: sortLevels(this.asks, "asc", levels),
+    };
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.synced = false;
+    this.buffer = [];
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private resync(pending: AsterDepth | null, reason: string): void {
+    this.resyncCount += 1;
+    this.log(`${this.symbol} ${reason}，重新同步订单簿`);
+    this.synced = false;
+    this.buffer = pending ? [pending] : [];
+    this.requestSync();
+  }
+
+  private requestSync(): void {
+    if (this.syncing || this.retryTimer || this.stopped) return;
+    this.syncing = true;
+    void this.sync().finally(() => {
+      this.syncing = false;
+    });
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer || this.stopped) return;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.requestSync();
+    }, this.retryDelayMs);
+  }
+
+  private async sync(): Promise<void> {
+    let snapshot: AsterDepth;
+    try {
+      snapshot = await this.fetchSnapshot(this.symbol);
+    } catch (error) {
+      this.log(`${this.symbol} 获取深度快照失败: ${String(error)}`);
+      this.scheduleRetry();
+      return;
+    }
+    if (this.stopped) return;
+
+    this.bids.clear();
+    this.asks.clear();
+    applyLevels(this.bids, snapshot.bids);
+    applyLevels(this.asks, snapshot.asks);
+    this.lastUpdateId = snapshot.lastUpdateId;
+    this.eventTime = snapshot.eventTime;
+    this.awaitingFirstEvent = true;
+
+    const buffered = this.buffer;
+    this.buffer = [];
+    for (const event of buffered) {
+      if (this.apply(event) === "gap") {
+        // 快照早于缓存中的第一条增量，等待片刻后重新拉取
+        this.buffer = buffered.slice(buffered.indexOf(event));
+        this.log(`${this.symbol} 深度快照 ${snapshot.lastUpdateId} 落后于增量 ${event.firstUpdateId ?? event.lastUpdateId}`);
+        this.scheduleRetry();
+        return;
+      }
+    }
+    this.synced = true;
+    this.onUpdate?.(this);
+  }
+
+  private apply(event: AsterDepth): ApplyResult {
+    const finalId = event.lastUpdateId;
+    const firstId = event.firstUpdateId ?? finalId;
+    if (finalId < this.lastUpdateId) return "stale";
+    if (this.awaitingFirstEvent) {
+      // 快照之后的第一条增量需覆盖快照的 lastUpdateId
+      if (firstId > this.lastUpdateId + 1) return "gap";
+    } else if (event.prevUpdateId != null ? event.prevUpdateId !== this.lastUpdateId : firstId !== this.lastUpdateId + 1) {
+      return "gap";
+    }
+    applyLevels(this.bids, event.bids);
+    applyLevels(this.asks, event.asks);
+    this.lastUpdateId = finalId;
+    this.eventTime = event.eventTime ?? this.eventTime;
+    this.awaitingFirstEvent = false;
+    return "applied";
+  }
+}
+
+function applyLevels(book: Map<number, AsterDepthLevel>, levels: AsterDepthLevel[]): void {
+  for (const [price, qty] of levels) {
+    const key = Number(price);
+    if (!Number.isFinite(key)) continue;
+    if (Number(qty) > 0) {
+      book.set(key, [price, qty]);
+    } else {
+      book.delete(key);
+    }
+  }
+}
+
+function sortLevels(book: Map<number, AsterDepthLevel>, order: "asc" | "desc", levels?: number): AsterDepthLevel[] {
+  const prices = Array.from(book.keys()).sort((a, b) => (order === "asc" ? a - b : b - a));
+  const selected = levels != null && levels > 0 ? prices.slice(0, levels) : prices;
+  return selected.map((price) => book.get(price)!);
+}
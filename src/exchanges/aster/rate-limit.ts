@@ -0,0 +1,108 @@
+import type { RateLimitUsage } from "../types";
+
+export interface RateLimits {
+  weight1m: number;
+  orders10s: number;
+  orders1m: number;
+}
+
+// 交易所默认限额，可按 exchangeInfo.rateLimits 覆盖
+const DEFAULT_LIMITS: RateLimits = { weight1m: 2400, orders10s: 300, orders1m: 1200 };
+// 使用量达到上限的该比例后，等到下一个统计窗口再发送
+const THROTTLE_RATIO = 0.9;
+const DEFAULT_BAN_MS = 2 * 60_000;
+
+interface WindowCounter {
+  windowMs: number;
+  start: number;
+  used: number;
+}
+
+interface HeaderSource {
+  get(name: string): string | null;
+}
+
+function currentUsage(counter: WindowCounter, now: number): number {
+  return Math.floor(now / counter.windowMs) * counter.windowMs === counter.start ? counter.used : 0;
+}
+
+function record(counter: WindowCounter, value: string | null, now: number): void {
+  const used = Number(value);
+  if (value == null || !Number.isFinite(used)) return;
+  counter.start = Math.floor(now / counter.windowMs) * counter.windowMs;
+  counter.used = used;
+}
+
+/**
+ * 按响应头跟踪请求权重与下单次数（交易所按自然分钟/10 秒窗口统计），
+ * 接近上限时给出需要等待的时间，避免触发 429 乃至 418 封禁
+ */
+export class RateLimitTracker {
+  private readonly limits: RateLimits;
+  private readonly weight: WindowCounter = { windowMs: 60_000, start: 0, used: 0 };
+  private readonly orders10s: WindowCounter = { windowMs: 10_000, start: 0, used: 0 };
+  private readonly orders1m: WindowCounter = { windowMs: 60_000, start: 0, used: 0 };
+  private bannedUntil: number | null = null;
+  private throttled = 0;
+  private updatedAt: number | null = null;
+
+  constructor(limits: Partial<RateLimits> = {}, private readonly now: () => number = Date.now) {
+    this.limits = { ...DEFAULT_LIMITS, ...limits };
+  }
+
+  update(headers: HeaderSource): void {
+    const now = this.now();
+    record(this.weight, headers.get("x-mbx-used-weight-1m"), now);
+    record(this.orders10s, headers.get("x-mbx-order-count-10s"), now);
+    record(this.orders1m, headers.get("x-mbx-order-count-1m"), now);
+    this.updatedAt = now;
+  }
+
+  /** 418 封禁：优先使用 Retry-After，其次使用错误信息中的解除时间 */
+  ban(retryAfterMs: number | null, message = ""): number {
+    const now = this.now();
+    const match = /banned until (\d+)/.exec(message);
+    const until = match ? Number(match[1]) : now + (retryAfterMs ?? DEFAULT_BAN_MS);
+    this.bannedUntil = Math.max(this.bannedUntil ?? 0, until);
+    return this.bannedUntil;
+  }
+
+  getBannedUntil(): number | null {
+    return this.bannedUntil != null && this.bannedUntil > this.now() ? this.bannedUntil : null;
+  }
+
+  /** 距离可以安全发送下一个请求还需等待的毫秒数，0 表示无需等待 */
+  waitTime(isOrder: boolean): number {
+    const now = this.now();
+    const counters: Array<[WindowCounter, number]> = [[this.weight, this.limits.weight1m]];
+    if (isOrder) {
+      counters.push([this.orders10s, this.limits.orders10s], [this.orders1m, this.limits.orders1m]);
+    }
+    let wait = 0;
+    for (const [counter, limit] of counters) {
+      if (currentUsage(counter, now) >= limit * THROTTLE_RATIO) {
+        wait = Math.max(wait, counter.start + counter.windowMs - now);
+      }
+    }
+    return wait;
+  }
+
+  recordThrottle(): void {
+    this.throttled += 1;
+  }
+
+  getUsage(): RateLimitUsage {
+    const now = this.now();
+    return {
+      weight1m: currentUsage(this.weight, now),
+      weightLimit1m: this.limits.weight1m,
+      orders10s: currentUsage(this.orders10s, now),
+      orderLimit10s: this.limits.orders10s,
+      orders1m: currentUsage(this.orders1m, now),
+      orderLimit1m: this.limits.orders1m,
+      bannedUntil: this.getBannedUntil(),
+      throttled: this.throttled,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
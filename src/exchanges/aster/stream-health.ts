@@ -0,0 +1,124 @@
+import type { StreamHealth, StreamHealthKind } from "../types";
+
+export interface StreamWatchdogConfig {
+  staleMs: number; // 行情流静默超过该时长视为冻结并强制重连
+  userStaleMs: number; // 用户数据流断开超过该时长视为失效，重新获取 listenKey 后重连
+}
+
+/**
+ * 从环境变量读取数据流看门狗配置
+ */
+export function loadStreamWatchdogConfig(): StreamWatchdogConfig {
+  return {
+    staleMs: parseInt(process.env.STREAM_STALE_MS || "15000"),
+    userStaleMs: parseInt(process.env.USER_STREAM_STALE_MS || "300000"),
+  };
+}
+
+// 只有持续推送的流才按消息静默判断冻结；成交与 K 线在行情清淡时可以长时间没有消息
+const CONTINUOUS_KINDS = new Set<StreamHealthKind>(["depth", "ticker", "markPrice"]);
+// 空闲账户的用户数据流本就没有消息（ping 帧不会触发 onmessage），只按连接是否断开判断
+const LIVENESS_KINDS = new Set<StreamHealthKind>(["user"]);
+const RATE_WINDOW_MS = 10_000;
+
+interface StreamEntry {
+  kind: StreamHealthKind;
+  symbol: string | null;
+  lastMessageAt: number | null;
+  windowStart: number;
+  windowCount: number;
+  rate: number;
+}
+
+/**
+ * 记录每个数据流的最后消息时间与消息速率，判断哪些持续推送的流已静默超过阈值
+ */
+export class StreamHealthTracker {
+  private readonly entries = new Map<string, StreamEntry>();
+  private connected = false;
+  private connectedAt: number;
+  private disconnectedAt: number;
+  private reconnects = 0;
+
+  constructor(private readonly staleMs: number, private readonly now: () => number = Date.now) {
+    this.connectedAt = now();
+    this.disconnectedAt = this.connectedAt;
+  }
+
+  register(stream: string, kind: StreamHealthKind, symbol: string | null): void {
+    if (this.entries.has(stream)) return;
+    this.entries.set(stream, { kind, symbol, lastMessageAt: null, windowStart: this.now(), windowCount: 0, rate: 0 });
+  }
+
+  record(stream: string): void {
+    const entry = this.entries.get(stream);
+    if (!entry) return;
+    const now = this.now();
+    this.rollWindow(entry, now);
+    entry.windowCount += 1;
+    entry.lastMessageAt = now;
+  }
+
+  /** 连接建立后重新计时，给新连接一个完整的静默阈值 */
+  setConnected(connected: boolean): void {
+    if (connected) {
+      this.connectedAt = this.now();
+    } else if (this.connected) {
+      this.disconnectedAt = this.now();
+    }
+    this.connected = connected;
+  }
+
+  recordReconnect(): void {
+    this.reconnects += 1;
+  }
+
+  /** 静默超过阈值的持续推送流 */
+  staleStreams(): string[] {
+    const now = this.now();
+    const stale: string[] = [];
+    for (const [stream, entry] of this.entries) {
+      if (this.isStale(entry, now)) stale.push(stream);
+    }
+    return stale;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  getHealth(): StreamHealth[] {
+    const now = this.now();
+    return Array.from(this.entries, ([stream, entry]) => {
+      this.rollWindow(entry, now);
+      return {
+        stream,
+        kind: entry.kind,
+        symbol: entry.symbol,
+        connected: this.connected,
+        lastMessageAt: entry.lastMessageAt,
+        messagesPerSecond: entry.rate,
+        stale: this.isStale(entry, now),
+        reconnects: this.reconnects,
+      };
+    });
+  }
+
+  private isStale(entry: StreamEntry, now: number): boolean {
+    if (LIVENESS_KINDS.has(entry.kind)) {
+      return !this.connected && now - this.disconnectedAt > this.staleMs;
+    }
+    if (!CONTINUOUS_KINDS.has(entry.kind)) return false;
+    const since = Math.max(entry.lastMessageAt ?? 0, this.connectedAt);
+    return now - since > this.staleMs;
+  }
+
+  private rollWindow(entry: StreamEntry, now: number): void {
+    const elapsed = now - entry.windowStart;
+    if (elapsed < RATE_WINDOW_MS) return;
+    // 超过两个窗口没有消息时速率直接归零
+    entry.rate = elapsed < RATE_WINDOW_MS * 2 ? entry.windowCount / (elapsed / 1000) : 0;
+    entry.windowStart = now;
+    entry.windowCount = 0;
+  }
+}
@@ -0,0 +1,133 @@
+import { setInterval, clearInterval } from "timers";
+import type { ClockSyncStatus } from "../types";
+
+export interface TimeSyncConfig {
+  recvWindow: number; // 签名请求的 recvWindow（毫秒，交易所上限 60000）
+  intervalMs: number; // 定期校时间隔
+  driftWarnMs: number; // 本地时钟偏差超过该值时告警
+}
+
+/**
+ * 从环境变量读取校时配置
+ */
+export function loadTimeSyncConfig(): TimeSyncConfig {
+  return {
+    recvWindow: Math.min(parseInt(process.env.ASTER_RECV_WINDOW || "5000"), 60_000),
+    intervalMs: parseInt(process.env.TIME_SYNC_INTERVAL_MS || "60000"),
+    driftWarnMs: parseInt(process.env.CLOCK_DRIFT_WARN_MS || "1000"),
+  };
+}
+
+// 新样本的权重；往返明显偏大的样本受网络抖动影响大，不参与平滑
+const SMOOTHING = 0.3;
+const OUTLIER_RTT_RATIO = 3;
+const MIN_OUTLIER_RTT_MS = 200;
+
+type DriftListener = (status: ClockSyncStatus) => void;
+
+/**
+ * 服务器校时：按往返中点估算本地时钟偏差并做指数平滑，
+ * 签名请求使用校正后的时间戳，避免本地时钟漂移导致的 -1021
+ */
+export class TimeSync {
+  private offsetMs = 0;
+  private rttMs: number | null = null;
+  private lastSyncAt: number | null = null;
+  private drifting = false;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private inFlight: Promise<ClockSyncStatus | null> | null = null;
+  private readonly listeners = new Set<DriftListener>();
+
+  constructor(
+    private readonly fetchServerTime: () => Promise<number>,
+    private readonly config: TimeSyncConfig = loadTimeSyncConfig(),
+    private readonly now: () => number = Date.now
+  ) {}
+
+  get recvWindow(): number {
+    return this.config.recvWindow;
+  }
+
+  /** 校正后的当前时间，用作签名请求的 timestamp */
+  timestamp(): number {
+    return Math.round(this.now() + this.offsetMs);
+  }
+
+  /** 立即校时一次，并发调用复用同一个请求；失败时保留原有偏差并返回 null */
+  sync(): Promise<ClockSyncStatus | null> {
+    if (!this.inFlight) {
+      this.inFlight = this.measure().finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+
+  /** 启动定期校时，返回首次校时的结果 */
+  start(): Promise<ClockSyncStatus | null> {
+    if (!this.timer) {
+      this.timer = setInterval(() => {
+        void this.sync();
+      }, this.config.intervalMs);
+    }
+    return this.sync();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** 偏差超过告警阈值时通知（每次进入偏差状态通知一次），订阅时已处于偏差状态则立即通知 */
+  onDrift(listener: DriftListener): () => void {
+    this.listeners.add(listener);
+    if (this.drifting) listener(this.getStatus());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getStatus(): ClockSyncStatus {
+    return {
+      offsetMs: Math.round(this.offsetMs),
+      rttMs: this.rttMs == null ? null : Math.round(this.rttMs),
+      recvWindow: this.config.recvWindow,
+      lastSyncAt: this.lastSyncAt,
+      drifting: this.drifting,
+    };
+  }
+
+  private async measure(): Promise<ClockSyncStatus | null> {
+    const sentAt = this.now();
+    let serverTime: number;
+    try {
+      serverTime = await this.fetchServerTime();
+    } catch (error) {
+      console.warn(`[TimeSync] 获取服务器时间失败: ${String(error)}`);
+      return null;
+    }
+    const receivedAt = this.now();
+    const rtt = Math.max(0, receivedAt - sentAt);
+    const offset = serverTime - (sentAt + rtt / 2);
+    if (this.rttMs == null || this.lastSyncAt == null) {
+      this.offsetMs = offset;
+      this.rttMs = rtt;
+    } else if (rtt <= Math.max(this.rttMs * OUTLIER_RTT_RATIO, MIN_OUTLIER_RTT_MS)) {
+      this.offsetMs += (offset - this.offsetMs) * SMOOTHING;
+      this.rttMs += (rtt - this.rttMs) * SMOOTHING;
+    }
+    this.lastSyncAt = receivedAt;
+    const drifting = Math.abs(this.offsetMs) > this.config.driftWarnMs;
+    const entered = drifting && !this.drifting;
+    this.drifting = drifting;
+    const status = this.getStatus();
+    if (entered) {
+      for (const listener of this.listeners) {
+        listener(status);
+      }
+    }
+    return status;
+  }
+}
@@ -0,0 +1,41 @@
+import type { ExchangeAdapter } from "./adapter";
+import { AsterExchangeAdapter, type AsterCredentials } from "./aster-adapter";
+import { PaperExchangeAdapter } from "./paper-adapter";
+import { RecordingExchangeAdapter } from "./recording-adapter";
+import { paperTradingConfig, type PaperTradingConfig, type TradingMode } from "../config";
+
+export interface CreateExchangeAdapterOptions {
+  mode: TradingMode;
+  symbol: string;
+  // 仅实盘模式才会解析凭证，模拟盘无需 API 密钥
+  resolveCredentials: () => AsterCredentials;
+  paper?: PaperTradingConfig;
+  // 设置后将推送与下单调用录制为 NDJSON，默认读取 EXCHANGE_RECORD_FILE
+  recordPath?: string;
+}
+
+export function createExchangeAdapter(options: CreateExchangeAdapterOptions): ExchangeAdapter {
+  const adapter = createBaseAdapter(options);
+  const recordPath = options.recordPath ?? process.env.EXCHANGE_RECORD_FILE;
+  if (recordPath) {
+    console.log(`📼 录制交易所数据流到 ${recordPath}`);
+    return new RecordingExchangeAdapter(adapter, { filePath: recordPath });
+  }
+  return adapter;
+}
+
+function createBaseAdapter(options: CreateExchangeAdapterOptions): ExchangeAdapter {
+  if (options.mode === "paper") {
+    const paper = options.paper ?? paperTradingConfig;
+    return new PaperExchangeAdapter({
+      symbol: options.symbol,
+      initialBalance: paper.initialBalance,
+      makerFeeRate: paper.makerFeeRate,
+      takerFeeRate: paper.takerFeeRate,
+      leverage: paper.leverage,
+      dualSidePosition: paper.dualSidePosition,
+    });
+  }
+  const credentials = options.resolveCredentials();
+  return new AsterExchangeAdapter({ ...credentials, symbol: options.symbol });
+}
@@ -0,0 +1,1258 @@
+import type {
+  AccountListener,
+  DepthListener,
+  ExchangeAdapter,
+  FillListener,
+  KlineListener,
+  MarkPriceListener,
+  OrderListener,
+  TickerListener,
+  TradeListener,
+  Unsubscribe,
+} from "./adapter";
+import type {
+  AdjustIsolatedMarginParams,
+  AsterAccountPosition,
+  AsterAccountSnapshot,
+  AsterDepth,
+  AsterFill,
+  AsterIncome,
+  AsterKline,
+  AsterLeverageBracket,
+  AsterLeverageResult,
+  AsterMarkPrice,
+  AsterOrder,
+  AsterSymbolFilters,
+  AsterTicker,
+  AsterTrade,
+  AsterUserTrade,
+  CreateOrderParams,
+  IncomeHistoryQuery,
+  MarginType,
+  OrderSide,
+  PositionSide,
+  QueryOrderParams,
+  UserTradesQuery,
+} from "./types";
+import { alignToInterval, intervalToMs } from "../utils/kline";
+import { findSymbolFilterViolation } from "../utils/symbol-filters";
+
+const FINAL_ORDER_STATUSES = new Set(["FILLED", "CANCELED", "REJECTED", "EXPIRED"]);
+const DEFAULT_KLINE_LIMIT = 120;
+const DEFAULT_DEPTH_LEVELS = 5;
+const QTY_EPS = 1e-12;
+
+export interface MockExchangeOptions {
+  symbol?: string;
+  asset?: string;
+  initialBalance?: number;
+  makerFeeRate?: number;
+  takerFeeRate?: number;
+  leverage?: number;
+  spread?: number; // pushPrice 生成盘口时买一与卖一的价差
+  depthQty?: number; // pushPrice 生成盘口时每档数量
+  fillModel?: MockFillModel;
+  symbolFilters?: AsterSymbolFilters[]; // 设置后按交易规则拒绝不合规订单
+  dualSidePosition?: boolean; // 对冲模式：多空分腿持仓，订单必须携带 positionSide
+  leverageBrackets?: AsterLeverageBracket[]; // 杠杆分层，决定 setLeverage 允许的最大倍数
+  now?: () => number; // 可注入虚拟时钟
+}
+
+/**
+ * 限价挂单的成交模型
+ * touch: 盘口或成交价越过挂单价即全部成交
+ * queue: 额外跟踪挂单在价位上的排队位置，同价成交需先消耗排在前面的数量（配合 pushTrade 使用）
+ */
+export type MockFillModel = "touch" | "queue";
+
+/** 逐笔成交，buyerMaker 为 true 表示卖方主动成交（吃买单） */
+export interface MockTrade {
+  symbol?: string;
+  price: number;
+  quantity: number;
+  buyerMaker: boolean;
+}
+
+export interface MockFill {
+  orderId: number;
+  symbol: string;
+  side: OrderSide;
+  positionSide?: PositionSide;
+  price: number;
+  quantity: number;
+  fee: number;
+  realizedPnl: number;
+  maker: boolean;
+  time: number;
+}
+
+interface MockPosition {
+  amount: number;
+  entryPrice: number;
+}
+
+interface TrailingState {
+  activated: boolean;
+  extreme: number | null;
+}
+
+/**
+ * 构造与 Aster REST 错误一致的异常，保证 isUnknownOrderError 等判断在模拟环境中同样生效
+ */
+function exchangeError(code: number, msg: string): Error {
+  return new Error(`HTTP 400 ${JSON.stringify({ code, msg })}`);
+}
+
+/** 对冲模式下各腿独立记仓，单向模式沿用交易对作为键 */
+function positionKey(symbol: string, positionSide: PositionSide = "BOTH"): string {
+  return positionSide === "BOTH" ? symbol : `${symbol}:${positionSide}`;
+}
+
+/** 对冲模式中平多为 LONG+SELL、平空为 SHORT+BUY，只能减少对应腿的持仓 */
+function isHedgeClose(side: OrderSide, positionSide: PositionSide | undefined): boolean {
+  return (positionSide === "LONG" && side === "SELL") || (positionSide === "SHORT" && side === "BUY");
+}
+
+function toPriceString(value: number): string {
+  return String(Number(value.toFixed(10)));
+}
+
+function emitSafely<T>(listeners: Iterable<(payload: T) => void>, payload: T): void {
+  for (const listener of Array.from(listeners)) {
+    try {
+      listener(payload);
+    } catch (error) {
+      console.error("[MockExchangeAdapter] listener failure", error);
+    }
+  }
+}
+
+/**
+ * 纯内存模拟交易所：维护挂单、持仓与余额，按外部驱动的行情撮合 LIMIT/MARKET/STOP_MARKET/TRAILING_STOP_MARKET，
+ * 并以与 AsterGateway 相同的方式推送 watch* 回调，便于离线运行各策略引擎。
+ */
+export class MockExchangeAdapter implements ExchangeAdapter {
+  readonly id: string = "mock";
+
+  private readonly defaultSymbol: string;
+  private readonly asset: string;
+  private readonly makerFeeRate: number;
+  private readonly takerFeeRate: number;
+  private readonly leverage: number;
+  private readonly spread: number;
+  private readonly depthQty: number;
+  private readonly fillModel: MockFillModel;
+  private readonly dualSidePosition: boolean;
+  private readonly leverageBrackets: AsterLeverageBracket[];
+  private readonly now: () => number;
+
+  private walletBalance: number;
+  private nextOrderId = 1;
+  private readonly orders = new Map<number, AsterOrder>();
+  private readonly orderHistory: AsterOrder[] = [];
+  private readonly queueAhead = new Map<number, number>();
+  private readonly trailingStates = new Map<number, TrailingState>();
+  private readonly positions = new Map<string, MockPosition>();
+  private readonly fills: MockFill[] = [];
+  private readonly incomes: AsterIncome[] = [];
+  private readonly symbolFilters = new Map<string, AsterSymbolFilters>();
+  private readonly leverages = new Map<string, number>();
+  private readonly marginTypes = new Map<string, MarginType>();
+  private readonly isolatedMargins = new Map<string, number>(); // 逐仓手动追加的保证金，按持仓腿记录
+
+  private readonly depthSnapshots = new Map<string, AsterDepth>();
+  private readonly tickerSnapshots = new Map<string, AsterTicker>();
+  private readonly lastPrices = new Map<string, number>();
+  private readonly klineStores = new Map<string, AsterKline[]>();
+
+  private readonly accountListeners = new Set<AccountListener>();
+  private readonly orderListeners = new Set<OrderListener>();
+  private readonly fillListeners = new Set<FillListener>();
+  private readonly depthListeners = new Map<string, Set<DepthListener>>();
+  private readonly tickerListeners = new Map<string, Set<TickerListener>>();
+  private readonly klineListeners = new Map<string, Set<KlineListener>>();
+  private readonly tradeListeners = new Map<string, Set<TradeListener>>();
+  private readonly markPriceListeners = new Map<string, Set<MarkPriceListener>>();
+  private readonly markPrices = new Map<string, AsterMarkPrice>();
+  private nextAggTradeId = 1;
+
+  constructor(options: MockExchangeOptions = {}) {
+    this.defaultSymbol = (options.symbol ?? process.env.TRADE_SYMBOL ?? "BTCUSDT").toUpperCase();
+    this.asset = options.asset ?? "USDT";
+    this.walletBalance = options.initialBalance ?? 10_000;
+    this.makerFeeRate = options.makerFeeRate ?? 0.0002;
+    this.takerFeeRate = options.takerFeeRate ?? 0.0004;
+    this.leverage = Math.max(1, options.leverage ?? 10);
+    this.spread = options.spread ?? 0.1;
+    this.depthQty = options.depthQty ?? 10;
+    this.fillModel = options.fillModel ?? "touch";
+    this.dualSidePosition = options.dualSidePosition ?? false;
+    this.leverageBrackets = options.leverageBrackets ?? [
+      { bracket: 1, initialLeverage: 125, notionalCap: 1_000_000_000, notionalFloor: 0, maintMarginRatio: 0.004, cum: 0 },
+    ];
+    options.symbolFilters?.forEach((filters) => this.setSymbolFilters(filters));
+    this.now = options.now ?? (() => Date.now());
+  }
+
+  watchAccount(cb: AccountListener): Unsubscribe {
+    this.accountListeners.add(cb);
+    cb(this.buildAccountSnapshot());
+    return () => {
+      this.accountListeners.delete(cb);
+    };
+  }
+
+  watchOrders(cb: OrderListener): Unsubscribe {
+    this.orderListeners.add(cb);
+    cb(this.getOpenOrders());
+    return () => {
+      this.orderListeners.delete(cb);
+    };
+  }
+
+  watchFills(cb: FillListener): Unsubscribe {
+    this.fillListeners.add(cb);
+    return () => {
+      this.fillListeners.delete(cb);
+    };
+  }
+
+  watchDepth(symbol: string, cb: DepthListener): Unsubscribe {
+    return this.addListener(this.depthListeners, symbol.toUpperCase(), cb);
+  }
+
+  /** 模拟盘口本身即为完整订单簿，按档位截取后推送 */
+  watchOrderBook(symbol: string, levels: number, cb: DepthListener): Unsubscribe {
+    return this.addListener(this.depthListeners, symbol.toUpperCase(), (depth) => {
+      cb({ ...depth, bids: depth.bids.slice(0, levels), asks: depth.asks.slice(0, levels) });
+    });
+  }
+
+  watchTicker(symbol: string, cb: TickerListener): Unsubscribe {
+    return this.addListener(this.tickerListeners, symbol.toUpperCase(), cb);
+  }
+
+  watchTrades(symbol: string, cb: TradeListener): Unsubscribe {
+    return this.addListener(this.tradeListeners, symbol.toUpperCase(), cb);
+  }
+
+  watchMarkPrice(symbol: string, cb: MarkPriceListener): Unsubscribe {
+    const upper = symbol.toUpperCase();
+    const unsubscribe = this.addListener(this.markPriceListeners, upper, cb);
+    const last = this.markPrices.get(upper);
+    if (last) cb(last);
+    return unsubscribe;
+  }
+
+  watchKlines(symbol: string, interval: string, cb: KlineListener): Unsubscribe {
+    const key = `${symbol.toUpperCase()}:${interval}`;
+    const unsubscribe = this.addListener(this.klineListeners, key, cb);
+    if (!this.klineStores.has(key)) {
+      this.klineStores.set(key, []);
+    }
+    const existing = this.klineStores.get(key)!;
+    if (existing.length) {
+      cb([...existing]);
+    }
+    return unsubscribe;
+  }
+
+  /** 清空所有订阅；模拟账户状态保留，便于关闭后继续检查 */
+  async close(): Promise<void> {
+    this.accountListeners.clear();
+    this.orderListeners.clear();
+    this.fillListeners.clear();
+    this.depthListeners.clear();
+    this.tickerListeners.clear();
+    this.klineListeners.clear();
+    this.tradeListeners.clear();
+    this.markPriceListeners.clear();
+  }
+
+  async createOrder(params: CreateOrderParams): Promise<AsterOrder> {
+    const symbol = params.symbol.toUpperCase();
+    const now = this.now();
+    const closePosition = params.closePosition === "true";
+    const reduceOnly = params.reduceOnly === "true" || closePosition;
+    const positionSide = params.positionSide ?? "BOTH";
+    const quantity = Number(params.quantity ?? 0);
+    if (!closePosition && !(quantity > 0)) {
+      throw exchangeError(-4003, "Quantity less than or equal to zero.");
+    }
+    if (params.type === "LIMIT" && !(Number(params.price) > 0)) {
+      throw exchangeError(-4014, "Price not increased by tick size.");
+    }
+    if (this.dualSidePosition ? positionSide === "BOTH" : positionSide !== "BOTH") {
+      throw exchangeError(-4061, "Order's position side does not match user's setting.");
+    }
+    if (this.dualSidePosition && params.reduceOnly != null) {
+      throw exchangeError(-1106, "Parameter 'reduceOnly' sent when not required.");
+    }
+    const reducing = reduceOnly || isHedgeClose(params.side, positionSide);
+    if (reducing && !closePosition && this.reducibleQuantity(symbol, params.side, positionSide) < QTY_EPS) {
+      throw exchangeError(-2022, "ReduceOnly Order is rejected.");
+    }
+    if (params.newClientOrderId && this.orderHistory.some((order) => order.clientOrderId === params.newClientOrderId)) {
+      throw exchangeError(-4116, "ClientOrderId is duplicated.");
+    }
+    const filters = this.symbolFilters.get(symbol);
+    if (filters) {
+      const violation = findSymbolFilterViolation({ ...params, symbol }, filters, this.referencePrice(symbol));
+      if (violation) {
+        throw exchangeError(-1013, `Filter failure: ${violation.filter}`);
+      }
+    }
+
+    const order: AsterOrder = {
+      orderId: this.nextOrderId++,
+      clientOrderId: params.newClientOrderId ?? `mock_${now}_${this.nextOrderId - 1}`,
+      symbol,
+      side: params.side,
+      type: params.type,
+      status: "NEW",
+      price: toPriceString(Number(params.price ?? 0)),
+      origQty: toPriceString(quantity),
+      executedQty: "0",
+      stopPrice: toPriceString(Number(params.stopPrice ?? 0)),
+      time: now,
+      updateTime: now,
+      reduceOnly,
+      closePosition,
+      avgPrice: "0",
+      cumQuote: "0",
+      origType: params.type,
+      positionSide,
+      timeInForce: params.timeInForce ?? "GTC",
+      activatePrice: params.activationPrice != null ? toPriceString(params.activationPrice) : undefined,
+      priceRate: params.callbackRate != null ? String(params.callbackRate) : undefined,
+      workingType: "CONTRACT_PRICE",
+      priceProtect: false,
+    };
+
+    switch (params.type) {
+      case "MARKET":
+        this.fillAtMarket(order);
+        break;
+      case "LIMIT":
+        this.acceptLimit(order);
+        break;
+      case "STOP_MARKET":
+        this.acceptStop(order);
+        break;
+      case "TRAILING_STOP_MARKET":
+        this.acceptTrailing(order, params.activationPrice);
+        break;
+      default:
+        throw exchangeError(-1116, `Invalid orderType ${String(params.type)}.`);
+    }
+
+    if (!FINAL_ORDER_STATUSES.has(order.status)) {
+      this.orders.set(order.orderId, order);
+    }
+    this.orderHistory.push(order);
+    this.emitOrders();
+    this.emitAccount();
+    return { ...order };
+  }
+
+  async queryOrder(params: QueryOrderParams): Promise<AsterOrder> {
+    const symbol = params.symbol.toUpperCase();
+    const order = this.orderHistory.find(
+      (entry) =>
+        entry.symbol === symbol &&
+        (params.orderId != null ? entry.orderId === params.orderId : entry.clientOrderId === params.origClientOrderId)
+    );
+    if (!order) {
+      throw exchangeError(-2013, "Order does not exist.");
+    }
+    return { ...order };
+  }
+
+  async cancelOrder(params: { symbol: string; orderId: number | string }): Promise<void> {
+    const order = this.orders.get(Number(params.orderId));
+    if (!order || order.symbol !== params.symbol.toUpperCase()) {
+      throw exchangeError(-2011, "Unknown order sent.");
+    }
+    this.finalizeOrder(order, "CANCELED");
+    this.emitOrders();
+  }
+
+  async cancelOrders(params: { symbol: string; orderIdList: Array<number | string> }): Promise<void> {
+    const symbol = params.symbol.toUpperCase();
+    const targets = params.orderIdList
+      .map((id) => this.orders.get(Number(id)))
+      .filter((order): order is AsterOrder => order != null && order.symbol === symbol);
+    if (!targets.length) {
+      throw exchangeError(-2011, "Unknown order sent.");
+    }
+    targets.forEach((order) => this.finalizeOrder(order, "CANCELED"));
+    this.emitOrders();
+  }
+
+  async cancelAllOrders(params: { symbol: string }): Promise<void> {
+    const symbol = params.symbol.toUpperCase();
+    for (const order of Array.from(this.orders.values())) {
+      if (order.symbol === symbol) {
+        this.finalizeOrder(order, "CANCELED");
+      }
+    }
+    this.emitOrders();
+  }
+
+  async getKlines(symbol: string, interval: string, limit: number): Promise<AsterKline[]> {
+    const store = this.klineStores.get(`${symbol.toUpperCase()}:${interval}`) ?? [];
+    return store.slice(-Math.max(0, limit)).map((kline) => ({ ...kline }));
+  }
+
+  async getDualSidePosition(): Promise<boolean> {
+    return this.dualSidePosition;
+  }
+
+  async setLeverage(symbol: string, leverage: number): Promise<AsterLeverageResult> {
+    const key = symbol.toUpperCase();
+    const allowed = this.leverageBrackets.filter((bracket) => bracket.initialLeverage >= leverage);
+    if (!Number.isInteger(leverage) || leverage < 1 || !allowed.length) {
+      throw exchangeError(-4028, `Leverage ${leverage} is not valid`);
+    }
+    this.leverages.set(key, leverage);
+    this.emitAccount();
+    return { symbol: key, leverage, maxNotionalValue: Math.max(...allowed.map((bracket) => bracket.notionalCap)) };
+  }
+
+  async setMarginType(symbol: string, marginType: MarginType): Promise<void> {
+    const key = symbol.toUpperCase();
+    if (this.getMarginType(key) === marginType) {
+      throw exchangeError(-4046, "No need to change margin type.");
+    }
+    if (Array.from(this.orders.values()).some((order) => order.symbol === key)) {
+      throw exchangeError(-4047, "Margin type cannot be changed if there exists open orders.");
+    }
+    if (Array.from(this.positions.entries()).some(([posKey, position]) => posKey.split(":")[0] === key && Math.abs(position.amount) > QTY_EPS)) {
+      throw exchangeError(-4048, "Margin type cannot be changed if there exists position.");
+    }
+    this.marginTypes.set(key, marginType);
+    this.emitAccount();
+  }
+
+  async adjustIsolatedMargin(params: AdjustIsolatedMarginParams): Promise<void> {
+    const symbol = params.symbol.toUpperCase();
+    const key = positionKey(symbol, params.positionSide ?? "BOTH");
+    const position = this.positions.get(key);
+    if (this.getMarginType(symbol) !== "ISOLATED" || !position || Math.abs(position.amount) < QTY_EPS) {
+      throw exchangeError(-4049, "Add margin only support for isolated position.");
+    }
+    const current = this.isolatedMargins.get(key) ?? 0;
+    if (params.type === "ADD") {
+      const available = Number(this.buildAccountSnapshot().availableBalance ?? 0);
+      if (params.amount > available) {
+        throw exchangeError(-2019, "Margin is insufficient.");
+      }
+      this.isolatedMargins.set(key, current + params.amount);
+    } else {
+      if (params.amount > current + QTY_EPS) {
+        throw exchangeError(-4051, "Isolated balance insufficient.");
+      }
+      this.isolatedMargins.set(key, current - params.amount);
+    }
+    this.emitAccount();
+  }
+
+  async getLeverageBrackets(_symbol: string): Promise<AsterLeverageBracket[]> {
+    return this.leverageBrackets.map((bracket) => ({ ...bracket }));
+  }
+
+  async getIncomeHistory(query: IncomeHistoryQuery = {}): Promise<AsterIncome[]> {
+    const symbol = query.symbol?.toUpperCase();
+    return this.incomes
+      .filter(
+        (income) =>
+          (!symbol || income.symbol === symbol) &&
+          (!query.incomeType || income.incomeType === query.incomeType) &&
+          (query.startTime == null || income.time >= query.startTime) &&
+          (query.endTime == null || income.time <= query.endTime)
+      )
+      .slice(0, query.limit ?? 100)
+      .map((income) => ({ ...income }));
+  }
+
+  async getUserTrades(query: UserTradesQuery): Promise<AsterUserTrade[]> {
+    const symbol = query.symbol.toUpperCase();
+    return this.fills
+      .map((fill, index) => ({ fill, id: index + 1 }))
+      .filter(
+        ({ fill, id }) =>
+          fill.symbol === symbol &&
+          (query.fromId == null || id >= query.fromId) &&
+          (query.startTime == null || fill.time >= query.startTime) &&
+          (query.endTime == null || fill.time <= query.endTime)
+      )
+      .slice(0, query.limit ?? 500)
+      .map(({ fill, id }) => ({
+        symbol: fill.symbol,
+        id,
+        orderId: fill.orderId,
+        side: fill.side,
+        positionSide: fill.positionSide ?? "BOTH",
+        price: toPriceString(fill.price),
+        qty: toPriceString(fill.quantity),
+        quoteQty: (fill.price * fill.quantity).toFixed(8),
+        commission: fill.fee.toFixed(8),
+        commissionAsset: this.asset,
+        realizedPnl: fill.realizedPnl.toFixed(8),
+        maker: fill.maker,
+        buyer: fill.side === "BUY",
+        time: fill.time,
+      }));
+  }
+
+  async getSymbolFilters(symbol: string): Promise<AsterSymbolFilters | null> {
+    const filters = this.symbolFilters.get(symbol.toUpperCase());
+    return filters ? { ...filters } : null;
+  }
+
+  setSymbolFilters(filters: AsterSymbolFilters): void {
+    this.symbolFilters.set(filters.symbol.toUpperCase(), { ...filters, symbol: filters.symbol.toUpperCase() });
+  }
+
+  // ===== 行情驱动接口 =====
+
+  /**
+   * 以成交价驱动行情：生成合成盘口与 Ticker，更新 K 线并撮合挂单
+   */
+  pushPrice(price: number, options: { symbol?: string; spread?: number; volume?: number } = {}): void {
+    const symbol = (options.symbol ?? this.defaultSymbol).toUpperCase();
+    const spread = Math.max(0, options.spread ?? this.spread);
+    const now = this.now();
+    const bids: AsterDepth["bids"] = [];
+    const asks: AsterDepth["asks"] = [];
+    for (let level = 0; level < DEFAULT_DEPTH_LEVELS; level += 1) {
+      const offset = level * Math.max(spread, 1e-8);
+      bids.push([toPriceString(price - offset), String(this.depthQty)]);
+      asks.push([toPriceString(price + spread + offset), String(this.depthQty)]);
+    }
+    this.depthSnapshots.set(symbol, {
+      lastUpdateId: now,
+      eventTime: now,
+      eventType: "depthUpdate",
+      symbol,
+      bids,
+      asks,
+    });
+    this.updateTicker(symbol, price, options.volume ?? 0);
+    this.updateKlineStores(symbol, price, options.volume ?? 0);
+    this.matchOrders(symbol, price);
+    this.emitDepth(symbol);
+    this.emitTicker(symbol);
+    this.emitKlines(symbol);
+    this.emitOrders();
+    this.emitAccount();
+  }
+
+  pushDepth(depth: AsterDepth): void {
+    const symbol = (depth.symbol ?? this.defaultSymbol).toUpperCase();
+    this.depthSnapshots.set(symbol, { ...depth, symbol });
+    this.shrinkQueues(symbol);
+    this.matchOrders(symbol, null);
+    this.emitDepth(symbol);
+    this.emitOrders();
+    this.emitAccount();
+  }
+
+  pushTicker(ticker: AsterTicker): void {
+    const symbol = (ticker.symbol ?? this.defaultSymbol).toUpperCase();
+    const price = Number(ticker.lastPrice);
+    this.tickerSnapshots.set(symbol, { ...ticker, symbol });
+    if (Number.isFinite(price) && price > 0) {
+      this.lastPrices.set(symbol, price);
+      this.matchOrders(symbol, price);
+    }
+    this.emitTicker(symbol);
+    this.emitOrders();
+    this.emitAccount();
+  }
+
+  /**
+   * 以逐笔成交驱动撮合：queue 模式下同价成交先消耗排在挂单前面的数量，超出部分成交挂单
+   */
+  pushTrade(trade: MockTrade): void {
+    const symbol = (trade.symbol ?? this.defaultSymbol).toUpperCase();
+    if (!(trade.price > 0) || !(trade.quantity > 0)) return;
+    this.lastPrices.set(symbol, trade.price);
+    this.emitTrade(symbol, trade);
+    if (this.fillModel === "queue") {
+      this.consumeQueues(symbol, trade);
+    }
+    this.matchOrders(symbol, trade.price);
+    this.emitOrders();
+    this.emitAccount();
+  }
+
+  pushMarkPrice(mark: AsterMarkPrice): void {
+    const symbol = (mark.symbol ?? this.defaultSymbol).toUpperCase();
+    const snapshot = { ...mark, symbol };
+    this.markPrices.set(symbol, snapshot);
+    const listeners = this.markPriceListeners.get(symbol);
+    if (listeners?.size) emitSafely(listeners, snapshot);
+  }
+
+  /**
+   * 按费率结算一次资金费：费率为正时多头支付、空头收取，计入钱包余额与资金流水
+   */
+  settleFunding(fundingRate: number, symbol: string = this.defaultSymbol): number {
+    const upper = symbol.toUpperCase();
+    const mark = this.referencePrice(upper) ?? 0;
+    const now = this.now();
+    let total = 0;
+    for (const [key, position] of this.positions.entries()) {
+      if (key.split(":")[0] !== upper || Math.abs(position.amount) < QTY_EPS) continue;
+      total += -position.amount * mark * fundingRate;
+    }
+    if (total !== 0) {
+      this.walletBalance += total;
+      this.addIncome(upper, "FUNDING_FEE", total, now, "");
+      this.emitAccount();
+    }
+    return total;
+  }
+
+  pushKline(kline: AsterKline): void {
+    const symbol = (kline.symbol ?? this.defaultSymbol).toUpperCase();
+    const interval = kline.interval ?? "1m";
+    const key = `${symbol}:${interval}`;
+    const store = this.klineStores.get(key) ?? [];
+    const index = store.findIndex((item) => item.openTime === kline.openTime);
+    if (index >= 0) {
+      store[index] = { ...kline, symbol, interval };
+    } else {
+      store.push({ ...kline, symbol, interval });
+      store.sort((a, b) => a.openTime - b.openTime);
+      if (store.length > DEFAULT_KLINE_LIMIT) store.shift();
+    }
+    this.klineStores.set(key, store);
+    const close = Number(kline.close);
+    if (Number.isFinite(close) && close > 0) {
+      this.lastPrices.set(symbol, close);
+      this.matchOrders(symbol, close);
+    }
+    this.emitKlineKey(key);
+    this.emitOrders();
+    this.emitAccount();
+  }
+
+  setKlines(symbol: string, interval: string, klines: AsterKline[]): void {
+    const upper = symbol.toUpperCase();
+    const key = `${upper}:${interval}`;
+    const store = klines
+      .map((kline) => ({ ...kline, symbol: upper, interval }))
+      .sort((a, b) => a.openTime - b.openTime)
+      .slice(-DEFAULT_KLINE_LIMIT);
+    this.klineStores.set(key, store);
+    const last = store[store.length - 1];
+    if (last && !this.lastPrices.has(upper)) {
+      this.lastPrices.set(upper, Number(last.close));
+    }
+    this.emitKlineKey(key);
+  }
+
+  setBalance(balance: number): void {
+    this.walletBalance = balance;
+    this.emitAccount();
+  }
+
+  // ===== 查询接口 =====
+
+  getAccountSnapshot(): AsterAccountSnapshot {
+    return this.buildAccountSnapshot();
+  }
+
+  getOpenOrders(symbol?: string): AsterOrder[] {
+    const upper = symbol?.toUpperCase();
+    return Array.from(this.orders.values())
+      .filter((order) => !upper || order.symbol === upper)
+      .map((order) => ({ ...order }));
+  }
+
+  getFills(): MockFill[] {
+    return this.fills.map((fill) => ({ ...fill }));
+  }
+
+  getFillCount(): number {
+    return this.fills.length;
+  }
+
+  /** 所有已提交的订单（含已成交、撤销与被拒绝的），按提交顺序排列 */
+  getOrderHistory(): AsterOrder[] {
+    return this.orderHistory.map((order) => ({ ...order }));
+  }
+
+  /** queue 模式下挂单前方仍需成交的数量，非排队中的订单返回 null */
+  getQueueAhead(orderId: number): number | null {
+    return this.queueAhead.get(orderId) ?? null;
+  }
+
+  getLeverage(symbol: string = this.defaultSymbol): number {
+    return this.leverages.get(symbol.toUpperCase()) ?? this.leverage;
+  }
+
+  getMarginType(symbol: string = this.defaultSymbol): MarginType {
+    return this.marginTypes.get(symbol.toUpperCase()) ?? "CROSSED";
+  }
+
+  /** 对冲模式下传入 LONG/SHORT 读取对应腿的持仓，空头腿为负数 */
+  getPositionAmount(symbol: string = this.defaultSymbol, positionSide: PositionSide = "BOTH"): number {
+    return this.positions.get(positionKey(symbol.toUpperCase(), positionSide))?.amount ?? 0;
+  }
+
+  // ===== 撮合逻辑 =====
+
+  private acceptLimit(order: AsterOrder): void {
+    const price = Number(order.price);
+    const { bestBid, bestAsk } = this.bestPrices(order.symbol);
+    const crosses = order.side === "BUY" ? bestAsk != null && price >= bestAsk : bestBid != null && price <= bestBid;
+    if (order.timeInForce === "GTX" && crosses) {
+      // 只做 Maker 的挂单若会立即成交则被交易所直接过期
+      order.status = "EXPIRED";
+      return;
+    }
+    if (crosses) {
+      const quantity = this.executableQuantity(order);
+      if (quantity < QTY_EPS) {
+        order.status = "EXPIRED";
+        return;
+      }
+      const fillPrice = this.sweepPrice(order.symbol, order.side, quantity, price) ?? price;
+      this.applyFill(order, fillPrice, quantity, false);
+      return;
+    }
+    if (order.timeInForce === "IOC" || order.timeInForce === "FOK") {
+      order.status = "EXPIRED";
+      return;
+    }
+    if (this.fillModel === "queue") {
+      // 新挂单排在该价位现有数量之后；优于盘口的价位前方无人排队
+      this.queueAhead.set(order.orderId, this.levelQuantity(order.symbol, order.side, price) ?? 0);
+    }
+  }
+
+  private acceptStop(order: AsterOrder): void {
+    const stopPrice = Number(order.stopPrice);
+    const reference = this.referencePrice(order.symbol);
+    if (reference != null) {
+      const wouldTrigger = order.side === "SELL" ? reference <= stopPrice : reference >= stopPrice;
+      if (wouldTrigger) {
+        throw exchangeError(-2021, "Order would immediately trigger.");
+      }
+    }
+  }
+
+  private acceptTrailing(order: AsterOrder, activationPrice?: number): void {
+    const hasActivation = activationPrice != null && Number.isFinite(activationPrice);
+    this.trailingStates.set(order.orderId, {
+      activated: !hasActivation,
+      extreme: hasActivation ? null : this.referencePrice(order.symbol),
+    });
+  }
+
+  private fillAtMarket(order: AsterOrder): void {
+    const quantity = this.executableQuantity(order);
+    if (quantity < QTY_EPS) {
+      order.status = "EXPIRED";
+      return;
+    }
+    const price = this.sweepPrice(order.symbol, order.side, quantity, null);
+    if (price == null) {
+      throw exchangeError(-1000, `No market price available for ${order.symbol}.`);
+    }
+    this.applyFill(order, price, quantity, false);
+  }
+
+  private matchOrders(symbol: string, tradePrice: number | null): void {
+    const { bestBid, bestAsk } = this.bestPrices(symbol);
+    const reference = tradePrice ?? this.referencePrice(symbol);
+    const candidates = Array.from(this.orders.values())
+      .filter((order) => order.symbol === symbol)
+      .sort((a, b) => a.orderId - b.orderId);
+
+    for (const order of candidates) {
+      if (FINAL_ORDER_STATUSES.has(order.status)) continue;
+      switch (order.type) {
+        case "LIMIT": {
+          const price = Number(order.price);
+          // 盘口越过挂单价，或有成交价穿过挂单价时视为成交
+          const filled =
+            order.side === "BUY"
+              ? (bestAsk != null && bestAsk <= price) || (tradePrice != null && tradePrice < price)
+              : (bestBid != null && bestBid >= price) || (tradePrice != null && tradePrice > price);
+          if (filled) this.fillResting(order, price, true);
+          break;
+        }
+        case "STOP_MARKET": {
+          if (reference == null) break;
+          const stopPrice = Number(order.stopPrice);
+          const triggered = order.side === "SELL" ? reference <= stopPrice : reference >= stopPrice;
+          if (triggered) this.triggerMarket(order);
+          break;
+        }
+        case "TRAILING_STOP_MARKET": {
+          if (reference == null) break;
+          if (this.updateTrailing(order, reference)) this.triggerMarket(order);
+          break;
+        }
+        default:
+          break;
+      }
+    }
+  }
+
+  private consumeQueues(symbol: string, trade: MockTrade): void {
+    // 卖方主动成交消耗买单队列，买方主动成交消耗卖单队列
+    const side: OrderSide = trade.buyerMaker ? "BUY" : "SELL";
+    const candidates = Array.from(this.orders.values())
+      .filter((order) => order.symbol === symbol && order.type === "LIMIT" && order.side === side)
+      .filter((order) => Math.abs(Number(order.price) - trade.price) < QTY_EPS)
+      .sort((a, b) => a.orderId - b.orderId);
+    let remaining = trade.quantity;
+    for (const order of candidates) {
+      if (remaining <= QTY_EPS) break;
+      const ahead = this.queueAhead.get(order.orderId) ?? 0;
+      if (ahead >= remaining) {
+        this.queueAhead.set(order.orderId, ahead - remaining);
+        return;
+      }
+      remaining -= ahead;
+      this.queueAhead.set(order.orderId, 0);
+      const quantity = Math.min(remaining, this.executableQuantity(order));
+      if (quantity < QTY_EPS) continue;
+      remaining -= quantity;
+      this.fillPartially(order, trade.price, quantity);
+    }
+  }
+
+  /** 盘口更新后该价位数量少于排队数量，说明前方有人撤单或成交，排队位置随之前移 */
+  private shrinkQueues(symbol: string): void {
+    for (const [orderId, ahead] of this.queueAhead) {
+      const order = this.orders.get(orderId);
+      if (!order || order.symbol !== symbol) continue;
+      const level = this.levelQuantity(symbol, order.side, Number(order.price));
+      if (level != null && level < ahead) {
+        this.queueAhead.set(orderId, level);
+      }
+    }
+  }
+
+  /** 同方向盘口在该价位的挂单数量；价位在可见档位之外时返回 null */
+  private levelQuantity(symbol: string, side: OrderSide, price: number): number | null {
+    const depth = this.depthSnapshots.get(symbol);
+    const levels = side === "BUY" ? depth?.bids ?? [] : depth?.asks ?? [];
+    if (!levels.length) return null;
+    const worst = Number(levels[levels.length - 1]?.[0]);
+    for (const level of levels) {
+      if (Math.abs(Number(level[0]) - price) < QTY_EPS) return Number(level[1]) || 0;
+    }
+    // 可见档位之间的空档或优于最优价的价位前方无人排队
+    const visible = side === "BUY" ? price >= worst : price <= worst;
+    return visible ? 0 : null;
+  }
+
+  private updateTrailing(order: AsterOrder, price: number): boolean {
+    const state = this.trailingStates.get(order.orderId) ?? { activated: false, extreme: null };
+    this.trailingStates.set(order.orderId, state);
+    const activation = Number(order.activatePrice);
+    if (!state.activated) {
+      const reached = order.side === "SELL" ? price >= activation : price <= activation;
+      if (!reached) return false;
+      state.activated = true;
+      state.extreme = price;
+    }
+    const extreme = state.extreme ?? price;
+    state.extreme = order.side === "SELL" ? Math.max(extreme, price) : Math.min(extreme, price);
+    // callbackRate 与交易所一致，以百分比表示（0.2 即 0.2%）
+    const rate = Math.max(0, Number(order.priceRate ?? 0)) / 100;
+    return order.side === "SELL" ? price <= state.extreme * (1 - rate) : price >= state.extreme * (1 + rate);
+  }
+
+  private fillPartially(order: AsterOrder, price: number, quantity: number): void {
+    this.applyFill(order, price, quantity, true);
+    if (order.status === "PARTIALLY_FILLED") return;
+    this.orders.delete(order.orderId);
+    this.queueAhead.delete(order.orderId);
+  }
+
+  private fillResting(order: AsterOrder, price: number, maker: boolean): void {
+    const quantity = this.executableQuantity(order);
+    if (quantity < QTY_EPS) {
+      this.finalizeOrder(order, "EXPIRED");
+      return;
+    }
+    this.applyFill(order, price, quantity, maker);
+    this.orders.delete(order.orderId);
+    this.queueAhead.delete(order.orderId);
+  }
+
+  private triggerMarket(order: AsterOrder): void {
+    const quantity = this.executableQuantity(order);
+    const price = this.sweepPrice(order.symbol, order.side, quantity, null);
+    if (quantity < QTY_EPS || price == null) {
+      this.finalizeOrder(order, "EXPIRED");
+      return;
+    }
+    this.applyFill(order, price, quantity, false);
+    this.orders.delete(order.orderId);
+    this.trailingStates.delete(order.orderId);
+  }
+
+  private executableQuantity(order: AsterOrder): number {
+    const remaining = Number(order.origQty) - Number(order.executedQty);
+    if (order.closePosition) {
+      return this.reducibleQuantity(order.symbol, order.side, order.positionSide);
+    }
+    if (order.reduceOnly || isHedgeClose(order.side, order.positionSide)) {
+      return Math.min(remaining, this.reducibleQuantity(order.symbol, order.side, order.positionSide));
+    }
+    return remaining;
+  }
+
+  private reducibleQuantity(symbol: string, side: OrderSide, positionSide: PositionSide = "BOTH"): number {
+    const amount = this.positions.get(positionKey(symbol, positionSide))?.amount ?? 0;
+    if (side === "SELL") return amount > 0 ? amount : 0;
+    return amount < 0 ? -amount : 0;
+  }
+
+  private applyFill(order: AsterOrder, price: number, quantity: number, maker: boolean): void {
+    const now = this.now();
+    const key = positionKey(order.symbol, order.positionSide);
+    const position = this.positions.get(key) ?? { amount: 0, entryPrice: 0 };
+    const signed = order.side === "BUY" ? quantity : -quantity;
+    let realizedPnl = 0;
+
+    if (Math.abs(position.amount) < QTY_EPS || Math.sign(position.amount) === Math.sign(signed)) {
+      const nextAmount = position.amount + signed;
+      position.entryPrice =
+        (Math.abs(position.amount) * position.entryPrice + quantity * price) / Math.abs(nextAmount);
+      position.amount = nextAmount;
+    } else {
+      const closing = Math.min(Math.abs(position.amount), quantity);
+      realizedPnl = (price - position.entryPrice) * closing * Math.sign(position.amount);
+      position.amount += signed;
+      if (Math.abs(position.amount) < QTY_EPS) {
+        position.amount = 0;
+        position.entryPrice = 0;
+      } else if (quantity - closing > QTY_EPS) {
+        // 反手：剩余部分以成交价建立新仓位
+        position.entryPrice = price;
+      }
+    }
+    this.positions.set(key, position);
+    if (position.amount === 0) {
+      // 平仓后逐仓追加的保证金随仓位释放
+      this.isolatedMargins.delete(key);
+    }
+
+    const fee = quantity * price * (maker ? this.makerFeeRate : this.takerFeeRate);
+    this.walletBalance += realizedPnl - fee;
+
+    const executed = Number(order.executedQty) + quantity;
+    const cumQuote = Number(order.cumQuote ?? 0) + quantity * price;
+    order.executedQty = toPriceString(executed);
+    order.cumQuote = toPriceString(cumQuote);
+    order.avgPrice = toPriceString(cumQuote / executed);
+    // 先按剩余可成交数量确定状态，推送的成交事件才能区分部分成交与全部成交
+    order.status = this.executableQuantity(order) > QTY_EPS ? "PARTIALLY_FILLED" : "FILLED";
+    order.updateTime = now;
+
+    this.fills.push({
+      orderId: order.orderId,
+      symbol: order.symbol,
+      side: order.side,
+      positionSide: order.positionSide ?? "BOTH",
+      price,
+      quantity,
+      fee,
+      realizedPnl,
+      maker,
+      time: now,
+    });
+    const tradeId = String(this.fills.length);
+    if (realizedPnl !== 0) this.addIncome(order.symbol, "REALIZED_PNL", realizedPnl, now, tradeId);
+    this.addIncome(order.symbol, "COMMISSION", -fee, now, tradeId);
+    this.emitFill({
+      symbol: order.symbol,
+      orderId: order.orderId,
+      clientOrderId: order.clientOrderId,
+      tradeId: this.fills.length,
+      side: order.side,
+      positionSide: order.positionSide ?? "BOTH",
+      orderType: order.type,
+      orderStatus: order.status,
+      reduceOnly: order.reduceOnly,
+      lastFilledQty: toPriceString(quantity),
+      lastFilledPrice: toPriceString(price),
+      cumulativeFilledQty: order.executedQty,
+      avgPrice: order.avgPrice,
+      commission: fee.toFixed(8),
+      commissionAsset: this.asset,
+      isMaker: maker,
+      realizedPnl: realizedPnl.toFixed(8),
+      tradeTime: now,
+      eventTime: now,
+    });
+  }
+
+  private finalizeOrder(order: AsterOrder, status: "CANCELED" | "EXPIRED"): void {
+    order.status = status;
+    order.updateTime = this.now();
+    this.orders.delete(order.orderId);
+    this.trailingStates.delete(order.orderId);
+    this.queueAhead.delete(order.orderId);
+  }
+
+  /**
+   * 按盘口逐档计算吃单均价；盘口不足的部分按最后一档价格成交，无盘口时回退到最新价
+   */
+  private sweepPrice(symbol: string, side: OrderSide, quantity: number, limitPrice: number | null): number | null {
+    const depth = this.depthSnapshots.get(symbol);
+    const levels = side === "BUY" ? depth?.asks ?? [] : depth?.bids ?? [];
+    let remaining = quantity;
+    let notional = 0;
+    let lastLevelPrice: number | null = null;
+    for (const level of levels) {
+      const levelPrice = Number(level[0]);
+      const levelQty = Number(level[1]);
+      if (!Number.isFinite(levelPrice) || !Number.isFinite(levelQty) || levelQty <= 0) continue;
+      if (limitPrice != null && (side === "BUY" ? levelPrice > limitPrice : levelPrice < limitPrice)) break;
+      const take = Math.min(remaining, levelQty);
+      notional += take * levelPrice;
+      remaining -= take;
+      lastLevelPrice = levelPrice;
+      if (remaining <= QTY_EPS) break;
+    }
+    const fallback = lastLevelPrice ?? limitPrice ?? this.referencePrice(symbol);
+    if (fallback == null) return null;
+    if (remaining > QTY_EPS) {
+      notional += remaining * fallback;
+    }
+    return notional / quantity;
+  }
+
+  private bestPrices(symbol: string): { bestBid: number | null; bestAsk: number | null } {
+    const depth = this.depthSnapshots.get(symbol);
+    const bid = Number(depth?.bids?.[0]?.[0]);
+    const ask = Number(depth?.asks?.[0]?.[0]);
+    return {
+      bestBid: Number.isFinite(bid) ? bid : null,
+      bestAsk: Number.isFinite(ask) ? ask : null,
+    };
+  }
+
+  private referencePrice(symbol: string): number | null {
+    const last = this.lastPrices.get(symbol);
+    if (last != null) return last;
+    const { bestBid, bestAsk } = this.bestPrices(symbol);
+    if (bestBid != null && bestAsk != null) return (bestBid + bestAsk) / 2;
+    return bestBid ?? bestAsk;
+  }
+
+  // ===== 行情存储 =====
+
+  private updateTicker(symbol: string, price: number, volume: number): void {
+    const previous = this.tickerSnapshots.get(symbol);
+    const now = this.now();
+    const open = Number(previous?.openPrice ?? price);
+    this.tickerSnapshots.set(symbol, {
+      symbol,
+      eventType: "24hrMiniTicker",
+      eventTime: now,
+      lastPrice: toPriceString(price),
+      openPrice: toPriceString(open),
+      highPrice: toPriceString(Math.max(Number(previous?.highPrice ?? price), price)),
+      lowPrice: toPriceString(Math.min(Number(previous?.lowPrice ?? price), price)),
+      volume: toPriceString(Number(previous?.volume ?? 0) + volume),
+      quoteVolume: toPriceString(Number(previous?.quoteVolume ?? 0) + volume * price),
+      priceChange: toPriceString(price - open),
+    });
+    this.lastPrices.set(symbol, price);
+  }
+
+  private updateKlineStores(symbol: string, price: number, volume: number): void {
+    const now = this.now();
+    for (const [key, store] of this.klineStores) {
+      const [storeSymbol, interval] = key.split(":");
+      if (storeSymbol !== symbol || !interval) continue;
+      const openTime = alignToInterval(now, interval);
+      const last = store[store.length - 1];
+      if (last && last.openTime === openTime) {
+        last.high = toPriceString(Math.max(Number(last.high), price));
+        last.low = toPriceString(Math.min(Number(last.low), price));
+        last.close = toPriceString(price);
+        last.volume = toPriceString(Number(last.volume) + volume);
+        last.numberOfTrades += 1;
+        continue;
+      }
+      if (last) last.isClosed = true;
+      store.push({
+        symbol,
+        interval,
+        openTime,
+        closeTime: openTime + intervalToMs(interval) - 1,
+        open: toPriceString(price),
+        high: toPriceString(price),
+        low: toPriceString(price),
+        close: toPriceString(price),
+        volume: toPriceString(volume),
+        numberOfTrades: 1,
+        isClosed: false,
+      });
+      if (store.length > DEFAULT_KLINE_LIMIT) store.shift();
+    }
+  }
+
+  // ===== 账户快照 =====
+
+  private buildAccountSnapshot(): AsterAccountSnapshot {
+    const now = this.now();
+    const symbols = new Set<string>([this.defaultSymbol, ...Array.from(this.positions.keys(), (key) => key.split(":")[0]!)]);
+    const sides: PositionSide[] = this.dualSidePosition ? ["LONG", "SHORT"] : ["BOTH"];
+    const positions: AsterAccountPosition[] = [];
+    let totalUnrealized = 0;
+    let totalInitialMargin = 0;
+    let totalIsolatedMargin = 0;
+    for (const [symbol, positionSide] of Array.from(symbols).flatMap((symbol) => sides.map((side) => [symbol, side] as const))) {
+      const position = this.positions.get(positionKey(symbol, positionSide)) ?? { amount: 0, entryPrice: 0 };
+      const mark = this.referencePrice(symbol) ?? position.entryPrice;
+      const unrealized = position.amount !== 0 ? (mark - position.entryPrice) * position.amount : 0;
+      const leverage = this.getLeverage(symbol);
+      const isolated = this.getMarginType(symbol) === "ISOLATED";
+      const initialMargin = (Math.abs(position.amount) * mark) / leverage;
+      const extraMargin = isolated ? this.isolatedMargins.get(positionKey(symbol, positionSide)) ?? 0 : 0;
+      totalUnrealized += unrealized;
+      totalInitialMargin += initialMargin;
+      totalIsolatedMargin += extraMargin;
+      positions.push({
+        symbol,
+        positionAmt: toPriceString(position.amount),
+        entryPrice: toPriceString(position.entryPrice),
+        unrealizedProfit: unrealized.toFixed(8),
+        positionSide,
+        updateTime: now,
+        initialMargin: initialMargin.toFixed(8),
+        leverage: String(leverage),
+        isolated,
+        marginType: isolated ? "isolated" : "cross",
+        isolatedMargin: isolated ? (initialMargin + extraMargin).toFixed(8) : undefined,
+        markPrice: mark ? toPriceString(mark) : undefined,
+      });
+    }
+    const marginBalance = this.walletBalance + totalUnrealized;
+    const available = Math.max(0, marginBalance - totalInitialMargin - totalIsolatedMargin);
+    return {
+      canTrade: true,
+      canDeposit: true,
+      canWithdraw: true,
+      updateTime: now,
+      totalWalletBalance: this.walletBalance.toFixed(8),
+      totalUnrealizedProfit: totalUnrealized.toFixed(8),
+      totalMarginBalance: marginBalance.toFixed(8),
+      totalInitialMargin: totalInitialMargin.toFixed(8),
+      availableBalance: available.toFixed(8),
+      maxWithdrawAmount: available.toFixed(8),
+      positions,
+      assets: [
+        {
+          asset: this.asset,
+          walletBalance: this.walletBalance.toFixed(8),
+          availableBalance: available.toFixed(8),
+          unrealizedProfit: totalUnrealized.toFixed(8),
+          marginBalance: marginBalance.toFixed(8),
+          initialMargin: totalInitialMargin.toFixed(8),
+          updateTime: now,
+        },
+      ],
+    };
+  }
+
+  // ===== 推送 =====
+
+  private addListener<T>(map: Map<string, Set<T>>, key: string, listener: T): Unsubscribe {
+    let set = map.get(key);
+    if (!set) {
+      set = new Set();
+      map.set(key, set);
+    }
+    set.add(listener);
+    return () => {
+      map.get(key)?.delete(listener);
+    };
+  }
+
+  private emitAccount(): void {
+    if (!this.accountListeners.size) return;
+    emitSafely(this.accountListeners, this.buildAccountSnapshot());
+  }
+
+  private emitOrders(): void {
+    if (!this.orderListeners.size) return;
+    emitSafely(this.orderListeners, this.getOpenOrders());
+  }
+
+  private addIncome(symbol: string, incomeType: string, amount: number, time: number, tradeId: string): void {
+    this.incomes.push({
+      symbol,
+      incomeType,
+      income: amount.toFixed(8),
+      asset: this.asset,
+      info: incomeType,
+      time,
+      tranId: this.incomes.length + 1,
+      tradeId,
+    });
+  }
+
+  private emitFill(fill: AsterFill): void {
+    if (!this.fillListeners.size) return;
+    emitSafely(this.fillListeners, fill);
+  }
+
+  private emitDepth(symbol: string): void {
+    const depth = this.depthSnapshots.get(symbol);
+    const listeners = this.depthListeners.get(symbol);
+    if (!depth || !listeners?.size) return;
+    emitSafely(listeners, depth);
+  }
+
+  private emitTicker(symbol: string): void {
+    const ticker = this.tickerSnapshots.get(symbol);
+    const listeners = this.tickerListeners.get(symbol);
+    if (!ticker || !listeners?.size) return;
+    emitSafely(listeners, ticker);
+  }
+
+  private emitTrade(symbol: string, trade: MockTrade): void {
+    const aggTradeId = this.nextAggTradeId++;
+    const listeners = this.tradeListeners.get(symbol);
+    if (!listeners?.size) return;
+    const time = this.now();
+    emitSafely<AsterTrade>(listeners, {
+      eventType: "aggTrade",
+      eventTime: time,
+      symbol,
+      aggTradeId,
+      price: String(trade.price),
+      quantity: String(trade.quantity),
+      tradeTime: time,
+      buyerMaker: trade.buyerMaker,
+    });
+  }
+
+  private emitKlines(symbol: string): void {
+    for (const key of this.klineStores.keys()) {
+      if (key.startsWith(`${symbol}:`)) this.emitKlineKey(key);
+    }
+  }
+
+  private emitKlineKey(key: string): void {
+    const store = this.klineStores.get(key);
+    const listeners = this.klineListeners.get(key);
+    if (!store || !store.length || !listeners?.size) return;
+    emitSafely(listeners, store.map((kline) => ({ ...kline })));
+  }
+}
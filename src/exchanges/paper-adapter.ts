@@ -0,0 +1,285 @@
+import type {
+  AccountListener,
+  DepthListener,
+  ExchangeAdapter,
+  FillListener,
+  KlineListener,
+  MarkPriceListener,
+  OrderListener,
+  TickerListener,
+  TradeListener,
+  Unsubscribe,
+} from "./adapter";
+import type {
+  AdjustIsolatedMarginParams,
+  AsterAccountSnapshot,
+  AsterIncome,
+  AsterKline,
+  AsterLeverageBracket,
+  AsterLeverageResult,
+  AsterOrder,
+  AsterSymbolFilters,
+  AsterTrade,
+  AsterUserTrade,
+  CreateOrderParams,
+  IncomeHistoryQuery,
+  MarginType,
+  QueryOrderParams,
+  UserTradesQuery,
+} from "./types";
+import { AsterPublicStreams, fetchExchangeInfo, fetchPublicKlines } from "./aster/client";
+import { MockExchangeAdapter, type MockFill } from "./mock-adapter";
+
+const DEFAULT_KLINE_LIMIT = 120;
+
+type PublicStreams = Pick<
+  AsterPublicStreams,
+  "subscribeDepth" | "subscribeTicker" | "subscribeKline" | "subscribeTrades" | "subscribeMarkPrice" | "disconnect"
+>;
+type KlineLoader = (symbol: string, interval: string, limit: number) => Promise<AsterKline[]>;
+type SymbolFiltersLoader = () => Promise<AsterSymbolFilters[]>;
+
+export interface PaperExchangeOptions {
+  symbol?: string;
+  initialBalance?: number;
+  feeRate?: number; // 同时作为 maker/taker 费率，单独配置时以下两项优先
+  makerFeeRate?: number;
+  takerFeeRate?: number;
+  leverage?: number;
+  dualSidePosition?: boolean;
+  streams?: PublicStreams;
+  loadKlines?: KlineLoader;
+  loadSymbolFilters?: SymbolFiltersLoader;
+}
+
+/**
+ * 模拟盘适配器：行情来自 Aster 公共数据流，下单与撤单只在本地撮合，从不调用签名接口
+ */
+export class PaperExchangeAdapter implements ExchangeAdapter {
+  readonly id = "paper";
+  private readonly simulator: MockExchangeAdapter;
+  private readonly streams: PublicStreams;
+  private readonly loadKlines: KlineLoader;
+  private readonly loadSymbolFilters: SymbolFiltersLoader;
+  private symbolFilters: Promise<Map<string, AsterSymbolFilters>> | null = null;
+  private readonly depthSymbols = new Set<string>();
+  private readonly tickerSymbols = new Set<string>();
+  private readonly klineKeys = new Set<string>();
+  private readonly markPriceSymbols = new Set<string>();
+  private readonly tradeListeners = new Map<string, Set<TradeListener>>();
+
+  constructor(options: PaperExchangeOptions = {}) {
+    this.simulator = new MockExchangeAdapter({
+      symbol: options.symbol,
+      initialBalance: options.initialBalance,
+      makerFeeRate: options.makerFeeRate ?? options.feeRate,
+      takerFeeRate: options.takerFeeRate ?? options.feeRate,
+      leverage: options.leverage,
+      dualSidePosition: options.dualSidePosition,
+    });
+    this.streams = options.streams ?? new AsterPublicStreams();
+    this.loadKlines = options.loadKlines ?? fetchPublicKlines;
+    this.loadSymbolFilters = options.loadSymbolFilters ?? fetchExchangeInfo;
+  }
+
+  watchAccount(cb: AccountListener): Unsubscribe {
+    return this.simulator.watchAccount(cb);
+  }
+
+  watchOrders(cb: OrderListener): Unsubscribe {
+    return this.simulator.watchOrders(cb);
+  }
+
+  /** 本地撮合的成交回报，手续费按模拟盘费率计算 */
+  watchFills(cb: FillListener): Unsubscribe {
+    return this.simulator.watchFills(cb);
+  }
+
+  watchDepth(symbol: string, cb: DepthListener): Unsubscribe {
+    this.ensureMarketFeed(symbol);
+    return this.simulator.watchDepth(symbol, cb);
+  }
+
+  watchOrderBook(symbol: string, levels: number, cb: DepthListener): Unsubscribe {
+    this.ensureMarketFeed(symbol);
+    return this.simulator.watchOrderBook(symbol, levels, cb);
+  }
+
+  watchTicker(symbol: string, cb: TickerListener): Unsubscribe {
+    this.ensureMarketFeed(symbol);
+    return this.simulator.watchTicker(symbol, cb);
+  }
+
+  /** 转发真实成交，同时用成交价撮合本地挂单 */
+  watchTrades(symbol: string, cb: TradeListener): Unsubscribe {
+    const upper = symbol.toUpperCase();
+    let listeners = this.tradeListeners.get(upper);
+    if (!listeners) {
+      listeners = new Set();
+      this.tradeListeners.set(upper, listeners);
+      this.streams.subscribeTrades(upper, (trade) => this.handleTrade(upper, trade));
+    }
+    listeners.add(cb);
+    return () => {
+      this.tradeListeners.get(upper)?.delete(cb);
+    };
+  }
+
+  /** 转发真实标记价格与资金费率 */
+  watchMarkPrice(symbol: string, cb: MarkPriceListener): Unsubscribe {
+    const upper = symbol.toUpperCase();
+    if (!this.markPriceSymbols.has(upper)) {
+      this.markPriceSymbols.add(upper);
+      this.streams.subscribeMarkPrice(upper, (mark) => this.simulator.pushMarkPrice(mark));
+    }
+    return this.simulator.watchMarkPrice(upper, cb);
+  }
+
+  watchKlines(symbol: string, interval: string, cb: KlineListener): Unsubscribe {
+    this.ensureKlineFeed(symbol, interval);
+    return this.simulator.watchKlines(symbol, interval, cb);
+  }
+
+  async createOrder(params: CreateOrderParams): Promise<AsterOrder> {
+    // 撮合依赖盘口，确保即使策略未订阅深度也能拿到实时行情
+    this.ensureMarketFeed(params.symbol);
+    return this.simulator.createOrder(params);
+  }
+
+  async queryOrder(params: QueryOrderParams): Promise<AsterOrder> {
+    return this.simulator.queryOrder(params);
+  }
+
+  async cancelOrder(params: { symbol: string; orderId: number | string }): Promise<void> {
+    await this.simulator.cancelOrder(params);
+  }
+
+  async cancelOrders(params: { symbol: string; orderIdList: Array<number | string> }): Promise<void> {
+    await this.simulator.cancelOrders(params);
+  }
+
+  async cancelAllOrders(params: { symbol: string }): Promise<void> {
+    await this.simulator.cancelAllOrders(params);
+  }
+
+  async getKlines(symbol: string, interval: string, limit: number): Promise<AsterKline[]> {
+    return this.loadKlines(symbol, interval, limit);
+  }
+
+  async getDualSidePosition(): Promise<boolean> {
+    return this.simulator.getDualSidePosition();
+  }
+
+  async setLeverage(symbol: string, leverage: number): Promise<AsterLeverageResult> {
+    return this.simulator.setLeverage(symbol, leverage);
+  }
+
+  async setMarginType(symbol: string, marginType: MarginType): Promise<void> {
+    await this.simulator.setMarginType(symbol, marginType);
+  }
+
+  async adjustIsolatedMargin(params: AdjustIsolatedMarginParams): Promise<void> {
+    await this.simulator.adjustIsolatedMargin(params);
+  }
+
+  async getLeverageBrackets(symbol: string): Promise<AsterLeverageBracket[]> {
+    return this.simulator.getLeverageBrackets(symbol);
+  }
+
+  async getIncomeHistory(query?: IncomeHistoryQuery): Promise<AsterIncome[]> {
+    return this.simulator.getIncomeHistory(query);
+  }
+
+  async getUserTrades(query: UserTradesQuery): Promise<AsterUserTrade[]> {
+    return this.simulator.getUserTrades(query);
+  }
+
+  /** 使用真实交易规则，本地撮合同样拒绝不合规订单 */
+  async getSymbolFilters(symbol: string): Promise<AsterSymbolFilters | null> {
+    if (!this.symbolFilters) {
+      this.symbolFilters = this.loadSymbolFilters().then((list) => new Map(list.map((filters) => [filters.symbol, filters])));
+    }
+    try {
+      const filters = (await this.symbolFilters).get(symbol.toUpperCase()) ?? null;
+      if (filters) this.simulator.setSymbolFilters(filters);
+      return filters;
+    } catch (error) {
+      this.symbolFilters = null;
+      console.error("[PaperExchangeAdapter] load symbol filters failed", error);
+      return null;
+    }
+  }
+
+  getAccountSnapshot(): AsterAccountSnapshot {
+    return this.simulator.getAccountSnapshot();
+  }
+
+  getFills(): MockFill[] {
+    return this.simulator.getFills();
+  }
+
+  disconnect(): void {
+    this.streams.disconnect();
+  }
+
+  /** 断开公共数据流并清空订阅，之后重新订阅会重新建立连接 */
+  async close(): Promise<void> {
+    this.disconnect();
+    this.depthSymbols.clear();
+    this.tickerSymbols.clear();
+    this.klineKeys.clear();
+    this.markPriceSymbols.clear();
+    this.tradeListeners.clear();
+    await this.simulator.close();
+  }
+
+  private handleTrade(symbol: string, trade: AsterTrade): void {
+    this.simulator.pushTrade({
+      symbol,
+      price: Number(trade.price),
+      quantity: Number(trade.quantity),
+      buyerMaker: trade.buyerMaker,
+    });
+    for (const listener of Array.from(this.tradeListeners.get(symbol) ?? [])) {
+      try {
+        listener(trade);
+      } catch (error) {
+        console.error("[PaperExchangeAdapter] trade listener failure", error);
+      }
+    }
+  }
+
+  private ensureMarketFeed(symbol: string): void {
+    const upper = symbol.toUpperCase();
+    if (!this.depthSymbols.has(upper)) {
+      this.depthSymbols.add(upper);
+      this.streams.subscribeDepth(upper, (depth) => {
+        this.simulator.pushDepth(depth);
+      });
+    }
+    if (!this.tickerSymbols.has(upper)) {
+      this.tickerSymbols.add(upper);
+      this.streams.subscribeTicker(upper, (ticker) => {
+        this.simulator.pushTicker(ticker);
+      });
+    }
+  }
+
+  private ensureKlineFeed(symbol: string, interval: string): void {
+    const upper = symbol.toUpperCase();
+    const key = `${upper}:${interval}`;
+    if (this.klineKeys.has(key)) return;
+    this.klineKeys.add(key);
+    this.ensureMarketFeed(upper);
+    this.streams.subscribeKline(upper, interval, (kline) => {
+      this.simulator.pushKline({ ...kline, symbol: upper, interval });
+    });
+    void this.loadKlines(upper, interval, DEFAULT_KLINE_LIMIT)
+      .then((klines) => {
+        this.simulator.setKlines(upper, interval, klines);
+      })
+      .catch((error) => {
+        console.error("[PaperExchangeAdapter] seed klines failed", error);
+      });
+  }
+}
@@ -0,0 +1,424 @@
+import { createWriteStream, existsSync, mkdirSync, readFileSync } from "fs";
+import { dirname } from "path";
+import type {
+  AccountListener,
+  DepthListener,
+  ExchangeAdapter,
+  FillListener,
+  KlineListener,
+  MarkPriceListener,
+  OrderListener,
+  TickerListener,
+  TradeListener,
+  Unsubscribe,
+} from "./adapter";
+import type {
+  AdjustIsolatedMarginParams,
+  AsterAccountSnapshot,
+  AsterDepth,
+  AsterFill,
+  AsterKline,
+  AsterLeverageBracket,
+  AsterLeverageResult,
+  AsterMarkPrice,
+  AsterOrder,
+  AsterSymbolFilters,
+  AsterTicker,
+  AsterTrade,
+  CreateOrderParams,
+  MarginType,
+  QueryOrderParams,
+  RateLimitUsage,
+  ClockSyncStatus,
+  StreamHealth,
+} from "./types";
+import { extractMessage } from "../utils/errors";
+
+/**
+ * 行情与账户推送（回放时按时间重新派发）
+ * cause 为推送发生时正在执行的调用 id，此类推送在回放时随对应调用同步派发
+ */
+export type RecordedFeedEvent = (
+  | { kind: "account"; payload: AsterAccountSnapshot }
+  | { kind: "orders"; payload: AsterOrder[] }
+  | { kind: "fill"; payload: AsterFill }
+  | { kind: "depth"; symbol: string; payload: AsterDepth }
+  | { kind: "ticker"; symbol: string; payload: AsterTicker }
+  | { kind: "trade"; symbol: string; payload: AsterTrade }
+  | { kind: "markPrice"; symbol: string; payload: AsterMarkPrice }
+  | { kind: "klines"; symbol: string; interval: string; payload: AsterKline[] }
+) & { t: number; cause?: number };
+
+/** 引擎发起的调用及交易所的应答（回放时按顺序复现应答） */
+export type RecordedCallEvent = (
+  | { kind: "createOrder"; params: CreateOrderParams; result?: AsterOrder }
+  | { kind: "queryOrder"; params: QueryOrderParams; result?: AsterOrder }
+  | { kind: "cancelOrder"; params: { symbol: string; orderId: number | string } }
+  | { kind: "cancelOrders"; params: { symbol: string; orderIdList: Array<number | string> } }
+  | { kind: "cancelAllOrders"; params: { symbol: string } }
+  | { kind: "getKlines"; params: { symbol: string; interval: string; limit: number }; result?: AsterKline[] }
+  | { kind: "getSymbolFilters"; params: { symbol: string }; result?: AsterSymbolFilters | null }
+  | { kind: "getDualSidePosition"; params: Record<string, never>; result?: boolean | null }
+  | { kind: "setLeverage"; params: { symbol: string; leverage: number }; result?: AsterLeverageResult }
+  | { kind: "setMarginType"; params: { symbol: string; marginType: MarginType } }
+  | { kind: "adjustIsolatedMargin"; params: AdjustIsolatedMarginParams }
+  | { kind: "getLeverageBrackets"; params: { symbol: string }; result?: AsterLeverageBracket[] }
+) & { t: number; id: number; error?: string };
+
+export type RecordedEvent = RecordedFeedEvent | RecordedCallEvent;
+
+const CALL_KINDS = new Set<RecordedEvent["kind"]>([
+  "createOrder",
+  "queryOrder",
+  "cancelOrder",
+  "cancelOrders",
+  "cancelAllOrders",
+  "getKlines",
+  "getSymbolFilters",
+  "getDualSidePosition",
+  "setLeverage",
+  "setMarginType",
+  "adjustIsolatedMargin",
+  "getLeverageBrackets",
+]);
+
+export function isRecordedCall(event: RecordedEvent): event is RecordedCallEvent {
+  return CALL_KINDS.has(event.kind);
+}
+
+export function parseRecording(content: string): RecordedEvent[] {
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .map((line, index) => {
+      try {
+        return JSON.parse(line) as RecordedEvent;
+      } catch (error) {
+        throw new Error(`录制文件第 ${index + 1} 行解析失败: ${extractMessage(error)}`);
+      }
+    });
+}
+
+export function loadRecording(filePath: string): RecordedEvent[] {
+  return parseRecording(readFileSync(filePath, "utf-8"));
+}
+
+export interface RecordingOptions {
+  filePath?: string;
+  sink?: (line: string) => void; // 自定义输出（测试或转发），指定后不再写文件
+  now?: () => number;
+}
+
+const noop: Unsubscribe = () => undefined;
+
+/**
+ * 录制适配器：包装任意 ExchangeAdapter，将每次推送与下单/撤单调用按时间写入 NDJSON 文件，便于事后复盘与回放
+ */
+export class RecordingExchangeAdapter implements ExchangeAdapter {
+  readonly id: string;
+  private readonly inner: ExchangeAdapter;
+  private readonly now: () => number;
+  private readonly write: (line: string) => void;
+  private stream: NodeJS.WritableStream | null = null;
+  private nextCallId = 1;
+  private activeCalls: number[] = [];
+
+  constructor(inner: ExchangeAdapter, options: RecordingOptions) {
+    this.inner = inner;
+    this.id = inner.id;
+    this.now = options.now ?? (() => Date.now());
+    if (options.sink) {
+      this.write = options.sink;
+    } else if (options.filePath) {
+      const dir = dirname(options.filePath);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+      const stream = createWriteStream(options.filePath, { flags: "a" });
+      this.stream = stream;
+      this.write = (line) => {
+        stream.write(`${line}\n`);
+      };
+    } else {
+      throw new Error("RecordingExchangeAdapter 需要 filePath 或 sink");
+    }
+  }
+
+  watchAccount(cb: AccountListener): Unsubscribe {
+    return this.inner.watchAccount((snapshot) => {
+      this.recordFeed({ t: this.now(), kind: "account", payload: snapshot });
+      cb(snapshot);
+    });
+  }
+
+  watchOrders(cb: OrderListener): Unsubscribe {
+    return this.inner.watchOrders((orders) => {
+      this.recordFeed({ t: this.now(), kind: "orders", payload: orders });
+      cb(orders);
+    });
+  }
+
+  watchFills(cb: FillListener): Unsubscribe {
+    return this.inner.watchFills?.((fill) => {
+      this.recordFeed({ t: this.now(), kind: "fill", payload: fill });
+      cb(fill);
+    }) ?? noop;
+  }
+
+  watchDepth(symbol: string, cb: DepthListener): Unsubscribe {
+    return this.inner.watchDepth(symbol, (depth) => {
+      this.recordFeed({ t: this.now(), kind: "depth", symbol, payload: depth });
+      cb(depth);
+    });
+  }
+
+  watchTicker(symbol: string, cb: TickerListener): Unsubscribe {
+    return this.inner.watchTicker(symbol, (ticker) => {
+      this.recordFeed({ t: this.now(), kind: "ticker", symbol, payload: ticker });
+      cb(ticker);
+    });
+  }
+
+  watchTrades(symbol: string, cb: TradeListener): Unsubscribe {
+    return this.inner.watchTrades?.(symbol, (trade) => {
+      this.recordFeed({ t: this.now(), kind: "trade", symbol, payload: trade });
+      cb(trade);
+    }) ?? noop;
+  }
+
+  watchMarkPrice(symbol: string, cb: MarkPriceListener): Unsubscribe {
+    return this.inner.watchMarkPrice?.(symbol, (mark) => {
+      this.recordFeed({ t: this.now(), kind: "markPrice", symbol, payload: mark });
+      cb(mark);
+    }) ?? noop;
+  }
+
+  watchKlines(symbol: string, interval: string, cb: KlineListener): Unsubscribe {
+    return this.inner.watchKlines(symbol, interval, (klines) => {
+      this.recordFeed({ t: this.now(), kind: "klines", symbol, interval, payload: klines });
+      cb(klines);
+    });
+  }
+
+  async createOrder(params: CreateOrderParams): Promise<AsterOrder> {
+    const call = this.beginCall();
+    try {
+      const result = await this.inner.createOrder(params);
+      this.record({ ...call, kind: "createOrder", params, result });
+      return result;
+    } catch (error) {
+      this.record({ ...call, kind: "createOrder", params, error: extractMessage(error) });
+      throw error;
+    } finally {
+      this.endCall(call.id);
+    }
+  }
+
+  async queryOrder(params: QueryOrderParams): Promise<AsterOrder> {
+    const call = this.beginCall();
+    try {
+      if (!this.inner.queryOrder) throw new Error(`${this.inner.id} 不支持查询订单`);
+      const result = await this.inner.queryOrder(params);
+      this.record({ ...call, kind: "queryOrder", params, result });
+      return result;
+    } catch (error) {
+      this.record({ ...call, kind: "queryOrder", params, error: extractMessage(error) });
+      throw error;
+    } finally {
+      this.endCall(call.id);
+    }
+  }
+
+  async cancelOrder(params: { symbol: string; orderId: number | string }): Promise<void> {
+    const call = this.beginCall();
+    try {
+      await this.inner.cancelOrder(params);
+      this.record({ ...call, kind: "cancelOrder", params });
+    } catch (error) {
+      this.record({ ...call, kind: "cancelOrder", params, error: extractMessage(error) });
+      throw error;
+    } finally {
+      this.endCall(call.id);
+    }
+  }
+
+  async cancelOrders(params: { symbol: string; orderIdList: Array<number | string> }): Promise<void> {
+    const call = this.beginCall();
+    try {
+      await this.inner.cancelOrders(params);
+      this.record({ ...call, kind: "cancelOrders", params });
+    } catch (error) {
+      this.record({ ...call, kind: "cancelOrders", params, error: extractMessage(error) });
+      throw error;
+    } finally {
+      this.endCall(call.id);
+    }
+  }
+
+  async cancelAllOrders(params: { symbol: string }): Promise<void> {
+    const call = this.beginCall();
+    try {
+      await this.inner.cancelAllOrders(params);
+      this.record({ ...call, kind: "cancelAllOrders", params });
+    } catch (error) {
+      this.record({ ...call, kind: "cancelAllOrders", params, error: extractMessage(error) });
+      throw error;
+    } finally {
+      this.endCall(call.id);
+    }
+  }
+
+  async getKlines(symbol: string, interval: string, limit: number): Promise<AsterKline[]> {
+    const call = this.beginCall();
+    const params = { symbol, interval, limit };
+    try {
+      const result = await this.inner.getKlines(symbol, interval, limit);
+      this.record({ ...call, kind: "getKlines", params, result });
+      return result;
+    } catch (error) {
+      this.record({ ...call, kind: "getKlines", params, error: extractMessage(error) });
+      throw error;
+    } finally {
+      this.endCall(call.id);
+    }
+  }
+
+  async getSymbolFilters(symbol: string): Promise<AsterSymbolFilters | null> {
+    const call = this.beginCall();
+    const params = { symbol };
+    try {
+      const result = (await this.inner.getSymbolFilters?.(symbol)) ?? null;
+      this.record({ ...call, kind: "getSymbolFilters", params, result });
+      return result;
+    } catch (error) {
+      this.record({ ...call, kind: "getSymbolFilters", params, error: extractMessage(error) });
+      throw error;
+    } finally {
+      this.endCall(call.id);
+    }
+  }
+
+  async getDualSidePosition(): Promise<boolean | null> {
+    const call = this.beginCall();
+    const params = {};
+    try {
+      const result = (await this.inner.getDualSidePosition?.()) ?? null;
+      this.record({ ...call, kind: "getDualSidePosition", params, result });
+      return result;
+    } catch (error) {
+      this.record({ ...call, kind: "getDualSidePosition", params, error: extractMessage(error) });
+      throw error;
+    } finally {
+      this.endCall(call.id);
+    }
+  }
+
+  async setLeverage(symbol: string, leverage: number): Promise<AsterLeverageResult> {
+    const call = this.beginCall();
+    const params = { symbol, leverage };
+    try {
+      if (!this.inner.setLeverage) throw new Error(`${this.inner.id} 不支持设置杠杆`);
+      const result = await this.inner.setLeverage(symbol, leverage);
+      this.record({ ...call, kind: "setLeverage", params, result });
+      return result;
+    } catch (error) {
+      this.record({ ...call, kind: "setLeverage", params, error: extractMessage(error) });
+      throw error;
+    } finally {
+      this.endCall(call.id);
+    }
+  }
+
+  async setMarginType(symbol: string, marginType: MarginType): Promise<void> {
+    const call = this.beginCall();
+    const params = { symbol, marginType };
+    try {
+      if (!this.inner.setMarginType) throw new Error(`${this.inner.id} 不支持设置保证金模式`);
+      await this.inner.setMarginType(symbol, marginType);
+      this.record({ ...call, kind: "setMarginType", params });
+    } catch (error) {
+      this.record({ ...call, kind: "setMarginType", params, error: extractMessage(error) });
+      throw error;
+    } finally {
+      this.endCall(call.id);
+    }
+  }
+
+  async adjustIsolatedMargin(params: AdjustIsolatedMarginParams): Promise<void> {
+    const call = this.beginCall();
+    try {
+      if (!this.inner.adjustIsolatedMargin) throw new Error(`${this.inner.id} 不支持调整逐仓保证金`);
+      await this.inner.adjustIsolatedMargin(params);
+      this.record({ ...call, kind: "adjustIsolatedMargin", params });
+    } catch (error) {
+      this.record({ ...call, kind: "adjustIsolatedMargin", params, error: extractMessage(error) });
+      throw error;
+    } finally {
+      this.endCall(call.id);
+    }
+  }
+
+  async getLeverageBrackets(symbol: string): Promise<AsterLeverageBracket[]> {
+    const call = this.beginCall();
+    const params = { symbol };
+    try {
+      const result = (await this.inner.getLeverageBrackets?.(symbol)) ?? [];
+      this.record({ ...call, kind: "getLeverageBrackets", params, result });
+      return result;
+    } catch (error) {
+      this.record({ ...call, kind: "getLeverageBrackets", params, error: extractMessage(error) });
+      throw error;
+    } finally {
+      this.endCall(call.id);
+    }
+  }
+
+  /** 频率限制只是诊断信息，不写入录制文件 */
+  getRateLimitUsage(): RateLimitUsage | null {
+    return this.inner.getRateLimitUsage?.() ?? null;
+  }
+
+  watchClockDrift(cb: (status: ClockSyncStatus) => void): Unsubscribe {
+    return this.inner.watchClockDrift?.(cb) ?? noop;
+  }
+
+  getStreamHealth(): StreamHealth[] {
+    return this.inner.getStreamHealth?.() ?? [];
+  }
+
+  /** 关闭被包装的适配器，结束录制并刷新文件缓冲 */
+  async close(): Promise<void> {
+    await this.inner.close();
+    const stream = this.stream;
+    this.stream = null;
+    if (!stream) return;
+    await new Promise<void>((resolve) => {
+      stream.end(() => resolve());
+    });
+  }
+
+  private beginCall(): { t: number; id: number } {
+    const call = { t: this.now(), id: this.nextCallId++ };
+    this.activeCalls.push(call.id);
+    return call;
+  }
+
+  private endCall(id: number): void {
+    this.activeCalls = this.activeCalls.filter((active) => active !== id);
+  }
+
+  private recordFeed(event: RecordedFeedEvent): void {
+    // 只有账户与订单推送可能由调用触发，行情推送始终按时间回放
+    const cause = event.kind === "account" || event.kind === "orders" ? this.activeCalls[this.activeCalls.length - 1] : undefined;
+    this.record(cause != null ? { ...event, cause } : event);
+  }
+
+  private record(event: RecordedEvent): void {
+    try {
+      this.write(JSON.stringify(event));
+    } catch (error) {
+      console.error("[RecordingExchangeAdapter] 写入录制文件失败", error);
+    }
+  }
+}
@@ -0,0 +1,451 @@
+import type {
+  AccountListener,
+  DepthListener,
+  ExchangeAdapter,
+  FillListener,
+  KlineListener,
+  MarkPriceListener,
+  OrderListener,
+  TickerListener,
+  TradeListener,
+  Unsubscribe,
+} from "./adapter";
+import type {
+  AdjustIsolatedMarginParams,
+  AsterKline,
+  AsterLeverageBracket,
+  AsterLeverageResult,
+  AsterOrder,
+  AsterSymbolFilters,
+  CreateOrderParams,
+  MarginType,
+  QueryOrderParams,
+} from "./types";
+import {
+  isRecordedCall,
+  loadRecording,
+  type RecordedCallEvent,
+  type RecordedEvent,
+  type RecordedFeedEvent,
+} from "./recording-adapter";
+
+export interface ReplayOptions {
+  /**
+   * 虚拟时钟每次前进时调用；测试中传入 (ms) => vi.advanceTimersByTimeAsync(ms) 可让引擎定时器与回放同步
+   */
+  advanceClock?: (ms: number) => unknown;
+}
+
+export interface ReplayCall {
+  t: number;
+  kind: RecordedCallEvent["kind"];
+  params: unknown;
+}
+
+/**
+ * 回放适配器：按虚拟时钟把录制的推送重新派发给引擎，下单/撤单按录制顺序返回当时交易所的应答
+ */
+export class ReplayExchangeAdapter implements ExchangeAdapter {
+  readonly id = "replay";
+  private readonly feed: RecordedFeedEvent[];
+  private readonly recordedCalls: RecordedCallEvent[];
+  private readonly consumedCalls = new Set<RecordedCallEvent>();
+  private readonly calls: ReplayCall[] = [];
+  private readonly divergentCalls: ReplayCall[] = [];
+  private readonly causedFeed = new Map<number, RecordedFeedEvent[]>();
+  private readonly advanceClock?: (ms: number) => unknown;
+  private cursor = 0;
+  private clock: number;
+  private syntheticOrderId = 1;
+
+  private readonly accountListeners = new Set<AccountListener>();
+  private readonly orderListeners = new Set<OrderListener>();
+  private readonly fillListeners = new Set<FillListener>();
+  private readonly depthListeners = new Map<string, Set<DepthListener>>();
+  private readonly tickerListeners = new Map<string, Set<TickerListener>>();
+  private readonly klineListeners = new Map<string, Set<KlineListener>>();
+  private readonly tradeListeners = new Map<string, Set<TradeListener>>();
+  private readonly markPriceListeners = new Map<string, Set<MarkPriceListener>>();
+
+  constructor(events: RecordedEvent[], options: ReplayOptions = {}) {
+    // 稳定排序，保证同一时间戳内的推送顺序与录制一致
+    const ordered = events
+      .map((event, index) => ({ event, index }))
+      .sort((a, b) => a.event.t - b.event.t || a.index - b.index)
+      .map(({ event }) => event);
+    this.feed = [];
+    for (const event of ordered) {
+      if (isRecordedCall(event)) continue;
+      if (event.cause != null) {
+        // 由调用触发的推送随该调用的回放同步派发
+        const list = this.causedFeed.get(event.cause) ?? [];
+        list.push(event);
+        this.causedFeed.set(event.cause, list);
+      } else {
+        this.feed.push(event);
+      }
+    }
+    this.recordedCalls = ordered.filter(isRecordedCall);
+    this.clock = ordered[0]?.t ?? 0;
+    this.advanceClock = options.advanceClock;
+  }
+
+  static fromFile(filePath: string, options: ReplayOptions = {}): ReplayExchangeAdapter {
+    return new ReplayExchangeAdapter(loadRecording(filePath), options);
+  }
+
+  /** 当前虚拟时间 */
+  now(): number {
+    return this.clock;
+  }
+
+  hasNext(): boolean {
+    return this.cursor < this.feed.length;
+  }
+
+  /** 下一条推送的时间戳，没有剩余推送时返回 null */
+  peekTime(): number | null {
+    return this.feed[this.cursor]?.t ?? null;
+  }
+
+  /** 回放期间引擎实际发起的调用，可与 getRecordedCalls() 对比 */
+  getCalls(): ReplayCall[] {
+    return this.calls.map((call) => ({ ...call }));
+  }
+
+  getRecordedCalls(): RecordedCallEvent[] {
+    return [...this.recordedCalls];
+  }
+
+  /** 与录制不匹配、以合成结果应答的调用，非空表示回放已偏离录制 */
+  getDivergentCalls(): ReplayCall[] {
+    return this.divergentCalls.map((call) => ({ ...call }));
+  }
+
+  /** 派发下一条推送，时钟前进到该推送的时间 */
+  async step(): Promise<boolean> {
+    const event = this.feed[this.cursor];
+    if (!event) return false;
+    await this.moveClock(event.t);
+    this.cursor += 1;
+    this.dispatch(event);
+    return true;
+  }
+
+  /** 派发时间戳不晚于 timestamp 的全部推送，然后把时钟推进到 timestamp */
+  async advanceTo(timestamp: number): Promise<number> {
+    let dispatched = 0;
+    while (this.hasNext() && (this.peekTime() ?? Infinity) <= timestamp) {
+      await this.step();
+      dispatched += 1;
+    }
+    await this.moveClock(timestamp);
+    return dispatched;
+  }
+
+  async advanceBy(ms: number): Promise<number> {
+    return this.advanceTo(this.clock + ms);
+  }
+
+  /** 回放全部推送 */
+  async runToEnd(): Promise<number> {
+    let dispatched = 0;
+    while (await this.step()) {
+      dispatched += 1;
+    }
+    return dispatched;
+  }
+
+  watchAccount(cb: AccountListener): Unsubscribe {
+    this.accountListeners.add(cb);
+    return () => {
+      this.accountListeners.delete(cb);
+    };
+  }
+
+  watchOrders(cb: OrderListener): Unsubscribe {
+    this.orderListeners.add(cb);
+    return () => {
+      this.orderListeners.delete(cb);
+    };
+  }
+
+  watchFills(cb: FillListener): Unsubscribe {
+    this.fillListeners.add(cb);
+    return () => {
+      this.fillListeners.delete(cb);
+    };
+  }
+
+  watchDepth(symbol: string, cb: DepthListener): Unsubscribe {
+    return this.addListener(this.depthListeners, symbol.toUpperCase(), cb);
+  }
+
+  watchTicker(symbol: string, cb: TickerListener): Unsubscribe {
+    return this.addListener(this.tickerListeners, symbol.toUpperCase(), cb);
+  }
+
+  watchTrades(symbol: string, cb: TradeListener): Unsubscribe {
+    return this.addListener(this.tradeListeners, symbol.toUpperCase(), cb);
+  }
+
+  watchMarkPrice(symbol: string, cb: MarkPriceListener): Unsubscribe {
+    return this.addListener(this.markPriceListeners, symbol.toUpperCase(), cb);
+  }
+
+  watchKlines(symbol: string, interval: string, cb: KlineListener): Unsubscribe {
+    return this.addListener(this.klineListeners, `${symbol.toUpperCase()}:${interval}`, cb);
+  }
+
+  async close(): Promise<void> {
+    this.accountListeners.clear();
+    this.orderListeners.clear();
+    this.fillListeners.clear();
+    this.depthListeners.clear();
+    this.tickerListeners.clear();
+    this.klineListeners.clear();
+    this.tradeListeners.clear();
+    this.markPriceListeners.clear();
+  }
+
+  async createOrder(params: CreateOrderParams): Promise<AsterOrder> {
+    this.calls.push({ t: this.clock, kind: "createOrder", params });
+    const recorded = this.takeCall(
+      "createOrder",
+      (call) =>
+        call.kind === "createOrder" &&
+        call.params.symbol === params.symbol &&
+        call.params.side === params.side &&
+        call.params.type === params.type
+    );
+    if (recorded?.kind === "createOrder") {
+      if (recorded.error) throw new Error(recorded.error);
+      if (recorded.result) return { ...recorded.result };
+    }
+    return this.syntheticOrder(params);
+  }
+
+  async queryOrder(params: QueryOrderParams): Promise<AsterOrder> {
+    this.calls.push({ t: this.clock, kind: "queryOrder", params });
+    const recorded = this.takeCall(
+      "queryOrder",
+      (call) =>
+        call.kind === "queryOrder" &&
+        call.params.symbol === params.symbol &&
+        call.params.orderId === params.orderId &&
+        call.params.origClientOrderId === params.origClientOrderId
+    );
+    if (recorded?.kind === "queryOrder") {
+      if (recorded.error) throw new Error(recorded.error);
+      if (recorded.result) return { ...recorded.result };
+    }
+    throw new Error('HTTP 400 {"code":-2013,"msg":"Order does not exist."}');
+  }
+
+  async cancelOrder(params: { symbol: string; orderId: number | string }): Promise<void> {
+    this.calls.push({ t: this.clock, kind: "cancelOrder", params });
+    this.replayOutcome(
+      this.takeCall(
+        "cancelOrder",
+        (call) => call.kind === "cancelOrder" && String(call.params.orderId) === String(params.orderId)
+      )
+    );
+  }
+
+  async cancelOrders(params: { symbol: string; orderIdList: Array<number | string> }): Promise<void> {
+    this.calls.push({ t: this.clock, kind: "cancelOrders", params });
+    this.replayOutcome(this.takeCall("cancelOrders", (call) => call.kind === "cancelOrders" && call.params.symbol === params.symbol));
+  }
+
+  async cancelAllOrders(params: { symbol: string }): Promise<void> {
+    this.calls.push({ t: this.clock, kind: "cancelAllOrders", params });
+    this.replayOutcome(
+      this.takeCall("cancelAllOrders", (call) => call.kind === "cancelAllOrders" && call.params.symbol === params.symbol)
+    );
+  }
+
+  async getKlines(symbol: string, interval: string, limit: number): Promise<AsterKline[]> {
+    this.calls.push({ t: this.clock, kind: "getKlines", params: { symbol, interval, limit } });
+    const recorded = this.takeCall(
+      "getKlines",
+      (call) => call.kind === "getKlines" && call.params.symbol === symbol && call.params.interval === interval
+    );
+    if (recorded?.kind === "getKlines") {
+      if (recorded.error) throw new Error(recorded.error);
+      return (recorded.result ?? []).slice(-limit);
+    }
+    // 未录制时退回到最近一次推送的K线
+    for (let i = this.cursor - 1; i >= 0; i -= 1) {
+      const event = this.feed[i];
+      if (event?.kind === "klines" && event.symbol.toUpperCase() === symbol.toUpperCase() && event.interval === interval) {
+        return event.payload.slice(-limit);
+      }
+    }
+    return [];
+  }
+
+  async getSymbolFilters(symbol: string): Promise<AsterSymbolFilters | null> {
+    this.calls.push({ t: this.clock, kind: "getSymbolFilters", params: { symbol } });
+    const recorded = this.takeCall(
+      "getSymbolFilters",
+      (call) => call.kind === "getSymbolFilters" && call.params.symbol.toUpperCase() === symbol.toUpperCase()
+    );
+    if (recorded?.kind === "getSymbolFilters") {
+      if (recorded.error) throw new Error(recorded.error);
+      return recorded.result ?? null;
+    }
+    return null;
+  }
+
+  async getDualSidePosition(): Promise<boolean | null> {
+    this.calls.push({ t: this.clock, kind: "getDualSidePosition", params: {} });
+    const recorded = this.takeCall("getDualSidePosition", (call) => call.kind === "getDualSidePosition");
+    if (recorded?.kind === "getDualSidePosition") {
+      if (recorded.error) throw new Error(recorded.error);
+      return recorded.result ?? null;
+    }
+    return null;
+  }
+
+  async setLeverage(symbol: string, leverage: number): Promise<AsterLeverageResult> {
+    this.calls.push({ t: this.clock, kind: "setLeverage", params: { symbol, leverage } });
+    const recorded = this.takeCall("setLeverage", (call) => call.kind === "setLeverage" && call.params.symbol === symbol);
+    if (recorded?.kind === "setLeverage") {
+      if (recorded.error) throw new Error(recorded.error);
+      if (recorded.result) return { ...recorded.result };
+    }
+    return { symbol: symbol.toUpperCase(), leverage, maxNotionalValue: 0 };
+  }
+
+  async setMarginType(symbol: string, marginType: MarginType): Promise<void> {
+    this.calls.push({ t: this.clock, kind: "setMarginType", params: { symbol, marginType } });
+    this.replayOutcome(this.takeCall("setMarginType", (call) => call.kind === "setMarginType" && call.params.symbol === symbol));
+  }
+
+  async adjustIsolatedMargin(params: AdjustIsolatedMarginParams): Promise<void> {
+    this.calls.push({ t: this.clock, kind: "adjustIsolatedMargin", params });
+    this.replayOutcome(
+      this.takeCall("adjustIsolatedMargin", (call) => call.kind === "adjustIsolatedMargin" && call.params.symbol === params.symbol)
+    );
+  }
+
+  async getLeverageBrackets(symbol: string): Promise<AsterLeverageBracket[]> {
+    this.calls.push({ t: this.clock, kind: "getLeverageBrackets", params: { symbol } });
+    const recorded = this.takeCall("getLeverageBrackets", (call) => call.kind === "getLeverageBrackets" && call.params.symbol === symbol);
+    if (recorded?.kind === "getLeverageBrackets") {
+      if (recorded.error) throw new Error(recorded.error);
+      return recorded.result ?? [];
+    }
+    return [];
+  }
+
+  private async moveClock(timestamp: number): Promise<void> {
+    const delta = timestamp - this.clock;
+    if (delta <= 0) return;
+    this.clock = timestamp;
+    if (this.advanceClock) {
+      await this.advanceClock(delta);
+    }
+  }
+
+  /**
+   * 取相同内容的未消费录制调用。回放偏离录制时（同类调用都不匹配）不挪用其他调用的结果与推送，
+   * 由调用方返回合成结果，并记录在 getDivergentCalls() 中
+   */
+  private takeCall(
+    kind: RecordedCallEvent["kind"],
+    matches: (call: RecordedCallEvent) => boolean
+  ): RecordedCallEvent | undefined {
+    const pending = this.recordedCalls.filter((call) => call.kind === kind && !this.consumedCalls.has(call));
+    const recorded = pending.find(matches);
+    if (recorded) {
+      this.consumedCalls.add(recorded);
+      this.causedFeed.get(recorded.id)?.forEach((event) => this.dispatch(event));
+    } else if (pending.length > 0) {
+      const call = this.calls[this.calls.length - 1]!;
+      this.divergentCalls.push(call);
+      console.warn(`[ReplayExchangeAdapter] 回放偏离录制：${kind} 与未消费的 ${pending.length} 个录制调用均不匹配，返回合成结果`);
+    }
+    return recorded;
+  }
+
+  private replayOutcome(recorded: RecordedCallEvent | undefined): void {
+    if (recorded?.error) {
+      throw new Error(recorded.error);
+    }
+  }
+
+  private syntheticOrder(params: CreateOrderParams): AsterOrder {
+    const orderId = -this.syntheticOrderId++;
+    return {
+      orderId,
+      clientOrderId: params.newClientOrderId ?? `replay_${Math.abs(orderId)}`,
+      symbol: params.symbol,
+      side: params.side,
+      type: params.type,
+      status: "NEW",
+      price: String(params.price ?? 0),
+      origQty: String(params.quantity ?? 0),
+      executedQty: "0",
+      stopPrice: String(params.stopPrice ?? 0),
+      time: this.clock,
+      updateTime: this.clock,
+      reduceOnly: params.reduceOnly === "true",
+      closePosition: params.closePosition === "true",
+    };
+  }
+
+  private dispatch(event: RecordedFeedEvent): void {
+    switch (event.kind) {
+      case "account":
+        this.emit(this.accountListeners, event.payload);
+        break;
+      case "orders":
+        this.emit(this.orderListeners, event.payload);
+        break;
+      case "fill":
+        this.emit(this.fillListeners, event.payload);
+        break;
+      case "depth":
+        this.emit(this.depthListeners.get(event.symbol.toUpperCase()), event.payload);
+        break;
+      case "ticker":
+        this.emit(this.tickerListeners.get(event.symbol.toUpperCase()), event.payload);
+        break;
+      case "trade":
+        this.emit(this.tradeListeners.get(event.symbol.toUpperCase()), event.payload);
+        break;
+      case "markPrice":
+        this.emit(this.markPriceListeners.get(event.symbol.toUpperCase()), event.payload);
+        break;
+      case "klines":
+        this.emit(this.klineListeners.get(`${event.symbol.toUpperCase()}:${event.interval}`), event.payload);
+        break;
+      default:
+        break;
+    }
+  }
+
+  private emit<T>(listeners: Set<(payload: T) => void> | undefined, payload: T): void {
+    if (!listeners) return;
+    for (const listener of Array.from(listeners)) {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error("[ReplayExchangeAdapter] listener failure", error);
+      }
+    }
+  }
+
+  private addListener<T>(map: Map<string, Set<T>>, key: string, listener: T): Unsubscribe {
+    let set = map.get(key);
+    if (!set) {
+      set = new Set();
+      map.set(key, set);
+    }
+    set.add(listener);
+    return () => {
+      map.get(key)?.delete(listener);
+    };
+  }
+}
@@ -19,8 +19,16 @@ export interface CreateOrderParams {
   activationPrice?: number;
   callbackRate?: number;
   timeInForce?: TimeInForce;
-  reduceOnly?: StringBoolean;
+  reduceOnly?: StringBoolean; // 对冲模式下交易所不接受该参数，由 positionSide 与方向决定是否减仓
   closePosition?: StringBoolean;
+  positionSide?: PositionSide; // 对冲模式必填 LONG/SHORT，单向模式省略或为 BOTH
+  newClientOrderId?: string; // 自定义订单号，结果未知时据此查询订单是否已生效
+}
+
+export interface QueryOrderParams {
+  symbol: string;
+  orderId?: number;
+  origClientOrderId?: string;
 }
 
 export interface AsterAccountPosition {
@@ -88,6 +96,8 @@ export interface AsterDepthLevel extends Array<string> {
 
 export interface AsterDepth {
   lastUpdateId: number;
+  firstUpdateId?: number; // 增量推送的 U
+  prevUpdateId?: number; // 增量推送的 pu（上一条推送的 u）
   bids: AsterDepthLevel[];
   asks: AsterDepthLevel[];
   eventTime?: number;
@@ -117,6 +127,54 @@ export interface AsterTicker {
   count?: number;
 }
 
+/** 归集成交（@aggTrade），buyerMaker 为 true 表示主动卖出 */
+export interface AsterTrade {
+  symbol: string;
+  aggTradeId: number;
+  price: string;
+  quantity: string;
+  firstTradeId?: number;
+  lastTradeId?: number;
+  tradeTime: number;
+  buyerMaker: boolean;
+  eventTime?: number;
+  eventType?: string;
+}
+
+/** 用户数据流 ORDER_TRADE_UPDATE 中执行类型为 TRADE 的成交回报 */
+export interface AsterFill {
+  symbol: string;
+  orderId: number;
+  clientOrderId: string;
+  tradeId: number;
+  side: OrderSide;
+  positionSide: PositionSide;
+  orderType: string;
+  orderStatus: string; // 本次成交后的订单状态，FILLED 表示订单已全部成交
+  reduceOnly: boolean;
+  lastFilledQty: string;
+  lastFilledPrice: string;
+  cumulativeFilledQty: string;
+  avgPrice: string;
+  commission: string;
+  commissionAsset: string;
+  isMaker: boolean;
+  realizedPnl: string; // 本次成交的已实现盈亏（不含手续费）
+  tradeTime: number;
+  eventTime?: number;
+}
+
+export interface AsterMarkPrice {
+  symbol: string;
+  markPrice: string;
+  indexPrice: string;
+  estimatedSettlePrice?: string;
+  fundingRate: string;
+  nextFundingTime: number;
+  eventTime?: number;
+  eventType?: string;
+}
+
 export interface AsterKline {
   eventType?: string;
   eventTime?: number;
@@ -163,3 +221,132 @@ export interface AsterOrder {
   priceRate?: string;
   priceProtect?: boolean;
 }
+
+/**
+ * exchangeInfo 中单个交易对的下单规则（PRICE_FILTER / LOT_SIZE / MARKET_LOT_SIZE / MIN_NOTIONAL / PERCENT_PRICE）
+ * 上限为 0 表示交易所未设置该限制
+ */
+export interface AsterSymbolFilters {
+  symbol: string;
+  priceTick: number;
+  minPrice: number;
+  maxPrice: number;
+  qtyStep: number;
+  minQty: number;
+  maxQty: number;
+  marketQtyStep: number; // 未返回 MARKET_LOT_SIZE 时沿用 LOT_SIZE
+  marketMinQty: number;
+  marketMaxQty: number;
+  minNotional: number;
+  percentPriceUp: number; // 限价单价格不得高于 标记价 × multiplierUp
+  percentPriceDown: number;
+}
+
+// 保证金模式：逐仓 / 全仓
+export type MarginType = "ISOLATED" | "CROSSED";
+
+export interface AsterLeverageResult {
+  symbol: string;
+  leverage: number;
+  maxNotionalValue: number; // 当前杠杆下允许的最大名义价值
+}
+
+/** 逐仓保证金调整，ADD 为追加，REDUCE 为减少 */
+export interface AdjustIsolatedMarginParams {
+  symbol: string;
+  amount: number;
+  type: "ADD" | "REDUCE";
+  positionSide?: PositionSide;
+}
+
+/** 杠杆分层：名义价值落在 [notionalFloor, notionalCap) 时最多可用 initialLeverage 倍 */
+export interface AsterLeverageBracket {
+  bracket: number;
+  initialLeverage: number;
+  notionalCap: number;
+  notionalFloor: number;
+  maintMarginRatio: number;
+  cum: number;
+}
+
+/** /fapi/v1/income 资金流水，incomeType 如 REALIZED_PNL / FUNDING_FEE / COMMISSION / TRANSFER */
+export interface AsterIncome {
+  symbol: string;
+  incomeType: string;
+  income: string;
+  asset: string;
+  info: string;
+  time: number;
+  tranId: number;
+  tradeId: string;
+}
+
+export interface IncomeHistoryQuery {
+  symbol?: string;
+  incomeType?: string;
+  startTime?: number;
+  endTime?: number;
+  limit?: number; // 默认 100，最大 1000
+}
+
+/** /fapi/v1/userTrades 账户成交历史 */
+export interface AsterUserTrade {
+  symbol: string;
+  id: number;
+  orderId: number;
+  side: OrderSide;
+  positionSide: PositionSide;
+  price: string;
+  qty: string;
+  quoteQty: string;
+  commission: string;
+  commissionAsset: string;
+  realizedPnl: string;
+  maker: boolean;
+  buyer: boolean;
+  time: number;
+}
+
+export interface UserTradesQuery {
+  symbol: string;
+  startTime?: number;
+  endTime?: number; // 与 startTime 间隔不能超过 7 天
+  fromId?: number; // 从该成交 id 开始返回，不能与时间范围同时使用
+  limit?: number; // 默认 500，最大 1000
+}
+
+/** REST 请求频率使用情况（来自 X-MBX-USED-WEIGHT / X-MBX-ORDER-COUNT 响应头） */
+export interface RateLimitUsage {
+  weight1m: number;
+  weightLimit1m: number;
+  orders10s: number;
+  orderLimit10s: number;
+  orders1m: number;
+  orderLimit1m: number;
+  bannedUntil: number | null; // 418 封禁解除时间
+  throttled: number; // 因接近上限而主动等待的次数
+  updatedAt: number | null;
+}
+
+/** 本地时钟与交易所服务器时间的同步状态 */
+export interface ClockSyncStatus {
+  offsetMs: number; // 服务器时间 - 本地时间（平滑后），签名时间戳按此校正
+  rttMs: number | null; // 请求往返耗时（平滑后）
+  recvWindow: number;
+  lastSyncAt: number | null;
+  drifting: boolean; // 偏差超过告警阈值
+}
+
+export type StreamHealthKind = "depth" | "ticker" | "kline" | "trade" | "markPrice" | "user";
+
+/** 单个 WebSocket 数据流的健康状况 */
+export interface StreamHealth {
+  stream: string;
+  kind: StreamHealthKind;
+  symbol: string | null;
+  connected: boolean;
+  lastMessageAt: number | null;
+  messagesPerSecond: number;
+  stale: boolean; // 静默超过阈值，行情可能已冻结
+  reconnects: number; // 看门狗强制重连次数
+}
@@ -0,0 +1,338 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import type { AsterIncome, AsterUserTrade, IncomeHistoryQuery, UserTradesQuery } from "../exchanges/types";
+
+/** 账本数据来源：交易所适配器或 REST 客户端均可 */
+export interface LedgerSource {
+  getIncomeHistory(query?: IncomeHistoryQuery): Promise<AsterIncome[]>;
+  getUserTrades?(query: UserTradesQuery): Promise<AsterUserTrade[]>;
+}
+
+export interface LedgerData {
+  version: 1;
+  incomes: AsterIncome[];
+  trades: AsterUserTrade[];
+  incomeCursor: number | null; // 已同步的最后一条资金流水时间
+  tradeCursors: Record<string, number>; // 每个交易对已同步的最后成交 id
+}
+
+export interface LedgerStore {
+  load(): LedgerData | null;
+  save(data: LedgerData): void;
+}
+
+/** JSON 文件存储，目录不存在时自动创建 */
+export class FileLedgerStore implements LedgerStore {
+  constructor(private readonly filePath: string) {}
+
+  load(): LedgerData | null {
+    if (!existsSync(this.filePath)) return null;
+    const parsed = JSON.parse(readFileSync(this.filePath, "utf-8")) as Partial<LedgerData>;
+    return {
+      version: 1,
+      incomes: parsed.incomes ?? [],
+      trades: parsed.trades ?? [],
+      incomeCursor: parsed.incomeCursor ?? null,
+      tradeCursors: parsed.tradeCursors ?? {},
+    };
+  }
+
+  save(data: LedgerData): void {
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    writeFileSync(this.filePath, JSON.stringify(data));
+  }
+}
+
+/** 内存存储，用于模拟盘与测试 */
+export class MemoryLedgerStore implements LedgerStore {
+  private data: LedgerData | null = null;
+
+  load(): LedgerData | null {
+    return this.data ? structuredClone(this.data) : null;
+  }
+
+  save(data: LedgerData): void {
+    this.data = structuredClone(data);
+  }
+}
+
+export type LedgerPeriod = "day" | "week";
+
+export interface LedgerSymbolTotals {
+  realizedPnl: number;
+  funding: number;
+  commission: number; // 支付的手续费为负数
+  net: number; // realizedPnl + funding + commission
+  tradeCount: number;
+  volume: number; // 成交额
+}
+
+export interface LedgerBucket {
+  period: LedgerPeriod;
+  start: number; // UTC 日或周（周一）起始时间
+  totals: LedgerSymbolTotals;
+  symbols: Record<string, LedgerSymbolTotals>;
+}
+
+export interface LedgerSnapshot {
+  lastSyncAt: number | null;
+  today: LedgerSymbolTotals;
+  week: LedgerSymbolTotals;
+  reconciliation: LedgerReconciliation | null;
+}
+
+export interface EngineAccounting {
+  since: number;
+  realizedPnl: number; // 引擎统计的已实现盈亏（不含手续费）
+  commission: number; // 引擎统计的手续费，正数
+  trades?: number;
+}
+
+export interface LedgerReconciliation {
+  symbol: string;
+  since: number;
+  ledger: { realizedPnl: number; commission: number; funding: number; trades: number };
+  engine: { realizedPnl: number; commission: number; trades: number | null };
+  pnlDiff: number; // 账本 - 引擎
+  commissionDiff: number;
+  matched: boolean;
+}
+
+export interface LedgerQueryOptions {
+  symbol?: string;
+  symbols?: string[];
+  since?: number;
+}
+
+export interface IncomeLedgerOptions {
+  symbols: string[];
+  lookbackMs?: number; // 首次同步资金流水的回溯时长，默认 30 天
+  tradeLookbackMs?: number; // 首次同步成交的回溯时长，默认 7 天（交易所单次查询上限）
+  pageLimit?: number;
+  now?: () => number;
+}
+
+const DAY_MS = 86_400_000;
+const DEFAULT_LOOKBACK_MS = 30 * DAY_MS;
+const DEFAULT_TRADE_LOOKBACK_MS = 7 * DAY_MS;
+const DEFAULT_PAGE_LIMIT = 1000;
+const MAX_PAGES = 100;
+
+function emptyTotals(): LedgerSymbolTotals {
+  return { realizedPnl: 0, funding: 0, commission: 0, net: 0, tradeCount: 0, volume: 0 };
+}
+
+function incomeKey(income: AsterIncome): string {
+  return `${income.tranId}:${income.incomeType}`;
+}
+
+/** 所在 UTC 日或周（周一起）的起始时间 */
+export function periodStart(time: number, period: LedgerPeriod): number {
+  const dayStart = Math.floor(time / DAY_MS) * DAY_MS;
+  if (period === "day") return dayStart;
+  const weekday = (new Date(dayStart).getUTCDay() + 6) % 7;
+  return dayStart - weekday * DAY_MS;
+}
+
+/** 差额容差：绝对 0.01 与相对 1% 取较大者 */
+function withinTolerance(a: number, b: number): boolean {
+  return Math.abs(a - b) <= Math.max(0.01, Math.max(Math.abs(a), Math.abs(b)) * 0.01);
+}
+
+/**
+ * 本地资金流水账本：增量同步交易所的已实现盈亏、资金费、手续费与成交记录，
+ * 按日/周汇总并与引擎自身的统计对账，以交易所记录为准
+ */
+export class IncomeLedger {
+  private readonly symbols: string[];
+  private readonly lookbackMs: number;
+  private readonly tradeLookbackMs: number;
+  private readonly pageLimit: number;
+  private readonly now: () => number;
+  private data: LedgerData;
+  private readonly incomeKeys = new Set<string>();
+  private syncing: Promise<void> | null = null;
+  private lastSyncAt: number | null = null;
+
+  constructor(
+    private readonly source: LedgerSource,
+    private readonly store: LedgerStore,
+    options: IncomeLedgerOptions
+  ) {
+    this.symbols = options.symbols.map((symbol) => symbol.toUpperCase());
+    this.lookbackMs = options.lookbackMs ?? DEFAULT_LOOKBACK_MS;
+    this.tradeLookbackMs = options.tradeLookbackMs ?? DEFAULT_TRADE_LOOKBACK_MS;
+    this.pageLimit = options.pageLimit ?? DEFAULT_PAGE_LIMIT;
+    this.now = options.now ?? Date.now;
+    this.data = store.load() ?? { version: 1, incomes: [], trades: [], incomeCursor: null, tradeCursors: {} };
+    for (const income of this.data.incomes) {
+      this.incomeKeys.add(incomeKey(income));
+    }
+  }
+
+  getLastSyncAt(): number | null {
+    return this.lastSyncAt;
+  }
+
+  getIncomes(): AsterIncome[] {
+    return this.data.incomes;
+  }
+
+  getTrades(): AsterUserTrade[] {
+    return this.data.trades;
+  }
+
+  /** 增量同步，并发调用时复用同一次同步 */
+  sync(): Promise<void> {
+    if (!this.syncing) {
+      this.syncing = this.runSync().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  private async runSync(): Promise<void> {
+    const incomesAdded = await this.syncIncomes();
+    let tradesAdded = 0;
+    for (const symbol of this.symbols) {
+      tradesAdded += await this.syncTrades(symbol);
+    }
+    this.lastSyncAt = this.now();
+    if (incomesAdded > 0 || tradesAdded > 0) {
+      this.store.save(this.data);
+    }
+  }
+
+  private async syncIncomes(): Promise<number> {
+    let startTime = this.data.incomeCursor ?? this.now() - this.lookbackMs;
+    let added = 0;
+    for (let page = 0; page < MAX_PAGES; page += 1) {
+      const batch = await this.source.getIncomeHistory({ startTime, limit: this.pageLimit });
+      let maxTime = startTime;
+      for (const income of batch) {
+        maxTime = Math.max(maxTime, income.time);
+        this.data.incomeCursor = Math.max(this.data.incomeCursor ?? 0, income.time);
+        const key = incomeKey(income);
+        if (this.incomeKeys.has(key)) continue;
+        this.incomeKeys.add(key);
+        this.data.incomes.push(income);
+        added += 1;
+      }
+      if (batch.length < this.pageLimit) break;
+      // 游标按时间推进，边界毫秒的记录在下一页重复返回时由 tranId 去重；整页都在同一毫秒时跳过该毫秒避免死循环
+      startTime = maxTime > startTime ? maxTime : startTime + 1;
+    }
+    if (added > 0) {
+      this.data.incomes.sort((a, b) => a.time - b.time || a.tranId - b.tranId);
+    }
+    return added;
+  }
+
+  private async syncTrades(symbol: string): Promise<number> {
+    if (!this.source.getUserTrades) return 0;
+    let added = 0;
+    for (let page = 0; page < MAX_PAGES; page += 1) {
+      const cursor = this.data.tradeCursors[symbol];
+      const query: UserTradesQuery =
+        cursor != null
+          ? { symbol, fromId: cursor + 1, limit: this.pageLimit }
+          : { symbol, startTime: this.now() - this.tradeLookbackMs, limit: this.pageLimit };
+      const batch = await this.source.getUserTrades(query);
+      for (const trade of batch) {
+        if (cursor != null && trade.id <= cursor) continue;
+        this.data.trades.push(trade);
+        this.data.tradeCursors[symbol] = Math.max(this.data.tradeCursors[symbol] ?? 0, trade.id);
+        added += 1;
+      }
+      if (batch.length < this.pageLimit || this.data.tradeCursors[symbol] === cursor) break;
+    }
+    return added;
+  }
+
+  /** 按日或周汇总，最新的时间段在前；symbols 为空时包含全部交易对 */
+  getSummary(period: LedgerPeriod, options: LedgerQueryOptions = {}): LedgerBucket[] {
+    const filter = new Set([...(options.symbols ?? []), ...(options.symbol ? [options.symbol] : [])].map((s) => s.toUpperCase()));
+    const included = (entrySymbol: string) => filter.size === 0 || filter.has(entrySymbol);
+    const since = options.since ?? 0;
+    const buckets = new Map<number, LedgerBucket>();
+    const totalsFor = (time: number, entrySymbol: string): [LedgerSymbolTotals, LedgerSymbolTotals] => {
+      const start = periodStart(time, period);
+      let bucket = buckets.get(start);
+      if (!bucket) {
+        bucket = { period, start, totals: emptyTotals(), symbols: {} };
+        buckets.set(start, bucket);
+      }
+      const key = entrySymbol || "-";
+      bucket.symbols[key] ??= emptyTotals();
+      return [bucket.totals, bucket.symbols[key]];
+    };
+
+    for (const income of this.data.incomes) {
+      if (income.time < since || !included(income.symbol)) continue;
+      const amount = Number(income.income) || 0;
+      for (const totals of totalsFor(income.time, income.symbol)) {
+        if (income.incomeType === "REALIZED_PNL") totals.realizedPnl += amount;
+        else if (income.incomeType === "FUNDING_FEE") totals.funding += amount;
+        else if (income.incomeType === "COMMISSION") totals.commission += amount;
+        else continue;
+        totals.net += amount;
+      }
+    }
+    for (const trade of this.data.trades) {
+      if (trade.time < since || !included(trade.symbol)) continue;
+      for (const totals of totalsFor(trade.time, trade.symbol)) {
+        totals.tradeCount += 1;
+        totals.volume += Number(trade.quoteQty) || 0;
+      }
+    }
+    return Array.from(buckets.values()).sort((a, b) => b.start - a.start);
+  }
+
+  /** 指定时间之后的合计 */
+  getTotals(options: LedgerQueryOptions = {}): LedgerSymbolTotals {
+    const result = emptyTotals();
+    for (const bucket of this.getSummary("day", options)) {
+      result.realizedPnl += bucket.totals.realizedPnl;
+      result.funding += bucket.totals.funding;
+      result.commission += bucket.totals.commission;
+      result.net += bucket.totals.net;
+      result.tradeCount += bucket.totals.tradeCount;
+      result.volume += bucket.totals.volume;
+    }
+    return result;
+  }
+
+  /** 单个交易对的今日、本周合计，供界面展示 */
+  getSnapshot(symbol: string, reconciliation: LedgerReconciliation | null = null): LedgerSnapshot {
+    const now = this.now();
+    return {
+      lastSyncAt: this.lastSyncAt,
+      today: this.getTotals({ symbol, since: periodStart(now, "day") }),
+      week: this.getTotals({ symbol, since: periodStart(now, "week") }),
+      reconciliation,
+    };
+  }
+
+  /** 以交易所流水核对引擎统计的已实现盈亏与手续费 */
+  reconcile(symbol: string, engine: EngineAccounting): LedgerReconciliation {
+    const totals = this.getTotals({ symbol, since: engine.since });
+    const ledgerCommission = -totals.commission;
+    const pnlDiff = totals.realizedPnl - engine.realizedPnl;
+    const commissionDiff = ledgerCommission - engine.commission;
+    return {
+      symbol: symbol.toUpperCase(),
+      since: engine.since,
+      ledger: {
+        realizedPnl: totals.realizedPnl,
+        commission: ledgerCommission,
+        funding: totals.funding,
+        trades: totals.tradeCount,
+      },
+      engine: { realizedPnl: engine.realizedPnl, commission: engine.commission, trades: engine.trades ?? null },
+      pnlDiff,
+      commissionDiff,
+      matched: withinTolerance(totals.realizedPnl, engine.realizedPnl) && withinTolerance(ledgerCommission, engine.commission),
+    };
+  }
+}
@@ -0,0 +1,31 @@
+import type { StrategyConfigField, StrategyConfigSchema } from "./types";
+
+function parseField(field: StrategyConfigField, raw: string | undefined): unknown {
+  if (raw == null || raw === "") return field.default;
+  switch (field.type) {
+    case "number": {
+      const value = Number(raw);
+      return Number.isFinite(value) ? value : field.default;
+    }
+    case "boolean":
+      return raw.toLowerCase() === "true";
+    default:
+      return raw;
+  }
+}
+
+/**
+ * 按配置项声明从环境变量读取配置，适合只需简单字段的自定义策略
+ */
+export function createConfigSchema<TConfig>(fields: StrategyConfigField[]): StrategyConfigSchema<TConfig> {
+  return {
+    fields,
+    load(env) {
+      const config: Record<string, unknown> = {};
+      for (const field of fields) {
+        config[field.key] = parseField(field, env[field.env]);
+      }
+      return config as TConfig;
+    },
+  };
+}
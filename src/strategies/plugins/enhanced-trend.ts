@@ -0,0 +1,64 @@
+import { loadTradingConfig, type TradingConfig } from "../../config";
+import { EnhancedTrendEngine } from "../../core/enhanced-trend-engine";
+import { EnhancedTrendApp } from "../../ui/EnhancedTrendApp";
+import type { MarketAnalyzerConfig } from "../../utils/market-analyzer";
+import type { KlineManagerConfig } from "../../utils/redis-kline-manager";
+import type { StrategyPlugin } from "../types";
+import { trendConfigFields } from "./trend";
+
+/** 从环境变量读取 Redis K线缓存与技术分析配置 */
+function loadEnhancedConfigs(env: NodeJS.ProcessEnv): { klineConfig: KlineManagerConfig; analyzerConfig: MarketAnalyzerConfig } {
+  const klineConfig: KlineManagerConfig = {
+    redisHost: env.REDIS_HOST || "localhost",
+    redisPort: parseInt(env.REDIS_PORT || "6379"),
+    redisPassword: env.REDIS_PASSWORD,
+    cacheTtl: parseInt(env.REDIS_TTL || "3600"),
+    keyPrefix: env.REDIS_KLINE_KEY_PREFIX || "kline:",
+    maxKlines: parseInt(env.REDIS_KLINE_MAX_COUNT || "1000"),
+  };
+
+  const analyzerConfig: MarketAnalyzerConfig = {
+    kdjPeriod: parseInt(env.TECHNICAL_KDJ_PERIOD || "14"),
+    rsiPeriod: parseInt(env.TECHNICAL_RSI_PERIOD || "14"),
+    volumeMaPeriod: parseInt(env.TECHNICAL_VOLUME_PERIOD || "20"),
+    priceRangePeriod: parseInt(env.TECHNICAL_PRICE_RANGE_PERIOD || "180"),
+    priceRangeHours: parseInt(env.TECHNICAL_PRICE_RANGE_HOURS || "3"),
+    volatilityPeriod: parseInt(env.TECHNICAL_VOLATILITY_PERIOD || "20"),
+    overboughtLevel: parseFloat(env.TECHNICAL_RSI_OVERBOUGHT || "70"),
+    oversoldLevel: parseFloat(env.TECHNICAL_RSI_OVERSOLD || "30"),
+    highVolumeThreshold: parseFloat(env.TECHNICAL_HIGH_VOLUME_THRESHOLD || "1.5"),
+    minVolumeRatio: parseFloat(env.TECHNICAL_MIN_VOLUME_RATIO || "0.8"),
+    confidenceThreshold: parseFloat(env.TECHNICAL_CONFIDENCE_THRESHOLD || "0.7"),
+    cacheTTL: parseInt(env.TECHNICAL_CACHE_TTL || "300"),
+  };
+
+  return { klineConfig, analyzerConfig };
+}
+
+const plugin: StrategyPlugin<TradingConfig> = {
+  id: "enhanced-trend",
+  name: "增强趋势策略 (Redis+KDJ/RSI)",
+  description: "基于Redis缓存的K线数据，使用KDJ/RSI技术指标进行智能分析",
+  order: 20,
+  requirements: ["Redis"],
+  config: {
+    fields: [
+      ...trendConfigFields,
+      { key: "redisHost", env: "REDIS_HOST", type: "string", default: "localhost", description: "Redis 地址" },
+      { key: "redisPort", env: "REDIS_PORT", type: "number", default: 6379, description: "Redis 端口" },
+      { key: "confidenceThreshold", env: "TECHNICAL_CONFIDENCE_THRESHOLD", type: "number", default: 0.7, description: "信号置信度阈值" },
+    ],
+    load: loadTradingConfig,
+  },
+  createEngine(config, exchange) {
+    const { klineConfig, analyzerConfig } = loadEnhancedConfigs(process.env);
+    console.log("🔧 增强趋势引擎配置:");
+    console.log(`   Redis: ${klineConfig.redisHost}:${klineConfig.redisPort}`);
+    console.log(`   KDJ周期: ${analyzerConfig.kdjPeriod}, RSI周期: ${analyzerConfig.rsiPeriod}`);
+    console.log(`   置信度阈值: ${(analyzerConfig.confidenceThreshold * 100).toFixed(1)}%`);
+    return new EnhancedTrendEngine(config, exchange, klineConfig, analyzerConfig, true);
+  },
+  panel: EnhancedTrendApp,
+};
+
+export default plugin;
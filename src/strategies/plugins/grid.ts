@@ -0,0 +1,29 @@
+import { loadGridConfig, type GridConfig } from "../../config";
+import { GridEngine } from "../../core/grid-engine";
+import { GridApp } from "../../ui/GridApp";
+import type { StrategyPlugin } from "../types";
+
+const plugin: StrategyPlugin<GridConfig> = {
+  id: "grid",
+  name: "网格交易策略",
+  description: "在上下边界之间按等差/等比档位挂单，成交后在相邻档位反向补单",
+  order: 50,
+  config: {
+    fields: [
+      { key: "symbol", env: "TRADE_SYMBOL", type: "string", default: "BTCUSDT", description: "交易对" },
+      { key: "lowerPrice", env: "GRID_LOWER_PRICE", type: "number", default: undefined, description: "网格下边界" },
+      { key: "upperPrice", env: "GRID_UPPER_PRICE", type: "number", default: undefined, description: "网格上边界" },
+      { key: "levelCount", env: "GRID_LEVELS", type: "number", default: 10, description: "档位数量（含上下边界）" },
+      { key: "spacing", env: "GRID_SPACING", type: "string", default: "arithmetic", description: "档位间距: arithmetic 等差 / geometric 等比" },
+      { key: "levelQty", env: "GRID_LEVEL_QTY", type: "number", default: 0.001, description: "每档数量，未设置时使用 TRADE_AMOUNT" },
+      { key: "stopLowerPrice", env: "GRID_STOP_LOWER_PRICE", type: "number", default: 0, description: "下方止损价，0 表示不启用" },
+      { key: "stopUpperPrice", env: "GRID_STOP_UPPER_PRICE", type: "number", default: 0, description: "上方止损价，0 表示不启用" },
+      { key: "refreshIntervalMs", env: "GRID_REFRESH_INTERVAL_MS", type: "number", default: 1500, description: "挂单同步间隔 (ms)" },
+    ],
+    load: loadGridConfig,
+  },
+  createEngine: (config, exchange) => new GridEngine(config, exchange),
+  panel: GridApp,
+};
+
+export default plugin;
@@ -0,0 +1,28 @@
+import { loadMakerConfig, type MakerConfig } from "../../config";
+import { MakerEngine } from "../../core/maker-engine";
+import { MakerApp } from "../../ui/MakerApp";
+import type { StrategyConfigField, StrategyPlugin } from "../types";
+
+/** 做市策略的主要配置项，完整字段见 loadMakerConfig */
+export const makerConfigFields: StrategyConfigField[] = [
+  { key: "symbol", env: "TRADE_SYMBOL", type: "string", default: "BTCUSDT", description: "交易对" },
+  { key: "tradeAmount", env: "TRADE_AMOUNT", type: "number", default: 0.001, description: "每笔挂单数量" },
+  { key: "lossLimit", env: "MAKER_LOSS_LIMIT", type: "number", default: 0.03, description: "止损金额 (USDT)，未设置时使用 LOSS_LIMIT" },
+  { key: "profitTarget", env: "MAKER_PROFIT_TARGET", type: "number", default: 0.5, description: "止盈金额 (USDT)" },
+  { key: "priceChaseThreshold", env: "MAKER_PRICE_CHASE", type: "number", default: 0.3, description: "挂单偏离超过该值时追价" },
+  { key: "bidOffset", env: "MAKER_BID_OFFSET", type: "number", default: 0, description: "买单相对买一的偏移" },
+  { key: "askOffset", env: "MAKER_ASK_OFFSET", type: "number", default: 0, description: "卖单相对卖一的偏移" },
+  { key: "refreshIntervalMs", env: "MAKER_REFRESH_INTERVAL_MS", type: "number", default: 1500, description: "报价刷新间隔 (ms)" },
+];
+
+const plugin: StrategyPlugin<MakerConfig> = {
+  id: "maker",
+  name: "做市刷单策略",
+  description: "双边挂单提供流动性，自动追价与风控止损",
+  order: 30,
+  config: { fields: makerConfigFields, load: loadMakerConfig },
+  createEngine: (config, exchange) => new MakerEngine(config, exchange),
+  panel: MakerApp,
+};
+
+export default plugin;
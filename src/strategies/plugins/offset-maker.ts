@@ -0,0 +1,17 @@
+import { loadMakerConfig, type MakerConfig } from "../../config";
+import { OffsetMakerEngine } from "../../core/offset-maker-engine";
+import { OffsetMakerApp } from "../../ui/OffsetMakerApp";
+import type { StrategyPlugin } from "../types";
+import { makerConfigFields } from "./maker";
+
+const plugin: StrategyPlugin<MakerConfig> = {
+  id: "offset-maker",
+  name: "偏移做市策略",
+  description: "根据盘口深度自动偏移挂单并在极端不平衡时撤退",
+  order: 40,
+  config: { fields: makerConfigFields, load: loadMakerConfig },
+  createEngine: (config, exchange) => new OffsetMakerEngine(config, exchange),
+  panel: OffsetMakerApp,
+};
+
+export default plugin;
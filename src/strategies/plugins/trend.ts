@@ -0,0 +1,27 @@
+import { loadTradingConfig, type TradingConfig } from "../../config";
+import { TrendEngine } from "../../core/trend-engine";
+import { TrendApp } from "../../ui/TrendApp";
+import type { StrategyConfigField, StrategyPlugin } from "../types";
+
+/** 趋势策略的主要配置项，完整字段见 loadTradingConfig */
+export const trendConfigFields: StrategyConfigField[] = [
+  { key: "symbol", env: "TRADE_SYMBOL", type: "string", default: "BTCUSDT", description: "交易对" },
+  { key: "tradeAmount", env: "TRADE_AMOUNT", type: "number", default: 0.001, description: "每次开仓数量" },
+  { key: "lossLimit", env: "LOSS_LIMIT", type: "number", default: 0.03, description: "单笔最大亏损 (USDT)" },
+  { key: "trailingProfit", env: "TRAILING_PROFIT", type: "number", default: 0.2, description: "动态止盈激活利润 (USDT)" },
+  { key: "pollIntervalMs", env: "POLL_INTERVAL_MS", type: "number", default: 500, description: "决策循环间隔 (ms)" },
+  { key: "klineInterval", env: "KLINE_INTERVAL", type: "string", default: "1m", description: "均线使用的K线周期" },
+  { key: "hedgeMode", env: "HEDGE_MODE", type: "boolean", default: false, description: "对冲模式（双向持仓）" },
+];
+
+const plugin: StrategyPlugin<TradingConfig> = {
+  id: "trend",
+  name: "趋势跟随策略 (SMA30)",
+  description: "监控均线信号，自动进出场并维护止损/止盈",
+  order: 10,
+  config: { fields: trendConfigFields, load: loadTradingConfig },
+  createEngine: (config, exchange) => new TrendEngine(config, exchange),
+  panel: TrendApp,
+};
+
+export default plugin;
@@ -0,0 +1,93 @@
+import { readdirSync, statSync } from "fs";
+import { isAbsolute, join, resolve } from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import type { StrategyPlugin } from "./types";
+
+const PLUGIN_FILE = /\.(ts|tsx|js|mjs)$/;
+
+/** 内置策略插件目录 */
+export const BUILTIN_PLUGIN_DIR = fileURLToPath(new URL("./plugins/", import.meta.url));
+
+export function isStrategyPlugin(value: unknown): value is StrategyPlugin {
+  if (!value || typeof value !== "object") return false;
+  const plugin = value as Partial<StrategyPlugin>;
+  return (
+    typeof plugin.id === "string" &&
+    typeof plugin.name === "string" &&
+    typeof plugin.createEngine === "function" &&
+    typeof plugin.config?.load === "function"
+  );
+}
+
+export class StrategyRegistry {
+  private readonly plugins = new Map<string, StrategyPlugin>();
+
+  register(plugin: StrategyPlugin): void {
+    if (this.plugins.has(plugin.id)) {
+      throw new Error(`策略 ${plugin.id} 已注册`);
+    }
+    this.plugins.set(plugin.id, plugin);
+  }
+
+  get(id: string): StrategyPlugin | undefined {
+    return this.plugins.get(id);
+  }
+
+  /** 按 order 排序，未设置 order 的插件按注册顺序排在最后 */
+  list(): StrategyPlugin[] {
+    return Array.from(this.plugins.values())
+      .map((plugin, index) => ({ plugin, index }))
+      .sort((a, b) => (a.plugin.order ?? Infinity) - (b.plugin.order ?? Infinity) || a.index - b.index)
+      .map(({ plugin }) => plugin);
+  }
+
+  /**
+   * 加载目录中的插件模块（默认导出或具名导出 plugin），返回成功注册的数量；
+   * 目录不存在时跳过，单个插件加载失败只打印警告
+   */
+  async loadDirectory(dir: string): Promise<number> {
+    let entries: string[];
+    try {
+      if (!statSync(dir).isDirectory()) return 0;
+      entries = readdirSync(dir);
+    } catch {
+      return 0;
+    }
+    let loaded = 0;
+    for (const name of entries.sort()) {
+      if (!PLUGIN_FILE.test(name) || name.endsWith(".d.ts") || name.startsWith("_")) continue;
+      const file = join(dir, name);
+      try {
+        const mod = (await import(pathToFileURL(file).href)) as { default?: unknown; plugin?: unknown };
+        const plugin = mod.default ?? mod.plugin;
+        if (!isStrategyPlugin(plugin)) {
+          console.warn(`[StrategyRegistry] ${file} 未导出有效的策略插件，已跳过`);
+          continue;
+        }
+        this.register(plugin);
+        loaded += 1;
+      } catch (error) {
+        console.warn(`[StrategyRegistry] 加载策略插件 ${file} 失败`, error);
+      }
+    }
+    return loaded;
+  }
+}
+
+/** 内置插件目录之后加载 STRATEGY_PLUGIN_DIR（逗号分隔，相对路径基于当前工作目录） */
+export function getStrategyPluginDirs(env: NodeJS.ProcessEnv = process.env): string[] {
+  const extra = (env.STRATEGY_PLUGIN_DIR ?? "")
+    .split(",")
+    .map((dir) => dir.trim())
+    .filter(Boolean)
+    .map((dir) => (isAbsolute(dir) ? dir : resolve(process.cwd(), dir)));
+  return [BUILTIN_PLUGIN_DIR, ...extra];
+}
+
+export async function loadStrategyRegistry(dirs: string[] = getStrategyPluginDirs()): Promise<StrategyRegistry> {
+  const registry = new StrategyRegistry();
+  for (const dir of dirs) {
+    await registry.loadDirectory(dir);
+  }
+  return registry;
+}
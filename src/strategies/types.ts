@@ -0,0 +1,48 @@
+import type { ComponentType } from "react";
+import type { TradingMode } from "../config";
+import type { StrategyEngine } from "../core/base-engine";
+import type { ExchangeAdapter } from "../exchanges/adapter";
+
+export type StrategyConfigFieldType = "number" | "string" | "boolean";
+
+/** 单个配置项：对应的环境变量、默认值与说明 */
+export interface StrategyConfigField {
+  key: string;
+  env: string;
+  type: StrategyConfigFieldType;
+  default: number | string | boolean | undefined;
+  description: string;
+}
+
+/** 策略配置说明与加载方式，load 在实例配置文件载入后调用 */
+export interface StrategyConfigSchema<TConfig> {
+  fields: StrategyConfigField[];
+  load(env: NodeJS.ProcessEnv): TConfig;
+}
+
+/** 所有策略配置至少包含交易对，用于创建适配器 */
+export interface StrategyConfigBase {
+  symbol: string;
+}
+
+export interface StrategyPanelProps {
+  onExit: () => void;
+  mode: TradingMode;
+}
+
+/**
+ * 策略插件：放入插件目录即可出现在 TUI 菜单与多实例启动器中，无需修改核心文件
+ */
+export interface StrategyPlugin<TConfig extends StrategyConfigBase = StrategyConfigBase> {
+  id: string;
+  name: string;
+  description: string;
+  // 菜单排序，数值小的在前，未设置时排在内置策略之后
+  order?: number;
+  // 需要 Redis 等外部服务时在菜单中提示
+  requirements?: string[];
+  config: StrategyConfigSchema<TConfig>;
+  createEngine(config: TConfig, exchange: ExchangeAdapter): StrategyEngine;
+  // 专用 Ink 面板，自行创建适配器与引擎；未提供时使用通用面板
+  panel?: ComponentType<StrategyPanelProps>;
+}
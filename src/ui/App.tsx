@@ -1,43 +1,9 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { Box, Text, useInput, useStdin } from "ink";
-import { TrendApp } from "./TrendApp";
-import { MakerApp } from "./MakerApp";
-import { OffsetMakerApp } from "./OffsetMakerApp";
-import { EnhancedTrendApp } from "./EnhancedTrendApp";
-
-interface StrategyOption {
-  id: "trend" | "enhanced-trend" | "maker" | "offset-maker";
-  label: string;
-  description: string;
-  component: React.ComponentType<{ onExit: () => void }>;
-}
-
-const STRATEGIES: StrategyOption[] = [
-  {
-    id: "trend",
-    label: "趋势跟随策略 (SMA30)",
-    description: "监控均线信号，自动进出场并维护止损/止盈",
-    component: TrendApp,
-  },
-  {
-    id: "enhanced-trend",
-    label: "增强趋势策略 (Redis+KDJ/RSI)",
-    description: "基于Redis缓存的K线数据，使用KDJ/RSI技术指标进行智能分析",
-    component: EnhancedTrendApp,
-  },
-  {
-    id: "maker",
-    label: "做市刷单策略",
-    description: "双边挂单提供流动性，自动追价与风控止损",
-    component: MakerApp,
-  },
-  {
-    id: "offset-maker",
-    label: "偏移做市策略",
-    description: "根据盘口深度自动偏移挂单并在极端不平衡时撤退",
-    component: OffsetMakerApp,
-  },
-];
+import { StrategyApp } from "./StrategyApp";
+import { tradingMode, type TradingMode } from "../config";
+import { loadStrategyRegistry } from "../strategies/registry";
+import type { StrategyPlugin } from "../strategies/types";
 
 // Prefer Ink's stdin detection to avoid false negatives when spawned by shells
 // that don't propagate process.stdin TTY flags correctly.
@@ -49,12 +15,30 @@ function useInputSupported() {
 export function App() {
   const inputSupported = useInputSupported();
   const [cursor, setCursor] = useState(0);
-  const [selected, setSelected] = useState<StrategyOption | null>(null);
+  const [strategies, setStrategies] = useState<StrategyPlugin[] | null>(null);
+  const [selected, setSelected] = useState<StrategyPlugin | null>(null);
+  const [mode, setMode] = useState<TradingMode>(tradingMode);
   const [showExitConfirm, setShowExitConfirm] = useState(false);
 
+  useEffect(() => {
+    let mounted = true;
+    // 从插件目录发现策略，新增策略无需修改菜单
+    loadStrategyRegistry()
+      .then((registry) => {
+        if (mounted) setStrategies(registry.list());
+      })
+      .catch((error) => {
+        console.error("加载策略插件失败", error);
+        if (mounted) setStrategies([]);
+      });
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
   useInput(
     (input, key) => {
-      if (selected) return;
+      if (selected || !strategies) return;
       
       if (showExitConfirm) {
         if (key.return || input === 'y' || input === 'Y') {
@@ -75,14 +59,17 @@ export function App() {
       }
       
       if (key.upArrow) {
-        setCursor((prev) => (prev - 1 + STRATEGIES.length) % STRATEGIES.length);
+        setCursor((prev) => (prev - 1 + strategies.length) % strategies.length);
       } else if (key.downArrow) {
-        setCursor((prev) => (prev + 1) % STRATEGIES.length);
+        setCursor((prev) => (prev + 1) % strategies.length);
       } else if (key.return) {
-        const strategy = STRATEGIES[cursor];
+        const strategy = strategies[cursor];
         if (strategy) {
           setSelected(strategy);
         }
+      } else if (input === 'm' || input === 'M') {
+        // 切换实盘/模拟盘
+        setMode((prev) => (prev === "live" ? "paper" : "live"));
       } else if (input === 'q' || input === 'Q') {
         // 按q快速退出确认
         setShowExitConfirm(true);
@@ -101,21 +88,34 @@ export function App() {
   }
 
   if (selected) {
-    const Selected = selected.component;
-    return <Selected onExit={() => setSelected(null)} />;
+    const onExit = () => setSelected(null);
+    const Panel = selected.panel;
+    return Panel ? <Panel mode={mode} onExit={onExit} /> : <StrategyApp plugin={selected} mode={mode} onExit={onExit} />;
+  }
+
+  if (!strategies) {
+    return (
+      <Box paddingX={1} paddingY={1}>
+        <Text>正在加载策略插件…</Text>
+      </Box>
+    );
   }
 
   return (
     <Box flexDirection="column" paddingX={1} paddingY={1}>
       <Text color="cyanBright">请选择要运行的策略</Text>
-      <Text color="gray">使用 ↑/↓ 选择，回车开始，Q 退出程序，Ctrl+C 强制退出。</Text>
+      <Text color="gray">使用 ↑/↓ 选择，回车开始，M 切换交易模式，Q 退出程序，Ctrl+C 强制退出。</Text>
+      <Text>
+        交易模式: <Text color={mode === "paper" ? "yellow" : "redBright"}>{mode === "paper" ? "模拟盘（实时行情，本地撮合）" : "实盘"}</Text>
+      </Text>
       <Box flexDirection="column" marginTop={1}>
-        {STRATEGIES.map((strategy, index) => {
+        {strategies.map((strategy, index) => {
           const active = index === cursor;
           return (
             <Box key={strategy.id} flexDirection="column" marginBottom={1}>
               <Text color={active ? "greenBright" : undefined}>
-                {active ? "➤" : "  "} {strategy.label}
+                {active ? "➤" : "  "} {strategy.name}
+                {strategy.requirements?.length ? <Text color="yellow"> ⚡ 需要{strategy.requirements.join("/")}</Text> : null}
               </Text>
               <Text color="gray">    {strategy.description}</Text>
             </Box>
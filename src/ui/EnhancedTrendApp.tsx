@@ -2,8 +2,10 @@ import React from "react";
 import { useEffect, useState, useRef } from "react";
 import { Box, Text, useInput } from "ink";
 import { EnhancedTrendEngine, type EnhancedTrendEngineSnapshot } from "../core/enhanced-trend-engine";
-import { AsterExchangeAdapter } from "../exchanges/aster-adapter";
-import { tradingConfig, redisConfig, technicalAnalysisConfig } from "../config";
+import { createExchangeAdapter } from "../exchanges/create-adapter";
+import type { ExchangeAdapter } from "../exchanges/adapter";
+import type { AsterCredentials } from "../exchanges/aster-adapter";
+import { tradingConfig, redisConfig, technicalAnalysisConfig, type TradingMode } from "../config";
 import { ApiCredentialsFactory } from "../api-credentials-factory";
 import type { KlineManagerConfig } from "../utils/redis-kline-manager";
 import type { MarketAnalyzerConfig } from "../utils/market-analyzer";
@@ -11,9 +13,10 @@ import { TradingDashboard, type BaseTradingSnapshot } from "./components/Trading
 
 interface EnhancedTrendAppProps {
   onExit: () => void;
+  mode: TradingMode;
 }
 
-export function EnhancedTrendApp({ onExit }: EnhancedTrendAppProps) {
+export function EnhancedTrendApp({ onExit, mode }: EnhancedTrendAppProps) {
   const [snapshot, setSnapshot] = useState<EnhancedTrendEngineSnapshot | null>(null);
   const [initError, setInitError] = useState<string | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
@@ -32,29 +35,36 @@ export function EnhancedTrendApp({ onExit }: EnhancedTrendAppProps) {
 
   useEffect(() => {
     let mounted = true;
+    let adapter: ExchangeAdapter | null = null;
 
     async function initializeEngine() {
       try {
         console.log('🔮 正在初始化增强趋势引擎...');
         
-        // 使用API凭证工厂创建凭证
-        const credentialsFactory = new ApiCredentialsFactory();
-        let asterCredentials;
-        
-        try {
-          // 首先尝试通过交易对获取凭证
-          asterCredentials = credentialsFactory.createCredentialsBySymbol(tradingConfig.symbol);
-        } catch (error) {
-          console.log('� 尝试使用默认实例凭证...');
-          // 回退到默认实例
-          asterCredentials = credentialsFactory.createAsterCredentials('default', tradingConfig.symbol);
-        }
-        
-        if (!asterCredentials.apiKey || !asterCredentials.apiSecret) {
-          throw new Error('无法获取API凭证，请检查配置文件或环境变量');
-        }
-
-        const exchange = new AsterExchangeAdapter(asterCredentials);
+        const exchange = createExchangeAdapter({
+          mode,
+          symbol: tradingConfig.symbol,
+          resolveCredentials: () => {
+            // 使用API凭证工厂创建凭证
+            const credentialsFactory = new ApiCredentialsFactory();
+            let asterCredentials: AsterCredentials;
+
+            try {
+              // 首先尝试通过交易对获取凭证
+              asterCredentials = credentialsFactory.createCredentialsBySymbol(tradingConfig.symbol);
+            } catch (error) {
+              console.log('� 尝试使用默认实例凭证...');
+              // 回退到默认实例
+              asterCredentials = credentialsFactory.createAsterCredentials('default', tradingConfig.symbol);
+            }
+
+            if (!asterCredentials.apiKey || !asterCredentials.apiSecret) {
+              throw new Error('无法获取API凭证，请检查配置文件或环境变量');
+            }
+            return asterCredentials;
+          },
+        });
+        adapter = exchange;
 
         // K线管理器配置
         const klineConfig: KlineManagerConfig = {
@@ -141,8 +151,9 @@ export function EnhancedTrendApp({ onExit }: EnhancedTrendAppProps) {
       if (engineRef.current) {
         engineRef.current.stop();
       }
+      void adapter?.close();
     };
-  }, []);
+  }, [mode]);
 
   if (initError) {
     return (
@@ -198,5 +209,5 @@ export function EnhancedTrendApp({ onExit }: EnhancedTrendAppProps) {
     }
   };
 
-  return <TradingDashboard snapshot={dashboardSnapshot} title="增强趋势策略" />;
+  return <TradingDashboard snapshot={dashboardSnapshot} title={mode === "paper" ? "增强趋势策略（模拟盘）" : "增强趋势策略"} />;
 }
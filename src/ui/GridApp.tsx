@@ -0,0 +1,230 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Box, Text, useInput, useStdin } from "ink";
+import { gridConfig, type TradingMode } from "../config";
+import { createExchangeAdapter } from "../exchanges/create-adapter";
+import { GridEngine, type GridEngineSnapshot } from "../core/grid-engine";
+import { DataTable, type TableColumn } from "./components/DataTable";
+import { formatEngineState, formatExecutionReport, formatNumber, formatRateLimitUsage, formatStreamHealth } from "../utils/format";
+import { getAsterCredentials } from "../utils/api-credentials";
+
+interface GridAppProps {
+  onExit: () => void;
+  mode: TradingMode;
+}
+
+function useInputSupported() {
+  const { isRawModeSupported } = useStdin();
+  return Boolean(isRawModeSupported);
+}
+
+export function GridApp({ onExit, mode }: GridAppProps) {
+  const inputSupported = useInputSupported();
+  const [snapshot, setSnapshot] = useState<GridEngineSnapshot | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const [showExitMenu, setShowExitMenu] = useState(false);
+  const engineRef = useRef<GridEngine | null>(null);
+
+  useInput(
+    (input, key) => {
+      if (showExitMenu) {
+        if (input === '1') {
+          // 返回主菜单
+          engineRef.current?.stop();
+          setShowExitMenu(false);
+          onExit();
+        } else if (input === '2') {
+          // 退出程序
+          engineRef.current?.stop();
+          console.log('\n👋 用户选择退出程序');
+          setTimeout(() => {
+            console.log('✅ 网格策略安全退出，感谢使用！\n');
+            process.exit(0);
+          }, 500);
+        } else if (key.escape) {
+          // 取消退出菜单
+          setShowExitMenu(false);
+        }
+        return;
+      }
+
+      if (key.escape) {
+        setShowExitMenu(true);
+      }
+    },
+    { isActive: inputSupported }
+  );
+
+  useEffect(() => {
+    try {
+      const adapter = createExchangeAdapter({
+        mode,
+        symbol: gridConfig.symbol,
+        resolveCredentials: getAsterCredentials,
+      });
+      const engine = new GridEngine(gridConfig, adapter);
+      engineRef.current = engine;
+      setSnapshot(engine.getSnapshot());
+      const handler = (next: GridEngineSnapshot) => {
+        setSnapshot({ ...next, tradeLog: [...next.tradeLog] });
+      };
+      engine.on("update", handler);
+      engine.start();
+      return () => {
+        engine.off("update", handler);
+        engine.stop();
+        // 返回菜单后关闭连接与定时器，避免下一个策略启动时旧订阅继续推送
+        void adapter.close();
+      };
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err : new Error(String(err)));
+    }
+  }, [mode]);
+
+  if (showExitMenu) {
+    return (
+      <Box flexDirection="column" padding={1}>
+        <Text color="yellow">⚠️ 退出选项</Text>
+        <Text color="gray">请选择你要进行的操作：</Text>
+        <Text color="cyan">1. 返回主菜单</Text>
+        <Text color="red">2. 退出程序</Text>
+        <Text color="gray">按对应数字选择，ESC 取消</Text>
+      </Box>
+    );
+  }
+
+  if (error) {
+    return (
+      <Box flexDirection="column" padding={1}>
+        <Text color="red">启动失败: {error.message}</Text>
+        <Text color="gray">请检查环境变量和网络连通性。</Text>
+      </Box>
+    );
+  }
+
+  if (!snapshot) {
+    return (
+      <Box padding={1}>
+        <Text>正在初始化网格策略…</Text>
+      </Box>
+    );
+  }
+
+  const topBid = snapshot.topBid;
+  const topAsk = snapshot.topAsk;
+  const spreadDisplay = snapshot.spread != null ? `${snapshot.spread.toFixed(4)} USDT` : "-";
+  const hasPosition = Math.abs(snapshot.position.positionAmt) > 1e-5;
+  const { pnl } = snapshot;
+
+  // 网格从高到低展示，空档即当前价所在位置
+  const levelRows = [...snapshot.levels].reverse().map((level) => ({
+    level: level.level + 1,
+    price: level.price,
+    side: level.side ?? "-",
+    role: level.side ? (level.closing ? "平仓" : "开仓") : "",
+  }));
+  const levelColumns: TableColumn[] = [
+    { key: "level", header: "#", align: "right", minWidth: 2 },
+    { key: "price", header: "Price", align: "right", minWidth: 10 },
+    { key: "side", header: "Side", minWidth: 4 },
+    { key: "role", header: "Role", minWidth: 4 },
+  ];
+
+  const sortedOrders = [...snapshot.openOrders].sort((a, b) => Number(b.price) - Number(a.price));
+  const openOrderRows = sortedOrders.slice(0, 12).map((order) => ({
+    id: order.orderId,
+    side: order.side,
+    price: order.price,
+    qty: order.origQty,
+    filled: order.executedQty,
+    status: order.status,
+  }));
+  const openOrderColumns: TableColumn[] = [
+    { key: "id", header: "ID", align: "right", minWidth: 6 },
+    { key: "side", header: "Side", minWidth: 4 },
+    { key: "price", header: "Price", align: "right", minWidth: 10 },
+    { key: "qty", header: "Qty", align: "right", minWidth: 8 },
+    { key: "filled", header: "Filled", align: "right", minWidth: 8 },
+    { key: "status", header: "Status", minWidth: 10 },
+  ];
+
+  const lastLogs = snapshot.tradeLog.slice(-5);
+
+  return (
+    <Box flexDirection="column" paddingX={1}>
+      <Box flexDirection="column" marginBottom={1}>
+        <Text color="cyanBright">Grid Strategy Dashboard</Text>
+        <Text>
+          交易对: {snapshot.symbol} ｜ 买一价: {formatNumber(topBid, 2)} ｜ 卖一价: {formatNumber(topAsk, 2)} ｜ 点差: {spreadDisplay}
+        </Text>
+        <Text color="gray">状态: {formatEngineState(snapshot.state)} ｜ 模式: {mode === "paper" ? "模拟盘" : "实盘"} ｜ 按 Esc 返回策略选择</Text>
+        <Text color="gray">
+          区间: {formatNumber(gridConfig.lowerPrice, 2)} ~ {formatNumber(gridConfig.upperPrice, 2)} ｜ 档位: {snapshot.levels.length} ({gridConfig.spacing === "geometric" ? "等比" : "等差"}) ｜ 每档数量: {gridConfig.levelQty} ｜ 止损边界: {gridConfig.stopLowerPrice > 0 ? formatNumber(gridConfig.stopLowerPrice, 2) : "-"} / {gridConfig.stopUpperPrice > 0 ? formatNumber(gridConfig.stopUpperPrice, 2) : "-"}
+        </Text>
+        {snapshot.configError ? <Text color="red">配置错误: {snapshot.configError}</Text> : null}
+        {snapshot.stoppedOut ? <Text color="red">网格已停止: {snapshot.stoppedOut}</Text> : null}
+        {snapshot.rateLimit ? (
+          <Text color={snapshot.rateLimit.bannedUntil ? "red" : "gray"}>频率限制: {formatRateLimitUsage(snapshot.rateLimit)}</Text>
+        ) : null}
+        {snapshot.streams ? (
+          <Text color={snapshot.streams.some((health) => health.stale || !health.connected) ? "red" : "gray"}>数据流: {formatStreamHealth(snapshot.streams)}</Text>
+        ) : null}
+        {snapshot.execution ? (
+          <Text color={snapshot.execution.status === "running" || snapshot.execution.status === "filled" ? "gray" : "yellow"}>算法执行: {formatExecutionReport(snapshot.execution)}</Text>
+        ) : null}
+      </Box>
+
+      <Box flexDirection="row" marginBottom={1}>
+        <Box flexDirection="column" marginRight={4}>
+          <Text color="greenBright">网格盈亏</Text>
+          <Text>
+            网格利润: <Text color={pnl.realized >= 0 ? "green" : "red"}>{formatNumber(pnl.realized, 4)} USDT</Text> ｜ 配对次数: {pnl.roundTrips}
+          </Text>
+          <Text>
+            持仓盈亏: <Text color={pnl.inventory >= 0 ? "green" : "red"}>{formatNumber(pnl.inventory, 4)} USDT</Text> ｜ 合计: {formatNumber(pnl.total, 4)} USDT
+          </Text>
+          {hasPosition ? (
+            <Text>
+              持仓: {snapshot.position.positionAmt > 0 ? "多" : "空"} {formatNumber(Math.abs(snapshot.position.positionAmt), 4)} ｜ 开仓价: {formatNumber(snapshot.position.entryPrice, 2)}
+            </Text>
+          ) : (
+            <Text color="gray">当前无持仓</Text>
+          )}
+          <Text>
+            累计成交量: {formatNumber(snapshot.sessionVolume, 2)} USDT
+          </Text>
+        </Box>
+        <Box flexDirection="column">
+          <Text color="greenBright">网格档位</Text>
+          {levelRows.length > 0 ? (
+            <DataTable columns={levelColumns} rows={levelRows} />
+          ) : (
+            <Text color="gray">暂无网格档位</Text>
+          )}
+        </Box>
+      </Box>
+
+      <Box flexDirection="column" marginBottom={1}>
+        <Text color="yellow">当前挂单</Text>
+        {openOrderRows.length > 0 ? (
+          <DataTable columns={openOrderColumns} rows={openOrderRows} />
+        ) : (
+          <Text color="gray">暂无挂单</Text>
+        )}
+      </Box>
+
+      <Box flexDirection="column">
+        <Text color="yellow">最近事件</Text>
+        {lastLogs.length > 0 ? (
+          lastLogs.map((item, index) => (
+            <Text key={`${item.time}-${index}`}>
+              [{item.time}] [{item.type}] {item.detail}
+            </Text>
+          ))
+        ) : (
+          <Text color="gray">暂无日志</Text>
+        )}
+      </Box>
+    </Box>
+  );
+}
@@ -1,14 +1,15 @@
 import React, { useEffect, useRef, useState } from "react";
 import { Box, Text, useInput, useStdin } from "ink";
-import { makerConfig } from "../config";
-import { AsterExchangeAdapter } from "../exchanges/aster-adapter";
+import { makerConfig, type TradingMode } from "../config";
+import { createExchangeAdapter } from "../exchanges/create-adapter";
 import { MakerEngine, type MakerEngineSnapshot } from "../core/maker-engine";
 import { DataTable, type TableColumn } from "./components/DataTable";
-import { formatNumber } from "../utils/format";
+import { formatEngineState, formatExecutionReport, formatNumber, formatRateLimitUsage, formatStreamHealth } from "../utils/format";
 import { getAsterCredentials } from "../utils/api-credentials";
 
 interface MakerAppProps {
   onExit: () => void;
+  mode: TradingMode;
 }
 
 function useInputSupported() {
@@ -16,7 +17,7 @@ function useInputSupported() {
   return Boolean(isRawModeSupported);
 }
 
-export function MakerApp({ onExit }: MakerAppProps) {
+export function MakerApp({ onExit, mode }: MakerAppProps) {
   const inputSupported = useInputSupported();
   const [snapshot, setSnapshot] = useState<MakerEngineSnapshot | null>(null);
   const [error, setError] = useState<Error | null>(null);
@@ -55,11 +56,10 @@ export function MakerApp({ onExit }: MakerAppProps) {
 
   useEffect(() => {
     try {
-      const { apiKey, apiSecret } = getAsterCredentials();
-      const adapter = new AsterExchangeAdapter({
-        apiKey,
-        apiSecret,
+      const adapter = createExchangeAdapter({
+        mode,
         symbol: makerConfig.symbol,
+        resolveCredentials: getAsterCredentials,
       });
       const engine = new MakerEngine(makerConfig, adapter);
       engineRef.current = engine;
@@ -72,12 +72,14 @@ export function MakerApp({ onExit }: MakerAppProps) {
       return () => {
         engine.off("update", handler);
         engine.stop();
+        // 返回菜单后关闭连接与定时器，避免下一个策略启动时旧订阅继续推送
+        void adapter.close();
       };
     } catch (err) {
       console.error(err);
       setError(err instanceof Error ? err : new Error(String(err)));
     }
-  }, []);
+  }, [mode]);
 
   if (showExitMenu) {
     return (
@@ -156,7 +158,26 @@ export function MakerApp({ onExit }: MakerAppProps) {
         <Text>
           交易对: {snapshot.symbol} ｜ 买一价: {formatNumber(topBid, 2)} ｜ 卖一价: {formatNumber(topAsk, 2)} ｜ 点差: {spreadDisplay}
         </Text>
-        <Text color="gray">状态: {snapshot.ready ? "实时运行" : "等待市场数据"} ｜ 按 Esc 返回策略选择</Text>
+        <Text color="gray">状态: {formatEngineState(snapshot.state)} ｜ 模式: {mode === "paper" ? "模拟盘" : "实盘"} ｜ 按 Esc 返回策略选择</Text>
+        {snapshot.tradeFlow && snapshot.tradeFlow.tradeCount > 0 ? (
+          <Text color="gray">
+            成交流(1分钟): 主动买 {formatNumber(snapshot.tradeFlow.buyVolume, 4)} / 主动卖 {formatNumber(snapshot.tradeFlow.sellVolume, 4)} ｜ 买入占比: {formatNumber((snapshot.tradeFlow.buyRatio ?? 0) * 100, 1)}% ｜ VWAP: {formatNumber(snapshot.tradeFlow.vwap, 2)} ｜ 大单: {snapshot.tradeFlow.largeTrades.length}
+          </Text>
+        ) : null}
+        {snapshot.funding ? (
+          <Text color="gray">
+            标记价格: {formatNumber(snapshot.funding.markPrice, 2)} ｜ 资金费率: {formatNumber(snapshot.funding.fundingRate * 100, 4)}% ｜ 下次结算: {new Date(snapshot.funding.nextFundingTime).toLocaleTimeString()} ｜ 累计资金费: {formatNumber(snapshot.funding.totalFunding, 4)}
+          </Text>
+        ) : null}
+        {snapshot.rateLimit ? (
+          <Text color={snapshot.rateLimit.bannedUntil ? "red" : "gray"}>频率限制: {formatRateLimitUsage(snapshot.rateLimit)}</Text>
+        ) : null}
+        {snapshot.streams ? (
+          <Text color={snapshot.streams.some((health) => health.stale || !health.connected) ? "red" : "gray"}>数据流: {formatStreamHealth(snapshot.streams)}</Text>
+        ) : null}
+        {snapshot.execution ? (
+          <Text color={snapshot.execution.status === "running" || snapshot.execution.status === "filled" ? "gray" : "yellow"}>算法执行: {formatExecutionReport(snapshot.execution)}</Text>
+        ) : null}
       </Box>
 
       <Box flexDirection="row" marginBottom={1}>
@@ -180,6 +201,11 @@ export function MakerApp({ onExit }: MakerAppProps) {
         </Box>
         <Box flexDirection="column">
           <Text color="greenBright">目标挂单</Text>
+          {snapshot.inventoryQuote ? (
+            <Text color="gray">
+              保留价: {formatNumber(snapshot.inventoryQuote.reservationPrice, 2)} ｜ 价差: {formatNumber(snapshot.inventoryQuote.spreadBps, 1)} bps ｜ 波动率: {formatNumber(snapshot.inventoryQuote.sigmaBps, 2)} bps/s ｜ 库存: {formatNumber(snapshot.inventoryQuote.inventoryLots, 2)} 笔 (上限 {formatNumber(snapshot.inventoryQuote.maxInventory, 4)})
+            </Text>
+          ) : null}
           {desiredRows.length > 0 ? (
             <DataTable columns={desiredColumns} rows={desiredRows} />
           ) : (
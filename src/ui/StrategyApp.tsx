@@ -0,0 +1,178 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Box, Text, useInput, useStdin } from "ink";
+import type { BaseEngineSnapshot, StrategyEngine } from "../core/base-engine";
+import { createExchangeAdapter } from "../exchanges/create-adapter";
+import type { StrategyPanelProps, StrategyPlugin } from "../strategies/types";
+import { DataTable, type TableColumn } from "./components/DataTable";
+import { formatEngineState, formatNumber, formatStreamHealth } from "../utils/format";
+import { getAsterCredentials } from "../utils/api-credentials";
+
+interface StrategyAppProps extends StrategyPanelProps {
+  plugin: StrategyPlugin;
+}
+
+function useInputSupported() {
+  const { isRawModeSupported } = useStdin();
+  return Boolean(isRawModeSupported);
+}
+
+/** 未提供专用面板的策略插件使用的通用面板 */
+export function StrategyApp({ plugin, onExit, mode }: StrategyAppProps) {
+  const inputSupported = useInputSupported();
+  const [snapshot, setSnapshot] = useState<BaseEngineSnapshot | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const [showExitMenu, setShowExitMenu] = useState(false);
+  const engineRef = useRef<StrategyEngine | null>(null);
+
+  useInput(
+    (input, key) => {
+      if (showExitMenu) {
+        if (input === '1') {
+          engineRef.current?.stop();
+          setShowExitMenu(false);
+          onExit();
+        } else if (input === '2') {
+          engineRef.current?.stop();
+          console.log('\n👋 用户选择退出程序');
+          setTimeout(() => {
+            console.log(`✅ ${plugin.name}安全退出，感谢使用！\n`);
+            process.exit(0);
+          }, 500);
+        } else if (key.escape) {
+          setShowExitMenu(false);
+        }
+        return;
+      }
+
+      if (key.escape) {
+        setShowExitMenu(true);
+      }
+    },
+    { isActive: inputSupported }
+  );
+
+  useEffect(() => {
+    try {
+      const config = plugin.config.load(process.env);
+      const adapter = createExchangeAdapter({
+        mode,
+        symbol: config.symbol,
+        resolveCredentials: getAsterCredentials,
+      });
+      const engine = plugin.createEngine(config, adapter);
+      engineRef.current = engine;
+      setSnapshot(engine.getSnapshot());
+      const handler = (next: BaseEngineSnapshot) => {
+        setSnapshot({ ...next, tradeLog: [...next.tradeLog] });
+      };
+      engine.on("update", handler);
+      engine.start();
+      return () => {
+        engine.off("update", handler);
+        engine.stop();
+        void adapter.close();
+      };
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err : new Error(String(err)));
+    }
+  }, [plugin, mode]);
+
+  if (showExitMenu) {
+    return (
+      <Box flexDirection="column" padding={1}>
+        <Text color="yellow">⚠️ 退出选项</Text>
+        <Text color="gray">请选择你要进行的操作：</Text>
+        <Text color="cyan">1. 返回主菜单</Text>
+        <Text color="red">2. 退出程序</Text>
+        <Text color="gray">按对应数字选择，ESC 取消</Text>
+      </Box>
+    );
+  }
+
+  if (error) {
+    return (
+      <Box flexDirection="column" padding={1}>
+        <Text color="red">启动失败: {error.message}</Text>
+        <Text color="gray">请检查环境变量和网络连通性。</Text>
+      </Box>
+    );
+  }
+
+  if (!snapshot) {
+    return (
+      <Box padding={1}>
+        <Text>正在初始化{plugin.name}…</Text>
+      </Box>
+    );
+  }
+
+  const hasPosition = Math.abs(snapshot.position.positionAmt) > 1e-5;
+  const openOrderRows = snapshot.openOrders.slice(0, 8).map((order) => ({
+    id: order.orderId,
+    side: order.side,
+    type: order.type,
+    price: order.price,
+    qty: order.origQty,
+    filled: order.executedQty,
+    status: order.status,
+  }));
+  const openOrderColumns: TableColumn[] = [
+    { key: "id", header: "ID", align: "right", minWidth: 6 },
+    { key: "side", header: "Side", minWidth: 4 },
+    { key: "type", header: "Type", minWidth: 10 },
+    { key: "price", header: "Price", align: "right", minWidth: 10 },
+    { key: "qty", header: "Qty", align: "right", minWidth: 8 },
+    { key: "filled", header: "Filled", align: "right", minWidth: 8 },
+    { key: "status", header: "Status", minWidth: 10 },
+  ];
+  const lastLogs = snapshot.tradeLog.slice(-5);
+
+  return (
+    <Box flexDirection="column" paddingX={1}>
+      <Box flexDirection="column" marginBottom={1}>
+        <Text color="cyanBright">{plugin.name}</Text>
+        <Text>
+          交易对: {snapshot.symbol} ｜ 状态: {formatEngineState(snapshot.state)} ｜ 模式: {mode === "paper" ? "模拟盘" : "实盘"} ｜ 按 Esc 返回策略选择
+        </Text>
+        {snapshot.streams ? (
+          <Text color={snapshot.streams.some((health) => health.stale || !health.connected) ? "red" : "gray"}>数据流: {formatStreamHealth(snapshot.streams)}</Text>
+        ) : null}
+      </Box>
+
+      <Box flexDirection="column" marginBottom={1}>
+        <Text color="greenBright">持仓</Text>
+        {hasPosition ? (
+          <Text>
+            方向: {snapshot.position.positionAmt > 0 ? "多" : "空"} ｜ 数量: {formatNumber(Math.abs(snapshot.position.positionAmt), 4)} ｜ 开仓价: {formatNumber(snapshot.position.entryPrice, 2)}
+          </Text>
+        ) : (
+          <Text color="gray">当前无持仓</Text>
+        )}
+        <Text>累计成交量: {formatNumber(snapshot.sessionVolume, 2)} USDT</Text>
+      </Box>
+
+      <Box flexDirection="column" marginBottom={1}>
+        <Text color="yellow">当前挂单</Text>
+        {openOrderRows.length > 0 ? (
+          <DataTable columns={openOrderColumns} rows={openOrderRows} />
+        ) : (
+          <Text color="gray">暂无挂单</Text>
+        )}
+      </Box>
+
+      <Box flexDirection="column">
+        <Text color="yellow">最近事件</Text>
+        {lastLogs.length > 0 ? (
+          lastLogs.map((item, index) => (
+            <Text key={`${item.time}-${index}`}>
+              [{item.time}] [{item.type}] {item.detail}
+            </Text>
+          ))
+        ) : (
+          <Text color="gray">暂无日志</Text>
+        )}
+      </Box>
+    </Box>
+  );
+}
@@ -1,13 +1,15 @@
 import React, { useEffect, useRef, useState } from "react";
 import { Box, Text, useInput, useStdin } from "ink";
-import { tradingConfig } from "../config";
-import { AsterExchangeAdapter } from "../exchanges/aster-adapter";
+import { tradingConfig, type TradingMode } from "../config";
+import { createExchangeAdapter } from "../exchanges/create-adapter";
 import { TrendEngine, type TrendEngineSnapshot } from "../core/trend-engine";
+import { FileLedgerStore, IncomeLedger, MemoryLedgerStore } from "../state/ledger";
 import { getAsterCredentials } from "../utils/api-credentials";
 import { TradingDashboard, type BaseTradingSnapshot } from "./components/TradingDashboard";
 
 interface TrendAppProps {
   onExit: () => void;
+  mode: TradingMode;
 }
 
 function useInputSupported() {
@@ -15,7 +17,7 @@ function useInputSupported() {
   return Boolean(isRawModeSupported);
 }
 
-export function TrendApp({ onExit }: TrendAppProps) {
+export function TrendApp({ onExit, mode }: TrendAppProps) {
   const inputSupported = useInputSupported();
   const [snapshot, setSnapshot] = useState<TrendEngineSnapshot | null>(null);
   const [error, setError] = useState<Error | null>(null);
@@ -51,14 +53,20 @@ export function TrendApp({ onExit }: TrendAppProps) {
 
   useEffect(() => {
     try {
-      const { apiKey, apiSecret } = getAsterCredentials();
-      const adapter = new AsterExchangeAdapter({
-        apiKey,
-        apiSecret,
+      const adapter = createExchangeAdapter({
+        mode,
         symbol: tradingConfig.symbol,
+        resolveCredentials: getAsterCredentials,
       });
       const engine = new TrendEngine(tradingConfig, adapter);
       engineRef.current = engine;
+      if (adapter.getIncomeHistory) {
+        // 模拟盘账本只保存在内存，实盘按交易对持久化到 data/ledger
+        const store =
+          mode === "paper" ? new MemoryLedgerStore() : new FileLedgerStore(`data/ledger/${tradingConfig.symbol}.json`);
+        const source = { getIncomeHistory: adapter.getIncomeHistory.bind(adapter), getUserTrades: adapter.getUserTrades?.bind(adapter) };
+        engine.attachLedger(new IncomeLedger(source, store, { symbols: [tradingConfig.symbol] }));
+      }
       setSnapshot(engine.getSnapshot());
       
       // 使用防抖更新
@@ -81,12 +89,14 @@ export function TrendApp({ onExit }: TrendAppProps) {
         }
         engine.off("update", handler);
         engine.stop();
+        // 返回菜单后关闭连接与定时器，避免下一个策略启动时旧订阅继续推送
+        void adapter.close();
       };
     } catch (err) {
       console.error(err);
       setError(err instanceof Error ? err : new Error(String(err)));
     }
-  }, []);
+  }, [mode]);
 
   if (showExitMenu) {
     return (
@@ -124,5 +134,5 @@ export function TrendApp({ onExit }: TrendAppProps) {
     enhanced: undefined
   };
 
-  return <TradingDashboard snapshot={dashboardSnapshot} title="基础趋势策略" />;
+  return <TradingDashboard snapshot={dashboardSnapshot} title={mode === "paper" ? "基础趋势策略（模拟盘）" : "基础趋势策略"} />;
 }
@@ -1,10 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import { Box, Text } from 'ink';
-import { formatNumber } from '../../utils/format';
+import type { LedgerSnapshot } from '../../state/ledger';
+import type { RateLimitUsage, StreamHealth } from '../../exchanges/types';
+import type { EngineState } from '../../core/base-engine';
+import type { ExecutionReport } from '../../core/lib/execution';
+import { formatEngineState, formatExecutionReport, formatNumber, formatRateLimitUsage, formatStreamHealth } from '../../utils/format';
 
 // 通用的快照接口
 export interface BaseTradingSnapshot {
   ready: boolean;
+  state?: EngineState;
   symbol: string;
   lastPrice: number | null;
   sma30?: number | null;
@@ -50,6 +55,14 @@ export interface BaseTradingSnapshot {
     profitLockOffset: number;
     isDynamic: boolean;
   };
+  // 交易所资金流水账本（权威的已实现盈亏、资金费与手续费）
+  ledger?: LedgerSnapshot | null;
+  // REST 请求权重与下单次数
+  rateLimit?: RateLimitUsage | null;
+  // WebSocket 数据流健康状况
+  streams?: StreamHealth[] | null;
+  // 执行中的算法单进度或最近一次执行报告
+  execution?: ExecutionReport | null;
   // 增强模式特有字段
   enhancedMode?: boolean;
   enhanced?: {
@@ -74,6 +87,7 @@ interface DashboardState {
     sma30: number | null;
     trend: string;
     ready: boolean;
+    state?: EngineState;
   };
   lastUpdated: {
     feeStats: number;
@@ -108,7 +122,8 @@ export function TradingDashboard({ snapshot, title = "Trading Dashboard" }: Trad
       lastPrice: snapshot.lastPrice,
       sma30: snapshot.sma30 || null,
       trend: snapshot.trend,
-      ready: snapshot.ready
+      ready: snapshot.ready,
+      state: snapshot.state
     },
     lastUpdated: {
       feeStats: Date.now(),
@@ -176,7 +191,8 @@ export function TradingDashboard({ snapshot, title = "Trading Dashboard" }: Trad
       lastPrice: snapshot.lastPrice,
       sma30: snapshot.sma30 || null,
       trend: snapshot.trend,
-      ready: snapshot.ready
+      ready: snapshot.ready,
+      state: snapshot.state
     };
     if (hasChanged(currentBasicInfo, dashboardState.basicInfo) ||
         now - dashboardState.lastUpdated.basicInfo > 2000) { // 2秒更新一次
@@ -206,6 +222,9 @@ export function TradingDashboard({ snapshot, title = "Trading Dashboard" }: Trad
         basicInfo={dashboardState.basicInfo} 
         title={title} 
         enhancedMode={snapshot.enhancedMode} 
+        rateLimit={snapshot.rateLimit}
+        streams={snapshot.streams}
+        execution={snapshot.execution}
       />
 
       <Box flexDirection="row" width="100%">
@@ -224,6 +243,8 @@ export function TradingDashboard({ snapshot, title = "Trading Dashboard" }: Trad
             />
           )}
 
+          {snapshot.ledger && <LedgerPanel ledger={snapshot.ledger} />}
+
           {snapshot.enhancedMode && snapshot.enhanced && (
             <EnhancedModePanel
               enhanced={dashboardState.enhanced}
@@ -257,19 +278,23 @@ export function TradingDashboard({ snapshot, title = "Trading Dashboard" }: Trad
 }
 
 // 顶部状态栏
-function HeaderPanel({ basicInfo, title, enhancedMode }: { 
+function HeaderPanel({ basicInfo, title, enhancedMode, rateLimit, streams, execution }: { 
   basicInfo: {
     symbol: string;
     lastPrice: number | null;
     sma30: number | null;
     trend: string;
     ready: boolean;
+    state?: EngineState;
   }; 
   title: string;
   enhancedMode?: boolean;
+  rateLimit?: RateLimitUsage | null;
+  streams?: StreamHealth[] | null;
+  execution?: ExecutionReport | null;
 }) {
-  const statusColor = basicInfo.ready ? "green" : "yellow";
-  const statusText = basicInfo.ready ? "运行中" : "等待数据";
+  const statusColor = basicInfo.state ? getStateColor(basicInfo.state) : basicInfo.ready ? "green" : "yellow";
+  const statusText = basicInfo.state ? formatEngineState(basicInfo.state) : basicInfo.ready ? "运行中" : "等待数据";
   
   return (
     <Box borderStyle="single" borderColor="blue" paddingX={1} marginBottom={1}>
@@ -288,6 +313,21 @@ function HeaderPanel({ basicInfo, title, enhancedMode }: {
           {enhancedMode && <Text color="magenta"> | 🔮 增强模式启用</Text>}
           {' | 按 q/ESC 返回'}
         </Text>
+        {rateLimit && (
+          <Text color={rateLimit.bannedUntil ? "red" : "gray"}>
+            🚦 频率限制: {formatRateLimitUsage(rateLimit)}
+          </Text>
+        )}
+        {streams && (
+          <Text color={streams.some((health) => health.stale || !health.connected) ? "red" : "gray"}>
+            📡 数据流: {formatStreamHealth(streams)}
+          </Text>
+        )}
+        {execution && (
+          <Text color={execution.status === "running" || execution.status === "filled" ? "gray" : "yellow"}>
+            🧩 算法执行: {formatExecutionReport(execution)}
+          </Text>
+        )}
       </Box>
     </Box>
   );
@@ -332,6 +372,38 @@ function FeeStatsPanel({ feeStats, lastUpdated }: { feeStats: any; lastUpdated:
   );
 }
 
+// 交易所账本面板
+function LedgerPanel({ ledger }: { ledger: LedgerSnapshot }) {
+  const rows = [
+    { label: '今日', totals: ledger.today },
+    { label: '本周', totals: ledger.week },
+  ];
+  const reconciliation = ledger.reconciliation;
+
+  return (
+    <Box borderStyle="single" borderColor="green" paddingX={1} marginBottom={1}>
+      <Box flexDirection="column">
+        <Text color="green">📒 交易所账本</Text>
+        {rows.map(({ label, totals }) => (
+          <Text key={label}>
+            {label}: 已实现 <Text color={totals.realizedPnl >= 0 ? "green" : "red"}>${totals.realizedPnl.toFixed(4)}</Text>
+            {' | '}资金费 ${totals.funding.toFixed(4)} | 手续费 ${totals.commission.toFixed(4)} | 净额{' '}
+            <Text color={totals.net >= 0 ? "green" : "red"}>${totals.net.toFixed(4)}</Text>
+          </Text>
+        ))}
+        {reconciliation && (
+          <Text color={reconciliation.matched ? "gray" : "red"}>
+            对账: {reconciliation.matched ? '一致' : '不一致'} | 盈亏差 ${reconciliation.pnlDiff.toFixed(4)} | 手续费差 ${reconciliation.commissionDiff.toFixed(4)}
+          </Text>
+        )}
+        <Text color="gray" dimColor>
+          同步: {ledger.lastSyncAt ? new Date(ledger.lastSyncAt).toLocaleTimeString() : '未同步'}
+        </Text>
+      </Box>
+    </Box>
+  );
+}
+
 // 动态风险管理面板
 function RiskManagementPanel({ riskParams, position, lastUpdated }: { 
   riskParams: any; 
@@ -514,6 +586,12 @@ function ordersChanged(orders1: any[], orders2: any[]): boolean {
   return JSON.stringify(summary1) !== JSON.stringify(summary2);
 }
 
+function getStateColor(state: EngineState): string {
+  if (state === 'running') return 'green';
+  if (state === 'paused' || state === 'stopping' || state === 'stopped') return 'red';
+  return 'yellow';
+}
+
 function getTrendColor(trend: string): string {
   if (trend.includes('多') || trend.includes('涨')) return 'green';
   if (trend.includes('空') || trend.includes('跌')) return 'red';
@@ -4,6 +4,19 @@ export function isUnknownOrderError(error: unknown): boolean {
   return message.includes("Unknown order") || message.includes("code\":-2011");
 }
 
+/** 查询的订单不存在（-2013） */
+export function isOrderNotFoundError(error: unknown): boolean {
+  return extractErrorCode(error) === -2013 || extractMessage(error).includes("Order does not exist");
+}
+
+/**
+ * 下单结果未知：网络异常、超时或交易所返回 -1006/-1007 时订单可能已经生效，重发前需先查询
+ */
+export function isOrderOutcomeUnknownError(error: unknown): boolean {
+  const code = extractErrorCode(error);
+  return code == null || code === -1006 || code === -1007;
+}
+
 export function extractMessage(error: unknown): string {
   if (typeof error === "string") return error;
   if (error instanceof Error) return error.message;
@@ -13,3 +26,95 @@ export function extractMessage(error: unknown): string {
     return String(error);
   }
 }
+
+/** 从 `HTTP 400 {"code":-4046,...}` 形式的错误信息中提取交易所错误码，没有时返回 null */
+export function extractErrorCode(error: unknown): number | null {
+  const match = /"code"\s*:\s*(-?\d+)/.exec(extractMessage(error));
+  return match ? Number(match[1]) : null;
+}
+
+export type ExchangeErrorKind =
+  | "rate_limit" // 请求或下单频率超限（429 / -1003 / -1015）
+  | "ip_banned" // 频率超限后 IP 被封禁（418）
+  | "timestamp" // 时间戳超出 recvWindow（-1021）
+  | "insufficient_margin"
+  | "reduce_only_rejected"
+  | "post_only_rejected" // GTX 挂单会立即成交被拒
+  | "invalid_price"
+  | "invalid_quantity"
+  | "unknown_order"
+  | "server" // 5xx 或交易所内部超时（-1001 / -1006 / -1007）
+  | "network" // 请求未得到交易所应答
+  | "other";
+
+const ERROR_CODE_KINDS: Record<number, ExchangeErrorKind> = {
+  [-1001]: "server",
+  [-1003]: "rate_limit",
+  [-1006]: "server",
+  [-1007]: "server",
+  [-1015]: "rate_limit",
+  [-1021]: "timestamp",
+  [-1111]: "invalid_price",
+  [-2011]: "unknown_order",
+  [-2013]: "unknown_order",
+  [-2018]: "insufficient_margin",
+  [-2019]: "insufficient_margin",
+  [-2022]: "reduce_only_rejected",
+  [-4003]: "invalid_quantity",
+  [-4005]: "invalid_quantity",
+  [-4014]: "invalid_price",
+  [-4016]: "invalid_price",
+  [-4023]: "invalid_quantity",
+  [-4024]: "invalid_price",
+  [-4164]: "invalid_quantity",
+  [-5022]: "post_only_rejected",
+};
+
+/**
+ * REST 请求失败：消息保持 `HTTP 400 {"code":...}` 形式以兼容按文本匹配的旧逻辑，另附 HTTP 状态与分类
+ */
+export class ExchangeRequestError extends Error {
+  readonly code: number | null;
+  readonly kind: ExchangeErrorKind;
+
+  constructor(message: string, readonly status: number | null, readonly retryAfterMs: number | null = null) {
+    super(message);
+    this.name = "ExchangeRequestError";
+    this.code = extractErrorCode(message);
+    this.kind = classifyExchangeError(this);
+  }
+}
+
+/** HTTP 状态码，来自 ExchangeRequestError 或 `HTTP 429 ...` 形式的错误信息 */
+export function extractHttpStatus(error: unknown): number | null {
+  if (error instanceof ExchangeRequestError) return error.status;
+  const match = /^HTTP (\d{3})\b/.exec(extractMessage(error));
+  return match ? Number(match[1]) : null;
+}
+
+export function classifyExchangeError(error: unknown): ExchangeErrorKind {
+  const status = extractHttpStatus(error);
+  if (status === 418) return "ip_banned";
+  if (status === 429) return "rate_limit";
+  const code = extractErrorCode(error);
+  if (code != null) {
+    const kind = ERROR_CODE_KINDS[code];
+    if (kind) return kind;
+    // -1013 为通用过滤器失败，按失败的过滤器区分价格与数量
+    if (code === -1013) return /PRICE/.test(extractMessage(error)) ? "invalid_price" : "invalid_quantity";
+  }
+  if (status != null && status >= 500) return "server";
+  if (isUnknownOrderError(error)) return "unknown_order";
+  if (code == null && status == null) return "network";
+  return "other";
+}
+
+/**
+ * 可自动重试的错误：频率超限与时间戳错误说明请求未被受理，总是可以重试；
+ * 5xx 与网络错误时请求可能已生效，只有幂等请求才自动重试（下单由订单号查询后再决定是否重发）
+ */
+export function isRetryableError(error: unknown, idempotent = true): boolean {
+  const kind = classifyExchangeError(error);
+  if (kind === "rate_limit" || kind === "timestamp") return true;
+  return idempotent && (kind === "server" || kind === "network");
+}
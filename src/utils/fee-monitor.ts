@@ -1,3 +1,5 @@
+import type { AsterFill } from '../exchanges/types';
+
 export interface FeeRecord {
   timestamp: number;
   symbol: string;
@@ -6,6 +8,7 @@ export interface FeeRecord {
   price: number;
   fee: number;
   orderId: string;
+  estimated: boolean; // true 表示按费率估算，false 为成交回报中的实际手续费
 }
 
 export interface FeeSummary {
@@ -33,6 +36,7 @@ export interface FeeStats {
 
 export class FeeMonitor {
   private feeRecords: FeeRecord[] = [];
+  private sessionFee = 0;
   private totalBalance: number = 0;
   private feeRate: number;
   private maxDailyFeePct: number;
@@ -78,22 +82,53 @@ export class FeeMonitor {
     const tradeValue = trade.quantity * trade.price;
     const fee = tradeValue * this.feeRate;
     
-    const feeRecord: FeeRecord = {
+    return this.addRecord({
       timestamp: Date.now(),
       symbol: trade.symbol,
       side: trade.side,
       quantity: trade.quantity,
       price: trade.price,
       fee: fee,
-      orderId: trade.orderId
-    };
+      orderId: trade.orderId,
+      estimated: true
+    });
+  }
+
+  /**
+   * 按成交回报记录实际手续费；手续费资产不是交易对计价资产（如 BNB 抵扣）时无法换算，退回按费率估算
+   */
+  recordFill(fill: AsterFill): { shouldStop: boolean; reason?: string } {
+    const quantity = Number(fill.lastFilledQty);
+    const price = Number(fill.lastFilledPrice);
+    const commission = Number(fill.commission);
+    const inQuote = Boolean(fill.commissionAsset) && fill.symbol.endsWith(fill.commissionAsset);
+    const estimated = !inQuote || !Number.isFinite(commission);
+
+    return this.addRecord({
+      timestamp: Date.now(),
+      symbol: fill.symbol,
+      side: fill.side,
+      quantity,
+      price,
+      fee: estimated ? quantity * price * this.feeRate : Math.abs(commission),
+      orderId: String(fill.orderId),
+      estimated
+    });
+  }
+
+  /** 本次运行累计手续费，不随旧记录清理而减少 */
+  getSessionFee(): number {
+    return this.sessionFee;
+  }
 
+  private addRecord(feeRecord: FeeRecord): { shouldStop: boolean; reason?: string } {
     this.feeRecords.push(feeRecord);
+    this.sessionFee += feeRecord.fee;
     this.cleanOldRecords();
     
     // 添加调试日志（可通过环境变量控制）
     if (process.env.DEBUG_FEE_MONITOR === 'true') {
-      console.log(`📊 [FeeMonitor] 记录交易: ${trade.side} ${trade.quantity} ${trade.symbol} @ ${trade.price}, 手续费: $${fee.toFixed(4)}`);
+      console.log(`📊 [FeeMonitor] 记录交易: ${feeRecord.side} ${feeRecord.quantity} ${feeRecord.symbol} @ ${feeRecord.price}, 手续费: $${feeRecord.fee.toFixed(4)}${feeRecord.estimated ? ' (估算)' : ''}`);
     }
     
     // 检查是否需要记录日志
@@ -0,0 +1,51 @@
+import type { AsterFill, OrderSide } from "../exchanges/types";
+
+export interface ClosedOrderSummary {
+  orderId: number;
+  symbol: string;
+  side: OrderSide;
+  quantity: number;
+  realizedPnl: number; // 该订单各笔平仓成交的已实现盈亏合计（不含手续费）
+}
+
+/**
+ * 是否为减仓成交：对冲模式按方向与持仓腿判断，单向模式看 reduceOnly 或是否产生已实现盈亏
+ */
+export function isClosingFill(fill: AsterFill): boolean {
+  if (fill.positionSide === "LONG") return fill.side === "SELL";
+  if (fill.positionSide === "SHORT") return fill.side === "BUY";
+  return fill.reduceOnly || Math.abs(Number(fill.realizedPnl)) > 0;
+}
+
+/**
+ * 按订单聚合平仓成交，订单全部成交时返回一笔完整平仓，用于交易计数与已实现盈亏统计
+ */
+export class ClosedTradeTracker {
+  private readonly pending = new Map<number, ClosedOrderSummary>();
+
+  push(fill: AsterFill): ClosedOrderSummary | null {
+    if (!isClosingFill(fill)) return null;
+    const current = this.pending.get(fill.orderId) ?? {
+      orderId: fill.orderId,
+      symbol: fill.symbol,
+      side: fill.side,
+      quantity: 0,
+      realizedPnl: 0,
+    };
+    current.quantity += Number(fill.lastFilledQty) || 0;
+    current.realizedPnl += Number(fill.realizedPnl) || 0;
+    if (fill.orderStatus !== "FILLED") {
+      this.pending.set(fill.orderId, current);
+      return null;
+    }
+    this.pending.delete(fill.orderId);
+    return current;
+  }
+}
+
+/** 成交回报日志文本 */
+export function describeFill(fill: AsterFill): string {
+  const role = fill.isMaker ? "挂单" : "吃单";
+  const price = Number(fill.lastFilledPrice);
+  return `✅ 成交: ${fill.side} ${fill.lastFilledQty} @ $${price.toFixed(4)} (${role})，手续费 ${fill.commission} ${fill.commissionAsset}`;
+}
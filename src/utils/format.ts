@@ -1,8 +1,71 @@
+import type { EngineState } from "../core/base-engine";
+import type { ExecutionReport } from "../core/lib/execution";
+import type { ClockSyncStatus, RateLimitUsage, StreamHealth } from "../exchanges/types";
+
 export function formatNumber(value: number | null | undefined, digits = 4, fallback = "-"): string {
   if (value == null || Number.isNaN(value)) return fallback;
   return Number(value).toFixed(digits);
 }
 
+/** 频率限制使用情况，例如「权重 1200/2400 ｜ 下单(10s) 12/300」 */
+export function formatRateLimitUsage(usage: RateLimitUsage): string {
+  const parts = [
+    `权重 ${usage.weight1m}/${usage.weightLimit1m}`,
+    `下单(10s) ${usage.orders10s}/${usage.orderLimit10s}`,
+    `下单(1m) ${usage.orders1m}/${usage.orderLimit1m}`,
+  ];
+  if (usage.throttled > 0) parts.push(`限速等待 ${usage.throttled} 次`);
+  if (usage.bannedUntil) parts.push(`IP 封禁至 ${new Date(usage.bannedUntil).toLocaleTimeString()}`);
+  return parts.join(" ｜ ");
+}
+
+/** 数据流健康状况，例如「depth20@100ms 9.8/s 0s ｜ markPrice 0.3/s 2s ｜ user ⚠️ 静默 320s」 */
+export function formatStreamHealth(streams: StreamHealth[], now = Date.now()): string {
+  if (streams.length === 0) return "未订阅";
+  return streams
+    .map((health) => {
+      const label = health.stream.includes("@") ? health.stream.slice(health.stream.indexOf("@") + 1) : health.stream;
+      const age = health.lastMessageAt == null ? "-" : `${Math.max(0, Math.round((now - health.lastMessageAt) / 1000))}s`;
+      if (!health.connected) return `${label} ⚠️ 未连接`;
+      if (health.stale) return `${label} ⚠️ 静默 ${age}`;
+      return `${label} ${health.messagesPerSecond.toFixed(1)}/s ${age}`;
+    })
+    .join(" ｜ ");
+}
+
+const EXECUTION_STATUS_LABELS: Record<ExecutionReport["status"], string> = {
+  running: "执行中",
+  filled: "已完成",
+  partial: "未全部成交",
+  aborted: "已中止",
+};
+
+/** 算法单进度，例如「TWAP SELL 已完成 1.5/1.5 均价 100.02 到达价 100.1 滑点 +8.0 bps」 */
+export function formatExecutionReport(report: ExecutionReport): string {
+  const algo = report.algo === "iceberg" ? "冰山" : report.algo.toUpperCase();
+  const slippage = report.slippageBps != null ? `${report.slippageBps >= 0 ? "+" : ""}${report.slippageBps.toFixed(1)} bps` : "-";
+  return `${algo} ${report.side} ${EXECUTION_STATUS_LABELS[report.status]} ${formatNumber(report.filledQty)}/${formatNumber(report.requestedQty)} 均价 ${formatNumber(report.avgPrice)} 到达价 ${formatNumber(report.arrivalPrice)} 限价 ${formatNumber(report.limitPrice)} 滑点 ${slippage}`;
+}
+
+export function describeClockDrift(status: ClockSyncStatus): string {
+  const direction = status.offsetMs > 0 ? "慢" : "快";
+  return `⏱️ 本地时钟比交易所${direction} ${Math.abs(status.offsetMs)}ms（往返 ${status.rttMs ?? "-"}ms，recvWindow ${status.recvWindow}ms），签名时间戳已自动校正，建议同步系统时间`;
+}
+
+const ENGINE_STATE_LABELS: Record<EngineState, string> = {
+  init: "初始化",
+  warmup: "等待数据",
+  running: "运行中",
+  paused: "已暂停",
+  stopping: "停止中",
+  stopped: "已停止",
+};
+
+/** 引擎生命周期状态的中文标签 */
+export function formatEngineState(state: EngineState): string {
+  return ENGINE_STATE_LABELS[state];
+}
+
 export function formatTrendLabel(trend: "做多" | "做空" | "无信号"): string {
   return trend;
 }
@@ -0,0 +1,116 @@
+import type { AsterMarkPrice } from "../exchanges/types";
+
+export interface FundingGuardConfig {
+  enabled: boolean; // 启用后在不利资金费结算前暂停开仓
+  windowMs: number; // 距下次结算小于该时长时视为临近结算
+  minRate: number; // 资金费率绝对值超过该值才视为不利
+}
+
+/**
+ * 从环境变量读取资金费保护配置
+ */
+export function loadFundingGuardConfig(): FundingGuardConfig {
+  return {
+    enabled: process.env.ENABLE_FUNDING_GUARD === "true",
+    windowMs: parseInt(process.env.FUNDING_GUARD_WINDOW_MS || "600000"),
+    minRate: parseFloat(process.env.FUNDING_GUARD_MIN_RATE || "0.0001"),
+  };
+}
+
+export interface FundingSettlement {
+  time: number; // 结算时间（上一期的 nextFundingTime）
+  positionAmt: number;
+  markPrice: number;
+  fundingRate: number;
+  amount: number; // 正数为收取，负数为支付
+}
+
+export interface FundingSnapshot {
+  markPrice: number;
+  indexPrice: number;
+  fundingRate: number;
+  nextFundingTime: number;
+  totalFunding: number; // 本次运行累计资金费（估算）
+  settlements: number;
+}
+
+const EPS = 1e-8;
+
+/**
+ * 资金费率为正时多头向空头支付，为负时空头向多头支付
+ */
+export function isFundingUnfavorable(side: "BUY" | "SELL", fundingRate: number, minRate = 0): boolean {
+  return side === "BUY" ? fundingRate > minRate : fundingRate < -minRate;
+}
+
+/**
+ * 跟踪标记价格推送：判断临近结算的不利开仓，并在每期结算后估算持仓支付或收取的资金费
+ */
+export class FundingMonitor {
+  private readonly config: FundingGuardConfig;
+  private readonly now: () => number;
+  private last: AsterMarkPrice | null = null;
+  private totalFunding = 0;
+  private settlements = 0;
+  private readonly notifiedBlocks = new Set<string>();
+
+  constructor(config: FundingGuardConfig, now: () => number = () => Date.now()) {
+    this.config = config;
+    this.now = now;
+  }
+
+  /** 处理一次标记价格推送，nextFundingTime 前移说明上一期已结算，持仓不为零时返回结算估算 */
+  update(mark: AsterMarkPrice, positionAmt: number): FundingSettlement | null {
+    const previous = this.last;
+    this.last = mark;
+    if (!previous || !(mark.nextFundingTime > previous.nextFundingTime)) return null;
+    this.notifiedBlocks.clear();
+    if (Math.abs(positionAmt) < EPS) return null;
+    const fundingRate = Number(previous.fundingRate);
+    const markPrice = Number(mark.markPrice);
+    if (!Number.isFinite(fundingRate) || !(markPrice > 0)) return null;
+    const amount = -positionAmt * markPrice * fundingRate;
+    this.totalFunding += amount;
+    this.settlements += 1;
+    return { time: previous.nextFundingTime, positionAmt, markPrice, fundingRate, amount };
+  }
+
+  /** 临近结算且方向不利时返回跳过原因，否则返回 null */
+  getEntryBlock(side: "BUY" | "SELL", now: number = this.now()): string | null {
+    if (!this.config.enabled || !this.last) return null;
+    const fundingRate = Number(this.last.fundingRate);
+    const remaining = this.last.nextFundingTime - now;
+    if (!Number.isFinite(fundingRate) || remaining <= 0 || remaining > this.config.windowMs) return null;
+    if (!isFundingUnfavorable(side, fundingRate, this.config.minRate)) return null;
+    return `距资金费结算 ${(remaining / 60000).toFixed(1)} 分钟，费率 ${(fundingRate * 100).toFixed(4)}% 对${side === "BUY" ? "多头" : "空头"}不利`;
+  }
+
+  /** 同一结算周期内每个方向只返回一次提示，避免循环中重复刷日志 */
+  consumeEntryBlockNotice(side: "BUY" | "SELL", now: number = this.now()): string | null {
+    const reason = this.getEntryBlock(side, now);
+    if (!reason || !this.last) return null;
+    const key = `${side}:${this.last.nextFundingTime}`;
+    if (this.notifiedBlocks.has(key)) return null;
+    this.notifiedBlocks.add(key);
+    return reason;
+  }
+
+  getSnapshot(): FundingSnapshot | null {
+    if (!this.last) return null;
+    return {
+      markPrice: Number(this.last.markPrice),
+      indexPrice: Number(this.last.indexPrice),
+      fundingRate: Number(this.last.fundingRate),
+      nextFundingTime: this.last.nextFundingTime,
+      totalFunding: this.totalFunding,
+      settlements: this.settlements,
+    };
+  }
+}
+
+/** 资金费结算日志文本 */
+export function describeFundingSettlement(settlement: FundingSettlement): string {
+  const direction = settlement.positionAmt > 0 ? "多头" : "空头";
+  const action = settlement.amount >= 0 ? "收取" : "支付";
+  return `资金费结算: ${direction} ${Math.abs(settlement.positionAmt)} @ ${settlement.markPrice}，费率 ${(settlement.fundingRate * 100).toFixed(4)}%，${action} ${Math.abs(settlement.amount).toFixed(6)} USDT`;
+}
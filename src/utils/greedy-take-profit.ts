@@ -11,6 +11,19 @@ export interface GreedyProfitConfig {
   extraProfitTarget: number; // 额外收益目标（百分比）
 }
 
+/**
+ * 从环境变量读取贪婪止盈配置
+ */
+export function loadGreedyProfitConfig(): GreedyProfitConfig {
+  return {
+    enabled: process.env.ENABLE_GREEDY_TAKE_PROFIT === 'true',
+    sampleSize: parseInt(process.env.GREEDY_SAMPLE_SIZE || '10'),
+    reversalThreshold: parseFloat(process.env.GREEDY_REVERSAL_THRESHOLD || '0.002'),
+    maxWaitTime: parseInt(process.env.GREEDY_MAX_WAIT_TIME_MS || '30000'),
+    extraProfitTarget: parseFloat(process.env.GREEDY_EXTRA_PROFIT_TARGET || '0.005')
+  };
+}
+
 export interface GreedyProfitState {
   isActive: boolean;         // 是否处于贪婪模式
   activatedAt: number;       // 激活时间戳
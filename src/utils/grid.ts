@@ -0,0 +1,116 @@
+import type { GridConfig, GridSpacing } from "../config";
+import { roundDownToTick } from "./math";
+
+/**
+ * 网格档位上的挂单：opening 为开仓单，closing 为与相邻档位成交配对的平仓单
+ */
+export interface GridSlot {
+  side: "BUY" | "SELL";
+  closing: boolean;
+  entryPrice: number | null; // 配对开仓单的成交价，仅平仓单设置
+}
+
+export interface GridPnl {
+  realized: number; // 已完成配对的网格利润
+  roundTrips: number; // 完成的买卖配对次数
+  inventory: number; // 当前持仓浮动盈亏
+  total: number;
+}
+
+/**
+ * 校验网格配置，返回错误说明，配置有效时返回 null
+ */
+export function validateGridConfig(config: GridConfig): string | null {
+  if (!(config.lowerPrice > 0) || !(config.upperPrice > config.lowerPrice)) {
+    return "网格上下边界无效，需要 0 < GRID_LOWER_PRICE < GRID_UPPER_PRICE";
+  }
+  if (!Number.isInteger(config.levelCount) || config.levelCount < 2) {
+    return "网格档位数量 GRID_LEVELS 至少为 2";
+  }
+  if (!(config.levelQty > 0)) {
+    return "每档数量 GRID_LEVEL_QTY 必须大于 0";
+  }
+  if (config.stopLowerPrice > 0 && config.stopLowerPrice >= config.lowerPrice) {
+    return "下方止损价 GRID_STOP_LOWER_PRICE 必须低于网格下边界";
+  }
+  if (config.stopUpperPrice > 0 && config.stopUpperPrice <= config.upperPrice) {
+    return "上方止损价 GRID_STOP_UPPER_PRICE 必须高于网格上边界";
+  }
+  return null;
+}
+
+/**
+ * 按等差或等比间距计算网格价格（含上下边界），按最小价格变动取整并去重
+ */
+export function computeGridLevels(
+  lowerPrice: number,
+  upperPrice: number,
+  levelCount: number,
+  spacing: GridSpacing,
+  priceTick: number
+): number[] {
+  if (levelCount < 2 || !(upperPrice > lowerPrice) || !(lowerPrice > 0)) return [];
+  const steps = levelCount - 1;
+  const levels: number[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const raw =
+      spacing === "geometric"
+        ? lowerPrice * Math.pow(upperPrice / lowerPrice, i / steps)
+        : lowerPrice + ((upperPrice - lowerPrice) * i) / steps;
+    const price = roundDownToTick(raw, priceTick);
+    if (levels.length === 0 || price > levels[levels.length - 1]!) {
+      levels.push(price);
+    }
+  }
+  return levels;
+}
+
+/**
+ * 初始布单：低于当前价的档位挂买单，高于当前价的档位挂卖单，离当前价最近的档位留空
+ */
+export function createInitialGrid(levels: number[], price: number): Array<GridSlot | null> {
+  let nearest = -1;
+  let nearestDistance = Infinity;
+  levels.forEach((level, index) => {
+    const distance = Math.abs(level - price);
+    if (distance < nearestDistance) {
+      nearest = index;
+      nearestDistance = distance;
+    }
+  });
+  return levels.map((level, index) => {
+    if (index === nearest) return null;
+    return { side: level < price ? "BUY" : "SELL", closing: false, entryPrice: null };
+  });
+}
+
+/**
+ * 档位成交后的网格变化：买单成交后在上一档挂卖单，卖单成交后在下一档挂买单；
+ * 开仓单成交后补挂的是平仓单，平仓单成交后补挂开仓单并计入网格利润
+ */
+export function applyGridFill(
+  slots: Array<GridSlot | null>,
+  index: number,
+  fillPrice: number,
+  qty: number
+): { slots: Array<GridSlot | null>; realized: number } {
+  const filled = slots[index];
+  if (!filled) return { slots, realized: 0 };
+  const next = [...slots];
+  next[index] = null;
+
+  let realized = 0;
+  if (filled.closing && filled.entryPrice != null) {
+    realized = filled.side === "SELL" ? (fillPrice - filled.entryPrice) * qty : (filled.entryPrice - fillPrice) * qty;
+  }
+
+  const target = filled.side === "BUY" ? index + 1 : index - 1;
+  if (target >= 0 && target < next.length) {
+    next[target] = {
+      side: filled.side === "BUY" ? "SELL" : "BUY",
+      closing: !filled.closing,
+      entryPrice: filled.closing ? null : fillPrice,
+    };
+  }
+  return { slots: next, realized };
+}
@@ -0,0 +1,89 @@
+import { roundDownToTick, roundUpToTick } from "./math";
+
+export type MakerQuoteModel = "fixed" | "inventory";
+
+export interface InventoryQuotingConfig {
+  model: MakerQuoteModel; // fixed 按 bidOffset/askOffset 固定偏移报价，inventory 按库存与波动率偏移报价
+  riskAversion: number; // γ：库存风险厌恶系数，越大保留价随库存偏移越多、价差越宽
+  orderIntensity: number; // κ：成交概率随报价距离（每 bps）的衰减系数，越大最优价差越窄
+  horizonMs: number; // T：持有库存的时间尺度
+  volatilityWindowMs: number; // 估计波动率的中间价采样窗口
+  maxInventory: number; // 最大持仓数量，达到后停止加仓方向的报价，0 表示 TRADE_AMOUNT 的 5 倍
+  twoSided: boolean; // 持仓时继续双边报价，平仓方向按每笔数量分批减仓
+}
+
+export interface InventoryQuote {
+  mid: number;
+  reservationPrice: number; // 按库存偏移后的保留价，多头库存时低于中间价
+  spreadBps: number; // 最优价差（买卖报价之间，bps）
+  bidPrice: number;
+  askPrice: number;
+  sigmaBps: number; // 中间价每秒波动率（bps）
+  inventoryLots: number; // 持仓折合的每笔数量倍数，多为正、空为负
+  maxInventory: number;
+}
+
+const MIN_MODEL_PARAM = 1e-6;
+
+/**
+ * Avellaneda–Stoikov 报价，全部以 bps 计量，参数在不同价位的交易对之间通用：
+ * 保留价 r = mid × (1 − q·γ·σ²·T)，最优价差 δ = γ·σ²·T + (2/γ)·ln(1 + γ/κ)，
+ * 买卖价为 r ∓ δ/2，并限制在对手盘口之内以保持 Maker
+ */
+export function computeInventoryQuote(params: {
+  topBid: number;
+  topAsk: number;
+  positionAmt: number;
+  tradeAmount: number;
+  sigmaBps: number;
+  priceTick: number;
+  config: InventoryQuotingConfig;
+  maxInventory: number;
+}): InventoryQuote {
+  const { topBid, topAsk, positionAmt, tradeAmount, sigmaBps, priceTick, config, maxInventory } = params;
+  const mid = (topBid + topAsk) / 2;
+  const gamma = Math.max(config.riskAversion, MIN_MODEL_PARAM);
+  const kappa = Math.max(config.orderIntensity, MIN_MODEL_PARAM);
+  const inventoryLots = tradeAmount > 0 ? positionAmt / tradeAmount : 0;
+  const variance = sigmaBps * sigmaBps * (Math.max(0, config.horizonMs) / 1000);
+
+  const reservationPrice = mid * (1 - (inventoryLots * gamma * variance) / 10_000);
+  const spreadBps = gamma * variance + (2 / gamma) * Math.log(1 + gamma / kappa);
+  const halfSpread = (mid * spreadBps) / 2 / 10_000;
+
+  const bidPrice = Math.min(roundDownToTick(reservationPrice - halfSpread, priceTick), roundDownToTick(topAsk - priceTick, priceTick));
+  const askPrice = Math.max(roundUpToTick(reservationPrice + halfSpread, priceTick), roundUpToTick(topBid + priceTick, priceTick));
+  return { mid, reservationPrice, spreadBps, bidPrice, askPrice, sigmaBps, inventoryLots, maxInventory };
+}
+
+/**
+ * 按中间价采样估计已实现波动率：窗口内对数收益率平方和除以总时长，换算为每秒 bps
+ */
+export class VolatilityEstimator {
+  private readonly samples: Array<{ time: number; price: number }> = [];
+
+  constructor(private readonly windowMs: number) {}
+
+  push(price: number, time: number = Date.now()): void {
+    if (!(price > 0) || !Number.isFinite(price)) return;
+    const last = this.samples[this.samples.length - 1];
+    if (last && time <= last.time) return;
+    this.samples.push({ time, price });
+    while (this.samples.length > 2 && time - this.samples[0]!.time > this.windowMs) {
+      this.samples.shift();
+    }
+  }
+
+  /** 样本不足时返回 0，此时报价只使用最小价差 */
+  getSigmaBps(): number {
+    let sumSquares = 0;
+    for (let i = 1; i < this.samples.length; i++) {
+      const ret = Math.log(this.samples[i]!.price / this.samples[i - 1]!.price) * 10_000;
+      sumSquares += ret * ret;
+    }
+    const first = this.samples[0];
+    const last = this.samples[this.samples.length - 1];
+    if (!first || !last || last.time <= first.time) return 0;
+    return Math.sqrt(sumSquares / ((last.time - first.time) / 1000));
+  }
+}
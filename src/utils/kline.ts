@@ -0,0 +1,22 @@
+export function intervalToMs(interval: string): number {
+  const unit = interval.slice(-1);
+  const value = parseInt(interval.slice(0, -1), 10);
+  if (!Number.isFinite(value) || value <= 0) return 60 * 1000;
+  switch (unit) {
+    case "m":
+      return value * 60 * 1000;
+    case "h":
+      return value * 60 * 60 * 1000;
+    case "d":
+      return value * 24 * 60 * 60 * 1000;
+    case "w":
+      return value * 7 * 24 * 60 * 60 * 1000;
+    default:
+      return 60 * 1000; // 默认1分钟
+  }
+}
+
+export function alignToInterval(timestamp: number, interval: string): number {
+  const size = intervalToMs(interval);
+  return Math.floor(timestamp / size) * size;
+}
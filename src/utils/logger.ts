@@ -1,5 +1,6 @@
 import { createWriteStream, existsSync, mkdirSync, readdirSync, unlinkSync } from "fs";
 import { join } from "path";
+import { isMainThread } from "worker_threads";
 
 export class Logger {
   private logDir: string;
@@ -28,8 +29,10 @@ export class Logger {
       mkdirSync(this.logDir, { recursive: true });
     }
 
-    // 清理旧的日志文件
-    this.cleanOldLogs();
+    // 清理旧的日志文件（工作线程中跳过，避免删除主线程正在写入的日志）
+    if (isMainThread) {
+      this.cleanOldLogs();
+    }
 
     // 创建新的日志文件
     this.createLogFile();
@@ -1,6 +1,7 @@
-import { RedisKlineManager, type KlineData } from './redis-kline-manager';
+import type { KlineData, KlineStore } from './redis-kline-manager';
 import { TechnicalIndicators, type TechnicalAnalysis } from './technical-indicators';
 import type { ExchangeAdapter } from '../exchanges/adapter';
+import type { TradeFlowAggregator, TradeFlowStats } from './trade-flow';
 
 export interface MarketAnalysisResult {
   signal: 'BUY' | 'SELL' | 'HOLD';
@@ -9,6 +10,7 @@ export interface MarketAnalysisResult {
   analysis: TechnicalAnalysis;
   riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
   suggestedAction: string;
+  tradeFlow?: TradeFlowStats; // 分析时的成交流统计（已接入成交流时）
 }
 
 export interface MarketAnalyzerConfig {
@@ -26,16 +28,27 @@ export interface MarketAnalyzerConfig {
   cacheTTL: number;
 }
 
+// 成交流至少积累该笔数才参与评分
+const MIN_FLOW_TRADES = 20;
+
 export class MarketAnalyzer {
-  private klineManager: RedisKlineManager;
+  private klineManager: KlineStore;
   private config: MarketAnalyzerConfig;
   private lastAnalysis: Map<string, MarketAnalysisResult> = new Map();
+  private tradeFlows: Map<string, TradeFlowAggregator> = new Map();
 
-  constructor(klineManager: RedisKlineManager, config: MarketAnalyzerConfig) {
+  constructor(klineManager: KlineStore, config: MarketAnalyzerConfig) {
     this.klineManager = klineManager;
     this.config = config;
   }
 
+  /**
+   * 接入交易对的成交流统计，主动买卖失衡与大单方向将参与信号评分
+   */
+  attachTradeFlow(symbol: string, aggregator: TradeFlowAggregator): void {
+    this.tradeFlows.set(symbol.toUpperCase(), aggregator);
+  }
+
   /**
    * 执行综合市场分析
    */
@@ -85,7 +98,8 @@ export class MarketAnalyzer {
       }
 
       // 生成交易信号
-      const analysisResult = this.generateTradingSignal(technicalAnalysis, klines);
+      const tradeFlow = this.tradeFlows.get(symbol.toUpperCase())?.getStats();
+      const analysisResult = this.generateTradingSignal(technicalAnalysis, klines, tradeFlow);
       
       // 缓存结果
       this.lastAnalysis.set(symbol, analysisResult);
@@ -108,7 +122,11 @@ export class MarketAnalyzer {
   /**
    * 生成交易信号
    */
-  private generateTradingSignal(analysis: TechnicalAnalysis, klines: KlineData[]): MarketAnalysisResult {
+  private generateTradingSignal(
+    analysis: TechnicalAnalysis,
+    klines: KlineData[],
+    tradeFlow?: TradeFlowStats
+  ): MarketAnalysisResult {
     const { kdj, rsi, volume, priceRange, sma30, currentPrice } = analysis;
     
     let signal: 'BUY' | 'SELL' | 'HOLD' = 'HOLD';
@@ -193,8 +211,28 @@ export class MarketAnalyzer {
       reasons.push(`低波动性市场 (${(volatility * 100).toFixed(1)}%)`);
     }
 
+    // 成交流：主动买卖失衡与大单方向
+    let flowScore = 0;
+    if (tradeFlow && tradeFlow.tradeCount >= MIN_FLOW_TRADES && tradeFlow.buyRatio != null) {
+      if (tradeFlow.buyRatio >= 0.65) {
+        flowScore = 0.1;
+        reasons.push(`主动买入占优 (${(tradeFlow.buyRatio * 100).toFixed(1)}%)`);
+      } else if (tradeFlow.buyRatio <= 0.35) {
+        flowScore = -0.1;
+        reasons.push(`主动卖出占优 (${((1 - tradeFlow.buyRatio) * 100).toFixed(1)}%)`);
+      }
+      const largeNet = tradeFlow.largeBuyVolume - tradeFlow.largeSellVolume;
+      if (largeNet > 0) {
+        flowScore += 0.05;
+        reasons.push(`大单净买入 ${largeNet.toFixed(4)}`);
+      } else if (largeNet < 0) {
+        flowScore -= 0.05;
+        reasons.push(`大单净卖出 ${Math.abs(largeNet).toFixed(4)}`);
+      }
+    }
+
     // 计算总分和信号
-    const totalScore = kdjScore + rsiScore + volumeScore + trendScore + positionScore + volatilityScore;
+    const totalScore = kdjScore + rsiScore + volumeScore + trendScore + positionScore + volatilityScore + flowScore;
     confidence = Math.min(Math.abs(totalScore), 1);
 
     // 信号决策逻辑
@@ -228,7 +266,8 @@ export class MarketAnalyzer {
       reasons,
       analysis,
       riskLevel,
-      suggestedAction
+      suggestedAction,
+      tradeFlow
     };
   }
 
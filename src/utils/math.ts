@@ -1,13 +1,20 @@
 export function roundDownToTick(value: number, tick: number): number {
   if (!Number.isFinite(value) || !Number.isFinite(tick) || tick <= 0) return value;
-  const scaled = Math.floor(value / tick) * tick;
+  // 先截断浮点误差再取整，避免 100.1 / 0.1 = 1000.999… 被舍到下一档
+  const scaled = Math.floor(Number((value / tick).toFixed(8))) * tick;
   // Avoid floating residuals
   return Number(scaled.toFixed(Math.max(0, decimalsOf(tick))));
 }
 
+export function roundUpToTick(value: number, tick: number): number {
+  if (!Number.isFinite(value) || !Number.isFinite(tick) || tick <= 0) return value;
+  const scaled = Math.ceil(Number((value / tick).toFixed(8))) * tick;
+  return Number(scaled.toFixed(Math.max(0, decimalsOf(tick))));
+}
+
 export function roundQtyDownToStep(value: number, step: number): number {
   if (!Number.isFinite(value) || !Number.isFinite(step) || step <= 0) return value;
-  const scaled = Math.floor(value / step) * step;
+  const scaled = Math.floor(Number((value / step).toFixed(8))) * step;
   return Number(scaled.toFixed(Math.max(0, decimalsOf(step))));
 }
 
@@ -0,0 +1,70 @@
+import type { ExchangeAdapter } from '../exchanges/adapter';
+import type { AsterKline } from '../exchanges/types';
+import { toKlineData, type KlineData, type KlineStore } from './redis-kline-manager';
+
+/**
+ * 内存K线存储 - 与 RedisKlineManager 行为一致，供回测等无需 Redis 的场景使用
+ */
+export class MemoryKlineStore implements KlineStore {
+  private readonly klines = new Map<string, KlineData[]>();
+  private readonly storedAt = new Map<string, number>();
+  private readonly analyses = new Map<string, any>();
+  private connected = false;
+
+  /**
+   * @param cacheTtl 缓存过期时间（秒），与 Redis 的 TTL 语义相同
+   */
+  constructor(private readonly cacheTtl: number = 3600) {}
+
+  async connect(): Promise<void> {
+    this.connected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false;
+  }
+
+  async fetchKlinesFromExchange(
+    exchange: ExchangeAdapter,
+    symbol: string,
+    interval: string,
+    limit: number
+  ): Promise<KlineData[]> {
+    const klines = await exchange.getKlines(symbol, interval, limit);
+    return klines.map((kline: AsterKline) => toKlineData(kline, symbol, interval, kline.closeTime));
+  }
+
+  async storeKlines(klines: KlineData[]): Promise<void> {
+    const first = klines[0];
+    if (!this.connected || !first) return;
+    const key = `${first.symbol}:${first.interval}`;
+    this.klines.set(key, [...klines].sort((a, b) => a.openTime - b.openTime));
+    this.storedAt.set(key, Date.now());
+  }
+
+  async getKlines(symbol: string, interval: string): Promise<KlineData[]> {
+    if (!this.connected) return [];
+    return [...(this.klines.get(`${symbol}:${interval}`) ?? [])];
+  }
+
+  async needsRefresh(symbol: string, interval: string): Promise<boolean> {
+    const storedAt = this.storedAt.get(`${symbol}:${interval}`);
+    if (!this.connected || storedAt == null) return true;
+    // 与 Redis 实现一致：剩余 TTL 小于一半时刷新
+    const remaining = this.cacheTtl * 1000 - (Date.now() - storedAt);
+    return remaining < (this.cacheTtl * 1000) / 2;
+  }
+
+  async storeAnalysis(symbol: string, analysis: any): Promise<void> {
+    if (!this.connected) return;
+    this.analyses.set(symbol, { ...analysis, timestamp: Date.now() });
+  }
+
+  async getAnalysis(symbol: string): Promise<any | null> {
+    return this.analyses.get(symbol) ?? null;
+  }
+
+  isReady(): boolean {
+    return this.connected;
+  }
+}
@@ -27,7 +27,41 @@ export interface KlineManagerConfig {
   keyPrefix?: string; // 缓存键前缀
 }
 
-export class RedisKlineManager {
+/**
+ * MarketAnalyzer 所需的K线存储接口，Redis 与内存实现（回测）均满足
+ */
+export interface KlineStore {
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  fetchKlinesFromExchange(exchange: ExchangeAdapter, symbol: string, interval: string, limit: number): Promise<KlineData[]>;
+  storeKlines(klines: KlineData[]): Promise<void>;
+  getKlines(symbol: string, interval: string): Promise<KlineData[]>;
+  needsRefresh(symbol: string, interval: string): Promise<boolean>;
+  storeAnalysis(symbol: string, analysis: any): Promise<void>;
+  isReady(): boolean;
+}
+
+/**
+ * 将交易所K线转换为存储格式
+ */
+export function toKlineData(kline: AsterKline, symbol: string, interval: string, timestamp: number): KlineData {
+  return {
+    symbol,
+    interval,
+    openTime: kline.openTime,
+    closeTime: kline.closeTime,
+    open: Number(kline.open),
+    high: Number(kline.high),
+    low: Number(kline.low),
+    close: Number(kline.close),
+    volume: Number(kline.volume),
+    quoteVolume: Number(kline.quoteAssetVolume || kline.volume),
+    trades: kline.numberOfTrades || 0,
+    timestamp,
+  };
+}
+
+export class RedisKlineManager implements KlineStore {
   private client: RedisClientType;
   private config: KlineManagerConfig;
   private isConnected = false;
@@ -118,20 +152,9 @@ export class RedisKlineManager {
       // 暂时返回模拟数据，实际使用时需要调用exchange的相关方法
       const klines = await exchange.getKlines(symbol, interval, limit);
       
-      return klines.map((kline: AsterKline, index: number) => ({
-        symbol,
-        interval,
-        openTime: kline.openTime,
-        closeTime: kline.closeTime,
-        open: Number(kline.open),
-        high: Number(kline.high),
-        low: Number(kline.low),
-        close: Number(kline.close),
-        volume: Number(kline.volume),
-        quoteVolume: Number(kline.quoteAssetVolume || kline.volume),
-        trades: kline.numberOfTrades || 0,
-        timestamp: Date.now() - (limit - index) * this.getIntervalMs(interval),
-      }));
+      return klines.map((kline: AsterKline, index: number) =>
+        toKlineData(kline, symbol, interval, Date.now() - (limit - index) * this.getIntervalMs(interval))
+      );
     } catch (error) {
       console.error(`❌ 获取K线数据失败:`, error);
       throw error;
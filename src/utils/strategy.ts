@@ -1,19 +1,41 @@
-import type { AsterAccountSnapshot, AsterKline } from "../exchanges/types";
+import type { AsterAccountPosition, AsterAccountSnapshot, AsterKline, PositionSide } from "../exchanges/types";
 
 export interface PositionSnapshot {
   positionAmt: number;
   entryPrice: number;
   unrealizedProfit: number;
   markPrice: number | null;
+  positionSide?: PositionSide;
+  // 对冲模式下多空两腿各自的持仓，空头腿 positionAmt 为负数
+  legs?: PositionLegs;
+}
+
+export interface PositionLegs {
+  long: PositionSnapshot;
+  short: PositionSnapshot;
+}
+
+const EMPTY_POSITION: PositionSnapshot = { positionAmt: 0, entryPrice: 0, unrealizedProfit: 0, markPrice: null };
+
+function toPositionSnapshot(position: AsterAccountPosition | undefined): PositionSnapshot {
+  if (!position) return { ...EMPTY_POSITION };
+  const rawMark = Number(position.markPrice);
+  const markPrice = Number.isFinite(rawMark) && rawMark > 0 ? rawMark : null;
+  return {
+    positionAmt: Number(position.positionAmt) || 0,
+    entryPrice: Number(position.entryPrice) || 0,
+    unrealizedProfit: Number(position.unrealizedProfit) || 0,
+    markPrice,
+  };
 }
 
 export function getPosition(snapshot: AsterAccountSnapshot | null, symbol: string): PositionSnapshot {
   if (!snapshot) {
-    return { positionAmt: 0, entryPrice: 0, unrealizedProfit: 0, markPrice: null };
+    return { ...EMPTY_POSITION };
   }
   const positions = snapshot.positions?.filter((p) => p.symbol === symbol) ?? [];
   if (positions.length === 0) {
-    return { positionAmt: 0, entryPrice: 0, unrealizedProfit: 0, markPrice: null };
+    return { ...EMPTY_POSITION };
   }
   const NON_ZERO_EPS = 1e-8;
   const withExposure = positions.filter((p) => Math.abs(Number(p.positionAmt)) > NON_ZERO_EPS);
@@ -21,14 +43,30 @@ export function getPosition(snapshot: AsterAccountSnapshot | null, symbol: strin
     withExposure.find((p) => p.positionSide === "BOTH") ??
     withExposure.sort((a, b) => Math.abs(Number(b.positionAmt)) - Math.abs(Number(a.positionAmt)))[0] ??
     positions[0];
-  const rawMark = Number(selected?.markPrice);
-  const markPrice = Number.isFinite(rawMark) && rawMark > 0 ? rawMark : null;
-  return {
-    positionAmt: Number(selected?.positionAmt) || 0,
-    entryPrice: Number(selected?.entryPrice) || 0,
-    unrealizedProfit: Number(selected?.unrealizedProfit) || 0,
-    markPrice,
-  };
+  const result = toPositionSnapshot(selected);
+  if (positions.some((p) => p.positionSide === "LONG" || p.positionSide === "SHORT")) {
+    result.legs = {
+      long: getPositionLeg(snapshot, symbol, "LONG"),
+      short: getPositionLeg(snapshot, symbol, "SHORT"),
+    };
+  }
+  return result;
+}
+
+/**
+ * 读取对冲模式下单腿持仓，空头腿统一为负数（部分接口返回正数数量）
+ */
+export function getPositionLeg(snapshot: AsterAccountSnapshot | null, symbol: string, positionSide: "LONG" | "SHORT"): PositionSnapshot {
+  const row = snapshot?.positions?.find((p) => p.symbol === symbol && p.positionSide === positionSide);
+  const leg = toPositionSnapshot(row);
+  leg.positionSide = positionSide;
+  leg.positionAmt = positionSide === "LONG" ? Math.abs(leg.positionAmt) : -Math.abs(leg.positionAmt);
+  return leg;
+}
+
+/** 净持仓：对冲模式下为两腿之和，资金费按净持仓估算 */
+export function getNetPositionAmount(position: PositionSnapshot): number {
+  return position.legs ? position.legs.long.positionAmt + position.legs.short.positionAmt : position.positionAmt;
 }
 
 export function getSMA(values: AsterKline[], length: number): number | null {
@@ -0,0 +1,122 @@
+import type { AsterSymbolFilters, CreateOrderParams } from "../exchanges/types";
+import { decimalsOf, roundDownToTick, roundQtyDownToStep } from "./math";
+
+export type SymbolFilterType = "PRICE_FILTER" | "LOT_SIZE" | "MARKET_LOT_SIZE" | "MIN_NOTIONAL" | "PERCENT_PRICE";
+
+export interface SymbolFilterViolation {
+  filter: SymbolFilterType;
+  reason: string;
+}
+
+export type SymbolFilterResult =
+  | { ok: true; params: CreateOrderParams }
+  | { ok: false; violation: SymbolFilterViolation };
+
+const EPS = 1e-9;
+
+/** 市价类订单（含触发后按市价成交的止损/跟踪止盈）适用 MARKET_LOT_SIZE */
+function usesMarketLot(params: CreateOrderParams): boolean {
+  return params.type !== "LIMIT";
+}
+
+function isStepMultiple(value: number, step: number, base = 0): boolean {
+  if (!(step > 0)) return true;
+  const units = (value - base) / step;
+  return Math.abs(units - Math.round(units)) < 1e-6;
+}
+
+function formatValue(value: number, step: number): string {
+  return step > 0 ? value.toFixed(Math.max(0, decimalsOf(step))) : String(value);
+}
+
+/**
+ * 按交易规则检查订单，返回第一个不满足的过滤器
+ * referencePrice 用于市价单的最小名义价值与限价单的 PERCENT_PRICE 校验，缺失时跳过这两项
+ */
+export function findSymbolFilterViolation(
+  params: CreateOrderParams,
+  filters: AsterSymbolFilters,
+  referencePrice?: number | null
+): SymbolFilterViolation | null {
+  const closePosition = params.closePosition === "true";
+  const reduceOnly = params.reduceOnly === "true" || closePosition;
+  const reference = referencePrice != null && referencePrice > 0 ? referencePrice : null;
+
+  for (const [label, value] of [
+    ["price", params.type === "LIMIT" ? params.price : undefined],
+    ["stopPrice", params.stopPrice],
+    ["activationPrice", params.activationPrice],
+  ] as const) {
+    if (value == null) continue;
+    if (!isStepMultiple(value, filters.priceTick)) {
+      return { filter: "PRICE_FILTER", reason: `${label}=${value} 不是最小价格变动 ${filters.priceTick} 的整数倍` };
+    }
+    if (value < filters.minPrice - EPS || (filters.maxPrice > 0 && value > filters.maxPrice + EPS)) {
+      return {
+        filter: "PRICE_FILTER",
+        reason: `${label}=${value} 超出允许范围 [${filters.minPrice}, ${filters.maxPrice || "∞"}]`,
+      };
+    }
+  }
+
+  const quantity = params.quantity;
+  if (quantity != null && !closePosition) {
+    const market = usesMarketLot(params);
+    const filter: SymbolFilterType = market ? "MARKET_LOT_SIZE" : "LOT_SIZE";
+    const step = market ? filters.marketQtyStep : filters.qtyStep;
+    const minQty = market ? filters.marketMinQty : filters.minQty;
+    const maxQty = market ? filters.marketMaxQty : filters.maxQty;
+    if (!isStepMultiple(quantity, step)) {
+      return { filter, reason: `数量 ${quantity} 不是数量步长 ${step} 的整数倍` };
+    }
+    if (quantity < minQty - EPS || quantity <= 0) {
+      return { filter, reason: `数量 ${quantity} 低于最小下单量 ${minQty}` };
+    }
+    if (maxQty > 0 && quantity > maxQty + EPS) {
+      return { filter, reason: `数量 ${quantity} 超过最大下单量 ${maxQty}` };
+    }
+    // 只减仓订单不受最小名义价值限制
+    const notionalPrice = params.type === "LIMIT" ? params.price : reference;
+    if (!reduceOnly && filters.minNotional > 0 && notionalPrice != null) {
+      const notional = quantity * notionalPrice;
+      if (notional < filters.minNotional - EPS) {
+        return {
+          filter: "MIN_NOTIONAL",
+          reason: `名义价值 ${notional.toFixed(4)} 低于最小值 ${filters.minNotional}`,
+        };
+      }
+    }
+  }
+
+  if (params.type === "LIMIT" && params.price != null && reference != null) {
+    const upper = filters.percentPriceUp > 0 ? reference * filters.percentPriceUp : Infinity;
+    const lower = filters.percentPriceDown > 0 ? reference * filters.percentPriceDown : 0;
+    if (params.price > upper + EPS || params.price < lower - EPS) {
+      return {
+        filter: "PERCENT_PRICE",
+        reason: `限价 ${params.price} 偏离参考价 ${reference} 超出 [${formatValue(lower, filters.priceTick)}, ${formatValue(upper, filters.priceTick)}]`,
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * 按交易规则取整价格与数量后校验，返回可直接提交的订单参数
+ */
+export function applySymbolFilters(
+  params: CreateOrderParams,
+  filters: AsterSymbolFilters,
+  referencePrice?: number | null
+): SymbolFilterResult {
+  const next: CreateOrderParams = { ...params };
+  if (next.price != null) next.price = roundDownToTick(next.price, filters.priceTick);
+  if (next.stopPrice != null) next.stopPrice = roundDownToTick(next.stopPrice, filters.priceTick);
+  if (next.activationPrice != null) next.activationPrice = roundDownToTick(next.activationPrice, filters.priceTick);
+  if (next.quantity != null) {
+    const step = usesMarketLot(next) ? filters.marketQtyStep : filters.qtyStep;
+    next.quantity = roundQtyDownToStep(next.quantity, step);
+  }
+  const violation = findSymbolFilterViolation(next, filters, referencePrice);
+  return violation ? { ok: false, violation } : { ok: true, params: next };
+}
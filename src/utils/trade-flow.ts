@@ -0,0 +1,184 @@
+import type { AsterTrade } from "../exchanges/types";
+
+export interface TradeFlowOptions {
+  windowMs?: number; // 滚动窗口，默认 60 秒
+  largeTradeMultiplier?: number; // 单笔数量达到窗口内平均值的倍数视为大单，默认 5
+  largeTradeNotional?: number; // 单笔名义价值达到该值也视为大单，0 表示不启用
+  minTradesForAverage?: number; // 窗口内成交少于该笔数时不按倍数判断大单，默认 10
+  now?: () => number;
+  onLargeTrade?: (trade: LargeTrade) => void;
+}
+
+export interface LargeTrade {
+  time: number;
+  price: number;
+  quantity: number;
+  notional: number;
+  side: "BUY" | "SELL"; // 主动成交方向
+  multiple: number | null; // 相对窗口平均数量的倍数
+}
+
+export interface TradeFlowStats {
+  windowMs: number;
+  tradeCount: number;
+  buyCount: number;
+  sellCount: number;
+  buyVolume: number; // 主动买入数量
+  sellVolume: number; // 主动卖出数量
+  netVolume: number; // 主动买入 - 主动卖出
+  buyNotional: number;
+  sellNotional: number;
+  buyRatio: number | null; // 主动买入数量占比，无成交时为 null
+  vwap: number | null;
+  lastPrice: number | null;
+  largeTrades: LargeTrade[];
+  largeBuyVolume: number;
+  largeSellVolume: number;
+}
+
+interface FlowEntry {
+  time: number;
+  price: number;
+  quantity: number;
+  buy: boolean;
+}
+
+const DEFAULT_WINDOW_MS = 60_000;
+const DEFAULT_LARGE_TRADE_MULTIPLIER = 5;
+const DEFAULT_MIN_TRADES_FOR_AVERAGE = 10;
+
+/**
+ * 滚动窗口成交流统计：主动买卖量、成交笔数、VWAP 与大单识别
+ * 窗口按成交时间滑动，求和增量维护，单次推送为 O(1) 均摊
+ */
+export class TradeFlowAggregator {
+  private readonly windowMs: number;
+  private readonly largeTradeMultiplier: number;
+  private readonly largeTradeNotional: number;
+  private readonly minTradesForAverage: number;
+  private readonly now: () => number;
+  private readonly onLargeTrade?: (trade: LargeTrade) => void;
+
+  private entries: FlowEntry[] = [];
+  private head = 0;
+  private largeTrades: LargeTrade[] = [];
+  private buyCount = 0;
+  private sellCount = 0;
+  private buyVolume = 0;
+  private sellVolume = 0;
+  private buyNotional = 0;
+  private sellNotional = 0;
+  private lastPrice: number | null = null;
+
+  constructor(options: TradeFlowOptions = {}) {
+    this.windowMs = options.windowMs ?? DEFAULT_WINDOW_MS;
+    this.largeTradeMultiplier = options.largeTradeMultiplier ?? DEFAULT_LARGE_TRADE_MULTIPLIER;
+    this.largeTradeNotional = options.largeTradeNotional ?? 0;
+    this.minTradesForAverage = options.minTradesForAverage ?? DEFAULT_MIN_TRADES_FOR_AVERAGE;
+    this.now = options.now ?? (() => Date.now());
+    this.onLargeTrade = options.onLargeTrade;
+  }
+
+  push(trade: AsterTrade): void {
+    const price = Number(trade.price);
+    const quantity = Number(trade.quantity);
+    if (!(price > 0) || !(quantity > 0)) return;
+    const time = Number.isFinite(trade.tradeTime) ? trade.tradeTime : this.now();
+    this.prune(time);
+
+    const buy = !trade.buyerMaker;
+    const count = this.buyCount + this.sellCount;
+    const average = count > 0 ? (this.buyVolume + this.sellVolume) / count : null;
+    const multiple = average != null && average > 0 ? quantity / average : null;
+    const notional = price * quantity;
+    const largeByMultiple = count >= this.minTradesForAverage && multiple != null && multiple >= this.largeTradeMultiplier;
+    const largeByNotional = this.largeTradeNotional > 0 && notional >= this.largeTradeNotional;
+    if (largeByMultiple || largeByNotional) {
+      const large: LargeTrade = { time, price, quantity, notional, side: buy ? "BUY" : "SELL", multiple };
+      this.largeTrades.push(large);
+      this.onLargeTrade?.(large);
+    }
+
+    this.entries.push({ time, price, quantity, buy });
+    if (buy) {
+      this.buyCount += 1;
+      this.buyVolume += quantity;
+      this.buyNotional += notional;
+    } else {
+      this.sellCount += 1;
+      this.sellVolume += quantity;
+      this.sellNotional += notional;
+    }
+    this.lastPrice = price;
+  }
+
+  getStats(now: number = this.now()): TradeFlowStats {
+    this.prune(now);
+    const volume = this.buyVolume + this.sellVolume;
+    const notional = this.buyNotional + this.sellNotional;
+    let largeBuyVolume = 0;
+    let largeSellVolume = 0;
+    for (const trade of this.largeTrades) {
+      if (trade.side === "BUY") largeBuyVolume += trade.quantity;
+      else largeSellVolume += trade.quantity;
+    }
+    return {
+      windowMs: this.windowMs,
+      tradeCount: this.buyCount + this.sellCount,
+      buyCount: this.buyCount,
+      sellCount: this.sellCount,
+      buyVolume: this.buyVolume,
+      sellVolume: this.sellVolume,
+      netVolume: this.buyVolume - this.sellVolume,
+      buyNotional: this.buyNotional,
+      sellNotional: this.sellNotional,
+      buyRatio: volume > 0 ? this.buyVolume / volume : null,
+      vwap: volume > 0 ? notional / volume : null,
+      lastPrice: this.lastPrice,
+      largeTrades: [...this.largeTrades],
+      largeBuyVolume,
+      largeSellVolume,
+    };
+  }
+
+  reset(): void {
+    this.entries = [];
+    this.head = 0;
+    this.largeTrades = [];
+    this.buyCount = 0;
+    this.sellCount = 0;
+    this.buyVolume = 0;
+    this.sellVolume = 0;
+    this.buyNotional = 0;
+    this.sellNotional = 0;
+    this.lastPrice = null;
+  }
+
+  private prune(now: number): void {
+    const cutoff = now - this.windowMs;
+    while (this.head < this.entries.length && this.entries[this.head]!.time <= cutoff) {
+      const entry = this.entries[this.head]!;
+      const notional = entry.price * entry.quantity;
+      if (entry.buy) {
+        this.buyCount -= 1;
+        this.buyVolume -= entry.quantity;
+        this.buyNotional -= notional;
+      } else {
+        this.sellCount -= 1;
+        this.sellVolume -= entry.quantity;
+        this.sellNotional -= notional;
+      }
+      this.head += 1;
+    }
+    if (this.head === this.entries.length) {
+      // 窗口清空时归零，避免浮点累计误差
+      this.entries = [];
+      this.head = 0;
+      this.buyVolume = this.sellVolume = this.buyNotional = this.sellNotional = 0;
+    } else if (this.head > 1024 && this.head * 2 > this.entries.length) {
+      this.entries = this.entries.slice(this.head);
+      this.head = 0;
+    }
+    this.largeTrades = this.largeTrades.filter((trade) => trade.time > cutoff);
+  }
+}
@@ -0,0 +1,163 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { MakerConfig } from "../src/config";
+import { parseLeverage, parseMarginType } from "../src/config";
+import { AccountSetupGuard } from "../src/core/lib/account-setup";
+import { MakerEngine } from "../src/core/maker-engine";
+import { MockExchangeAdapter } from "../src/exchanges/mock-adapter";
+import { extractErrorCode } from "../src/utils/errors";
+
+const makerConfig: MakerConfig = {
+  symbol: "BTCUSDT",
+  tradeAmount: 1,
+  lossLimit: 1000,
+  profitTarget: 1000,
+  priceChaseThreshold: 0.3,
+  bidOffset: 0,
+  askOffset: 0,
+  refreshIntervalMs: 100,
+  maxLogEntries: 50,
+  maxCloseSlippagePct: 0.05,
+  priceTick: 0.1,
+};
+
+describe("MockExchangeAdapter leverage and margin type", () => {
+  it("sets leverage within the brackets and switches margin type only when flat", async () => {
+    const adapter = new MockExchangeAdapter({
+      symbol: "BTCUSDT",
+      initialBalance: 1000,
+      leverageBrackets: [
+        { bracket: 1, initialLeverage: 20, notionalCap: 50_000, notionalFloor: 0, maintMarginRatio: 0.01, cum: 0 },
+        { bracket: 2, initialLeverage: 10, notionalCap: 250_000, notionalFloor: 50_000, maintMarginRatio: 0.025, cum: 750 },
+      ],
+    });
+    adapter.pushPrice(100);
+
+    expect(await adapter.setLeverage("BTCUSDT", 10)).toEqual({ symbol: "BTCUSDT", leverage: 10, maxNotionalValue: 250_000 });
+    await expect(adapter.setLeverage("BTCUSDT", 50)).rejects.toThrow(/-4028/);
+    expect(adapter.getLeverage("BTCUSDT")).toBe(10);
+
+    await expect(adapter.setMarginType("BTCUSDT", "CROSSED")).rejects.toThrow(/-4046/);
+    await adapter.setMarginType("BTCUSDT", "ISOLATED");
+    expect(adapter.getMarginType("BTCUSDT")).toBe("ISOLATED");
+
+    await adapter.createOrder({ symbol: "BTCUSDT", side: "BUY", type: "MARKET", quantity: 1 });
+    await expect(adapter.setMarginType("BTCUSDT", "CROSSED")).rejects.toThrow(/-4048/);
+
+    await adapter.adjustIsolatedMargin({ symbol: "BTCUSDT", amount: 5, type: "ADD" });
+    await expect(adapter.adjustIsolatedMargin({ symbol: "BTCUSDT", amount: 6, type: "REDUCE" })).rejects.toThrow(/-4051/);
+    const position = adapter.getAccountSnapshot().positions.find((entry) => entry.symbol === "BTCUSDT");
+    expect(position?.isolated).toBe(true);
+    expect(position?.leverage).toBe("10");
+    expect(Number(position?.isolatedMargin)).toBeCloseTo(Number(position?.initialMargin) + 5);
+  });
+});
+
+describe("AccountSetupGuard", () => {
+  it("treats an unchanged margin type as applied and verifies leverage", async () => {
+    const adapter = new MockExchangeAdapter({ symbol: "BTCUSDT" });
+    const log = vi.fn();
+    const guard = new AccountSetupGuard(adapter, "BTCUSDT", { leverage: 5, marginType: "CROSSED" }, log);
+    guard.start();
+    await vi.waitFor(() => expect(guard.getStatus()).toBe("ok"));
+    expect(guard.ready()).toBe(true);
+    expect(adapter.getLeverage("BTCUSDT")).toBe(5);
+  });
+
+  it("refuses to trade when leverage exceeds the symbol's maximum", async () => {
+    const adapter = new MockExchangeAdapter({ symbol: "BTCUSDT" });
+    const setLeverage = vi.spyOn(adapter, "setLeverage");
+    const log = vi.fn();
+    const guard = new AccountSetupGuard(adapter, "BTCUSDT", { leverage: 200 }, log);
+    guard.start();
+    await vi.waitFor(() => expect(guard.getStatus()).toBe("failed"));
+    expect(guard.ready()).toBe(false);
+    expect(setLeverage).not.toHaveBeenCalled();
+    expect(log).toHaveBeenCalledWith("error", expect.stringContaining("最大杠杆为 125x"));
+  });
+
+  it("skips when nothing is configured", async () => {
+    const adapter = new MockExchangeAdapter({ symbol: "BTCUSDT" });
+    const guard = new AccountSetupGuard(adapter, "BTCUSDT", {}, vi.fn());
+    guard.start();
+    await vi.waitFor(() => expect(guard.getStatus()).toBe("skipped"));
+  });
+
+  it("retries network errors but stops on an exchange rejection", async () => {
+    vi.useFakeTimers();
+    const adapter = new MockExchangeAdapter({ symbol: "BTCUSDT" });
+    const setLeverage = vi
+      .spyOn(adapter, "setLeverage")
+      .mockRejectedValueOnce(new Error("socket hang up"))
+      .mockRejectedValueOnce(new Error('HTTP 400 {"code":-4028,"msg":"Leverage is not valid"}'));
+    const log = vi.fn();
+    const guard = new AccountSetupGuard(adapter, "BTCUSDT", { leverage: 5 }, log, 1000);
+    guard.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(guard.getStatus()).toBe("applying");
+    expect(log).toHaveBeenCalledWith("error", expect.stringContaining("1s 后重试"));
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(guard.getStatus()).toBe("failed");
+    expect(log).toHaveBeenCalledWith("error", expect.stringContaining("被交易所拒绝"));
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(setLeverage).toHaveBeenCalledTimes(2);
+    vi.useRealTimers();
+  });
+});
+
+describe("MakerEngine account setup", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("applies leverage and margin type before quoting", async () => {
+    vi.useFakeTimers();
+    const adapter = new MockExchangeAdapter({ symbol: "BTCUSDT", initialBalance: 1000, spread: 0.2 });
+    const engine = new MakerEngine({ ...makerConfig, leverage: 3, marginType: "ISOLATED" }, adapter);
+    adapter.pushPrice(100);
+    engine.start();
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(adapter.getLeverage("BTCUSDT")).toBe(3);
+    expect(adapter.getMarginType("BTCUSDT")).toBe("ISOLATED");
+    expect(adapter.getOpenOrders().length).toBeGreaterThan(0);
+    engine.stop();
+  });
+
+  it("refuses to quote when the margin type cannot be switched", async () => {
+    vi.useFakeTimers();
+    const adapter = new MockExchangeAdapter({ symbol: "BTCUSDT", initialBalance: 1000, spread: 0.2 });
+    adapter.pushPrice(100);
+    await adapter.createOrder({ symbol: "BTCUSDT", side: "BUY", type: "MARKET", quantity: 1 });
+    const engine = new MakerEngine({ ...makerConfig, marginType: "ISOLATED" }, adapter);
+    engine.start();
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(adapter.getMarginType("BTCUSDT")).toBe("CROSSED");
+    expect(adapter.getOpenOrders()).toHaveLength(0);
+    const errors = engine.getSnapshot().tradeLog.filter((entry) => entry.detail.includes("MARGIN_TYPE"));
+    expect(errors).toHaveLength(1);
+    engine.stop();
+  });
+});
+
+describe("config helpers", () => {
+  it("parses margin type aliases and exchange error codes", () => {
+    expect(parseMarginType("isolated")).toBe("ISOLATED");
+    expect(parseMarginType("cross")).toBe("CROSSED");
+    expect(parseMarginType("other")).toBeUndefined();
+    expect(extractErrorCode(new Error('HTTP 400 {"code":-4046,"msg":"No need to change margin type."}'))).toBe(-4046);
+    expect(extractErrorCode(new Error("socket hang up"))).toBeNull();
+  });
+
+  it("warns once about invalid leverage and margin type values", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(parseLeverage("2.5")).toBeUndefined();
+    expect(parseLeverage("2.5")).toBeUndefined();
+    expect(parseMarginType("portfolio")).toBeUndefined();
+    expect(parseLeverage("20")).toBe(20);
+    expect(warn).toHaveBeenCalledTimes(2);
+    expect(warn.mock.calls[0]![0]).toContain("LEVERAGE=2.5");
+    expect(warn.mock.calls[1]![0]).toContain("MARGIN_TYPE=portfolio");
+    warn.mockRestore();
+  });
+});
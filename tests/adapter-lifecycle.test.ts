@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { makerConfig } from "../src/config";
+import { MakerEngine } from "../src/core/maker-engine";
+import { AsterExchangeAdapter } from "../src/exchanges/aster-adapter";
+import { AsterGateway, acquireAsterGateway, releaseAsterGateway } from "../src/exchanges/aster/client";
+import { MockExchangeAdapter } from "../src/exchanges/mock-adapter";
+
+describe("adapter watcher lifecycle", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("stops delivering updates once a watcher is unsubscribed", () => {
+    const adapter = new MockExchangeAdapter({ symbol: "BTCUSDT" });
+    const prices: number[] = [];
+    const unsubscribe = adapter.watchDepth("BTCUSDT", (depth) => prices.push(Number(depth.bids[0]![0])));
+    adapter.pushPrice(100);
+    unsubscribe();
+    unsubscribe();
+    adapter.pushPrice(101);
+    expect(prices).toHaveLength(1);
+  });
+
+  it("removes engine listeners on stop and resubscribes on restart", async () => {
+    vi.useFakeTimers();
+    const adapter = new MockExchangeAdapter({ symbol: "BTCUSDT", spread: 0.2 });
+    const engine = new MakerEngine({ ...makerConfig, tradeAmount: 1 }, adapter);
+    engine.start();
+    adapter.pushPrice(100);
+    await vi.advanceTimersByTimeAsync(100);
+    engine.stop();
+
+    adapter.pushPrice(120);
+    expect(engine.getSnapshot().topBid).toBeLessThan(110);
+
+    engine.start();
+    adapter.pushPrice(130);
+    expect(engine.getSnapshot().topBid).toBeGreaterThan(125);
+    engine.stop();
+  });
+
+  it("disconnects the shared gateway when the last adapter closes", async () => {
+    const first = acquireAsterGateway({ apiKey: "lifecycle-key", apiSecret: "secret" });
+    const disconnect = vi.spyOn(first, "disconnect").mockImplementation(() => undefined);
+    const bnb = new AsterExchangeAdapter({ apiKey: "lifecycle-key", apiSecret: "secret", symbol: "BNBUSDT" });
+    releaseAsterGateway(first);
+
+    await bnb.close();
+    expect(disconnect).toHaveBeenCalledTimes(1);
+    expect(acquireAsterGateway({ apiKey: "lifecycle-key", apiSecret: "secret" })).not.toBe(first);
+  });
+
+  it("closing an adapter only removes its own listeners from a shared gateway", async () => {
+    const gateway = new AsterGateway({ apiKey: "key", apiSecret: "secret" });
+    vi.spyOn(gateway, "ensureInitialized").mockResolvedValue(undefined);
+    const disconnect = vi.spyOn(gateway, "disconnect");
+    const bnb = new AsterExchangeAdapter({ symbol: "BNBUSDT" }, gateway);
+    const sol = new AsterExchangeAdapter({ symbol: "SOLUSDT" }, gateway);
+    const bnbFills = vi.fn();
+    const solFills = vi.fn();
+    bnb.watchFills(bnbFills);
+    sol.watchFills(solFills);
+
+    await bnb.close();
+    expect(disconnect).not.toHaveBeenCalled();
+    expect((gateway as unknown as { fillEvent: { listenerCount(): number } }).fillEvent.listenerCount()).toBe(1);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import type { TradingConfig } from "../src/config";
+import { parseKlinesCsv, parseKlinesJson } from "../src/backtest/data";
+import { buildTrades, computeMaxDrawdown, computeSharpe } from "../src/backtest/metrics";
+import { runBacktest } from "../src/backtest/runner";
+import { SimulatedClock } from "../src/backtest/simulated-clock";
+import type { MockFill } from "../src/exchanges/mock-adapter";
+import type { AsterKline } from "../src/exchanges/types";
+
+const START = 1_699_999_200_000; // 对齐到15分钟
+
+const config: TradingConfig = {
+  symbol: "BTCUSDT",
+  tradeAmount: 1,
+  lossLimit: 1000,
+  trailingProfit: 1000,
+  trailingCallbackRate: 0.2,
+  profitLockTriggerUsd: 1000,
+  profitLockOffsetUsd: 500,
+  pollIntervalMs: 5000,
+  maxLogEntries: 50,
+  klineInterval: "1m",
+  maxCloseSlippagePct: 0.5,
+  priceTick: 0.1,
+  qtyStep: 0.001,
+  feeRate: 0.0004,
+  maxDailyFeePct: 100,
+  maxHourlyFeePct: 100,
+  feeWarningThreshold: 100,
+  enableFeeProtection: false,
+  logFeeSummaryInterval: 3_600_000,
+  resetFeeCounterHour: 0,
+  enableDynamicRisk: false,
+  dynamicRiskThreshold: 0.05,
+  riskPercentage: 0.01,
+  profitTargetPercentage: 0.02,
+};
+
+function flatBar(index: number, price: number, intervalMs = 60_000): AsterKline {
+  const value = price.toFixed(1);
+  return {
+    openTime: START + index * intervalMs,
+    closeTime: START + (index + 1) * intervalMs - 1,
+    open: value,
+    high: value,
+    low: value,
+    close: value,
+    volume: "1",
+    numberOfTrades: 1,
+  };
+}
+
+function fill(side: "BUY" | "SELL", price: number, quantity: number, realizedPnl: number, time: number): MockFill {
+  return { orderId: time, symbol: "BTCUSDT", side, price, quantity, fee: price * quantity * 0.001, realizedPnl, maker: false, time };
+}
+
+describe("backtest data loading", () => {
+  it("parses CSV with headers, second timestamps and headerless REST rows", () => {
+    const csv = ["timestamp,open,high,low,close,volume", "1700000100,10,11,9,10.5,3", "1700000040,9,10,8,9.5,2"].join("\n");
+    const klines = parseKlinesCsv(csv, "BTCUSDT", "1m");
+    expect(klines.map((kline) => kline.openTime)).toEqual([1_700_000_040_000, 1_700_000_100_000]);
+    expect(klines[0]!.closeTime).toBe(1_700_000_099_999);
+
+    const rest = parseKlinesCsv("1700000040000,9,10,8,9.5,2,1700000099999,19,4", "BTCUSDT", "1m");
+    expect(rest[0]).toMatchObject({ open: "9", close: "9.5", numberOfTrades: 4, symbol: "BTCUSDT" });
+  });
+
+  it("parses JSON objects and REST arrays", () => {
+    const objects = parseKlinesJson(
+      JSON.stringify([{ openTime: 1_700_000_040_000, open: 1, high: 2, low: 0.5, close: 1.5, volume: 10 }]),
+      "BTCUSDT",
+      "1m"
+    );
+    expect(objects[0]).toMatchObject({ open: "1", high: "2", closeTime: 1_700_000_099_999 });
+    const arrays = parseKlinesJson(JSON.stringify([[1_700_000_040_000, "1", "2", "0.5", "1.5", "10"]]), "BTCUSDT", "1m");
+    expect(arrays[0]!.close).toBe("1.5");
+  });
+});
+
+describe("backtest metrics", () => {
+  it("reconstructs round trips including position flips", () => {
+    const trades = buildTrades([
+      fill("BUY", 100, 1, 0, 1),
+      fill("SELL", 110, 2, 10, 2),
+      fill("BUY", 105, 1, 5, 3),
+    ]);
+    expect(trades).toHaveLength(2);
+    expect(trades[0]).toMatchObject({ direction: "long", entryPrice: 100, exitPrice: 110, grossPnl: 10 });
+    expect(trades[0]!.fees).toBeCloseTo(0.1 + 0.11);
+    expect(trades[1]).toMatchObject({ direction: "short", entryPrice: 110, exitPrice: 105, grossPnl: 5 });
+    expect(trades[1]!.netPnl).toBeCloseTo(5 - 0.11 - 0.105);
+  });
+
+  it("computes drawdown and sharpe from the equity curve", () => {
+    const curve = [100, 120, 90, 130].map((equity, index) => ({ time: index, price: 0, equity }));
+    expect(computeMaxDrawdown(curve)).toEqual({ maxDrawdown: 30, maxDrawdownPct: 25 });
+    const flat = curve.map((point) => ({ ...point, equity: 100 }));
+    expect(computeSharpe(flat, 60_000)).toBe(0);
+    expect(computeSharpe(curve, 60_000)).toBeGreaterThan(0);
+  });
+});
+
+describe("SimulatedClock", () => {
+  it("runs timers in virtual time and restores the real clock", async () => {
+    const clock = new SimulatedClock(1_000);
+    const realNow = Date.now;
+    const seen: number[] = [];
+    clock.install();
+    try {
+      const interval = setInterval(() => seen.push(Date.now()), 100);
+      setTimeout(() => clearInterval(interval), 350);
+      await clock.advanceTo(1_000 + 1_000);
+      expect(seen).toEqual([1_100, 1_200, 1_300]);
+      expect(Date.now()).toBe(2_000);
+    } finally {
+      clock.uninstall();
+    }
+    expect(Date.now).toBe(realNow);
+  });
+});
+
+describe("runBacktest", () => {
+  it("drives the real TrendEngine through SMA30 crossovers on a simulated clock", async () => {
+    const prices: number[] = [];
+    for (let i = 0; i < 40; i += 1) prices.push(100);
+    for (let i = 0; i < 10; i += 1) prices.push(105);
+    for (let i = 0; i < 40; i += 1) prices.push(95);
+    const klines = prices.map((price, index) => flatBar(index, price));
+
+    const result = await runBacktest({ strategy: "trend", klines, interval: "1m", config, initialBalance: 1000 });
+
+    expect(result.bars).toBe(90);
+    expect(result.equityCurve).toHaveLength(90);
+    expect(result.trades.length).toBeGreaterThanOrEqual(1);
+    const first = result.trades[0]!;
+    expect(first.direction).toBe("long");
+    expect(first.entryPrice).toBeCloseTo(105.1);
+    expect(first.netPnl).toBeLessThan(0);
+
+    const { metrics } = result;
+    expect(metrics.totalTrades).toBe(result.trades.length);
+    expect(metrics.winRate).toBe(0);
+    expect(metrics.maxDrawdown).toBeGreaterThan(0);
+    expect(metrics.totalFees).toBeGreaterThan(0);
+    // 手续费按 FeeMonitor 的 成交额×feeRate 计算
+    expect(metrics.totalFees).toBeCloseTo(metrics.totalVolume * config.feeRate);
+    expect(metrics.finalEquity).toBeCloseTo(result.equityCurve[result.equityCurve.length - 1]!.equity);
+  });
+
+  it("runs the EnhancedTrendEngine analysis without Redis", async () => {
+    const klines = Array.from({ length: 40 }, (_, index) => flatBar(index, 100 + Math.sin(index / 3) * 5, 900_000));
+    const result = await runBacktest({ strategy: "enhanced", klines, interval: "15m", config, initialBalance: 1000 });
+    expect(result.equityCurve).toHaveLength(40);
+    expect(result.metrics.initialBalance).toBe(1000);
+  });
+});
@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { makerConfig } from "../src/config";
+import type { EngineState } from "../src/core/base-engine";
+import { MakerEngine } from "../src/core/maker-engine";
+import { OffsetMakerEngine } from "../src/core/offset-maker-engine";
+import { MockExchangeAdapter } from "../src/exchanges/mock-adapter";
+
+describe("BaseEngine lifecycle", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("moves through warmup, running, paused and stopped", async () => {
+    vi.useFakeTimers();
+    const adapter = new MockExchangeAdapter({ symbol: "BTCUSDT", initialBalance: 1000, spread: 0.2 });
+    const engine = new MakerEngine({ ...makerConfig, tradeAmount: 1 }, adapter);
+    const states: EngineState[] = [];
+    engine.on("update", (snapshot) => states.push(snapshot.state));
+    expect(engine.getState()).toBe("init");
+
+    engine.start();
+    expect(engine.getState()).toBe("warmup");
+    await vi.advanceTimersByTimeAsync(makerConfig.refreshIntervalMs);
+    // 尚无盘口，停留在预热阶段
+    expect(engine.getState()).toBe("warmup");
+
+    adapter.pushPrice(100);
+    await vi.advanceTimersByTimeAsync(makerConfig.refreshIntervalMs);
+    expect(engine.getState()).toBe("running");
+    expect(adapter.getOpenOrders().length).toBeGreaterThan(0);
+
+    engine.pause();
+    expect(engine.getState()).toBe("paused");
+    await adapter.cancelAllOrders({ symbol: "BTCUSDT" });
+    await vi.advanceTimersByTimeAsync(makerConfig.refreshIntervalMs * 3);
+    expect(adapter.getOpenOrders()).toHaveLength(0);
+
+    engine.resume();
+    await vi.advanceTimersByTimeAsync(makerConfig.refreshIntervalMs);
+    expect(engine.getState()).toBe("running");
+    expect(adapter.getOpenOrders().length).toBeGreaterThan(0);
+
+    engine.stop();
+    expect(engine.getState()).toBe("stopped");
+    expect(states).toContain("paused");
+    expect(engine.getSnapshot().state).toBe("stopped");
+  });
+
+  it("keeps the offset maker in warmup when hedge mode is configured", async () => {
+    vi.useFakeTimers();
+    const adapter = new MockExchangeAdapter({ symbol: "BTCUSDT", initialBalance: 1000, spread: 0.2 });
+    const engine = new OffsetMakerEngine({ ...makerConfig, tradeAmount: 1, hedgeMode: true }, adapter);
+    adapter.pushPrice(100);
+    engine.start();
+    await vi.advanceTimersByTimeAsync(makerConfig.refreshIntervalMs * 3);
+    expect(engine.getState()).toBe("warmup");
+    expect(adapter.getOpenOrders()).toHaveLength(0);
+    engine.stop();
+  });
+});
@@ -0,0 +1,177 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ClientOrderIdFactory } from "../src/core/lib/client-order-id";
+import { loadExecutionConfig } from "../src/config";
+import { OrderExecutor, type ExecutionConfig } from "../src/core/lib/execution";
+import type { OrderLockMap, OrderPendingMap, OrderTimerMap } from "../src/core/order-coordinator";
+import { MockExchangeAdapter } from "../src/exchanges/mock-adapter";
+import type { AsterDepth } from "../src/exchanges/types";
+
+function setup(overrides: Partial<ExecutionConfig>) {
+  const adapter = new MockExchangeAdapter({ symbol: "BTCUSDT", initialBalance: 100000, spread: 0.1 });
+  let depth: AsterDepth | null = null;
+  adapter.watchDepth("BTCUSDT", (next) => {
+    depth = next;
+  });
+  const locks: OrderLockMap = {};
+  const logs: string[] = [];
+  const executor = new OrderExecutor(
+    {
+      adapter,
+      symbol: "BTCUSDT",
+      locks,
+      timers: {} as OrderTimerMap,
+      pendings: {} as OrderPendingMap,
+      log: (_type, detail) => logs.push(detail),
+      clientOrderIds: new ClientOrderIdFactory("test", "btc"),
+      getOpenOrders: () => [],
+      getDepth: () => depth,
+    },
+    { ...loadExecutionConfig({}), durationMs: 3000, intervalMs: 1000, ...overrides }
+  );
+  return { adapter, executor, locks, logs };
+}
+
+describe("OrderExecutor", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("slices a TWAP order evenly and reports average price against arrival", async () => {
+    vi.useFakeTimers();
+    const { adapter, executor, locks, logs } = setup({ algo: "twap", twapSlices: 3 });
+    adapter.pushPrice(100);
+    await executor.execute({ side: "BUY", quantity: 3, reduceOnly: false, guard: { expectedPrice: 100.1, maxPct: 0.01 }, priceTick: 0.1 });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(adapter.getPositionAmount()).toBeCloseTo(1);
+    expect(locks.MARKET).toBe(true);
+
+    adapter.pushPrice(101);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(adapter.getPositionAmount()).toBeCloseTo(2);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    const report = await executor.whenIdle();
+    expect(adapter.getPositionAmount()).toBeCloseTo(3);
+    expect(report).toMatchObject({ algo: "twap", status: "filled", filledQty: 3, childOrders: 3, arrivalPrice: 100.1, limitPrice: 101.1 });
+    expect(report!.avgPrice).toBeCloseTo((100.1 + 101.1 * 2) / 3);
+    expect(report!.slippageBps).toBeCloseTo(((report!.avgPrice! - 100.1) / 100.1) * 10000);
+    expect(locks.MARKET).toBe(false);
+    expect(logs.some((line) => line.startsWith("TWAP 执行完成"))).toBe(true);
+  });
+
+  it("never trades through the slippage cap and reports a partial fill", async () => {
+    vi.useFakeTimers();
+    const { adapter, executor } = setup({ algo: "twap", twapSlices: 3 });
+    adapter.pushPrice(100);
+    await executor.execute({ side: "BUY", quantity: 3, reduceOnly: false, guard: { expectedPrice: 100.1, maxPct: 0.005 }, priceTick: 0.1 });
+    await vi.advanceTimersByTimeAsync(0);
+    adapter.pushPrice(102);
+    await vi.advanceTimersByTimeAsync(3000);
+
+    const report = await executor.whenIdle();
+    expect(report).toMatchObject({ status: "partial", filledQty: 1, limitPrice: 100.6 });
+    expect(adapter.getPositionAmount()).toBeCloseTo(1);
+    expect(adapter.getOpenOrders()).toHaveLength(0);
+  });
+
+  it("counts the order response as filled when fill pushes arrive late or twice", async () => {
+    vi.useFakeTimers();
+    const { adapter, executor } = setup({ algo: "twap", twapSlices: 3 });
+    const watchFills = adapter.watchFills.bind(adapter);
+    adapter.watchFills = (handler) =>
+      watchFills((fill) => {
+        setTimeout(() => {
+          handler(fill);
+          handler(fill);
+        }, 800);
+      });
+    adapter.pushPrice(100);
+    await executor.execute({ side: "BUY", quantity: 3, reduceOnly: false, guard: { expectedPrice: 100.1, maxPct: 0.01 }, priceTick: 0.1 });
+    await vi.advanceTimersByTimeAsync(3000);
+
+    const report = await executor.whenIdle();
+    expect(report).toMatchObject({ status: "filled", filledQty: 3, childOrders: 3 });
+    expect(report!.avgPrice).toBeCloseTo(100.1);
+    expect(adapter.getPositionAmount()).toBeCloseTo(3);
+  });
+
+  it("shows only the visible iceberg quantity at the touch and refills after fills", async () => {
+    vi.useFakeTimers();
+    const { adapter, executor } = setup({ algo: "iceberg", icebergVisibleQty: 1, durationMs: 10000 });
+    adapter.pushPrice(100);
+    await executor.execute({ side: "SELL", quantity: 2, reduceOnly: false, guard: { expectedPrice: 100, maxPct: 0.01 }, priceTick: 0.1 });
+    await vi.advanceTimersByTimeAsync(0);
+    const resting = () => adapter.getOpenOrders().map((order) => `${order.side}@${Number(order.price)}x${Number(order.origQty)}`);
+    expect(resting()).toEqual(["SELL@100.1x1"]);
+    expect(executor.ownsOrder(adapter.getOpenOrders()[0]!)).toBe(true);
+
+    adapter.pushPrice(100.2);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(adapter.getPositionAmount()).toBeCloseTo(-1);
+    expect(resting()).toEqual(["SELL@100.3x1"]);
+
+    adapter.pushPrice(100.4);
+    await vi.advanceTimersByTimeAsync(1000);
+    const report = await executor.whenIdle();
+    expect(report).toMatchObject({ algo: "iceberg", status: "filled", filledQty: 2, childOrders: 2 });
+    expect(report!.avgPrice).toBeCloseTo(100.2);
+    expect(report!.slippageBps).toBeLessThan(0);
+  });
+
+  it("caps POV participation at the configured share of market volume", async () => {
+    vi.useFakeTimers();
+    const { adapter, executor } = setup({ algo: "pov", povRate: 0.5, durationMs: 5000 });
+    adapter.pushPrice(100);
+    await executor.execute({ side: "BUY", quantity: 2, reduceOnly: false, guard: { expectedPrice: 100.1, maxPct: 0.01 }, priceTick: 0.1 });
+
+    adapter.pushTrade({ price: 100, quantity: 1, buyerMaker: true });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(adapter.getPositionAmount()).toBeCloseTo(0.5);
+
+    adapter.pushTrade({ price: 100, quantity: 10, buyerMaker: true });
+    await vi.advanceTimersByTimeAsync(1000);
+    const report = await executor.whenIdle();
+    expect(report).toMatchObject({ algo: "pov", status: "filled", filledQty: 2, childOrders: 2 });
+  });
+
+  it("aborts an in-flight entry when a reduce-only exit arrives and rejects overlapping entries", async () => {
+    vi.useFakeTimers();
+    const { adapter, executor, logs } = setup({ algo: "twap", twapSlices: 3 });
+    adapter.pushPrice(100);
+    const entry = { side: "BUY" as const, quantity: 3, reduceOnly: false, guard: { expectedPrice: 100.1, maxPct: 0.01 }, priceTick: 0.1 };
+    expect(await executor.execute(entry)).toBe("started");
+    await vi.advanceTimersByTimeAsync(0);
+    expect(adapter.getPositionAmount()).toBeCloseTo(1);
+    expect(await executor.execute(entry)).toBe("rejected");
+
+    const exit = await executor.execute({ side: "SELL", quantity: 1, reduceOnly: true, guard: { expectedPrice: 100, maxPct: 0.01 }, priceTick: 0.1 });
+    expect(exit).toBe("started");
+    expect(logs.some((line) => line.startsWith("TWAP 执行中止: BUY 成交 1/3"))).toBe(true);
+    expect(executor.getReport()).toMatchObject({ side: "SELL", status: "running" });
+
+    await vi.advanceTimersByTimeAsync(3000);
+    const report = await executor.whenIdle();
+    expect(report).toMatchObject({ side: "SELL", status: "filled", filledQty: 1 });
+    // 被中止的开仓不再加仓
+    expect(adapter.getPositionAmount()).toBeCloseTo(0);
+  });
+
+  it("delegates to a single market order in market mode", async () => {
+    const { adapter, executor } = setup({ algo: "market" });
+    adapter.pushPrice(100);
+    expect(await executor.execute({ side: "BUY", quantity: 2, reduceOnly: false, guard: { expectedPrice: 100.1, maxPct: 0.01 } })).toBe("submitted");
+    expect(adapter.getPositionAmount()).toBeCloseTo(2);
+    expect(executor.getReport()).toBeNull();
+  });
+});
+
+describe("loadExecutionConfig", () => {
+  it("falls back to defaults for malformed values", () => {
+    const config = loadExecutionConfig({ EXECUTION_ALGO: "TWAP", EXECUTION_TWAP_SLICES: "abc", EXECUTION_POV_RATE: "" });
+    expect(config.algo).toBe("twap");
+    expect(config.twapSlices).toBe(6);
+    expect(config.povRate).toBe(0.1);
+    expect(config.finalSweep).toBe(true);
+    expect(loadExecutionConfig({ EXECUTION_ALGO: "vwap", EXECUTION_FINAL_SWEEP: "false" })).toMatchObject({ algo: "market", finalSweep: false });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import { toFillFromEvent } from "../src/exchanges/aster/client";
+import { MockExchangeAdapter } from "../src/exchanges/mock-adapter";
+import type { AsterFill } from "../src/exchanges/types";
+import { FeeMonitor } from "../src/utils/fee-monitor";
+import { ClosedTradeTracker, isClosingFill } from "../src/utils/fills";
+
+const feeConfig = {
+  feeRate: 0.0004,
+  maxDailyFeePct: 2,
+  maxHourlyFeePct: 0.5,
+  feeWarningThreshold: 1,
+  enableFeeProtection: true,
+  logInterval: 300000,
+};
+
+function fill(overrides: Partial<AsterFill> = {}): AsterFill {
+  return {
+    symbol: "BTCUSDT",
+    orderId: 1,
+    clientOrderId: "",
+    tradeId: 1,
+    side: "SELL",
+    positionSide: "BOTH",
+    orderType: "MARKET",
+    orderStatus: "FILLED",
+    reduceOnly: true,
+    lastFilledQty: "1",
+    lastFilledPrice: "100",
+    cumulativeFilledQty: "1",
+    avgPrice: "100",
+    commission: "0.02",
+    commissionAsset: "USDT",
+    isMaker: false,
+    realizedPnl: "5",
+    tradeTime: 1,
+    ...overrides,
+  };
+}
+
+describe("toFillFromEvent", () => {
+  it("parses an ORDER_TRADE_UPDATE trade execution", () => {
+    const parsed = toFillFromEvent(
+      {
+        s: "btcusdt",
+        c: "client-1",
+        S: "BUY",
+        o: "LIMIT",
+        x: "TRADE",
+        X: "PARTIALLY_FILLED",
+        i: 8886774,
+        l: "0.4",
+        z: "0.6",
+        L: "25000.5",
+        ap: "25000.2",
+        N: "USDT",
+        n: "0.002",
+        T: 1_700_000_000_000,
+        t: 42,
+        m: true,
+        R: false,
+        ps: "LONG",
+        rp: "0",
+      },
+      1_700_000_000_001
+    );
+    expect(parsed).toMatchObject({
+      symbol: "BTCUSDT",
+      orderId: 8886774,
+      clientOrderId: "client-1",
+      tradeId: 42,
+      side: "BUY",
+      positionSide: "LONG",
+      orderStatus: "PARTIALLY_FILLED",
+      lastFilledQty: "0.4",
+      lastFilledPrice: "25000.5",
+      cumulativeFilledQty: "0.6",
+      commission: "0.002",
+      commissionAsset: "USDT",
+      isMaker: true,
+      realizedPnl: "0",
+      tradeTime: 1_700_000_000_000,
+    });
+  });
+});
+
+describe("FeeMonitor.recordFill", () => {
+  it("records the actual commission and estimates when it is paid in another asset", () => {
+    const monitor = new FeeMonitor(feeConfig);
+    monitor.recordFill(fill({ commission: "0.013" }));
+    expect(monitor.getFeeSummary().totalFee).toBeCloseTo(0.013);
+
+    monitor.recordFill(fill({ orderId: 2, commission: "0.0001", commissionAsset: "BNB" }));
+    const summary = monitor.getFeeSummary();
+    expect(summary.tradeCount).toBe(2);
+    expect(summary.totalFee).toBeCloseTo(0.013 + 100 * 0.0004);
+  });
+});
+
+describe("ClosedTradeTracker", () => {
+  it("counts a closing order once after its last partial fill", () => {
+    const tracker = new ClosedTradeTracker();
+    expect(tracker.push(fill({ reduceOnly: false, realizedPnl: "0", side: "BUY" }))).toBeNull();
+    expect(tracker.push(fill({ orderId: 2, orderStatus: "PARTIALLY_FILLED", realizedPnl: "2", lastFilledQty: "0.4" }))).toBeNull();
+    const closed = tracker.push(fill({ orderId: 2, realizedPnl: "3", lastFilledQty: "0.6" }));
+    expect(closed?.quantity).toBeCloseTo(1);
+    expect(closed?.realizedPnl).toBeCloseTo(5);
+  });
+
+  it("detects hedge-mode closing fills by leg and side", () => {
+    expect(isClosingFill(fill({ positionSide: "LONG", side: "SELL", reduceOnly: false }))).toBe(true);
+    expect(isClosingFill(fill({ positionSide: "SHORT", side: "SELL", reduceOnly: false }))).toBe(false);
+  });
+});
+
+describe("MockExchangeAdapter.watchFills", () => {
+  it("emits fills with commission and realized pnl", async () => {
+    const adapter = new MockExchangeAdapter({ symbol: "BTCUSDT", takerFeeRate: 0.001 });
+    const fills: AsterFill[] = [];
+    adapter.watchFills((entry) => fills.push(entry));
+    adapter.pushPrice(100, { spread: 0 });
+    await adapter.createOrder({ symbol: "BTCUSDT", side: "BUY", type: "MARKET", quantity: 2 });
+    adapter.pushPrice(110, { spread: 0 });
+    await adapter.createOrder({ symbol: "BTCUSDT", side: "SELL", type: "MARKET", quantity: 2, reduceOnly: "true" });
+
+    expect(fills).toHaveLength(2);
+    expect(Number(fills[0]!.commission)).toBeCloseTo(0.2);
+    expect(fills[0]!.isMaker).toBe(false);
+    expect(Number(fills[1]!.realizedPnl)).toBeCloseTo(20);
+    expect(fills[1]!).toMatchObject({ orderStatus: "FILLED", reduceOnly: true, commissionAsset: "USDT" });
+  });
+});
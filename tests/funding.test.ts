@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { MakerConfig } from "../src/config";
+import { MakerEngine } from "../src/core/maker-engine";
+import { MockExchangeAdapter } from "../src/exchanges/mock-adapter";
+import type { AsterMarkPrice } from "../src/exchanges/types";
+import { FundingMonitor, describeFundingSettlement, type FundingGuardConfig } from "../src/utils/funding";
+
+const HOUR = 3_600_000;
+
+const guard: FundingGuardConfig = { enabled: true, windowMs: 10 * 60_000, minRate: 0.0001 };
+
+function mark(fundingRate: number, nextFundingTime: number, markPrice = 100): AsterMarkPrice {
+  return {
+    symbol: "BTCUSDT",
+    markPrice: String(markPrice),
+    indexPrice: String(markPrice),
+    fundingRate: String(fundingRate),
+    nextFundingTime,
+  };
+}
+
+describe("FundingMonitor", () => {
+  it("blocks entries that would pay funding only shortly before settlement", () => {
+    const monitor = new FundingMonitor(guard);
+    monitor.update(mark(0.0005, 8 * HOUR), 0);
+
+    expect(monitor.getEntryBlock("BUY", 8 * HOUR - 20 * 60_000)).toBeNull();
+    expect(monitor.getEntryBlock("BUY", 8 * HOUR - 5 * 60_000)).toContain("对多头不利");
+    expect(monitor.getEntryBlock("SELL", 8 * HOUR - 5 * 60_000)).toBeNull();
+
+    monitor.update(mark(-0.00005, 8 * HOUR), 0);
+    // 费率绝对值低于阈值时不拦截
+    expect(monitor.getEntryBlock("SELL", 8 * HOUR - 5 * 60_000)).toBeNull();
+
+    const disabled = new FundingMonitor({ ...guard, enabled: false });
+    disabled.update(mark(0.0005, 8 * HOUR), 0);
+    expect(disabled.getEntryBlock("BUY", 8 * HOUR - 5 * 60_000)).toBeNull();
+  });
+
+  it("reports the block notice once per funding period and side", () => {
+    const monitor = new FundingMonitor(guard);
+    monitor.update(mark(-0.001, 8 * HOUR), 0);
+    const now = 8 * HOUR - 60_000;
+
+    expect(monitor.consumeEntryBlockNotice("SELL", now)).toContain("对空头不利");
+    expect(monitor.consumeEntryBlockNotice("SELL", now)).toBeNull();
+
+    monitor.update(mark(-0.001, 16 * HOUR), 0);
+    expect(monitor.consumeEntryBlockNotice("SELL", 16 * HOUR - 60_000)).toContain("对空头不利");
+  });
+
+  it("estimates funding paid or received when the funding time rolls over", () => {
+    const monitor = new FundingMonitor(guard);
+    expect(monitor.update(mark(0.0001, 8 * HOUR), 2)).toBeNull();
+    expect(monitor.update(mark(0.0002, 8 * HOUR), 2)).toBeNull();
+
+    const paid = monitor.update(mark(-0.0003, 16 * HOUR, 110), 2)!;
+    expect(paid.time).toBe(8 * HOUR);
+    expect(paid.fundingRate).toBeCloseTo(0.0002);
+    expect(paid.amount).toBeCloseTo(-2 * 110 * 0.0002);
+    expect(describeFundingSettlement(paid)).toContain("支付");
+
+    const received = monitor.update(mark(0.0001, 24 * HOUR, 100), 2)!;
+    expect(received.amount).toBeCloseTo(2 * 100 * 0.0003);
+    expect(describeFundingSettlement(received)).toContain("收取");
+
+    // 空仓时不计入结算
+    expect(monitor.update(mark(0.0001, 32 * HOUR), 0)).toBeNull();
+
+    const snapshot = monitor.getSnapshot()!;
+    expect(snapshot.settlements).toBe(2);
+    expect(snapshot.totalFunding).toBeCloseTo(-2 * 110 * 0.0002 + 2 * 100 * 0.0003);
+    expect(snapshot.nextFundingTime).toBe(32 * HOUR);
+  });
+});
+
+describe("MakerEngine funding guard", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("skips the entry quote that would pay funding right before settlement", async () => {
+    vi.useFakeTimers();
+    const adapter = new MockExchangeAdapter({ symbol: "BTCUSDT", initialBalance: 1000, spread: 0.2 });
+    const config: MakerConfig = {
+      symbol: "BTCUSDT",
+      tradeAmount: 1,
+      lossLimit: 1000,
+      profitTarget: 1000,
+      priceChaseThreshold: 0.3,
+      bidOffset: 0,
+      askOffset: 0,
+      refreshIntervalMs: 100,
+      maxLogEntries: 50,
+      maxCloseSlippagePct: 0.05,
+      priceTick: 0.1,
+      fundingGuard: guard,
+    };
+    const engine = new MakerEngine(config, adapter);
+    adapter.pushMarkPrice(mark(0.0005, Date.now() + 5 * 60_000));
+    adapter.pushPrice(100);
+    engine.start();
+
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(adapter.getOpenOrders().map((order) => order.side)).toEqual(["SELL"]);
+    const snapshot = engine.getSnapshot();
+    expect(snapshot.funding?.fundingRate).toBeCloseTo(0.0005);
+    expect(snapshot.tradeLog.filter((entry) => entry.detail.includes("资金费保护"))).toHaveLength(1);
+    engine.stop();
+  });
+});
@@ -0,0 +1,164 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { loadGridConfig, type GridConfig } from "../src/config";
+import { GridEngine } from "../src/core/grid-engine";
+import { MockExchangeAdapter } from "../src/exchanges/mock-adapter";
+import { applyGridFill, computeGridLevels, createInitialGrid, validateGridConfig } from "../src/utils/grid";
+
+const baseConfig: GridConfig = {
+  ...loadGridConfig({}),
+  symbol: "BTCUSDT",
+  lowerPrice: 90,
+  upperPrice: 110,
+  levelCount: 5,
+  spacing: "arithmetic",
+  levelQty: 1,
+  qtyStep: 0.001,
+  priceTick: 0.1,
+  refreshIntervalMs: 1000,
+  maxCloseSlippagePct: 0.5,
+  hedgeMode: false,
+};
+
+describe("grid helpers", () => {
+  it("computes arithmetic and geometric levels", () => {
+    expect(computeGridLevels(90, 110, 5, "arithmetic", 0.1)).toEqual([90, 95, 100, 105, 110]);
+    const geometric = computeGridLevels(100, 400, 3, "geometric", 0.1);
+    expect(geometric).toEqual([100, 200, 400]);
+  });
+
+  it("validates bounds and stop-out prices", () => {
+    expect(validateGridConfig(baseConfig)).toBeNull();
+    expect(validateGridConfig({ ...baseConfig, upperPrice: 80 })).not.toBeNull();
+    expect(validateGridConfig({ ...baseConfig, levelCount: 1 })).not.toBeNull();
+    expect(validateGridConfig({ ...baseConfig, stopLowerPrice: 95 })).not.toBeNull();
+    expect(validateGridConfig({ ...baseConfig, stopUpperPrice: 120 })).toBeNull();
+  });
+
+  it("re-places the opposite order on the neighbour level and books paired profit", () => {
+    const initial = createInitialGrid([90, 95, 100, 105, 110], 100.05);
+    expect(initial.map((slot) => slot?.side ?? null)).toEqual(["BUY", "BUY", null, "SELL", "SELL"]);
+
+    const afterBuy = applyGridFill(initial, 1, 95, 1);
+    expect(afterBuy.realized).toBe(0);
+    expect(afterBuy.slots[1]).toBeNull();
+    expect(afterBuy.slots[2]).toEqual({ side: "SELL", closing: true, entryPrice: 95 });
+
+    const afterSell = applyGridFill(afterBuy.slots, 2, 100, 1);
+    expect(afterSell.realized).toBe(5);
+    expect(afterSell.slots[1]).toEqual({ side: "BUY", closing: false, entryPrice: null });
+    expect(afterSell.slots[2]).toBeNull();
+  });
+});
+
+describe("GridEngine", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("lays out the grid, completes a round trip and separates grid profit from inventory", async () => {
+    vi.useFakeTimers();
+    const adapter = new MockExchangeAdapter({ symbol: "BTCUSDT", initialBalance: 10000, spread: 0.1 });
+    const engine = new GridEngine(baseConfig, adapter);
+    adapter.pushPrice(100);
+    engine.start();
+    await vi.advanceTimersByTimeAsync(baseConfig.refreshIntervalMs);
+
+    const prices = () => adapter.getOpenOrders().map((order) => `${order.side}@${Number(order.price)}`).sort();
+    expect(prices()).toEqual(["BUY@90", "BUY@95", "SELL@105", "SELL@110"]);
+
+    // 跌穿 95 档：买单成交后在 100 档补挂平仓卖单
+    adapter.pushPrice(94.5);
+    await vi.advanceTimersByTimeAsync(baseConfig.refreshIntervalMs);
+    expect(prices()).toEqual(["BUY@90", "SELL@100", "SELL@105", "SELL@110"]);
+    expect(engine.getSnapshot().pnl.roundTrips).toBe(0);
+
+    // 回到 100 上方：平仓卖单成交，95 档重新挂买单
+    adapter.pushPrice(100.5);
+    await vi.advanceTimersByTimeAsync(baseConfig.refreshIntervalMs);
+    expect(prices()).toEqual(["BUY@90", "BUY@95", "SELL@105", "SELL@110"]);
+    const { pnl, levels } = engine.getSnapshot();
+    expect(pnl.roundTrips).toBe(1);
+    expect(pnl.realized).toBeCloseTo(5);
+    expect(pnl.inventory).toBe(0);
+    expect(levels.map((level) => level.side)).toEqual(["BUY", "BUY", null, "SELL", "SELL"]);
+    engine.stop();
+  });
+
+  it("cancels the grid and flattens the position when a stop-out bound is hit", async () => {
+    vi.useFakeTimers();
+    const adapter = new MockExchangeAdapter({ symbol: "BTCUSDT", initialBalance: 10000, spread: 0.1 });
+    const engine = new GridEngine({ ...baseConfig, stopLowerPrice: 85 }, adapter);
+    adapter.pushPrice(100);
+    engine.start();
+    await vi.advanceTimersByTimeAsync(baseConfig.refreshIntervalMs);
+
+    adapter.pushPrice(84);
+    expect(engine.getSnapshot().position.positionAmt).toBeCloseTo(2);
+    await vi.advanceTimersByTimeAsync(baseConfig.refreshIntervalMs * 2);
+
+    const snapshot = engine.getSnapshot();
+    expect(snapshot.stoppedOut).toContain("跌破下方止损价");
+    expect(adapter.getOpenOrders()).toHaveLength(0);
+    expect(snapshot.position.positionAmt).toBeCloseTo(0);
+    engine.stop();
+  });
+
+  it("books a level fill pushed before the order response returns", async () => {
+    vi.useFakeTimers();
+    const adapter = new MockExchangeAdapter({ symbol: "BTCUSDT", initialBalance: 10000, spread: 0.1 });
+    const createOrder = adapter.createOrder.bind(adapter);
+    adapter.createOrder = async (params) => {
+      const order = await createOrder(params);
+      // 下单回报返回前价格已穿过该档，成交推送先到
+      if (params.side === "BUY" && params.price === 95) adapter.pushPrice(94.5);
+      return order;
+    };
+    const engine = new GridEngine(baseConfig, adapter);
+    adapter.pushPrice(100);
+    engine.start();
+    await vi.advanceTimersByTimeAsync(baseConfig.refreshIntervalMs * 2);
+
+    const prices = adapter.getOpenOrders().map((order) => `${order.side}@${Number(order.price)}`).sort();
+    expect(prices).toEqual(["BUY@90", "SELL@100", "SELL@105", "SELL@110"]);
+    expect(adapter.getPositionAmount()).toBeCloseTo(1);
+    engine.stop();
+  });
+
+  it("reconciles grid orders that vanish without a fill event", async () => {
+    vi.useFakeTimers();
+    const adapter = new MockExchangeAdapter({ symbol: "BTCUSDT", initialBalance: 10000, spread: 0.1 });
+    // 成交推送丢失
+    adapter.watchFills = () => () => {};
+    const engine = new GridEngine(baseConfig, adapter);
+    adapter.pushPrice(100);
+    engine.start();
+    await vi.advanceTimersByTimeAsync(baseConfig.refreshIntervalMs);
+    const prices = () => adapter.getOpenOrders().map((order) => `${order.side}@${Number(order.price)}`).sort();
+    expect(prices()).toEqual(["BUY@90", "BUY@95", "SELL@105", "SELL@110"]);
+
+    // 外部撤销的档位按查单结果重新挂单，不重复加仓
+    const sell = adapter.getOpenOrders().find((order) => Number(order.price) === 110)!;
+    await adapter.cancelOrder({ symbol: "BTCUSDT", orderId: sell.orderId });
+    adapter.pushPrice(94.5);
+    await vi.advanceTimersByTimeAsync(baseConfig.refreshIntervalMs * 2);
+    expect(prices()).toEqual(["BUY@90", "SELL@100", "SELL@105", "SELL@110"]);
+    expect(adapter.getPositionAmount()).toBeCloseTo(1);
+    const log = engine.getSnapshot().tradeLog.map((entry) => entry.detail);
+    expect(log.some((line) => line.includes("查单确认已成交"))).toBe(true);
+    expect(log.some((line) => line.includes("第5档订单已撤销"))).toBe(true);
+    engine.stop();
+  });
+
+  it("stays in warmup when the grid config is invalid", async () => {
+    vi.useFakeTimers();
+    const adapter = new MockExchangeAdapter({ symbol: "BTCUSDT", initialBalance: 10000, spread: 0.1 });
+    const engine = new GridEngine({ ...baseConfig, lowerPrice: 0 }, adapter);
+    adapter.pushPrice(100);
+    engine.start();
+    await vi.advanceTimersByTimeAsync(baseConfig.refreshIntervalMs * 2);
+    expect(engine.getState()).toBe("warmup");
+    expect(engine.getSnapshot().configError).not.toBeNull();
+    expect(adapter.getOpenOrders()).toHaveLength(0);
+    engine.stop();
+  });
+});
@@ -0,0 +1,129 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { MakerConfig } from "../src/config";
+import { MakerEngine } from "../src/core/maker-engine";
+import { marketClose, placeMarketOrder, type OrderLockMap, type OrderPendingMap, type OrderTimerMap } from "../src/core/order-coordinator";
+import { MockExchangeAdapter } from "../src/exchanges/mock-adapter";
+import { getPosition } from "../src/utils/strategy";
+
+const makerConfig: MakerConfig = {
+  symbol: "BTCUSDT",
+  tradeAmount: 1,
+  lossLimit: 1000,
+  profitTarget: 1000,
+  priceChaseThreshold: 0.3,
+  bidOffset: 0,
+  askOffset: 0,
+  refreshIntervalMs: 100,
+  maxLogEntries: 50,
+  maxCloseSlippagePct: 0.05,
+  priceTick: 0.1,
+};
+
+describe("MockExchangeAdapter hedge mode", () => {
+  it("keeps long and short legs apart and validates positionSide", async () => {
+    const adapter = new MockExchangeAdapter({ symbol: "BTCUSDT", dualSidePosition: true });
+    adapter.pushPrice(100);
+    expect(await adapter.getDualSidePosition()).toBe(true);
+
+    await expect(adapter.createOrder({ symbol: "BTCUSDT", side: "BUY", type: "MARKET", quantity: 1 })).rejects.toThrow(/-4061/);
+    await expect(
+      adapter.createOrder({ symbol: "BTCUSDT", side: "SELL", type: "MARKET", quantity: 1, positionSide: "LONG", reduceOnly: "true" })
+    ).rejects.toThrow(/-1106/);
+    await expect(
+      adapter.createOrder({ symbol: "BTCUSDT", side: "SELL", type: "MARKET", quantity: 1, positionSide: "LONG" })
+    ).rejects.toThrow(/-2022/);
+
+    await adapter.createOrder({ symbol: "BTCUSDT", side: "BUY", type: "MARKET", quantity: 2, positionSide: "LONG" });
+    await adapter.createOrder({ symbol: "BTCUSDT", side: "SELL", type: "MARKET", quantity: 1, positionSide: "SHORT" });
+    expect(adapter.getPositionAmount("BTCUSDT", "LONG")).toBe(2);
+    expect(adapter.getPositionAmount("BTCUSDT", "SHORT")).toBe(-1);
+
+    // 平多数量超过多头持仓时只成交到清仓，不会反手
+    await adapter.createOrder({ symbol: "BTCUSDT", side: "SELL", type: "MARKET", quantity: 5, positionSide: "LONG" });
+    expect(adapter.getPositionAmount("BTCUSDT", "LONG")).toBe(0);
+    expect(adapter.getPositionAmount("BTCUSDT", "SHORT")).toBe(-1);
+
+    const position = getPosition(adapter.getAccountSnapshot(), "BTCUSDT");
+    expect(position.legs?.long.positionAmt).toBe(0);
+    expect(position.legs?.short.positionAmt).toBe(-1);
+    expect(position.legs?.short.positionSide).toBe("SHORT");
+  });
+
+  it("rejects LONG/SHORT orders on a one-way account", async () => {
+    const adapter = new MockExchangeAdapter({ symbol: "BTCUSDT" });
+    adapter.pushPrice(100);
+    await expect(
+      adapter.createOrder({ symbol: "BTCUSDT", side: "BUY", type: "MARKET", quantity: 1, positionSide: "LONG" })
+    ).rejects.toThrow(/-4061/);
+  });
+});
+
+describe("order coordinator positionSide", () => {
+  it("sends positionSide without reduceOnly and locks each leg separately", async () => {
+    const adapter = new MockExchangeAdapter({ symbol: "BTCUSDT", dualSidePosition: true });
+    adapter.pushPrice(100);
+    const spy = vi.spyOn(adapter, "createOrder");
+    const locks: OrderLockMap = {};
+    const timers: OrderTimerMap = {};
+    const pendings: OrderPendingMap = {};
+    const log = () => undefined;
+
+    await placeMarketOrder(adapter, "BTCUSDT", [], locks, timers, pendings, "BUY", 1, log, false, undefined, {
+      qtyStep: 0.001,
+      positionSide: "LONG",
+    });
+    await placeMarketOrder(adapter, "BTCUSDT", [], locks, timers, pendings, "SELL", 1, log, false, undefined, {
+      qtyStep: 0.001,
+      positionSide: "SHORT",
+    });
+    expect(Object.keys(pendings).sort()).toEqual(["MARKET_LONG", "MARKET_SHORT"]);
+    Object.values(timers).forEach((timer) => timer && clearTimeout(timer));
+
+    await marketClose(adapter, "BTCUSDT", [], {}, {}, {}, "SELL", 1, log, undefined, { qtyStep: 0.001, positionSide: "LONG" });
+    const closeParams = spy.mock.calls[2]![0];
+    expect(closeParams.positionSide).toBe("LONG");
+    expect(closeParams.reduceOnly).toBeUndefined();
+    expect(adapter.getPositionAmount("BTCUSDT", "LONG")).toBe(0);
+    expect(adapter.getPositionAmount("BTCUSDT", "SHORT")).toBe(-1);
+  });
+});
+
+describe("MakerEngine hedge mode", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("quotes each leg on its own and closes the long leg without touching the short one", async () => {
+    vi.useFakeTimers();
+    const adapter = new MockExchangeAdapter({ symbol: "BTCUSDT", initialBalance: 1000, spread: 0.2, dualSidePosition: true });
+    const engine = new MakerEngine({ ...makerConfig, hedgeMode: true }, adapter);
+    adapter.pushPrice(100);
+    engine.start();
+
+    await vi.advanceTimersByTimeAsync(4000);
+    const entries = adapter.getOpenOrders().map((order) => `${order.side}/${order.positionSide}`).sort();
+    expect(entries).toEqual(["BUY/LONG", "SELL/SHORT"]);
+
+    // 价格下跌成交多头开仓单，空头开仓单继续挂着
+    adapter.pushPrice(99.8);
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(adapter.getPositionAmount("BTCUSDT", "LONG")).toBe(1);
+    const quotes = adapter.getOpenOrders().map((order) => `${order.side}/${order.positionSide}`).sort();
+    expect(quotes).toEqual(["SELL/LONG", "SELL/SHORT"]);
+    engine.stop();
+  });
+
+  it("refuses to trade when the account position mode does not match the config", async () => {
+    vi.useFakeTimers();
+    const adapter = new MockExchangeAdapter({ symbol: "BTCUSDT", initialBalance: 1000, spread: 0.2, dualSidePosition: true });
+    const engine = new MakerEngine(makerConfig, adapter);
+    adapter.pushPrice(100);
+    engine.start();
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(adapter.getOpenOrders()).toHaveLength(0);
+    const errors = engine.getSnapshot().tradeLog.filter((entry) => entry.detail.includes("HEDGE_MODE"));
+    expect(errors).toHaveLength(1);
+    engine.stop();
+  });
+});
@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { loadInventoryQuotingConfig, makerConfig } from "../src/config";
+import { MakerEngine } from "../src/core/maker-engine";
+import { MockExchangeAdapter } from "../src/exchanges/mock-adapter";
+import {
+  VolatilityEstimator,
+  computeInventoryQuote,
+  type InventoryQuotingConfig,
+} from "../src/utils/inventory-quoting";
+
+const quoting: InventoryQuotingConfig = {
+  model: "inventory",
+  riskAversion: 0.1,
+  orderIntensity: 1,
+  horizonMs: 1000,
+  volatilityWindowMs: 60_000,
+  maxInventory: 2,
+  twoSided: true,
+};
+
+describe("inventory quoting", () => {
+  const quote = (positionAmt: number, sigmaBps: number) =>
+    computeInventoryQuote({
+      topBid: 1000,
+      topAsk: 1000.1,
+      positionAmt,
+      tradeAmount: 1,
+      sigmaBps,
+      priceTick: 0.1,
+      config: { ...quoting, horizonMs: 60_000 },
+      maxInventory: 2,
+    });
+
+  it("skews the reservation price against inventory", () => {
+    const flat = quote(0, 2);
+    const long = quote(1, 2);
+    const short = quote(-1, 2);
+    expect(flat.reservationPrice).toBeCloseTo(flat.mid);
+    expect(long.reservationPrice).toBeLessThan(flat.reservationPrice);
+    expect(short.reservationPrice).toBeGreaterThan(flat.reservationPrice);
+    expect(long.bidPrice).toBeLessThan(flat.bidPrice);
+    expect(long.askPrice).toBeLessThanOrEqual(flat.askPrice);
+    expect(long.inventoryLots).toBe(1);
+  });
+
+  it("widens the spread with volatility and never crosses the touch", () => {
+    const calm = quote(0, 0);
+    const volatile = quote(0, 5);
+    expect(calm.spreadBps).toBeCloseTo(20 * Math.log(1.1));
+    expect(volatile.spreadBps).toBeGreaterThan(calm.spreadBps);
+    expect(volatile.askPrice - volatile.bidPrice).toBeGreaterThan(calm.askPrice - calm.bidPrice);
+    // 大幅库存偏移下买价仍低于卖一、卖价仍高于买一
+    const skewed = quote(50, 5);
+    expect(skewed.bidPrice).toBeLessThan(1000.1);
+    expect(skewed.askPrice).toBeGreaterThan(1000);
+  });
+
+  it("estimates per-second volatility from mid samples", () => {
+    const estimator = new VolatilityEstimator(10_000);
+    expect(estimator.getSigmaBps()).toBe(0);
+    estimator.push(100, 0);
+    estimator.push(100.1, 1000);
+    estimator.push(100, 2000);
+    const move = Math.log(100.1 / 100) * 10_000;
+    expect(estimator.getSigmaBps()).toBeCloseTo(Math.sqrt((2 * move * move) / 2));
+    // 窗口外的波动不再计入
+    estimator.push(100, 20_000);
+    expect(estimator.getSigmaBps()).toBe(0);
+  });
+
+  it("loads the quoting config with defaults for malformed values", () => {
+    const config = loadInventoryQuotingConfig({ MAKER_QUOTE_MODEL: "Inventory", MAKER_RISK_AVERSION: "abc", MAKER_QUOTE_HORIZON_MS: "30000" });
+    expect(config).toMatchObject({ model: "inventory", riskAversion: 0.1, horizonMs: 30000, maxInventory: 0, twoSided: false });
+  });
+});
+
+describe("MakerEngine inventory quoting", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("keeps quoting both sides while holding a position and stops adding at max inventory", async () => {
+    vi.useFakeTimers();
+    const adapter = new MockExchangeAdapter({ symbol: "BTCUSDT", initialBalance: 10000, spread: 0.1 });
+    const engine = new MakerEngine(
+      { ...makerConfig, symbol: "BTCUSDT", tradeAmount: 1, priceTick: 0.1, priceChaseThreshold: 0.05, lossLimit: 100, profitTarget: 100, inventoryQuoting: quoting },
+      adapter
+    );
+    const orders = () =>
+      adapter
+        .getOpenOrders()
+        .map((order) => `${order.side}${order.reduceOnly ? "(RO)" : ""}x${Number(order.origQty)}`)
+        .sort();
+    adapter.pushPrice(100);
+    engine.start();
+    await vi.advanceTimersByTimeAsync(makerConfig.refreshIntervalMs);
+    expect(orders()).toEqual(["BUYx1", "SELLx1"]);
+
+    // 买单成交后继续双边报价：卖出一笔减仓，买价随多头库存下移
+    adapter.pushPrice(99.9);
+    await vi.advanceTimersByTimeAsync(makerConfig.refreshIntervalMs);
+    expect(adapter.getPositionAmount()).toBeCloseTo(1);
+    expect(orders()).toEqual(["BUYx1", "SELL(RO)x1"]);
+    const { inventoryQuote } = engine.getSnapshot();
+    expect(inventoryQuote!.inventoryLots).toBeCloseTo(1);
+    expect(inventoryQuote!.reservationPrice).toBeLessThan(inventoryQuote!.mid);
+    const bid = adapter.getOpenOrders().find((order) => order.side === "BUY")!;
+    expect(Number(bid.price)).toBeLessThan(99.9);
+
+    // 达到最大库存后只保留平仓方向报价
+    adapter.pushPrice(Number(bid.price) - 0.1);
+    await vi.advanceTimersByTimeAsync(makerConfig.refreshIntervalMs);
+    expect(adapter.getPositionAmount()).toBeCloseTo(2);
+    expect(orders()).toEqual(["SELL(RO)x1"]);
+    expect(engine.getSnapshot().tradeLog.some((entry) => entry.detail.includes("达到最大库存"))).toBe(true);
+    engine.stop();
+  });
+});
@@ -0,0 +1,134 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { tradingConfig } from "../src/config";
+import { TrendEngine } from "../src/core/trend-engine";
+import { MockExchangeAdapter } from "../src/exchanges/mock-adapter";
+import type { AsterIncome, IncomeHistoryQuery } from "../src/exchanges/types";
+import { IncomeLedger, MemoryLedgerStore, periodStart, type LedgerSource } from "../src/state/ledger";
+
+const DAY = 86_400_000;
+// 2024-01-03 是周三
+const NOW = Date.UTC(2024, 0, 3, 12);
+
+function income(tranId: number, time: number, incomeType: string, amount: number, symbol = "BTCUSDT"): AsterIncome {
+  return { symbol, incomeType, income: String(amount), asset: "USDT", info: "", time, tranId, tradeId: "" };
+}
+
+function pagedSource(all: AsterIncome[]): LedgerSource & { calls: IncomeHistoryQuery[] } {
+  const calls: IncomeHistoryQuery[] = [];
+  return {
+    calls,
+    async getIncomeHistory(query: IncomeHistoryQuery = {}) {
+      calls.push(query);
+      return all.filter((entry) => entry.time >= (query.startTime ?? 0)).slice(0, query.limit ?? 100);
+    },
+  };
+}
+
+describe("IncomeLedger", () => {
+  it("pages by time, dedupes repeated records and resumes from the stored cursor", async () => {
+    const incomes = [
+      income(1, NOW - 3 * DAY, "REALIZED_PNL", 5),
+      income(2, NOW - 3 * DAY, "COMMISSION", -0.5),
+      income(3, NOW - 2 * DAY, "FUNDING_FEE", -0.2),
+      income(4, NOW - DAY, "REALIZED_PNL", -2),
+      income(5, NOW - DAY, "COMMISSION", -0.3),
+    ];
+    const source = pagedSource(incomes);
+    const store = new MemoryLedgerStore();
+    const ledger = new IncomeLedger(source, store, { symbols: ["BTCUSDT"], pageLimit: 2, now: () => NOW });
+    await ledger.sync();
+    expect(ledger.getIncomes().map((entry) => entry.tranId)).toEqual([1, 2, 3, 4, 5]);
+    expect(source.calls.length).toBeGreaterThan(2);
+
+    incomes.push(income(6, NOW, "FUNDING_FEE", 0.1));
+    const reloaded = new IncomeLedger(source, store, { symbols: ["BTCUSDT"], pageLimit: 2, now: () => NOW });
+    source.calls.length = 0;
+    await reloaded.sync();
+    expect(source.calls[0]?.startTime).toBe(NOW - DAY);
+    expect(reloaded.getIncomes()).toHaveLength(6);
+  });
+
+  it("summarises per UTC day and Monday-start week", async () => {
+    const source = pagedSource([
+      income(1, NOW - 3 * DAY, "REALIZED_PNL", 5),
+      income(2, NOW - 3 * DAY, "COMMISSION", -0.5),
+      income(3, NOW, "REALIZED_PNL", 2, "ETHUSDT"),
+      income(4, NOW, "FUNDING_FEE", -0.2),
+      income(5, NOW, "TRANSFER", 100, ""),
+    ]);
+    const ledger = new IncomeLedger(source, new MemoryLedgerStore(), { symbols: [], now: () => NOW });
+    await ledger.sync();
+
+    expect(periodStart(NOW, "week")).toBe(Date.UTC(2024, 0, 1));
+    const days = ledger.getSummary("day");
+    expect(days.map((bucket) => bucket.start)).toEqual([periodStart(NOW, "day"), periodStart(NOW - 3 * DAY, "day")]);
+    expect(days[0]!.totals).toMatchObject({ realizedPnl: 2, funding: -0.2, net: 1.8 });
+    expect(days[0]!.symbols.ETHUSDT?.realizedPnl).toBe(2);
+
+    const weeks = ledger.getSummary("week", { symbol: "BTCUSDT" });
+    expect(weeks).toHaveLength(2);
+    expect(weeks[0]!.totals.funding).toBeCloseTo(-0.2);
+    expect(weeks[1]!.totals.net).toBeCloseTo(4.5);
+  });
+
+  it("reconciles the engine's accounting against the exchange records", async () => {
+    const source = pagedSource([income(1, NOW, "REALIZED_PNL", 10), income(2, NOW, "COMMISSION", -1)]);
+    const ledger = new IncomeLedger(source, new MemoryLedgerStore(), { symbols: ["BTCUSDT"], now: () => NOW });
+    await ledger.sync();
+
+    expect(ledger.reconcile("BTCUSDT", { since: NOW - DAY, realizedPnl: 10.05, commission: 1 }).matched).toBe(true);
+    const mismatch = ledger.reconcile("BTCUSDT", { since: NOW - DAY, realizedPnl: 8, commission: 0.4 });
+    expect(mismatch.matched).toBe(false);
+    expect(mismatch.pnlDiff).toBeCloseTo(2);
+    expect(mismatch.commissionDiff).toBeCloseTo(0.6);
+  });
+});
+
+describe("MockExchangeAdapter income history", () => {
+  it("records commission, realized pnl and funding and serves user trades", async () => {
+    const adapter = new MockExchangeAdapter({ symbol: "BTCUSDT", takerFeeRate: 0.001 });
+    adapter.pushPrice(100, { spread: 0 });
+    await adapter.createOrder({ symbol: "BTCUSDT", side: "BUY", type: "MARKET", quantity: 2 });
+    expect(adapter.settleFunding(0.001)).toBeCloseTo(-0.2);
+    adapter.pushPrice(110, { spread: 0 });
+    await adapter.createOrder({ symbol: "BTCUSDT", side: "SELL", type: "MARKET", quantity: 2, reduceOnly: "true" });
+
+    const incomes = await adapter.getIncomeHistory();
+    expect(incomes.map((entry) => entry.incomeType)).toEqual(["COMMISSION", "FUNDING_FEE", "REALIZED_PNL", "COMMISSION"]);
+    expect(await adapter.getIncomeHistory({ incomeType: "REALIZED_PNL" })).toHaveLength(1);
+
+    const trades = await adapter.getUserTrades({ symbol: "BTCUSDT", fromId: 2 });
+    expect(trades).toHaveLength(1);
+    expect(trades[0]).toMatchObject({ id: 2, side: "SELL", buyer: false, commissionAsset: "USDT" });
+    expect(Number(trades[0]!.realizedPnl)).toBeCloseTo(20);
+  });
+});
+
+describe("TrendEngine ledger", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("syncs the attached ledger and exposes today's totals in the snapshot", async () => {
+    vi.useFakeTimers();
+    const adapter = new MockExchangeAdapter({ symbol: "BTCUSDT", takerFeeRate: 0.001 });
+    adapter.pushPrice(100, { spread: 0 });
+    const engine = new TrendEngine({ ...tradingConfig, symbol: "BTCUSDT", pollIntervalMs: 1000 }, adapter);
+    const ledger = new IncomeLedger(
+      { getIncomeHistory: (query) => adapter.getIncomeHistory(query), getUserTrades: (query) => adapter.getUserTrades(query) },
+      new MemoryLedgerStore(),
+      { symbols: ["BTCUSDT"] }
+    );
+    engine.attachLedger(ledger);
+    await adapter.createOrder({ symbol: "BTCUSDT", side: "BUY", type: "MARKET", quantity: 1 });
+    engine.start();
+    await vi.advanceTimersByTimeAsync(10);
+    engine.stop();
+
+    const snapshot = engine.getSnapshot().ledger;
+    expect(snapshot?.lastSyncAt).not.toBeNull();
+    expect(snapshot?.today.commission).toBeCloseTo(-0.1);
+    expect(snapshot?.today.tradeCount).toBe(1);
+    expect(snapshot?.reconciliation?.ledger.commission).toBeCloseTo(0.1);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import type { MakerConfig } from "../src/config";
+import { extractMakerEvents, runMakerSimulation, type MakerMarketEvent } from "../src/backtest/maker-simulator";
+import type { RecordedEvent } from "../src/exchanges/recording-adapter";
+import type { AsterDepth } from "../src/exchanges/types";
+
+const START = 1_700_000_000_000;
+
+const config: MakerConfig = {
+  symbol: "BTCUSDT",
+  tradeAmount: 1,
+  lossLimit: 100,
+  profitTarget: 100,
+  priceChaseThreshold: 0.05,
+  bidOffset: 0,
+  askOffset: 0,
+  refreshIntervalMs: 1000,
+  maxLogEntries: 50,
+  maxCloseSlippagePct: 0.05,
+  priceTick: 0.1,
+};
+
+function depth(bid: number, ask: number, bidQty = 5, askQty = 5): AsterDepth {
+  return {
+    lastUpdateId: 1,
+    symbol: "BTCUSDT",
+    bids: [[bid.toFixed(1), String(bidQty)], [(bid - 0.1).toFixed(1), "10"]],
+    asks: [[ask.toFixed(1), String(askQty)], [(ask + 0.1).toFixed(1), "10"]],
+  };
+}
+
+describe("extractMakerEvents", () => {
+  it("turns recorded depth and ticker volume deltas into depth and trade events", () => {
+    const ticker = (t: number, lastPrice: string, volume: string): RecordedEvent => ({
+      t,
+      kind: "ticker",
+      symbol: "BTCUSDT",
+      payload: { symbol: "BTCUSDT", lastPrice, openPrice: "100", highPrice: "101", lowPrice: "99", volume, quoteVolume: "0" },
+    });
+    const events = extractMakerEvents(
+      [
+        ticker(START + 1, "100.2", "10"),
+        { t: START, kind: "depth", symbol: "BTCUSDT", payload: depth(100, 100.2) },
+        ticker(START + 2, "100.2", "12"),
+        ticker(START + 3, "100", "13.5"),
+        ticker(START + 4, "100", "13.5"),
+        { t: START + 5, kind: "depth", symbol: "ETHUSDT", payload: depth(10, 10.2) },
+      ],
+      "btcusdt"
+    );
+    expect(events.map((event) => event.kind)).toEqual(["depth", "trade", "trade"]);
+    expect(events[1]).toMatchObject({ t: START + 2, price: 100.2, quantity: 2, buyerMaker: false });
+    expect(events[2]).toMatchObject({ t: START + 3, price: 100, buyerMaker: true });
+    expect((events[2] as Extract<MakerMarketEvent, { kind: "trade" }>).quantity).toBeCloseTo(1.5);
+  });
+  it("prefers recorded aggTrades over the ticker volume approximation", () => {
+    const events = extractMakerEvents(
+      [
+        { t: START, kind: "depth", symbol: "BTCUSDT", payload: depth(100, 100.2) },
+        {
+          t: START + 1,
+          kind: "ticker",
+          symbol: "BTCUSDT",
+          payload: { symbol: "BTCUSDT", lastPrice: "100.2", openPrice: "100", highPrice: "101", lowPrice: "99", volume: "10", quoteVolume: "0" },
+        },
+        {
+          t: START + 2,
+          kind: "trade",
+          symbol: "BTCUSDT",
+          payload: { symbol: "BTCUSDT", aggTradeId: 1, price: "100", quantity: "0.5", tradeTime: START + 2, buyerMaker: true },
+        },
+      ],
+      "BTCUSDT"
+    );
+    expect(events.map((event) => event.kind)).toEqual(["depth", "trade"]);
+    expect(events[1]).toMatchObject({ price: 100, quantity: 0.5, buyerMaker: true });
+  });
+});
+
+describe("runMakerSimulation", () => {
+  it("fills quotes by queue position and measures adverse selection and inventory pnl", async () => {
+    const events: MakerMarketEvent[] = [];
+    for (let t = 0; t <= 20_000; t += 500) {
+      events.push({ t: START + t, kind: "depth", depth: t < 7000 ? depth(100, 100.2) : depth(99.8, 100) });
+    }
+    // 第一笔成交只消耗掉排在前面的 4 个，第二笔才轮到我们的买单
+    events.push({ t: START + 6000, kind: "trade", price: 100, quantity: 4, buyerMaker: true });
+    events.push({ t: START + 6500, kind: "trade", price: 100, quantity: 3, buyerMaker: true });
+
+    const result = await runMakerSimulation({
+      strategy: "maker",
+      config,
+      events,
+      makerFeeRate: 0.0001,
+      markoutMs: 5000,
+    });
+
+    expect(result.fills).toHaveLength(1);
+    const fill = result.fills[0]!;
+    expect(fill).toMatchObject({ side: "BUY", price: 100, quantity: 1, maker: true, time: START + 6500 });
+    expect(fill.mid).toBeCloseTo(100.1);
+    expect(fill.markoutMid).toBeCloseTo(99.9);
+
+    const { metrics } = result;
+    expect(metrics.quotesFilled).toBe(1);
+    expect(metrics.quotesPlaced).toBeGreaterThan(1);
+    expect(metrics.fillRate).toBeGreaterThan(0);
+    expect(metrics.fillRate).toBeLessThan(1);
+    expect(metrics.adverseSelection).toBeCloseTo(0.2);
+    expect(metrics.adverseSelectionBps).toBeCloseTo((0.2 / 100.1) * 10000);
+    expect(metrics.spreadPnl).toBeCloseTo(0.1);
+    expect(metrics.inventoryPnl).toBeCloseTo(-0.2);
+    expect(metrics.fees).toBeCloseTo(0.01);
+    expect(metrics.netPnl).toBeCloseTo(-0.11);
+    expect(metrics.finalPosition).toBeCloseTo(1);
+  });
+
+  it("leaves quotes unfilled while the queue ahead has not traded", async () => {
+    const events: MakerMarketEvent[] = [];
+    for (let t = 0; t <= 10_000; t += 500) {
+      events.push({ t: START + t, kind: "depth", depth: depth(100, 100.2, 50, 50) });
+    }
+    events.push({ t: START + 5000, kind: "trade", price: 100, quantity: 10, buyerMaker: true });
+    events.push({ t: START + 5000, kind: "trade", price: 100.2, quantity: 10, buyerMaker: false });
+
+    const result = await runMakerSimulation({ strategy: "offset", config, events });
+    expect(result.metrics.quotesPlaced).toBeGreaterThan(0);
+    expect(result.fills).toHaveLength(0);
+    expect(result.metrics.fillRate).toBe(0);
+    expect(result.metrics.netPnl).toBe(0);
+  });
+});
@@ -0,0 +1,234 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { AsterAccountSnapshot, AsterDepth, AsterFill, AsterOrder } from "../src/exchanges/types";
+import { MockExchangeAdapter } from "../src/exchanges/mock-adapter";
+import { MakerEngine } from "../src/core/maker-engine";
+import type { MakerConfig } from "../src/config";
+import { isUnknownOrderError } from "../src/utils/errors";
+
+function createAdapter() {
+  let now = 1_700_000_000_000;
+  const adapter = new MockExchangeAdapter({
+    symbol: "BTCUSDT",
+    initialBalance: 1000,
+    makerFeeRate: 0,
+    takerFeeRate: 0.001,
+    now: () => now,
+  });
+  return {
+    adapter,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+function positionAmt(snapshot: AsterAccountSnapshot | null): number {
+  return Number(snapshot?.positions.find((p) => p.symbol === "BTCUSDT")?.positionAmt ?? 0);
+}
+
+describe("MockExchangeAdapter", () => {
+  it("fills market orders against synthetic depth and tracks balance", async () => {
+    const { adapter } = createAdapter();
+    adapter.pushPrice(100, { spread: 1 });
+
+    const order = await adapter.createOrder({ symbol: "BTCUSDT", side: "BUY", type: "MARKET", quantity: 2 });
+    expect(order.status).toBe("FILLED");
+    expect(Number(order.avgPrice)).toBeCloseTo(101);
+    expect(adapter.getPositionAmount()).toBeCloseTo(2);
+
+    adapter.pushPrice(110, { spread: 1 });
+    await adapter.createOrder({ symbol: "BTCUSDT", side: "SELL", type: "MARKET", quantity: 2 });
+
+    const fills = adapter.getFills();
+    expect(fills).toHaveLength(2);
+    expect(fills[1]!.realizedPnl).toBeCloseTo(18);
+    const totalFee = fills.reduce((sum, fill) => sum + fill.fee, 0);
+    const snapshot = adapter.getAccountSnapshot();
+    expect(Number(snapshot.totalWalletBalance)).toBeCloseTo(1000 + 18 - totalFee);
+    expect(positionAmt(snapshot)).toBe(0);
+  });
+
+  it("rests limit orders, expires crossing GTX orders and fills when price trades through", async () => {
+    const { adapter } = createAdapter();
+    const updates: AsterOrder[][] = [];
+    adapter.watchOrders((orders) => updates.push(orders));
+    adapter.pushPrice(100, { spread: 0.5 });
+
+    const crossing = await adapter.createOrder({
+      symbol: "BTCUSDT",
+      side: "BUY",
+      type: "LIMIT",
+      quantity: 1,
+      price: 100.5,
+      timeInForce: "GTX",
+    });
+    expect(crossing.status).toBe("EXPIRED");
+
+    const resting = await adapter.createOrder({
+      symbol: "BTCUSDT",
+      side: "BUY",
+      type: "LIMIT",
+      quantity: 1,
+      price: 99.5,
+      timeInForce: "GTX",
+    });
+    expect(resting.status).toBe("NEW");
+    expect(updates.at(-1)?.map((o) => o.orderId)).toEqual([resting.orderId]);
+
+    adapter.pushPrice(99.4);
+    expect(adapter.getOpenOrders()).toHaveLength(0);
+    expect(updates.at(-1)).toEqual([]);
+    const fill = adapter.getFills()[0]!;
+    expect(fill.price).toBe(99.5);
+    expect(fill.maker).toBe(true);
+  });
+
+  it("triggers stop market and trailing stop orders", async () => {
+    const { adapter } = createAdapter();
+    adapter.pushPrice(100);
+    await adapter.createOrder({ symbol: "BTCUSDT", side: "BUY", type: "MARKET", quantity: 1 });
+
+    await expect(
+      adapter.createOrder({ symbol: "BTCUSDT", side: "SELL", type: "STOP_MARKET", stopPrice: 101, closePosition: "true" })
+    ).rejects.toThrow(/-2021/);
+
+    await adapter.createOrder({
+      symbol: "BTCUSDT",
+      side: "SELL",
+      type: "TRAILING_STOP_MARKET",
+      quantity: 1,
+      reduceOnly: "true",
+      activationPrice: 105,
+      callbackRate: 1,
+    });
+    adapter.pushPrice(104);
+    adapter.pushPrice(110);
+    adapter.pushPrice(109);
+    expect(adapter.getPositionAmount()).toBeCloseTo(1);
+    adapter.pushPrice(108.8);
+    expect(adapter.getPositionAmount()).toBe(0);
+
+    await adapter.createOrder({ symbol: "BTCUSDT", side: "SELL", type: "MARKET", quantity: 1 });
+    await adapter.createOrder({ symbol: "BTCUSDT", side: "BUY", type: "STOP_MARKET", stopPrice: 112, closePosition: "true" });
+    adapter.pushPrice(112);
+    expect(adapter.getPositionAmount()).toBe(0);
+    expect(adapter.getOpenOrders()).toHaveLength(0);
+  });
+
+  it("rejects reduce-only orders without a position and unknown cancels", async () => {
+    const { adapter } = createAdapter();
+    adapter.pushPrice(100);
+    await expect(
+      adapter.createOrder({ symbol: "BTCUSDT", side: "SELL", type: "MARKET", quantity: 1, reduceOnly: "true" })
+    ).rejects.toThrow(/-2022/);
+
+    const error = await adapter.cancelOrder({ symbol: "BTCUSDT", orderId: 999 }).catch((err) => err);
+    expect(isUnknownOrderError(error)).toBe(true);
+  });
+
+  it("fills resting orders only after the queue ahead has traded in queue mode", async () => {
+    const adapter = new MockExchangeAdapter({ symbol: "BTCUSDT", fillModel: "queue", makerFeeRate: 0, now: () => 1 });
+    const book = (bidQty: number): AsterDepth => ({
+      lastUpdateId: 1,
+      symbol: "BTCUSDT",
+      bids: [["100", String(bidQty)], ["99.9", "4"]],
+      asks: [["100.2", "3"]],
+    });
+    adapter.pushDepth(book(5));
+    const order = await adapter.createOrder({
+      symbol: "BTCUSDT",
+      side: "BUY",
+      type: "LIMIT",
+      quantity: 2,
+      price: 100,
+      timeInForce: "GTX",
+    });
+    expect(adapter.getQueueAhead(order.orderId)).toBe(5);
+    const pushed: AsterFill[] = [];
+    adapter.watchFills((fill) => pushed.push(fill));
+
+    adapter.pushTrade({ price: 100, quantity: 2, buyerMaker: true });
+    expect(adapter.getQueueAhead(order.orderId)).toBe(3);
+    // 前方撤单：价位数量降到 2，排队位置前移
+    adapter.pushDepth(book(2));
+    expect(adapter.getQueueAhead(order.orderId)).toBe(2);
+    // 买方主动成交不消耗买单队列
+    adapter.pushTrade({ price: 100, quantity: 5, buyerMaker: false });
+    expect(adapter.getFills()).toHaveLength(0);
+
+    adapter.pushTrade({ price: 100, quantity: 3, buyerMaker: true });
+    expect(adapter.getFills()[0]).toMatchObject({ price: 100, quantity: 1, maker: true });
+    expect(adapter.getOpenOrders()[0]).toMatchObject({ status: "PARTIALLY_FILLED", executedQty: "1" });
+    // 部分成交推送的订单状态不能是终态，否则下游会把仍在挂着的订单当作已完成
+    expect(pushed).toHaveLength(1);
+    expect(pushed[0]).toMatchObject({ orderStatus: "PARTIALLY_FILLED", lastFilledQty: "1", cumulativeFilledQty: "1" });
+
+    adapter.pushTrade({ price: 99.9, quantity: 0.5, buyerMaker: true });
+    expect(adapter.getOpenOrders()).toHaveLength(0);
+    expect(adapter.getPositionAmount()).toBeCloseTo(2);
+    expect(adapter.getOrderHistory()[0]).toMatchObject({ status: "FILLED", executedQty: "2" });
+    expect(pushed).toHaveLength(2);
+    expect(pushed[1]).toMatchObject({ orderStatus: "FILLED", lastFilledQty: "1", cumulativeFilledQty: "2" });
+  });
+
+  it("aggregates pushed prices into klines", async () => {
+    const { adapter, advance } = createAdapter();
+    const received: number[] = [];
+    adapter.watchKlines("BTCUSDT", "1m", (klines) => received.push(klines.length));
+    adapter.pushPrice(100, { volume: 1 });
+    advance(10_000);
+    adapter.pushPrice(102, { volume: 2 });
+    advance(60_000);
+    adapter.pushPrice(101, { volume: 1 });
+
+    const klines = await adapter.getKlines("BTCUSDT", "1m", 10);
+    expect(klines).toHaveLength(2);
+    expect(klines[0]!.high).toBe("102");
+    expect(klines[0]!.volume).toBe("3");
+    expect(klines[0]!.isClosed).toBe(true);
+    expect(klines[1]!.close).toBe("101");
+    expect(received.at(-1)).toBe(2);
+  });
+});
+
+describe("MakerEngine with MockExchangeAdapter", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("quotes both sides and switches to a reduce-only close after a fill", async () => {
+    vi.useFakeTimers();
+    const adapter = new MockExchangeAdapter({ symbol: "BTCUSDT", initialBalance: 1000, spread: 0.2 });
+    const config: MakerConfig = {
+      symbol: "BTCUSDT",
+      tradeAmount: 1,
+      lossLimit: 1000,
+      profitTarget: 1000,
+      priceChaseThreshold: 0.3,
+      bidOffset: 0,
+      askOffset: 0,
+      refreshIntervalMs: 100,
+      maxLogEntries: 50,
+      maxCloseSlippagePct: 0.05,
+      priceTick: 0.1,
+    };
+    const engine = new MakerEngine(config, adapter);
+    adapter.pushPrice(100);
+    engine.start();
+
+    // placeOrder 在挂单仍为 NEW 时保持 LIMIT 锁，需等待 3 秒超时才会挂出另一侧
+    await vi.advanceTimersByTimeAsync(4000);
+    const quotes = adapter.getOpenOrders();
+    expect(quotes.map((o) => o.side).sort()).toEqual(["BUY", "SELL"]);
+
+    adapter.pushPrice(99.8);
+    expect(adapter.getPositionAmount()).toBeCloseTo(1);
+
+    await vi.advanceTimersByTimeAsync(4000);
+    const closing = adapter.getOpenOrders();
+    expect(closing).toHaveLength(1);
+    expect(closing[0]!.side).toBe("SELL");
+    expect(closing[0]!.reduceOnly).toBe(true);
+    engine.stop();
+  });
+});
@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AsterExchangeAdapter } from "../src/exchanges/aster-adapter";
+import { AsterGateway, acquireAsterGateway } from "../src/exchanges/aster/client";
+import type { AsterOrder } from "../src/exchanges/types";
+
+function stubOrderEndpoint() {
+  let nextId = 1;
+  const fetchMock = vi.fn(async (input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(String(input));
+    const params = url.searchParams;
+    if (url.pathname === "/fapi/v1/order" && init?.method === "POST") {
+      const body = {
+        orderId: nextId++,
+        symbol: params.get("symbol"),
+        side: params.get("side"),
+        type: params.get("type"),
+        price: params.get("price"),
+        origQty: params.get("quantity"),
+        status: "NEW",
+      };
+      return new Response(JSON.stringify(body));
+    }
+    return new Response(JSON.stringify({ code: -1000, msg: "unexpected" }), { status: 400 });
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+describe("AsterGateway multi-symbol views", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("filters orders per symbol and only notifies the symbol that changed", async () => {
+    stubOrderEndpoint();
+    const gateway = new AsterGateway({ apiKey: "key", apiSecret: "secret" });
+    const all: AsterOrder[][] = [];
+    const bnb: AsterOrder[][] = [];
+    const sol: AsterOrder[][] = [];
+    gateway.onOrders((orders) => all.push(orders));
+    gateway.onOrders((orders) => bnb.push(orders), "bnbusdt");
+    gateway.onOrders((orders) => sol.push(orders), "SOLUSDT");
+
+    await gateway.createOrder({ symbol: "BNBUSDT", side: "BUY", type: "LIMIT", price: 600, quantity: 1 });
+    await gateway.createOrder({ symbol: "SOLUSDT", side: "SELL", type: "LIMIT", price: 150, quantity: 2 });
+
+    expect(all.at(-1)!.map((order) => order.symbol)).toEqual(["BNBUSDT", "SOLUSDT"]);
+    // 初始快照 + 本交易对一次变化
+    expect(bnb).toHaveLength(2);
+    expect(bnb.at(-1)!.map((order) => order.symbol)).toEqual(["BNBUSDT"]);
+    expect(sol).toHaveLength(2);
+    expect(sol.at(-1)!.map((order) => order.symbol)).toEqual(["SOLUSDT"]);
+    expect(gateway.getOpenOrdersSnapshot("SOLUSDT")).toHaveLength(1);
+  });
+
+  it("shares one gateway between adapters of the same API key", () => {
+    const first = acquireAsterGateway({ apiKey: "shared-key", apiSecret: "secret" });
+    expect(acquireAsterGateway({ apiKey: "shared-key", apiSecret: "secret" })).toBe(first);
+    expect(acquireAsterGateway({ apiKey: "other-key", apiSecret: "secret" })).not.toBe(first);
+  });
+
+  it("delivers only the adapter's own symbol to watchOrders", async () => {
+    stubOrderEndpoint();
+    const gateway = new AsterGateway({ apiKey: "key", apiSecret: "secret" });
+    vi.spyOn(gateway, "ensureInitialized").mockResolvedValue(undefined);
+    const bnbAdapter = new AsterExchangeAdapter({ symbol: "BNBUSDT" }, gateway);
+    const solAdapter = new AsterExchangeAdapter({ symbol: "SOLUSDT" }, gateway);
+    const bnb: AsterOrder[][] = [];
+    bnbAdapter.watchOrders((orders) => bnb.push(orders));
+
+    await solAdapter.createOrder({ symbol: "SOLUSDT", side: "BUY", type: "LIMIT", price: 150, quantity: 1 });
+    await bnbAdapter.createOrder({ symbol: "BNBUSDT", side: "BUY", type: "LIMIT", price: 600, quantity: 1 });
+
+    expect(bnb.map((orders) => orders.map((order) => order.symbol))).toEqual([[], ["BNBUSDT"]]);
+    expect(gateway.ensureInitialized).toHaveBeenCalledWith("SOLUSDT");
+  });
+});
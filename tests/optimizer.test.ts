@@ -0,0 +1,175 @@
+import dotenv from "dotenv";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import type { TradingConfig } from "../src/config";
+import {
+  applyParameters,
+  createSegments,
+  expandGrid,
+  exportParametersToEnv,
+  parseParameterSpec,
+  runOptimization,
+  sampleRandom,
+} from "../src/backtest/optimizer";
+import type { AsterKline } from "../src/exchanges/types";
+
+const START = 1_699_999_200_000;
+
+const config: TradingConfig = {
+  symbol: "BTCUSDT",
+  tradeAmount: 1,
+  lossLimit: 1000,
+  trailingProfit: 1000,
+  trailingCallbackRate: 0.2,
+  profitLockTriggerUsd: 1000,
+  profitLockOffsetUsd: 500,
+  pollIntervalMs: 5000,
+  maxLogEntries: 50,
+  klineInterval: "1m",
+  maxCloseSlippagePct: 0.5,
+  priceTick: 0.1,
+  qtyStep: 0.001,
+  feeRate: 0.0004,
+  maxDailyFeePct: 100,
+  maxHourlyFeePct: 100,
+  feeWarningThreshold: 100,
+  enableFeeProtection: false,
+  logFeeSummaryInterval: 3_600_000,
+  resetFeeCounterHour: 0,
+  enableDynamicRisk: false,
+  dynamicRiskThreshold: 0.05,
+  riskPercentage: 0.01,
+  profitTargetPercentage: 0.02,
+};
+
+function flatBar(index: number, price: number): AsterKline {
+  const value = price.toFixed(1);
+  return {
+    openTime: START + index * 60_000,
+    closeTime: START + (index + 1) * 60_000 - 1,
+    open: value,
+    high: value,
+    low: value,
+    close: value,
+    volume: "1",
+    numberOfTrades: 1,
+  };
+}
+
+describe("parameter space", () => {
+  it("expands grids and rejects unknown parameters", () => {
+    const sets = expandGrid({
+      lossLimit: { min: 0.1, max: 0.3, step: 0.1 },
+      "greedy.enabled": { values: [true, false] },
+    });
+    expect(sets).toHaveLength(6);
+    expect(sets[0]).toEqual({ lossLimit: 0.1, "greedy.enabled": true });
+    expect(sets.map((set) => set.lossLimit)).toEqual([0.1, 0.1, 0.2, 0.2, 0.3, 0.3]);
+    expect(() => expandGrid({ notAField: { values: [1] } })).toThrow("未知的优化参数");
+  });
+
+  it("samples randomly within bounds and is reproducible for a seed", () => {
+    const space = { tradeAmount: { min: 1, max: 10, integer: true }, trailingCallbackRate: { min: 0.1, max: 0.5 } };
+    const first = sampleRandom(space, 8, 42);
+    expect(first).toHaveLength(8);
+    expect(sampleRandom(space, 8, 42)).toEqual(first);
+    for (const set of first) {
+      expect(Number.isInteger(set.tradeAmount)).toBe(true);
+      expect(set.tradeAmount).toBeGreaterThanOrEqual(1);
+      expect(set.tradeAmount).toBeLessThanOrEqual(10);
+      expect(set.trailingCallbackRate).toBeGreaterThanOrEqual(0.1);
+      expect(set.trailingCallbackRate).toBeLessThanOrEqual(0.5);
+    }
+  });
+
+  it("parses command line specs", () => {
+    expect(parseParameterSpec("lossLimit=0.02:0.1:0.02")).toEqual(["lossLimit", { min: 0.02, max: 0.1, step: 0.02 }]);
+    expect(parseParameterSpec("greedy.enabled=true,false")).toEqual(["greedy.enabled", { values: [true, false] }]);
+    expect(parseParameterSpec("klineInterval=1m,5m")).toEqual(["klineInterval", { values: ["1m", "5m"] }]);
+    expect(() => parseParameterSpec("lossLimit")).toThrow("参数范围格式错误");
+  });
+
+  it("applies trading and greedy take-profit parameters", () => {
+    const applied = applyParameters(config, { lossLimit: 5, "greedy.enabled": true, "greedy.sampleSize": 12 });
+    expect(applied.lossLimit).toBe(5);
+    expect(applied.greedyTakeProfit?.enabled).toBe(true);
+    expect(applied.greedyTakeProfit?.sampleSize).toBe(12);
+    expect(config.lossLimit).toBe(1000);
+  });
+});
+
+describe("walk-forward segments", () => {
+  it("splits rolling windows with contiguous out-of-sample ranges", () => {
+    const segments = createSegments(1000, { folds: 3, inSampleRatio: 0.6 }, 50);
+    expect(segments).toHaveLength(6);
+    const outOfSample = segments.filter((segment) => segment.phase === "out-of-sample");
+    for (let i = 1; i < outOfSample.length; i += 1) {
+      expect(outOfSample[i]!.start).toBe(outOfSample[i - 1]!.end);
+    }
+    expect(outOfSample[outOfSample.length - 1]!.end).toBe(1000);
+    for (const segment of segments) {
+      expect(segment.from).toBe(Math.max(0, segment.start - 50));
+    }
+    expect(createSegments(200)).toEqual([{ fold: 0, phase: "full", from: 0, start: 0, end: 200 }]);
+    expect(() => createSegments(5, { folds: 4, inSampleRatio: 0.7 })).toThrow("walk-forward");
+  });
+});
+
+describe("env export", () => {
+  let dir: string | null = null;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = null;
+  });
+
+  it("overrides existing keys of the base file and appends missing ones", () => {
+    dir = mkdtempSync(join(tmpdir(), "optimizer-"));
+    const base = join(dir, ".env.base");
+    const target = join(dir, ".env.optimized");
+    writeFileSync(base, ["TRADE_SYMBOL=SOLUSDT", "LOSS_LIMIT=0.03", ""].join("\n"));
+    exportParametersToEnv({ lossLimit: 0.05, "greedy.enabled": true }, target, base);
+    const parsed = dotenv.parse(readFileSync(target, "utf-8"));
+    expect(parsed).toMatchObject({ TRADE_SYMBOL: "SOLUSDT", LOSS_LIMIT: "0.05", ENABLE_GREEDY_TAKE_PROFIT: "true" });
+    expect(readFileSync(base, "utf-8")).toContain("LOSS_LIMIT=0.03");
+  });
+});
+
+describe("runOptimization", () => {
+  it("ranks candidates and reports walk-forward folds", async () => {
+    const klines: AsterKline[] = [];
+    for (let i = 0; i < 40; i += 1) klines.push(flatBar(klines.length, 100));
+    for (let i = 0; i < 10; i += 1) klines.push(flatBar(klines.length, 105));
+    for (let i = 0; i < 40; i += 1) klines.push(flatBar(klines.length, 95));
+
+    const result = await runOptimization({
+      strategy: "trend",
+      klines,
+      interval: "1m",
+      baseConfig: config,
+      space: { tradeAmount: { values: [1, 2] } },
+      objective: "netProfit",
+      workers: 1,
+    });
+    expect(result.candidates).toHaveLength(2);
+    expect(result.candidates.map((candidate) => candidate.rank)).toEqual([1, 2]);
+    expect(result.candidates[0]!.score).toBeGreaterThanOrEqual(result.candidates[1]!.score);
+    expect(result.folds).toHaveLength(0);
+
+    const walkForward = await runOptimization({
+      strategy: "trend",
+      klines,
+      interval: "1m",
+      baseConfig: config,
+      space: { tradeAmount: { values: [1] } },
+      walkForward: { folds: 2, inSampleRatio: 0.6 },
+      warmupBars: 30,
+      workers: 1,
+    });
+    expect(walkForward.folds).toHaveLength(2);
+    expect(walkForward.candidates[0]!.inSample).toHaveLength(2);
+    expect(walkForward.candidates[0]!.outOfSample).toHaveLength(2);
+  }, 30_000);
+});
@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { LocalOrderBook } from "../src/exchanges/aster/order-book";
+import type { AsterDepth, AsterDepthLevel } from "../src/exchanges/types";
+
+function diff(firstUpdateId: number, lastUpdateId: number, prevUpdateId: number, bids: AsterDepthLevel[], asks: AsterDepthLevel[] = []): AsterDepth {
+  return { symbol: "BTCUSDT", eventType: "depthUpdate", firstUpdateId, lastUpdateId, prevUpdateId, bids, asks };
+}
+
+const snapshot: AsterDepth = {
+  symbol: "BTCUSDT",
+  lastUpdateId: 100,
+  bids: [
+    ["99.9", "2"],
+    ["100.0", "1"],
+    ["99.8", "3"],
+  ],
+  asks: [
+    ["100.2", "4"],
+    ["100.1", "1"],
+  ],
+};
+
+async function flush(): Promise<void> {
+  for (let i = 0; i < 5; i += 1) await Promise.resolve();
+}
+
+describe("LocalOrderBook", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("applies buffered diffs on top of the snapshot and drops stale ones", async () => {
+    const fetchSnapshot = vi.fn(async () => snapshot);
+    const updates: number[] = [];
+    const book = new LocalOrderBook({
+      symbol: "btcusdt",
+      fetchSnapshot,
+      onUpdate: (updated) => updates.push(updated.getLastUpdateId()),
+      log: () => undefined,
+    });
+
+    book.handleDiff(diff(90, 95, 89, [["100.0", "5"]]));
+    book.handleDiff(diff(96, 102, 95, [["100.0", "0"], ["99.7", "1"]]));
+    expect(book.getDepth()).toBeNull();
+    await flush();
+
+    expect(fetchSnapshot).toHaveBeenCalledTimes(1);
+    expect(book.isSynced()).toBe(true);
+    book.handleDiff(diff(103, 104, 102, [], [["100.1", "0"], ["100.3", "2"]]));
+
+    const depth = book.getDepth(2)!;
+    expect(depth.lastUpdateId).toBe(104);
+    expect(depth.bids).toEqual([
+      ["99.9", "2"],
+      ["99.8", "3"],
+    ]);
+    expect(depth.asks).toEqual([
+      ["100.2", "4"],
+      ["100.3", "2"],
+    ]);
+    expect(book.getDepth()!.bids).toHaveLength(3);
+    expect(updates).toEqual([102, 104]);
+  });
+
+  it("resyncs from a new snapshot when the diff sequence has a gap", async () => {
+    const snapshots: AsterDepth[] = [snapshot, { ...snapshot, lastUpdateId: 110, bids: [["101.0", "1"]] }];
+    const fetchSnapshot = vi.fn(async () => snapshots.shift()!);
+    const log = vi.fn();
+    const book = new LocalOrderBook({ symbol: "BTCUSDT", fetchSnapshot, log });
+
+    book.handleDiff(diff(99, 101, 98, []));
+    await flush();
+    expect(book.getLastUpdateId()).toBe(101);
+
+    // pu=105 与本地 101 不连续
+    book.handleDiff(diff(106, 111, 105, [["100.5", "1"]]));
+    expect(book.isSynced()).toBe(false);
+    await flush();
+
+    expect(fetchSnapshot).toHaveBeenCalledTimes(2);
+    expect(book.getResyncCount()).toBe(1);
+    expect(log).toHaveBeenCalledWith(expect.stringContaining("增量序列缺口"));
+    const depth = book.getDepth()!;
+    expect(depth.lastUpdateId).toBe(111);
+    expect(depth.bids).toEqual([
+      ["101.0", "1"],
+      ["100.5", "1"],
+    ]);
+  });
+
+  it("retries when the snapshot fails or is older than the buffered diffs", async () => {
+    vi.useFakeTimers();
+    const fetchSnapshot = vi
+      .fn<(symbol: string) => Promise<AsterDepth>>()
+      .mockRejectedValueOnce(new Error("HTTP 500"))
+      .mockResolvedValueOnce(snapshot)
+      .mockResolvedValueOnce({ ...snapshot, lastUpdateId: 130 });
+    const book = new LocalOrderBook({ symbol: "BTCUSDT", fetchSnapshot, retryDelayMs: 500, log: () => undefined });
+
+    book.handleDiff(diff(120, 125, 119, []));
+    await flush();
+    expect(book.isSynced()).toBe(false);
+    await vi.advanceTimersByTimeAsync(500);
+    // 快照 100 落后于增量 120，继续等待
+    expect(fetchSnapshot).toHaveBeenCalledTimes(2);
+    expect(book.isSynced()).toBe(false);
+
+    book.handleDiff(diff(126, 131, 125, [["99.5", "1"]]));
+    await vi.advanceTimersByTimeAsync(500);
+    expect(fetchSnapshot).toHaveBeenCalledTimes(3);
+    expect(book.isSynced()).toBe(true);
+    expect(book.getLastUpdateId()).toBe(131);
+
+    book.stop();
+    expect(book.getDepth()).toBeNull();
+  });
+});
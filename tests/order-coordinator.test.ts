@@ -1,6 +1,6 @@
-import { describe, expect, it, vi } from "vitest";
+import { afterEach, describe, expect, it, vi } from "vitest";
 import type { ExchangeAdapter } from "../src/exchanges/adapter.js";
-import type { AsterOrder } from "../src/exchanges/types.js";
+import type { AsterOrder, AsterSymbolFilters } from "../src/exchanges/types.js";
 import type { OrderLockMap, OrderTimerMap, OrderPendingMap } from "../src/core/order-coordinator.js";
 import {
   deduplicateOrders,
@@ -11,6 +11,8 @@ import {
   marketClose,
   unlockOperating,
 } from "../src/core/order-coordinator";
+import { ClientOrderIdFactory, deriveInstanceName } from "../src/core/lib/client-order-id";
+import { MockExchangeAdapter } from "../src/exchanges/mock-adapter";
 
 const baseOrder: AsterOrder = {
   orderId: 1,
@@ -32,16 +34,17 @@ const baseOrder: AsterOrder = {
 function createMockExchange(overrides: Partial<ExchangeAdapter> = {}): ExchangeAdapter {
   return {
     id: "mock",
-    watchAccount: () => undefined,
-    watchOrders: () => undefined,
-    watchDepth: () => undefined,
-    watchTicker: () => undefined,
-    watchKlines: () => undefined,
+    watchAccount: () => () => undefined,
+    watchOrders: () => () => undefined,
+    watchDepth: () => () => undefined,
+    watchTicker: () => () => undefined,
+    watchKlines: () => () => undefined,
     createOrder: vi.fn(async () => baseOrder),
     cancelOrder: vi.fn(async () => undefined),
     cancelOrders: vi.fn(async () => undefined),
     cancelAllOrders: vi.fn(async () => undefined),
     getKlines: vi.fn(async () => []),
+    close: async () => undefined,
     ...overrides,
   };
 }
@@ -175,6 +178,75 @@ describe("order-coordinator", () => {
     expect(log).toHaveBeenCalledWith("close", expect.stringContaining("市价平仓"));
   });
 
+  it("rounds orders with exchange filters before sending", async () => {
+    const filters: AsterSymbolFilters = {
+      symbol: "BTCUSDT",
+      priceTick: 0.5,
+      minPrice: 0.5,
+      maxPrice: 0,
+      qtyStep: 0.01,
+      minQty: 0.01,
+      maxQty: 0,
+      marketQtyStep: 0.01,
+      marketMinQty: 0.01,
+      marketMaxQty: 0,
+      minNotional: 5,
+      percentPriceUp: 0,
+      percentPriceDown: 0,
+    };
+    const getSymbolFilters = vi.fn(async () => filters);
+    const adapter = createMockExchange({ getSymbolFilters });
+    const log = vi.fn();
+    await placeOrder(adapter, "BTCUSDT", [], {}, {}, {}, "BUY", 100.3, 0.123, log, false, undefined, {
+      priceTick: 0.1,
+      qtyStep: 0.001,
+    });
+    expect(adapter.createOrder).toHaveBeenCalledWith(expect.objectContaining({ price: 100, quantity: 0.12 }));
+
+    await placeOrder(adapter, "BTCUSDT", [], {}, {}, {}, "BUY", 100, 0.02, log, false, undefined, {
+      priceTick: 0.1,
+      qtyStep: 0.001,
+    });
+    expect(adapter.createOrder).toHaveBeenCalledTimes(1);
+    expect(log).toHaveBeenCalledWith("error", expect.stringContaining("MIN_NOTIONAL"));
+    // 交易规则按适配器缓存
+    expect(getSymbolFilters).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps exchange precision when the configured tick and step are coarser", async () => {
+    const filters: AsterSymbolFilters = {
+      symbol: "BTCUSDT",
+      priceTick: 0.01,
+      minPrice: 0.01,
+      maxPrice: 0,
+      qtyStep: 0.001,
+      minQty: 0.001,
+      maxQty: 0,
+      marketQtyStep: 0.001,
+      marketMinQty: 0.001,
+      marketMaxQty: 0,
+      minNotional: 0,
+      percentPriceUp: 0,
+      percentPriceDown: 0,
+    };
+    const adapter = createMockExchange({ getSymbolFilters: vi.fn(async () => filters) });
+    const log = vi.fn();
+    await placeOrder(adapter, "BTCUSDT", [], {}, {}, {}, "BUY", 100.37, 0.123, log, false, undefined, {
+      priceTick: 0.5,
+      qtyStep: 0.1,
+    });
+    expect(adapter.createOrder).toHaveBeenLastCalledWith(expect.objectContaining({ price: 100.37, quantity: 0.123 }));
+
+    await placeStopLossOrder(adapter, "BTCUSDT", [], {}, {}, {}, "SELL", 99.93, 0.123, 100.37, log, undefined, {
+      priceTick: 0.5,
+      qtyStep: 0.1,
+    });
+    expect(adapter.createOrder).toHaveBeenLastCalledWith(expect.objectContaining({ stopPrice: 99.93 }));
+
+    await marketClose(adapter, "BTCUSDT", [], {}, {}, {}, "SELL", 0.123, log, undefined, { qtyStep: 0.1 });
+    expect(adapter.createOrder).toHaveBeenLastCalledWith(expect.objectContaining({ type: "MARKET", quantity: 0.123 }));
+  });
+
   it("unlockOperating clears timers and pending", () => {
     const locks: OrderLockMap = { LIMIT: true };
     const fakeTimer = {} as ReturnType<typeof setTimeout>;
@@ -186,3 +258,91 @@ describe("order-coordinator", () => {
     expect(timers.LIMIT).toBeNull();
   });
 });
+
+describe("idempotent order submission", () => {
+  const timeout = () => new Error("[AsterRestClient] 请求失败 TypeError: fetch failed");
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function submitMarket(adapter: ExchangeAdapter, clientOrderIds: ClientOrderIdFactory, log = vi.fn()) {
+    vi.useFakeTimers();
+    const timers: OrderTimerMap = {};
+    const result = placeMarketOrder(adapter, "BTCUSDT", [], {}, timers, {}, "BUY", 1, log, false, undefined, {
+      qtyStep: 0.001,
+      clientOrderIds,
+    });
+    const settled = result.then(
+      (order) => ({ order, error: null }),
+      (error: unknown) => ({ order: undefined, error })
+    );
+    await vi.advanceTimersByTimeAsync(2000);
+    Object.values(timers).forEach((timer) => timer && clearTimeout(timer));
+    return settled;
+  }
+
+  it("builds deterministic client order ids within the exchange limits", () => {
+    const ids = new ClientOrderIdFactory("trend", deriveInstanceName("BTCUSDT"), "s1");
+    expect(ids.next("mkt")).toBe("trend-btc-s1-mkt-1");
+    expect(ids.next("sl")).toBe("trend-btc-s1-sl-2");
+    expect(ids.owns("trend-btc-s1-mkt-1")).toBe(true);
+    expect(ids.owns("maker-btc-s1-mkt-1")).toBe(false);
+    const long = new ClientOrderIdFactory("strategy name", "instance/with spaces", "session-long").next("cls");
+    expect(long.length).toBeLessThanOrEqual(36);
+    expect(long).toMatch(/^[.:/A-Za-z0-9_-]+$/);
+  });
+
+  it("does not resend when the timed-out order already landed", async () => {
+    const adapter = new MockExchangeAdapter({ symbol: "BTCUSDT" });
+    adapter.pushPrice(100);
+    const real = adapter.createOrder.bind(adapter);
+    const createOrder = vi.spyOn(adapter, "createOrder").mockImplementationOnce(async (params) => {
+      await real(params);
+      throw timeout();
+    });
+
+    const { order, error } = await submitMarket(adapter, new ClientOrderIdFactory("trend", "btc", "s1"));
+    expect(error).toBeNull();
+    expect(order?.clientOrderId).toBe("trend-btc-s1-mkt-1");
+    expect(createOrder).toHaveBeenCalledTimes(1);
+    expect(adapter.getPositionAmount("BTCUSDT")).toBe(1);
+  });
+
+  it("resends with the same client order id when the order never landed", async () => {
+    const adapter = new MockExchangeAdapter({ symbol: "BTCUSDT" });
+    adapter.pushPrice(100);
+    const createOrder = vi.spyOn(adapter, "createOrder").mockRejectedValueOnce(timeout());
+
+    const { order } = await submitMarket(adapter, new ClientOrderIdFactory("trend", "btc", "s1"));
+    expect(order?.status).toBe("FILLED");
+    expect(createOrder).toHaveBeenCalledTimes(2);
+    expect(createOrder.mock.calls[1]![0].newClientOrderId).toBe(createOrder.mock.calls[0]![0].newClientOrderId);
+    expect(adapter.getPositionAmount("BTCUSDT")).toBe(1);
+  });
+
+  it("gives up instead of resending when the order status cannot be confirmed", async () => {
+    const adapter = new MockExchangeAdapter({ symbol: "BTCUSDT" });
+    adapter.pushPrice(100);
+    const createOrder = vi.spyOn(adapter, "createOrder").mockRejectedValueOnce(timeout());
+    vi.spyOn(adapter, "queryOrder").mockRejectedValueOnce(timeout());
+
+    const { error } = await submitMarket(adapter, new ClientOrderIdFactory("trend", "btc", "s1"));
+    expect(error).toBeInstanceOf(Error);
+    expect(createOrder).toHaveBeenCalledTimes(1);
+    expect(adapter.getPositionAmount("BTCUSDT")).toBe(0);
+  });
+
+  it("rejects exchange errors without retrying", async () => {
+    const queryOrder = vi.fn(async () => baseOrder);
+    const adapter = createMockExchange({
+      createOrder: vi.fn(async () => {
+        throw new Error('HTTP 400 {"code":-2019,"msg":"Margin is insufficient."}');
+      }),
+      queryOrder,
+    });
+    const { error } = await submitMarket(adapter, new ClientOrderIdFactory("trend", "btc", "s1"));
+    expect(String(error)).toContain("-2019");
+    expect(queryOrder).not.toHaveBeenCalled();
+  });
+});
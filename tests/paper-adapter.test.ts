@@ -0,0 +1,125 @@
+import { describe, expect, it, vi } from "vitest";
+import type { AsterDepth, AsterKline, AsterMarkPrice, AsterTicker, AsterTrade } from "../src/exchanges/types";
+import { PaperExchangeAdapter } from "../src/exchanges/paper-adapter";
+
+function createFakeStreams() {
+  const depthHandlers: Array<(depth: AsterDepth) => void> = [];
+  const tickerHandlers: Array<(ticker: AsterTicker) => void> = [];
+  const klineHandlers: Array<(kline: AsterKline) => void> = [];
+  const tradeHandlers: Array<(trade: AsterTrade) => void> = [];
+  const markPriceHandlers: Array<(mark: AsterMarkPrice) => void> = [];
+  return {
+    streams: {
+      subscribeDepth: vi.fn((_symbol: string, handler: (depth: AsterDepth) => void) => {
+        depthHandlers.push(handler);
+      }),
+      subscribeTicker: vi.fn((_symbol: string, handler: (ticker: AsterTicker) => void) => {
+        tickerHandlers.push(handler);
+      }),
+      subscribeKline: vi.fn((_symbol: string, _interval: string, handler: (kline: AsterKline) => void) => {
+        klineHandlers.push(handler);
+      }),
+      subscribeTrades: vi.fn((_symbol: string, handler: (trade: AsterTrade) => void) => {
+        tradeHandlers.push(handler);
+      }),
+      subscribeMarkPrice: vi.fn((_symbol: string, handler: (mark: AsterMarkPrice) => void) => {
+        markPriceHandlers.push(handler);
+      }),
+      disconnect: vi.fn(),
+    },
+    emitDepth: (depth: AsterDepth) => depthHandlers.forEach((handler) => handler(depth)),
+    emitTicker: (ticker: AsterTicker) => tickerHandlers.forEach((handler) => handler(ticker)),
+    emitTrade: (trade: AsterTrade) => tradeHandlers.forEach((handler) => handler(trade)),
+    emitMarkPrice: (mark: AsterMarkPrice) => markPriceHandlers.forEach((handler) => handler(mark)),
+  };
+}
+
+function depth(bid: string, ask: string): AsterDepth {
+  return { lastUpdateId: 1, symbol: "BTCUSDT", bids: [[bid, "5"]], asks: [[ask, "5"]] };
+}
+
+describe("PaperExchangeAdapter", () => {
+  it("fills against live depth snapshots with the configured fee rate", async () => {
+    const fake = createFakeStreams();
+    const adapter = new PaperExchangeAdapter({
+      symbol: "BTCUSDT",
+      initialBalance: 1000,
+      feeRate: 0.001,
+      streams: fake.streams,
+      loadKlines: async () => [],
+    });
+    const depthUpdates: AsterDepth[] = [];
+    adapter.watchDepth("BTCUSDT", (next) => depthUpdates.push(next));
+    expect(fake.streams.subscribeDepth).toHaveBeenCalledTimes(1);
+
+    fake.emitDepth(depth("100", "100.5"));
+    expect(depthUpdates).toHaveLength(1);
+
+    const order = await adapter.createOrder({ symbol: "BTCUSDT", side: "BUY", type: "MARKET", quantity: 2 });
+    expect(order.status).toBe("FILLED");
+    expect(Number(order.avgPrice)).toBe(100.5);
+
+    const resting = await adapter.createOrder({
+      symbol: "BTCUSDT",
+      side: "SELL",
+      type: "LIMIT",
+      quantity: 2,
+      price: 101,
+      timeInForce: "GTX",
+      reduceOnly: "true",
+    });
+    expect(resting.status).toBe("NEW");
+
+    fake.emitDepth(depth("101.2", "101.5"));
+    const fills = adapter.getFills();
+    expect(fills).toHaveLength(2);
+    expect(fills[1]!.price).toBe(101);
+    expect(fills[1]!.fee).toBeCloseTo(2 * 101 * 0.001);
+
+    const snapshot = adapter.getAccountSnapshot();
+    const expected = 1000 + (101 - 100.5) * 2 - 2 * 100.5 * 0.001 - 2 * 101 * 0.001;
+    expect(Number(snapshot.totalWalletBalance)).toBeCloseTo(expected);
+  });
+
+  it("forwards live trades and matches resting orders against trade prices", async () => {
+    const fake = createFakeStreams();
+    const adapter = new PaperExchangeAdapter({ symbol: "BTCUSDT", streams: fake.streams, loadKlines: async () => [] });
+    const trades: AsterTrade[] = [];
+    adapter.watchTrades("BTCUSDT", (trade) => trades.push(trade));
+    adapter.watchTrades("BTCUSDT", () => undefined);
+    expect(fake.streams.subscribeTrades).toHaveBeenCalledTimes(1);
+
+    fake.emitDepth(depth("100.2", "100.5"));
+    await adapter.createOrder({ symbol: "BTCUSDT", side: "BUY", type: "LIMIT", quantity: 1, price: 100, timeInForce: "GTX" });
+    const trade: AsterTrade = {
+      symbol: "BTCUSDT",
+      aggTradeId: 42,
+      price: "99.9",
+      quantity: "3",
+      tradeTime: 1,
+      buyerMaker: true,
+    };
+    fake.emitTrade(trade);
+
+    expect(trades).toEqual([trade]);
+    expect(adapter.getFills()).toHaveLength(1);
+    expect(adapter.getFills()[0]!.price).toBe(100);
+  });
+
+  it("seeds klines from the public REST loader without credentials", async () => {
+    const fake = createFakeStreams();
+    const seed: AsterKline[] = [
+      { openTime: 0, closeTime: 59_999, open: "1", high: "2", low: "1", close: "2", volume: "3", numberOfTrades: 1 },
+    ];
+    const loadKlines = vi.fn(async () => seed);
+    const adapter = new PaperExchangeAdapter({ symbol: "BTCUSDT", streams: fake.streams, loadKlines });
+    const received: AsterKline[][] = [];
+    adapter.watchKlines("BTCUSDT", "1m", (klines) => received.push(klines));
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0]![0]!.close).toBe("2");
+    expect(loadKlines).toHaveBeenCalledWith("BTCUSDT", "1m", 120);
+
+    adapter.disconnect();
+    expect(fake.streams.disconnect).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,132 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { MakerConfig } from "../src/config";
+import { MakerEngine } from "../src/core/maker-engine";
+import { MockExchangeAdapter } from "../src/exchanges/mock-adapter";
+import {
+  RecordingExchangeAdapter,
+  loadRecording,
+  parseRecording,
+  type RecordedEvent,
+} from "../src/exchanges/recording-adapter";
+import { ReplayExchangeAdapter } from "../src/exchanges/replay-adapter";
+
+const START = 1_700_000_000_000;
+
+const makerConfig: MakerConfig = {
+  symbol: "BTCUSDT",
+  tradeAmount: 1,
+  lossLimit: 1000,
+  profitTarget: 1000,
+  priceChaseThreshold: 0.3,
+  bidOffset: 0,
+  askOffset: 0,
+  refreshIntervalMs: 100,
+  maxLogEntries: 50,
+  maxCloseSlippagePct: 0.05,
+  priceTick: 0.1,
+};
+
+function createOrderCalls(events: Array<{ kind: string; params?: unknown }>) {
+  return events
+    .filter((event) => event.kind === "createOrder")
+    .map((event) => {
+      const params = event.params as { side: string; type: string; price?: number; reduceOnly?: string };
+      return { side: params.side, type: params.type, price: params.price, reduceOnly: params.reduceOnly };
+    });
+}
+
+describe("record and replay", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("replays a recorded MakerEngine session and reproduces the same order calls", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(START);
+    const lines: string[] = [];
+    const mock = new MockExchangeAdapter({ symbol: "BTCUSDT", initialBalance: 1000, spread: 0.2 });
+    const recorder = new RecordingExchangeAdapter(mock, { sink: (line) => lines.push(line) });
+    const live = new MakerEngine(makerConfig, recorder);
+    mock.pushPrice(100);
+    live.start();
+    await vi.advanceTimersByTimeAsync(4000);
+    mock.pushPrice(99.8);
+    await vi.advanceTimersByTimeAsync(4000);
+    live.stop();
+
+    const events = parseRecording(lines.join("\n"));
+    expect(events.some((event) => event.kind === "depth")).toBe(true);
+    const recordedOrders = createOrderCalls(events as Array<{ kind: string; params?: unknown }>);
+    expect(recordedOrders.length).toBeGreaterThanOrEqual(3);
+
+    vi.setSystemTime(START);
+    const replay = new ReplayExchangeAdapter(events, {
+      advanceClock: (ms) => vi.advanceTimersByTimeAsync(ms),
+    });
+    const replayed = new MakerEngine(makerConfig, replay);
+    await replay.advanceTo(START);
+    replayed.start();
+    await replay.advanceTo(START + 8000);
+    replayed.stop();
+
+    expect(replay.hasNext()).toBe(false);
+    expect(createOrderCalls(replay.getCalls())).toEqual(recordedOrders);
+    expect(replayed.getSnapshot().position.positionAmt).toBeCloseTo(1);
+  });
+
+  it("answers calls that diverge from the recording without consuming unrelated recorded calls", async () => {
+    const lines: string[] = [];
+    const mock = new MockExchangeAdapter({ symbol: "BTCUSDT", initialBalance: 1000, spread: 0.2 });
+    const recorder = new RecordingExchangeAdapter(mock, { sink: (line) => lines.push(line) });
+    mock.pushPrice(100);
+    const recordedOrder = await recorder.createOrder({ symbol: "BTCUSDT", side: "BUY", type: "LIMIT", price: 99, quantity: 1, timeInForce: "GTX" });
+
+    const replay = new ReplayExchangeAdapter(parseRecording(lines.join("\n")));
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const diverged = await replay.createOrder({ symbol: "BTCUSDT", side: "SELL", type: "LIMIT", price: 101, quantity: 1, timeInForce: "GTX" });
+    warn.mockRestore();
+    expect(diverged.orderId).toBeLessThan(0);
+    expect(diverged).toMatchObject({ side: "SELL", status: "NEW" });
+    expect(replay.getDivergentCalls()).toHaveLength(1);
+
+    // 录制的买单仍留给匹配的调用
+    const matched = await replay.createOrder({ symbol: "BTCUSDT", side: "BUY", type: "LIMIT", price: 99, quantity: 1, timeInForce: "GTX" });
+    expect(matched.orderId).toBe(recordedOrder.orderId);
+    expect(replay.getDivergentCalls()).toHaveLength(1);
+  });
+
+  it("writes NDJSON files and replays recorded errors", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "ritmex-recording-"));
+    try {
+      const filePath = join(dir, "session.ndjson");
+      let now = START;
+      const mock = new MockExchangeAdapter({ symbol: "BTCUSDT", now: () => now });
+      const recorder = new RecordingExchangeAdapter(mock, { filePath, now: () => now });
+      const depths: number[] = [];
+      recorder.watchDepth("BTCUSDT", (depth) => depths.push(Number(depth.bids[0]![0])));
+      mock.pushPrice(100);
+      now += 1000;
+      await expect(recorder.cancelOrder({ symbol: "BTCUSDT", orderId: 42 })).rejects.toThrow(/-2011/);
+      mock.pushPrice(101);
+      await recorder.close();
+
+      const events: RecordedEvent[] = loadRecording(filePath);
+      expect(events.map((event) => event.kind)).toEqual(["depth", "cancelOrder", "depth"]);
+
+      const replay = ReplayExchangeAdapter.fromFile(filePath);
+      const replayedDepths: number[] = [];
+      replay.watchDepth("BTCUSDT", (depth) => replayedDepths.push(Number(depth.bids[0]![0])));
+      expect(await replay.advanceTo(START)).toBe(1);
+      expect(replay.now()).toBe(START);
+      await replay.runToEnd();
+      expect(replayedDepths).toEqual(depths);
+      expect(replay.now()).toBe(START + 1000);
+      await expect(replay.cancelOrder({ symbol: "BTCUSDT", orderId: 42 })).rejects.toThrow(/-2011/);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
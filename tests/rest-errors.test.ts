@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AsterRestClient } from "../src/exchanges/aster/client";
+import { RateLimitTracker } from "../src/exchanges/aster/rate-limit";
+import { ExchangeRequestError, classifyExchangeError, isRetryableError } from "../src/utils/errors";
+
+function headers(values: Record<string, string>): { get(name: string): string | null } {
+  return { get: (name) => values[name] ?? null };
+}
+
+describe("classifyExchangeError", () => {
+  it("maps status codes and exchange error codes to kinds", () => {
+    expect(classifyExchangeError(new Error('HTTP 429 {"code":-1003,"msg":"Too many requests"}'))).toBe("rate_limit");
+    expect(classifyExchangeError(new Error('HTTP 418 {"code":-1003,"msg":"banned until 1700000000000"}'))).toBe("ip_banned");
+    expect(classifyExchangeError(new Error('HTTP 400 {"code":-1021,"msg":"Timestamp outside of recvWindow"}'))).toBe("timestamp");
+    expect(classifyExchangeError(new Error('HTTP 400 {"code":-2019,"msg":"Margin is insufficient."}'))).toBe("insufficient_margin");
+    expect(classifyExchangeError(new Error('HTTP 400 {"code":-2022,"msg":"ReduceOnly Order is rejected."}'))).toBe("reduce_only_rejected");
+    expect(classifyExchangeError(new Error('HTTP 400 {"code":-5022,"msg":"Post Only order will be rejected"}'))).toBe("post_only_rejected");
+    expect(classifyExchangeError(new Error('HTTP 400 {"code":-1013,"msg":"Filter failure: PRICE_FILTER"}'))).toBe("invalid_price");
+    expect(classifyExchangeError(new Error('HTTP 400 {"code":-1013,"msg":"Filter failure: LOT_SIZE"}'))).toBe("invalid_quantity");
+    expect(classifyExchangeError(new Error("HTTP 503 Service Unavailable"))).toBe("server");
+    expect(classifyExchangeError(new ExchangeRequestError("[AsterRestClient] 请求失败 TypeError: fetch failed", null))).toBe("network");
+  });
+
+  it("only retries server and network failures of idempotent requests", () => {
+    const server = new Error("HTTP 502 Bad Gateway");
+    expect(isRetryableError(server)).toBe(true);
+    expect(isRetryableError(server, false)).toBe(false);
+    expect(isRetryableError(new Error('HTTP 429 {"code":-1003,"msg":"Too many requests"}'), false)).toBe(true);
+    expect(isRetryableError(new Error('HTTP 400 {"code":-2019,"msg":"Margin is insufficient."}'))).toBe(false);
+  });
+});
+
+describe("RateLimitTracker", () => {
+  it("waits for the next window once usage nears the limit", () => {
+    let now = 60_000 * 10 + 45_000;
+    const tracker = new RateLimitTracker({ weight1m: 100, orders10s: 10 }, () => now);
+    tracker.update(headers({ "x-mbx-used-weight-1m": "50", "x-mbx-order-count-10s": "9" }));
+    expect(tracker.waitTime(false)).toBe(0);
+    expect(tracker.waitTime(true)).toBe(5_000);
+
+    tracker.update(headers({ "x-mbx-used-weight-1m": "95" }));
+    expect(tracker.waitTime(false)).toBe(15_000);
+    now += 15_000;
+    expect(tracker.waitTime(true)).toBe(0);
+    expect(tracker.getUsage()).toMatchObject({ weight1m: 0, orders10s: 0, weightLimit1m: 100 });
+  });
+
+  it("records bans from the error message or Retry-After", () => {
+    const now = 1_000_000;
+    const tracker = new RateLimitTracker({}, () => now);
+    expect(tracker.ban(30_000)).toBe(now + 30_000);
+    expect(tracker.ban(null, 'HTTP 418 {"code":-1003,"msg":"Way too many requests; IP banned until 1600000."}')).toBe(1_600_000);
+    expect(tracker.getUsage().bannedUntil).toBe(1_600_000);
+  });
+});
+
+describe("AsterRestClient retries", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  function response(status: number, body: unknown, extra: Record<string, string> = {}): Response {
+    return new Response(JSON.stringify(body), { status, headers: { "x-mbx-used-weight-1m": "12", ...extra } });
+  }
+
+  it("retries rate-limited requests after Retry-After and tracks the weight header", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(response(429, { code: -1003, msg: "Too many requests" }, { "retry-after": "0" }))
+      .mockResolvedValueOnce(response(200, []));
+    vi.stubGlobal("fetch", fetchMock);
+    const client = new AsterRestClient({ apiKey: "key", apiSecret: "secret" });
+
+    await expect(client.getIncomeHistory()).resolves.toEqual([]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(client.getRateLimitUsage().weight1m).toBe(12);
+  });
+
+  it("does not resend an order after a server error", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(response(503, { code: -1001, msg: "Internal error" }));
+    vi.stubGlobal("fetch", fetchMock);
+    const client = new AsterRestClient({ apiKey: "key", apiSecret: "secret" });
+
+    const error = await client
+      .createOrder({ symbol: "BTCUSDT", side: "BUY", type: "MARKET", quantity: 1 })
+      .catch((reason: unknown) => reason);
+    expect(error).toBeInstanceOf(ExchangeRequestError);
+    expect(error).toMatchObject({ kind: "server", status: 503 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,76 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, expect, it } from "vitest";
+import { MockExchangeAdapter } from "../src/exchanges/mock-adapter";
+import { createConfigSchema } from "../src/strategies/config-schema";
+import { BUILTIN_PLUGIN_DIR, StrategyRegistry, getStrategyPluginDirs, loadStrategyRegistry } from "../src/strategies/registry";
+
+describe("StrategyRegistry", () => {
+  it("discovers the built-in strategies in menu order", async () => {
+    const registry = await loadStrategyRegistry([BUILTIN_PLUGIN_DIR]);
+    const plugins = registry.list();
+    expect(plugins.map((plugin) => plugin.id)).toEqual(["trend", "enhanced-trend", "maker", "offset-maker", "grid"]);
+    expect(registry.get("enhanced-trend")?.requirements).toEqual(["Redis"]);
+    expect(plugins.every((plugin) => plugin.panel)).toBe(true);
+
+    const maker = registry.get("maker")!;
+    const config = maker.config.load({ TRADE_SYMBOL: "ETHUSDT", TRADE_AMOUNT: "1" });
+    expect(config.symbol).toBe("ETHUSDT");
+    const engine = maker.createEngine(config, new MockExchangeAdapter({ symbol: "ETHUSDT" }));
+    expect(engine.getState()).toBe("init");
+    expect(engine.getSnapshot().symbol).toBe("ETHUSDT");
+  });
+
+  it("loads external plugins from STRATEGY_PLUGIN_DIR", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "ritmex-plugins-"));
+    try {
+      writeFileSync(
+        join(dir, "custom.mjs"),
+        [
+          "export default {",
+          "  id: 'custom', name: '自定义策略', description: 'test', order: 15,",
+          "  config: { fields: [], load: (env) => ({ symbol: env.TRADE_SYMBOL ?? 'BTCUSDT' }) },",
+          "  createEngine: () => ({}),",
+          "};",
+        ].join("\n")
+      );
+      writeFileSync(join(dir, "_helper.mjs"), "export default { id: 'helper' };\n");
+      writeFileSync(join(dir, "invalid.mjs"), "export const value = 1;\n");
+
+      const dirs = getStrategyPluginDirs({ STRATEGY_PLUGIN_DIR: dir });
+      expect(dirs).toEqual([BUILTIN_PLUGIN_DIR, dir]);
+      const registry = await loadStrategyRegistry(dirs);
+      expect(registry.list().map((plugin) => plugin.id)).toEqual(["trend", "custom", "enhanced-trend", "maker", "offset-maker", "grid"]);
+      expect(registry.get("custom")?.panel).toBeUndefined();
+      expect(registry.get("helper")).toBeUndefined();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("rejects duplicate strategy ids", () => {
+    const registry = new StrategyRegistry();
+    const plugin = {
+      id: "dup",
+      name: "dup",
+      description: "",
+      config: createConfigSchema<{ symbol: string }>([]),
+      createEngine: () => {
+        throw new Error("unused");
+      },
+    };
+    registry.register(plugin);
+    expect(() => registry.register(plugin)).toThrow("策略 dup 已注册");
+  });
+
+  it("parses env values according to the config schema", () => {
+    const schema = createConfigSchema<{ symbol: string; amount: number; enabled: boolean }>([
+      { key: "symbol", env: "TRADE_SYMBOL", type: "string", default: "BTCUSDT", description: "交易对" },
+      { key: "amount", env: "AMOUNT", type: "number", default: 1, description: "数量" },
+      { key: "enabled", env: "ENABLED", type: "boolean", default: false, description: "开关" },
+    ]);
+    expect(schema.load({ AMOUNT: "2.5", ENABLED: "TRUE" })).toEqual({ symbol: "BTCUSDT", amount: 2.5, enabled: true });
+    expect(schema.load({ AMOUNT: "abc" })).toEqual({ symbol: "BTCUSDT", amount: 1, enabled: false });
+  });
+});
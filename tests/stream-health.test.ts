@@ -0,0 +1,122 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { makerConfig } from "../src/config";
+import { MakerEngine } from "../src/core/maker-engine";
+import { StreamHealthTracker } from "../src/exchanges/aster/stream-health";
+import { MockExchangeAdapter } from "../src/exchanges/mock-adapter";
+import type { StreamHealth } from "../src/exchanges/types";
+import { formatStreamHealth } from "../src/utils/format";
+
+function health(overrides: Partial<StreamHealth> = {}): StreamHealth {
+  return {
+    stream: "btcusdt@depth20@100ms",
+    kind: "depth",
+    symbol: "BTCUSDT",
+    connected: true,
+    lastMessageAt: Date.now(),
+    messagesPerSecond: 10,
+    stale: false,
+    reconnects: 0,
+    ...overrides,
+  };
+}
+
+describe("StreamHealthTracker", () => {
+  it("tracks message rate and flags continuous streams that go silent", () => {
+    let now = 0;
+    const tracker = new StreamHealthTracker(5000, () => now);
+    tracker.register("btcusdt@depth20@100ms", "depth", "BTCUSDT");
+    tracker.register("btcusdt@aggTrade", "trade", "BTCUSDT");
+    tracker.setConnected(true);
+    for (let i = 0; i < 100; i += 1) {
+      now += 100;
+      tracker.record("btcusdt@depth20@100ms");
+    }
+    now += 100;
+    const [depth] = tracker.getHealth();
+    expect(depth).toMatchObject({ lastMessageAt: 10_000, stale: false });
+    expect(depth!.messagesPerSecond).toBeCloseTo(10, 0);
+
+    now += 6000;
+    // 成交流在清淡行情中可以长时间没有消息，不视为冻结
+    expect(tracker.staleStreams()).toEqual(["btcusdt@depth20@100ms"]);
+
+    // 重新连接后给新连接一个完整的静默阈值
+    tracker.setConnected(true);
+    expect(tracker.staleStreams()).toEqual([]);
+  });
+
+  it("judges the user stream by connection rather than message silence", () => {
+    let now = 0;
+    const tracker = new StreamHealthTracker(5000, () => now);
+    tracker.register("user", "user", null);
+    tracker.setConnected(true);
+    // 空闲账户长时间没有消息，连接仍在即视为正常
+    now += 60_000;
+    expect(tracker.staleStreams()).toEqual([]);
+
+    tracker.setConnected(false);
+    now += 4000;
+    expect(tracker.staleStreams()).toEqual([]);
+    now += 2000;
+    expect(tracker.staleStreams()).toEqual(["user"]);
+
+    tracker.setConnected(true);
+    expect(tracker.staleStreams()).toEqual([]);
+  });
+});
+
+describe("formatStreamHealth", () => {
+  it("summarises rate, age and stale streams", () => {
+    const now = Date.now();
+    const text = formatStreamHealth(
+      [health({ lastMessageAt: now - 1000 }), health({ stream: "user", kind: "user", symbol: null, stale: true, lastMessageAt: now - 320_000 })],
+      now
+    );
+    expect(text).toBe("depth20@100ms 10.0/s 1s ｜ user ⚠️ 静默 320s");
+  });
+});
+
+describe("MakerEngine market data guard", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("pauses quoting while the adapter reports stale streams and resumes afterwards", async () => {
+    vi.useFakeTimers();
+    const adapter = new MockExchangeAdapter({ symbol: "BTCUSDT", initialBalance: 1000, spread: 0.2 });
+    let streams = [health({ stale: true, lastMessageAt: Date.now() - 20_000 })];
+    Object.assign(adapter, { getStreamHealth: () => streams });
+    const engine = new MakerEngine({ ...makerConfig, tradeAmount: 1 }, adapter);
+    adapter.pushPrice(100);
+    engine.start();
+
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(engine.isMarketDataFresh()).toBe(false);
+    expect(adapter.getOpenOrders()).toHaveLength(0);
+    const pauses = engine.getSnapshot().tradeLog.filter((entry) => entry.detail.includes("暂停下单"));
+    expect(pauses).toHaveLength(1);
+
+    streams = [health()];
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(adapter.getOpenOrders().length).toBeGreaterThan(0);
+    expect(engine.getSnapshot().streams).toEqual(streams);
+    engine.stop();
+  });
+
+  it("keeps managing an open position while only new entries are paused", async () => {
+    vi.useFakeTimers();
+    const adapter = new MockExchangeAdapter({ symbol: "BTCUSDT", initialBalance: 1000, spread: 0.2 });
+    Object.assign(adapter, { getStreamHealth: () => [health({ stale: true, lastMessageAt: Date.now() - 20_000 })] });
+    adapter.pushPrice(100);
+    await adapter.createOrder({ symbol: "BTCUSDT", side: "BUY", type: "MARKET", quantity: 1 });
+    const engine = new MakerEngine({ ...makerConfig, tradeAmount: 1, lossLimit: 100, profitTarget: 100 }, adapter);
+    adapter.pushPrice(100);
+    engine.start();
+
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(engine.getState()).toBe("running");
+    const orders = adapter.getOpenOrders().map((order) => `${order.side}${order.reduceOnly ? "(RO)" : ""}`);
+    expect(orders).toEqual(["SELL(RO)"]);
+    engine.stop();
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { parseSymbolFilters } from "../src/exchanges/aster/client";
+import type { AsterSymbolFilters } from "../src/exchanges/types";
+import { applySymbolFilters, findSymbolFilterViolation } from "../src/utils/symbol-filters";
+
+const exchangeInfoSymbol = {
+  symbol: "btcusdt",
+  filters: [
+    { filterType: "PRICE_FILTER", tickSize: "0.10", minPrice: "1", maxPrice: "1000000" },
+    { filterType: "LOT_SIZE", stepSize: "0.001", minQty: "0.001", maxQty: "100" },
+    { filterType: "MARKET_LOT_SIZE", stepSize: "0.01", minQty: "0.01", maxQty: "10" },
+    { filterType: "MIN_NOTIONAL", notional: "5" },
+    { filterType: "PERCENT_PRICE", multiplierUp: "1.05", multiplierDown: "0.95" },
+  ],
+};
+
+const filters: AsterSymbolFilters = parseSymbolFilters(exchangeInfoSymbol);
+
+describe("parseSymbolFilters", () => {
+  it("reads every supported filter from exchangeInfo", () => {
+    expect(filters).toEqual({
+      symbol: "BTCUSDT",
+      priceTick: 0.1,
+      minPrice: 1,
+      maxPrice: 1000000,
+      qtyStep: 0.001,
+      minQty: 0.001,
+      maxQty: 100,
+      marketQtyStep: 0.01,
+      marketMinQty: 0.01,
+      marketMaxQty: 10,
+      minNotional: 5,
+      percentPriceUp: 1.05,
+      percentPriceDown: 0.95,
+    });
+  });
+
+  it("falls back to LOT_SIZE when MARKET_LOT_SIZE is missing", () => {
+    const parsed = parseSymbolFilters({ symbol: "ETHUSDT", filters: exchangeInfoSymbol.filters.slice(0, 2) });
+    expect(parsed.marketQtyStep).toBe(0.001);
+    expect(parsed.marketMaxQty).toBe(100);
+    expect(parsed.minNotional).toBe(0);
+  });
+});
+
+describe("applySymbolFilters", () => {
+  it("rounds price to the tick and quantity to the lot step", () => {
+    const result = applySymbolFilters(
+      { symbol: "BTCUSDT", side: "BUY", type: "LIMIT", price: 100.07, quantity: 0.12345, timeInForce: "GTX" },
+      filters,
+      100
+    );
+    expect(result).toEqual({
+      ok: true,
+      params: { symbol: "BTCUSDT", side: "BUY", type: "LIMIT", price: 100, quantity: 0.123, timeInForce: "GTX" },
+    });
+  });
+
+  it("uses MARKET_LOT_SIZE for market orders", () => {
+    const result = applySymbolFilters({ symbol: "BTCUSDT", side: "SELL", type: "MARKET", quantity: 0.129 }, filters, 100);
+    expect(result.ok && result.params.quantity).toBe(0.12);
+    const tooLarge = applySymbolFilters({ symbol: "BTCUSDT", side: "SELL", type: "MARKET", quantity: 20 }, filters, 100);
+    expect(tooLarge).toMatchObject({ ok: false, violation: { filter: "MARKET_LOT_SIZE" } });
+  });
+
+  it("rejects quantities below the minimum after rounding", () => {
+    const result = applySymbolFilters({ symbol: "BTCUSDT", side: "BUY", type: "LIMIT", price: 100, quantity: 0.0004 }, filters);
+    expect(result).toMatchObject({ ok: false, violation: { filter: "LOT_SIZE" } });
+  });
+
+  it("enforces min notional except for reduce-only orders", () => {
+    const order = { symbol: "BTCUSDT", side: "BUY" as const, type: "LIMIT" as const, price: 100, quantity: 0.01 };
+    expect(applySymbolFilters(order, filters)).toMatchObject({ ok: false, violation: { filter: "MIN_NOTIONAL" } });
+    expect(applySymbolFilters({ ...order, reduceOnly: "true" }, filters).ok).toBe(true);
+    // 市价单没有参考价时无法计算名义价值
+    expect(applySymbolFilters({ ...order, type: "MARKET", price: undefined, quantity: 0.01 }, filters).ok).toBe(true);
+    expect(applySymbolFilters({ ...order, type: "MARKET", price: undefined, quantity: 0.01 }, filters, 100).ok).toBe(false);
+  });
+
+  it("rejects limit prices outside the percent price band", () => {
+    const order = { symbol: "BTCUSDT", side: "SELL" as const, type: "LIMIT" as const, price: 106, quantity: 1 };
+    expect(applySymbolFilters(order, filters, 100)).toMatchObject({ ok: false, violation: { filter: "PERCENT_PRICE" } });
+    expect(applySymbolFilters(order, filters).ok).toBe(true);
+  });
+
+  it("skips quantity checks for close-position stop orders", () => {
+    const result = applySymbolFilters(
+      { symbol: "BTCUSDT", side: "SELL", type: "STOP_MARKET", stopPrice: 95.04, closePosition: "true", quantity: 0 },
+      filters,
+      100
+    );
+    expect(result.ok && result.params.stopPrice).toBe(95);
+  });
+});
+
+describe("findSymbolFilterViolation", () => {
+  it("reports prices that are not tick multiples or out of range", () => {
+    expect(
+      findSymbolFilterViolation({ symbol: "BTCUSDT", side: "BUY", type: "LIMIT", price: 100.05, quantity: 1 }, filters)
+    ).toMatchObject({ filter: "PRICE_FILTER" });
+    expect(
+      findSymbolFilterViolation({ symbol: "BTCUSDT", side: "BUY", type: "LIMIT", price: 0.5, quantity: 100 }, filters)
+    ).toMatchObject({ filter: "PRICE_FILTER" });
+  });
+});
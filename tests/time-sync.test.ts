@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AsterRestClient } from "../src/exchanges/aster/client";
+import { TimeSync } from "../src/exchanges/aster/time-sync";
+import type { ClockSyncStatus } from "../src/exchanges/types";
+
+const config = { recvWindow: 5000, intervalMs: 60_000, driftWarnMs: 1000 };
+
+/** 服务器时钟比本地快 offset，每次请求耗时 rtt */
+function fakeClock(offset: number, rtts: number[]) {
+  let now = 1_000_000;
+  return {
+    now: () => now,
+    fetchServerTime: async () => {
+      const rtt = rtts.shift() ?? 20;
+      now += rtt / 2;
+      const serverTime = now + offset;
+      now += rtt / 2;
+      return serverTime;
+    },
+  };
+}
+
+describe("TimeSync", () => {
+  it("estimates the offset from the round-trip midpoint and smooths later samples", async () => {
+    const clock = fakeClock(1500, [40, 40, 1000]);
+    const sync = new TimeSync(clock.fetchServerTime, config, clock.now);
+    expect((await sync.sync())?.offsetMs).toBe(1500);
+    expect(sync.timestamp()).toBe(clock.now() + 1500);
+
+    expect((await sync.sync())?.rttMs).toBe(40);
+    // 往返过长的样本不参与平滑
+    await sync.sync();
+    expect(sync.getStatus()).toMatchObject({ offsetMs: 1500, rttMs: 40, recvWindow: 5000 });
+  });
+
+  it("notifies once when the drift exceeds the warning threshold", async () => {
+    const clock = fakeClock(-2500, []);
+    const sync = new TimeSync(clock.fetchServerTime, config, clock.now);
+    const drifts: ClockSyncStatus[] = [];
+    sync.onDrift((status) => drifts.push(status));
+    await sync.sync();
+    await sync.sync();
+    expect(drifts).toHaveLength(1);
+    expect(drifts[0]).toMatchObject({ offsetMs: -2500, drifting: true });
+  });
+
+  it("replays an ongoing drift to listeners that subscribe late", async () => {
+    const clock = fakeClock(-2500, []);
+    const sync = new TimeSync(clock.fetchServerTime, config, clock.now);
+    await sync.sync();
+    const drifts: ClockSyncStatus[] = [];
+    const unsubscribe = sync.onDrift((status) => drifts.push(status));
+    expect(drifts).toHaveLength(1);
+    expect(drifts[0]).toMatchObject({ offsetMs: -2500, drifting: true });
+    await sync.sync();
+    expect(drifts).toHaveLength(1);
+    unsubscribe();
+  });
+
+  it("keeps the previous offset when the server time request fails", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const sync = new TimeSync(async () => {
+      throw new Error("fetch failed");
+    }, config);
+    expect(await sync.sync()).toBeNull();
+    expect(sync.getStatus().offsetMs).toBe(0);
+  });
+});
+
+describe("AsterRestClient time sync", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("signs with the server-corrected timestamp and resyncs after -1021", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const serverOffset = 3000;
+    const signed: URL[] = [];
+    const fetchMock = vi.fn(async (input: string | URL | Request) => {
+      const url = new URL(String(input));
+      if (url.pathname === "/fapi/v1/time") {
+        return new Response(JSON.stringify({ serverTime: Date.now() + serverOffset }));
+      }
+      signed.push(url);
+      if (signed.length === 1) {
+        return new Response(JSON.stringify({ code: -1021, msg: "Timestamp for this request is outside of the recvWindow." }), { status: 400 });
+      }
+      return new Response("[]");
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    const client = new AsterRestClient({ apiKey: "key", apiSecret: "secret", recvWindow: 10_000 });
+
+    await expect(client.getIncomeHistory()).resolves.toEqual([]);
+    expect(signed).toHaveLength(2);
+    expect(signed[0]!.searchParams.get("recvWindow")).toBe("10000");
+    const corrected = Number(signed[1]!.searchParams.get("timestamp")) - Date.now();
+    expect(corrected).toBeGreaterThan(serverOffset - 500);
+    expect(client.getClockStatus().lastSyncAt).not.toBeNull();
+  });
+});
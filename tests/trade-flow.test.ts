@@ -0,0 +1,79 @@
+import { describe, expect, it, vi } from "vitest";
+import type { AsterTrade } from "../src/exchanges/types";
+import { TradeFlowAggregator } from "../src/utils/trade-flow";
+
+let nextId = 1;
+
+function trade(tradeTime: number, price: number, quantity: number, buyerMaker: boolean): AsterTrade {
+  return {
+    symbol: "BTCUSDT",
+    aggTradeId: nextId++,
+    price: String(price),
+    quantity: String(quantity),
+    tradeTime,
+    buyerMaker,
+  };
+}
+
+describe("TradeFlowAggregator", () => {
+  it("splits aggressor volume and computes vwap within the window", () => {
+    const flow = new TradeFlowAggregator({ windowMs: 10_000, now: () => 5_000 });
+    flow.push(trade(1_000, 100, 2, false));
+    flow.push(trade(2_000, 101, 1, true));
+    flow.push(trade(3_000, 102, 1, false));
+
+    const stats = flow.getStats();
+    expect(stats.tradeCount).toBe(3);
+    expect(stats.buyCount).toBe(2);
+    expect(stats.sellCount).toBe(1);
+    expect(stats.buyVolume).toBe(3);
+    expect(stats.sellVolume).toBe(1);
+    expect(stats.netVolume).toBe(2);
+    expect(stats.buyRatio).toBeCloseTo(0.75);
+    expect(stats.vwap).toBeCloseTo((200 + 101 + 102) / 4);
+    expect(stats.lastPrice).toBe(102);
+  });
+
+  it("drops trades that fall out of the rolling window", () => {
+    const flow = new TradeFlowAggregator({ windowMs: 10_000 });
+    flow.push(trade(1_000, 100, 2, false));
+    flow.push(trade(8_000, 100, 1, true));
+
+    const later = flow.getStats(12_000);
+    expect(later.tradeCount).toBe(1);
+    expect(later.buyVolume).toBe(0);
+    expect(later.sellVolume).toBe(1);
+
+    const empty = flow.getStats(30_000);
+    expect(empty.tradeCount).toBe(0);
+    expect(empty.buyRatio).toBeNull();
+    expect(empty.vwap).toBeNull();
+  });
+
+  it("flags large trades by multiple of the average size or by notional", () => {
+    const onLargeTrade = vi.fn();
+    const flow = new TradeFlowAggregator({
+      windowMs: 60_000,
+      largeTradeMultiplier: 5,
+      largeTradeNotional: 10_000,
+      minTradesForAverage: 3,
+      onLargeTrade,
+    });
+    // 平均数量不足样本数时只按名义价值判断
+    flow.push(trade(1, 100, 10, false));
+    flow.push(trade(2, 100, 1, true));
+    flow.push(trade(3, 100, 1, true));
+    flow.push(trade(4, 100, 1, true));
+    flow.push(trade(5, 100, 20, true));
+    flow.push(trade(6, 100, 150, false));
+
+    const stats = flow.getStats(10);
+    expect(stats.largeTrades).toHaveLength(2);
+    expect(stats.largeTrades[0]).toMatchObject({ side: "SELL", quantity: 20 });
+    expect(stats.largeTrades[0]!.multiple).toBeCloseTo(20 / 3.25);
+    expect(stats.largeTrades[1]).toMatchObject({ side: "BUY", quantity: 150, notional: 15_000 });
+    expect(stats.largeBuyVolume).toBe(150);
+    expect(stats.largeSellVolume).toBe(20);
+    expect(onLargeTrade).toHaveBeenCalledTimes(2);
+  });
+});